@@ -1,37 +1,69 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { LayoutDashboard, Settings, Layers, Zap, PlayCircle, List, Eye, Lock } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { LayoutDashboard, Settings, Layers, Zap, PlayCircle, List, Eye, FlaskConical, LogOut, UserCircle, ScrollText } from 'lucide-react';
 import { okxService } from './services/okxService';
-import { analyzeMarketConditions } from './services/deepseekService';
+import { setEngineProfile, getEngineStatus, startStrategy, stopStrategy } from './services/engineService';
+import { fetchStrategies, saveStrategy, deleteStrategy, fetchStrategyHistory, appendLog } from './services/storeService';
+import { fetchVaultStatus } from './services/vaultService';
+import { fetchFundingLedger, fetchPositionBook } from './services/ledgerService';
+import { openStream } from './services/streamService';
+import { fetchAuthStatus, logout, hasRole } from './services/authService';
 import Dashboard from './components/Dashboard';
 import StrategyManager from './components/StrategyManager';
 import LogsPanel from './components/LogsPanel';
 import OrdersPanel from './components/OrdersPanel';
+import TradeJournalPanel from './components/TradeJournalPanel';
 import AnalysisModal from './components/AnalysisModal';
-import { Asset, TickerData, StrategyConfig, LogEntry, OKXConfig, AIAnalysisResult, Position, Instrument } from './types';
-import { DEFAULT_STRATEGIES, MOCK_LOGS_INIT } from './constants';
+import BacktestPanel from './components/BacktestPanel';
+import CredentialVaultPanel from './components/CredentialVaultPanel';
+import UserManagementPanel from './components/UserManagementPanel';
+import LoginScreen from './components/LoginScreen';
+import KillSwitchButton from './components/KillSwitchButton';
+import CircuitBreakerPanel from './components/CircuitBreakerPanel';
+import ExposureLimitsPanel from './components/ExposureLimitsPanel';
+import { Asset, TickerData, StrategyConfig, StrategyType, LogEntry, VaultStatus, AuthStatus, FundingLedgerSummary, PairPnLReport, AIAnalysisResult, AITradeRecord, Position, EngineStrategyStatus, StreamStatus, StreamEvent, HedgeCheck, RiskSnapshot, CircuitBreakerStatus, ExposureStatus } from './types';
+import { STRATEGY_TEMPLATES } from './constants';
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'strategies' | 'orders' | 'settings'>('dashboard');
+  const [auth, setAuth] = useState<AuthStatus | null>(null);
+  const user = auth?.user ?? null;
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'strategies' | 'orders' | 'journal' | 'backtest' | 'settings'>('dashboard');
   const [assets, setAssets] = useState<Asset[]>([]);
   const [marketData, setMarketData] = useState<TickerData[]>([]);
   const [positions, setPositions] = useState<Position[]>([]);
-  const [instruments, setInstruments] = useState<Instrument[]>([]); 
   const [totalEquity, setTotalEquity] = useState<number>(0);
   const [availableEq, setAvailableEq] = useState<number>(0); 
-  const [strategies, setStrategies] = useState<StrategyConfig[]>(DEFAULT_STRATEGIES);
-  const [logs, setLogs] = useState<LogEntry[]>(MOCK_LOGS_INIT);
+  const [strategies, setStrategies] = useState<StrategyConfig[]>([]);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [engineLogs, setEngineLogs] = useState<LogEntry[]>([]);
+  const [engineStatuses, setEngineStatuses] = useState<Record<string, EngineStrategyStatus>>({});
   const [lastAnalysis, setLastAnalysis] = useState<AIAnalysisResult | null>(null);
+  const [aiTrades, setAiTrades] = useState<AITradeRecord[]>([]);
+  const [fundingLedger, setFundingLedger] = useState<FundingLedgerSummary | null>(null);
+  const [positionBook, setPositionBook] = useState<PairPnLReport[]>([]);
+  const [hedgeChecks, setHedgeChecks] = useState<HedgeCheck[]>([]);
+  const [risk, setRisk] = useState<RiskSnapshot | null>(null);
+  const [circuitBreaker, setCircuitBreaker] = useState<CircuitBreakerStatus | null>(null);
+  const [exposure, setExposure] = useState<ExposureStatus | null>(null);
   const [isAnalysisModalOpen, setIsAnalysisModalOpen] = useState(false);
-  const [deepseekKey, setDeepseekKey] = useState<string>(localStorage.getItem('deepseek_key') || '');
-  const [okxConfig, setOkxConfig] = useState<OKXConfig>({ apiKey: '', secretKey: '', passphrase: '', isSimulated: true });
+  const [vault, setVault] = useState<VaultStatus | null>(null);
+  // 实时推送在线时，对应数据不再走 REST 轮询 (fetchData 由定时器调用，用 ref 读取最新状态)
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>({ public: false, private: false });
+  const streamLive = useRef<StreamStatus>(streamStatus);
+  // 与服务端引擎共用同一个凭证配置，密钥不离开服务端
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const activeProfile = vault?.profiles.find(p => p.id === profileId) ?? null;
 
   const addLog = (level: LogEntry['level'], source: LogEntry['source'], message: string) => {
-    setLogs(prev => [...prev, { id: Math.random().toString(36), timestamp: Date.now(), level, source, message }]);
+    const entry: LogEntry = { id: `ui-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, timestamp: Date.now(), level, source, message };
+    setLogs(prev => [...prev, entry]);
+    // 写入服务端日志，刷新页面或其他成员打开面板时可见
+    appendLog(entry).catch(e => console.error(e));
   };
 
   useEffect(() => {
-    okxService.setConfig(okxConfig);
-    if (okxConfig.apiKey) {
+    const ready = !!profileId && !!vault?.unlocked;
+    okxService.setConfig(ready ? { profileId: profileId! } : null);
+    if (ready) {
         okxService.checkAccountConfiguration().then(valid => {
             if (!valid) {
                 addLog('error', 'SYSTEM', 'CRITICAL: 账户处于“简单模式”，无法进行合约套利！');
@@ -40,231 +72,259 @@ const App: React.FC = () => {
                 addLog('success', 'SYSTEM', '账户模式检测通过，支持全仓套利逻辑。');
             }
         });
-        okxService.getInstruments('SWAP').then(setInstruments);
         fetchData();
     }
     const interval = setInterval(fetchData, 15000); 
     return () => clearInterval(interval);
-  }, [okxConfig]);
+  }, [profileId, vault?.unlocked]);
+
+  useEffect(() => {
+    if (!profileId || !vault?.unlocked) return;
+    const close = openStream(handleStreamEvent);
+    return () => {
+      close();
+      streamLive.current = { public: false, private: false };
+      setStreamStatus(streamLive.current);
+    };
+  }, [profileId, vault?.unlocked]);
+
+  const handleStreamEvent = (event: StreamEvent) => {
+    switch (event.type) {
+      case 'status':
+        streamLive.current = event.data;
+        setStreamStatus(event.data);
+        break;
+      case 'market':
+        setMarketData(event.data);
+        break;
+      case 'positions':
+        setPositions(event.data);
+        break;
+      case 'account':
+        applyAssets(event.data);
+        break;
+    }
+  };
+
+  const applyAssets = (newAssets: Asset[]) => {
+    setAssets(newAssets.filter(a => a.currency !== 'ACCOUNT_AVAIL_EQ'));
+    
+    const availInfo = newAssets.find(a => a.currency === 'ACCOUNT_AVAIL_EQ');
+    if (availInfo) setAvailableEq(availInfo.available);
+    
+    setTotalEquity(newAssets.filter(a => a.currency !== 'ACCOUNT_AVAIL_EQ').reduce((sum, a) => sum + a.equityUsd, 0));
+  };
 
   const fetchData = async () => {
-    if (!okxConfig.apiKey) return;
+    if (!profileId || !vault?.unlocked) return;
+    const live = streamLive.current;
     try {
       const [newAssets, newRates, newPositions] = await Promise.all([
-        okxService.getAccountAssets(), okxService.getFundingRates(), okxService.getPositions()
+        live.private ? null : okxService.getAccountAssets(),
+        live.public ? null : okxService.getFundingRates(),
+        live.private ? null : okxService.getPositions()
       ]);
-      setAssets(newAssets.filter(a => a.currency !== 'ACCOUNT_AVAIL_EQ'));
-      setMarketData(newRates);
-      setPositions(newPositions);
-      
-      const availInfo = newAssets.find(a => a.currency === 'ACCOUNT_AVAIL_EQ');
-      if (availInfo) setAvailableEq(availInfo.available);
-      
-      setTotalEquity(newAssets.filter(a => a.currency !== 'ACCOUNT_AVAIL_EQ').reduce((sum, a) => sum + a.equityUsd, 0));
+      if (newAssets) applyAssets(newAssets);
+      if (newRates) setMarketData(newRates);
+      if (newPositions) setPositions(newPositions);
+      const [ledger, book] = await Promise.all([fetchFundingLedger(), fetchPositionBook()]);
+      setFundingLedger(ledger);
+      setPositionBook(book);
     } catch (e) { console.error(e); }
   };
 
-  const strategiesRef = useRef(strategies);
-  const positionsRef = useRef(positions);
-  const instrumentsRef = useRef(instruments);
-  const assetsRef = useRef(assets);
-  const availableEqRef = useRef(availableEq);
-  const deepseekKeyRef = useRef(deepseekKey);
+  const refreshAuth = () => fetchAuthStatus().then(setAuth).catch(e => console.error(e));
 
-  useEffect(() => { strategiesRef.current = strategies; }, [strategies]);
-  useEffect(() => { positionsRef.current = positions; }, [positions]);
-  useEffect(() => { instrumentsRef.current = instruments; }, [instruments]);
-  useEffect(() => { assetsRef.current = assets; }, [assets]);
-  useEffect(() => { availableEqRef.current = availableEq; }, [availableEq]);
-  useEffect(() => { 
-    deepseekKeyRef.current = deepseekKey; 
-    localStorage.setItem('deepseek_key', deepseekKey);
-  }, [deepseekKey]);
+  const refreshVault = () => fetchVaultStatus().then(setVault).catch(e => console.error(e));
 
   useEffect(() => {
-    let timeoutId: any;
-    const runLoop = async () => {
-      const activeStrats = strategiesRef.current.filter(s => s.isActive);
-      for (const strategy of activeStrats) {
-        const scanInterval = (strategy.parameters.scanInterval || 60) * 1000;
-        const timeSinceLastRun = Date.now() - (strategy.lastRun || 0);
-        if (timeSinceLastRun >= scanInterval) await executeMultiAssetStrategy(strategy);
-      }
-      timeoutId = setTimeout(runLoop, 3000); 
-    };
+    // DeepSeek Key 已迁移至服务端凭证库，清除旧版本遗留在浏览器中的明文
+    localStorage.removeItem('deepseek_key');
+    refreshAuth();
+  }, []);
 
-    const executeMultiAssetStrategy = async (strategy: StrategyConfig) => {
-        const isConfigValid = await okxService.checkAccountConfiguration();
-        if (!isConfigValid) {
-            addLog('error', 'STRATEGY', '策略拦截：账户模式不兼容，请切换为“跨币种保证金模式”后再启动。');
-            toggleStrategy(strategy.id, 'isActive');
-            return;
-        }
+  useEffect(() => {
+    if (user) refreshVault();
+  }, [user?.username]);
 
-        addLog('info', 'STRATEGY', `[雷达扫描] 正在全市场搜寻套利机会...`);
-        
-        const [allTickers, spotInsts] = await Promise.all([
-          okxService.getMarketTickers(),
-          okxService.getInstruments('SPOT')
-        ]);
-        
-        const minVol = strategy.parameters.minVolume24h || 5000000;
-        const minRate = strategy.parameters.minFundingRate || 0.0002;
-        
-        const tradeableSwapTickers = allTickers.filter(t => {
-            const isSwap = t.instId.endsWith('-USDT-SWAP');
-            if (!isSwap) return false;
-            const parts = t.instId.split('-');
-            const expectedSpotId = `${parts[0]}-${parts[1]}`;
-            const hasSpot = spotInsts.some(si => si.instId === expectedSpotId);
-            return hasSpot && parseFloat(t.volUsdt24h) > minVol;
-        });
-        
-        const topCandidates: TickerData[] = [];
-        const sortedByVol = tradeableSwapTickers.sort((a, b) => parseFloat(b.volUsdt24h) - parseFloat(a.volUsdt24h)).slice(0, 30);
-        
-        for (const cand of sortedByVol) {
-            const rate = await okxService.getFundingRate(cand.instId);
-            if (parseFloat(rate) >= minRate) topCandidates.push({ ...cand, fundingRate: rate });
-            if (topCandidates.length >= 10) break;
-        }
+  const handleLogout = () => {
+    logout().catch(e => console.error(e)).finally(() => window.location.reload());
+  };
 
-        if (topCandidates.length === 0) {
-            addLog('info', 'STRATEGY', '扫描结束：当前市场暂无高收益标的。');
-            updateStrategyLastRun(strategy.id);
-            return;
-        }
+  // 切换凭证配置会同步到服务端引擎 (策略循环在服务端运行，关闭页面后仍持续)
+  const selectProfile = async (id: string | null) => {
+    try {
+      await setEngineProfile(id);
+      setProfileId(id);
+    } catch (e) {
+      addLog('error', 'SYSTEM', `凭证配置切换失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+    }
+  };
 
-        let finalTradeQueue = topCandidates.sort((a,b) => parseFloat(b.fundingRate) - parseFloat(a.fundingRate));
-        if (strategy.parameters.useAI) {
-            const analysis = await analyzeMarketConditions(topCandidates.slice(0, 10), strategy.name, deepseekKeyRef.current);
-            setLastAnalysis(analysis);
-            if (analysis.recommendedAction === 'BUY' && analysis.suggestedPairs.length > 0) {
-                finalTradeQueue = analysis.suggestedPairs
-                    .map(pair => topCandidates.find(t => t.instId === pair))
-                    .filter((t): t is TickerData => !!t);
-                addLog('success', 'AI', `AI 审核通过：发现 ${finalTradeQueue.length} 个优质标的。`);
-            } else {
-                addLog('warning', 'AI', `AI 建议观望：${analysis.reasoning}`);
-                updateStrategyLastRun(strategy.id);
-                return;
-            }
-        }
+  const applyEngineStatus = (status: EngineStrategyStatus) => {
+    setEngineStatuses(prev => ({ ...prev, [status.id]: status }));
+    setStrategies(prev => prev.map(s => s.id === status.id
+      ? { ...s, isActive: status.running, isTrading: status.isTrading, lastRun: status.lastRun }
+      : s));
+  };
 
-        const currentPositions = positionsRef.current.filter(p => parseFloat(p.pos) !== 0);
-        for (const pos of currentPositions) {
-            const currentRate = parseFloat(await okxService.getFundingRate(pos.instId));
-            if (currentRate < (strategy.parameters.exitThreshold || 0.0001)) {
-                if (!strategy.isTrading) {
-                    addLog('warning', 'STRATEGY', `[模拟信号] ${pos.instId} 费率降至 ${(currentRate*100).toFixed(4)}%，触发出场条件 (交易开关关闭)。`);
-                    continue;
-                }
-                addLog('warning', 'STRATEGY', `[退出执行] ${pos.instId} 费率低，执行平仓。`);
-                const instInfo = instrumentsRef.current.find(i => i.instId === pos.instId);
-                if (instInfo) await okxService.executeDualSideExit(pos.instId, instInfo, pos.pos);
-            }
-        }
+  useEffect(() => {
+    if (!user) return;
+    // 策略配置以服务端存储为准，引擎运行状态覆盖其上
+    const syncEngine = async () => {
+      try {
+        const [stored, status] = await Promise.all([fetchStrategies(), getEngineStatus()]);
+        setStrategies(stored);
+        setEngineLogs(status.logs);
+        if (status.lastAnalysis) setLastAnalysis(status.lastAnalysis);
+        setAiTrades(status.aiTrades || []);
+        setHedgeChecks(status.hedgeChecks || []);
+        setRisk(status.risk ?? null);
+        setCircuitBreaker(status.circuitBreaker ?? null);
+        setExposure(status.exposure ?? null);
+        setProfileId(status.profileId);
+        status.strategies.forEach(applyEngineStatus);
+      } catch (e) {
+        console.error(e);
+        // 会话过期时回到登录页
+        refreshAuth();
+      }
+    };
+    syncEngine();
+    const interval = setInterval(syncEngine, 3000);
+    return () => clearInterval(interval);
+  }, [user?.username]);
 
-        const updatedPos = await okxService.getPositions();
-        const activeCount = updatedPos.filter(p => parseFloat(p.pos) !== 0).length;
-        const maxPos = strategy.parameters.maxPositions || 3;
+  const toggleStrategy = async (id: string, field: 'isActive' | 'isTrading') => {
+      const current = strategies.find(s => s.id === id);
+      if (!current) return;
+      const updated = { ...current, [field]: !current[field] };
+      // Safety logic: If Radar (isActive) is turned off, Execution (isTrading) must also be off
+      if (field === 'isActive' && updated.isActive === false) {
+          updated.isTrading = false;
+      }
+      setStrategies(prev => prev.map(s => s.id === id ? updated : s));
+      try {
+          const status = updated.isActive ? await startStrategy(updated) : await stopStrategy(id);
+          if (status) applyEngineStatus(status);
+      } catch (e) {
+          addLog('error', 'SYSTEM', `引擎指令失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+          setStrategies(prev => prev.map(s => s.id === id ? current : s));
+      }
+  };
+  
+  const persistStrategy = (strategy: StrategyConfig) => {
+      saveStrategy(strategy).catch(e => addLog('error', 'SYSTEM', `策略保存失败: ${e instanceof Error ? e.message : 'Unknown'}`));
+  };
 
-        if (activeCount < maxPos) {
-            const slots = maxPos - activeCount;
-            const newEntries = finalTradeQueue.filter(t => !updatedPos.some(p => p.instId === t.instId)).slice(0, slots);
+  const updateStrategy = (updated: StrategyConfig) => {
+      setStrategies(prev => prev.map(s => s.id === updated.id ? updated : s));
+      persistStrategy(updated);
+      // 运行中的策略立即把新参数下发给引擎
+      if (updated.isActive) {
+          startStrategy(updated).catch(e => addLog('error', 'SYSTEM', `引擎参数同步失败: ${e instanceof Error ? e.message : 'Unknown'}`));
+      }
+  };
 
-            const usdtAsset = assetsRef.current.find(a => a.currency === 'USDT');
-            let remainingUsdtCash = usdtAsset ? usdtAsset.available : 0;
-            const allocationPct = strategy.parameters.allocationPct || 30;
+  const newStrategyId = (type: StrategyType) => `${type.toLowerCase().replace(/_/g, '-')}-${Date.now().toString(36)}`;
 
-            for (const target of newEntries) {
-                const investAmt = (remainingUsdtCash * (allocationPct / 100)) * 0.95;
-                const swapInfo = instrumentsRef.current.find(i => i.instId === target.instId);
-                
-                if (swapInfo && investAmt > 20) {
-                    if (!strategy.isTrading) {
-                        addLog('info', 'STRATEGY', `[模拟入场] 标的: ${target.instId}, 费率: ${(parseFloat(target.fundingRate)*100).toFixed(4)}%, 拟投入: $${investAmt.toFixed(2)} (交易未开启)`);
-                        continue; 
-                    }
+  const createStrategy = (type: StrategyType) => {
+      const template = STRATEGY_TEMPLATES[type];
+      if (!template) return;
+      const strategy: StrategyConfig = {
+          id: newStrategyId(type),
+          name: template.name,
+          type,
+          isActive: false,
+          isTrading: false,
+          parameters: { ...template.parameters },
+          lastRun: 0
+      };
+      setStrategies(prev => [...prev, strategy]);
+      persistStrategy(strategy);
+  };
 
-                    // 增加抖动延时
-                    await new Promise(r => setTimeout(r, Math.random() * 2000 + 3000));
-                    
-                    addLog('info', 'STRATEGY', `[入场决策] 标的: ${target.instId}, 拟分配 USDT: $${investAmt.toFixed(2)}`);
-                    const res = await okxService.executeDualSideEntry(target.instId, investAmt, swapInfo);
-                    
-                    if (res.success) {
-                        addLog('success', 'STRATEGY', res.message);
-                        remainingUsdtCash -= investAmt;
-                    } else {
-                        addLog('error', 'STRATEGY', `执行失败: ${res.message}`);
-                    }
-                }
-            }
-        }
+  const cloneStrategy = (id: string) => {
+      const source = strategies.find(s => s.id === id);
+      if (!source) return;
+      const clone: StrategyConfig = {
+          ...source,
+          id: newStrategyId(source.type),
+          name: `${source.name} (副本)`,
+          isActive: false,
+          isTrading: false,
+          parameters: JSON.parse(JSON.stringify(source.parameters)),
+          lastRun: 0
+      };
+      setStrategies(prev => [...prev, clone]);
+      persistStrategy(clone);
+  };
 
-        updateStrategyLastRun(strategy.id);
-    };
+  const removeStrategy = async (id: string) => {
+      try {
+          await deleteStrategy(id);
+          setStrategies(prev => prev.filter(s => s.id !== id));
+          setEngineStatuses(prev => {
+              const { [id]: _removed, ...rest } = prev;
+              return rest;
+          });
+      } catch (e) {
+          addLog('error', 'SYSTEM', `删除策略失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+      }
+  };
 
-    const updateStrategyLastRun = (id: string) => {
-      setStrategies(prev => prev.map(s => s.id === id ? {...s, lastRun: Date.now()} : s));
-    };
-    runLoop();
-    return () => clearTimeout(timeoutId);
-  }, []); 
+  // 服务端日志已包含本地写入的条目，按 id 去重
+  const allLogs = useMemo(
+    () => [...new Map([...logs, ...engineLogs].map(l => [l.id, l])).values()].sort((a, b) => a.timestamp - b.timestamp),
+    [logs, engineLogs]
+  );
 
-  const toggleStrategy = (id: string, field: 'isActive' | 'isTrading') => {
-      setStrategies(prev => prev.map(s => {
-          if (s.id !== id) return s;
-          const updated = { ...s, [field]: !s[field] };
-          // Safety logic: If Radar (isActive) is turned off, Execution (isTrading) must also be off
-          if (field === 'isActive' && updated.isActive === false) {
-              updated.isTrading = false;
-          }
-          return updated;
-      }));
-  };
-  
-  const updateStrategy = (updated: StrategyConfig) => setStrategies(prev => prev.map(s => s.id === updated.id ? updated : s));
+  if (!auth) {
+    return <div className="min-h-screen bg-slate-900 text-slate-500 flex items-center justify-center text-sm">正在连接服务器...</div>;
+  }
+  if (!user) {
+    return <LoginScreen needsSetup={auth.needsSetup} onAuthenticated={setAuth} />;
+  }
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-200 font-sans flex flex-col md:flex-row">
-      <AnalysisModal isOpen={isAnalysisModalOpen} onClose={() => setIsAnalysisModalOpen(false)} analysis={lastAnalysis} />
+      <AnalysisModal isOpen={isAnalysisModalOpen} onClose={() => setIsAnalysisModalOpen(false)} analysis={lastAnalysis} trades={aiTrades} />
       <aside className="w-full md:w-64 bg-slate-950 border-r border-slate-800 flex flex-col shrink-0">
         <div className="p-6 border-b border-slate-800"><div className="flex items-center gap-2 text-emerald-500 font-bold text-xl"><Zap className="fill-current" /> QuantX</div></div>
         <nav className="flex-1 p-4 space-y-2">
           <button onClick={() => setActiveTab('dashboard')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg ${activeTab === 'dashboard' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><LayoutDashboard className="w-5 h-5" /> 仪表盘</button>
           <button onClick={() => setActiveTab('orders')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg ${activeTab === 'orders' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><List className="w-5 h-5" /> 交易监控</button>
+          <button onClick={() => setActiveTab('journal')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg ${activeTab === 'journal' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><ScrollText className="w-5 h-5" /> 交易日志</button>
           <button onClick={() => setActiveTab('strategies')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg ${activeTab === 'strategies' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><Layers className="w-5 h-5" /> 策略管理</button>
+          <button onClick={() => setActiveTab('backtest')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg ${activeTab === 'backtest' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><FlaskConical className="w-5 h-5" /> 策略回测</button>
           <button onClick={() => setActiveTab('settings')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg ${activeTab === 'settings' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-900'}`}><Settings className="w-5 h-5" /> 系统设置</button>
         </nav>
+        <div className="px-4 pb-4">
+          <KillSwitchButton status={circuitBreaker} user={user} onChange={setCircuitBreaker} />
+        </div>
+        <div className="p-4 border-t border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-sm text-slate-300"><UserCircle className="w-5 h-5 text-slate-500" /><div><div className="font-medium">{user.username}</div><div className="text-[10px] text-slate-500 uppercase">{user.role}</div></div></div>
+          <button onClick={handleLogout} className="text-slate-500 hover:text-white" title="退出登录"><LogOut className="w-4 h-4" /></button>
+        </div>
       </aside>
       <main className="flex-1 overflow-y-auto p-4 md:p-8">
         {activeTab === 'dashboard' && (
           <div className="space-y-6">
-            <Dashboard assets={assets} strategies={strategies} marketData={marketData} totalEquity={totalEquity} positions={positions} okxConfig={okxConfig} />
-            <div className="flex justify-end"><button onClick={() => setIsAnalysisModalOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-bold disabled:opacity-50" disabled={!lastAnalysis}><Eye className="w-4 h-4" /> 查看 AI 批量审核报告</button></div>
-            <LogsPanel logs={logs} />
+            <Dashboard assets={assets} strategies={strategies} marketData={marketData} totalEquity={totalEquity} positions={positions} profile={activeProfile} canTrade={hasRole(user, 'trader')} fundingLedger={fundingLedger} positionBook={positionBook} streamStatus={streamStatus} hedgeChecks={hedgeChecks} risk={risk} />
+            <div className="flex justify-end"><button onClick={() => setIsAnalysisModalOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-bold disabled:opacity-50" disabled={!lastAnalysis && aiTrades.length === 0}><Eye className="w-4 h-4" /> 查看 AI 批量审核报告</button></div>
+            <LogsPanel logs={allLogs} />
           </div>
         )}
         {activeTab === 'orders' && <OrdersPanel />}
-        {activeTab === 'strategies' && <StrategyManager strategies={strategies} onToggleStrategy={toggleStrategy} onUpdateStrategy={updateStrategy} />}
+        {activeTab === 'journal' && <TradeJournalPanel strategies={strategies} />}
+        {activeTab === 'strategies' && <StrategyManager strategies={strategies} engineStatuses={engineStatuses} onToggleStrategy={toggleStrategy} onUpdateStrategy={updateStrategy} onCreateStrategy={createStrategy} onCloneStrategy={cloneStrategy} onDeleteStrategy={removeStrategy} onLoadHistory={fetchStrategyHistory} user={user} />}
+        {activeTab === 'backtest' && <BacktestPanel strategies={strategies} />}
         {activeTab === 'settings' && (
           <div className="max-w-2xl space-y-6">
-            <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-xl">
-              <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2"><Lock className="w-5 h-5 text-blue-400" /> DeepSeek 秘钥配置</h2>
-              <input type="password" placeholder="sk-..." value={deepseekKey} onChange={(e) => setDeepseekKey(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white font-mono text-sm mb-4" />
-              <p className="text-[10px] text-slate-500 italic">API Key 仅本地加密存储，绝不上传。</p>
-            </div>
-            <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-xl">
-              <h2 className="text-xl font-bold text-white mb-6">OKX V5 连接</h2>
-              <div className="space-y-4">
-                <div className="flex items-center gap-3 mb-2"><input type="checkbox" id="sim" checked={okxConfig.isSimulated} onChange={(e) => setOkxConfig({...okxConfig, isSimulated: e.target.checked})} className="w-4 h-4" /><label htmlFor="sim" className="text-sm">启用模拟盘</label></div>
-                <input type="text" placeholder="API Key" value={okxConfig.apiKey} onChange={(e) => setOkxConfig({...okxConfig, apiKey: e.target.value})} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white font-mono text-sm" />
-                <input type="password" placeholder="Secret Key" value={okxConfig.secretKey} onChange={(e) => setOkxConfig({...okxConfig, secretKey: e.target.value})} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white font-mono text-sm" />
-                <input type="password" placeholder="Passphrase" value={okxConfig.passphrase} onChange={(e) => setOkxConfig({...okxConfig, passphrase: e.target.value})} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white font-mono text-sm" />
-              </div>
-            </div>
+            <CredentialVaultPanel vault={vault} activeProfileId={profileId} onSelectProfile={selectProfile} onVaultChange={refreshVault} readOnly={!hasRole(user, 'trader')} />
+            <CircuitBreakerPanel status={circuitBreaker} readOnly={!hasRole(user, 'trader')} onSaved={() => getEngineStatus().then(status => setCircuitBreaker(status.circuitBreaker)).catch(console.error)} />
+            <ExposureLimitsPanel status={exposure} readOnly={!hasRole(user, 'trader')} onSaved={() => getEngineStatus().then(status => setExposure(status.exposure)).catch(console.error)} />
+            {hasRole(user, 'trader') && <UserManagementPanel currentUser={user} />}
           </div>
         )}
       </main>
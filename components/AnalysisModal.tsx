@@ -1,15 +1,77 @@
-import React from 'react';
-import { X, ShieldAlert, TrendingUp, TrendingDown, MinusCircle, Lightbulb, Activity } from 'lucide-react';
-import { AIAnalysisResult } from '../types';
+import React, { useState } from 'react';
+import { X, ShieldAlert, TrendingUp, TrendingDown, MinusCircle, Lightbulb, Activity, ClipboardList } from 'lucide-react';
+import { AIAnalysisResult, AITradeRecord } from '../types';
 
 interface AnalysisModalProps {
   isOpen: boolean;
   onClose: () => void;
   analysis: AIAnalysisResult | null;
+  trades?: AITradeRecord[];
 }
 
-const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, analysis }) => {
-  if (!isOpen || !analysis) return null;
+const EXIT_REASON_LABELS: Record<NonNullable<AITradeRecord['exitReason']>, string> = {
+  STOP_LOSS: '止损',
+  TAKE_PROFIT: '止盈',
+  SIGNAL_FLIP: '信号反转',
+};
+
+const TradeAuditRow: React.FC<{ trade: AITradeRecord }> = ({ trade }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { signal, features } = trade;
+  return (
+    <div className="bg-slate-800/60 border border-slate-700 rounded-lg">
+      <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center justify-between gap-3 p-3 text-left">
+        <div className="flex items-center gap-2 text-sm">
+          {trade.direction === 'LONG'
+            ? <TrendingUp className="w-4 h-4 text-emerald-400" />
+            : <TrendingDown className="w-4 h-4 text-red-400" />}
+          <span className="font-mono text-slate-200">{trade.instId}</span>
+          <span className={`text-xs px-1.5 py-0.5 rounded ${trade.action === 'OPEN' ? 'bg-blue-500/20 text-blue-300' : 'bg-slate-600/40 text-slate-300'}`}>
+            {trade.action === 'OPEN' ? '开仓' : `平仓 · ${EXIT_REASON_LABELS[trade.exitReason!] || ''}`}
+          </span>
+          {trade.simulated && <span className="text-[10px] px-1.5 py-0.5 rounded bg-yellow-500/10 text-yellow-400">模拟</span>}
+        </div>
+        <div className="flex items-center gap-4 text-xs text-slate-400">
+          {trade.pnlPct !== undefined && (
+            <span className={trade.pnlPct >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+              {trade.pnlPct >= 0 ? '+' : ''}{trade.pnlPct.toFixed(2)}%
+            </span>
+          )}
+          <span>{trade.contracts} 张 @ {trade.price}</span>
+          <span>{new Date(trade.ts).toLocaleString()}</span>
+        </div>
+      </button>
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3 text-xs text-slate-300 border-t border-slate-700/60 pt-3">
+          <div>
+            <span className="text-slate-500">AI 结论 (置信度 {(signal.confidence * 100).toFixed(0)}%)：</span>{signal.summary || '-'}
+          </div>
+          {signal.factors.length > 0 && (
+            <div>
+              <div className="text-slate-500 mb-1">支持依据</div>
+              <ul className="list-disc list-inside space-y-0.5">{signal.factors.map((f, i) => <li key={i}>{f}</li>)}</ul>
+            </div>
+          )}
+          {signal.risks.length > 0 && (
+            <div>
+              <div className="text-slate-500 mb-1">风险提示</div>
+              <ul className="list-disc list-inside space-y-0.5 text-yellow-300/80">{signal.risks.map((r, i) => <li key={i}>{r}</li>)}</ul>
+            </div>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 font-mono text-[11px] text-slate-400">
+            <span>24h: {features.priceChange24hPct.toFixed(2)}%</span>
+            <span>费率: {(features.fundingRate * 100).toFixed(4)}%</span>
+            <span>成交额: {(features.volUsdt24h / 1e6).toFixed(1)}M</span>
+            <span>持仓量: {(features.openInterestUsd / 1e6).toFixed(1)}M</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, analysis, trades = [] }) => {
+  if (!isOpen || (!analysis && trades.length === 0)) return null;
 
   const getActionColor = (action: string) => {
     switch (action) {
@@ -59,6 +121,7 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, analysis
         {/* Scrollable Body */}
         <div className="p-6 overflow-y-auto space-y-6 custom-scrollbar">
           
+          {analysis && (<>
           {/* Top Status Cards */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
              {/* Decision Card */}
@@ -113,6 +176,19 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, analysis
                 {analysis.reasoning}
             </div>
           </div>
+          </>)}
+
+          {/* AI Sentiment Trade Audit */}
+          {trades.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-white mb-3 flex items-center gap-2">
+                <ClipboardList className="w-4 h-4 text-indigo-400" /> AI 择时交易审计 (Trade Rationale)
+              </h3>
+              <div className="space-y-2">
+                {[...trades].reverse().map(trade => <TradeAuditRow key={trade.id} trade={trade} />)}
+              </div>
+            </div>
+          )}
 
         </div>
         
@@ -0,0 +1,243 @@
+import React, { useState, useMemo } from 'react';
+import { StrategyConfig, StrategyType, FundingHistoryRow, BacktestSettings, BacktestResult } from '../types';
+import { parseFundingHistory, runFundingBacktest, DEFAULT_BACKTEST_SETTINGS } from '../services/backtestService';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as ReTooltip } from 'recharts';
+import { FlaskConical, Upload, PlayCircle, TrendingUp, TrendingDown, DollarSign, RefreshCw, AlertTriangle } from 'lucide-react';
+
+interface BacktestPanelProps {
+  strategies: StrategyConfig[];
+}
+
+const PARAM_FIELDS: { key: string; label: string; step: string }[] = [
+  { key: 'minFundingRate', label: '最低费率 (minFundingRate)', step: '0.0001' },
+  { key: 'exitThreshold', label: '出场费率 (exitThreshold)', step: '0.0001' },
+  { key: 'rotationThreshold', label: '轮动差值 (rotationThreshold)', step: '0.0001' },
+  { key: 'rotationHoldPeriods', label: '手续费摊销期数 (rotationHoldPeriods)', step: '1' },
+  { key: 'allocationPct', label: '单币分配 % (allocationPct)', step: '1' },
+  { key: 'maxPositions', label: '最大持仓 (maxPositions)', step: '1' },
+  { key: 'minVolume24h', label: '成交额门槛 (minVolume24h)', step: '1000000' },
+];
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ strategies }) => {
+  const fundingStrategies = strategies.filter(s => s.type === StrategyType.ROTATIONAL_FUNDING);
+  const [strategyId, setStrategyId] = useState<string>(fundingStrategies[0]?.id || '');
+  const [params, setParams] = useState<any>(fundingStrategies[0]?.parameters || {});
+  const [settings, setSettings] = useState<BacktestSettings>(DEFAULT_BACKTEST_SETTINGS);
+  const [rows, setRows] = useState<FundingHistoryRow[]>([]);
+  const [fileName, setFileName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+
+  const handleSelectStrategy = (id: string) => {
+    setStrategyId(id);
+    const strategy = fundingStrategies.find(s => s.id === id);
+    if (strategy) setParams(strategy.parameters);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setResult(null);
+    try {
+      const parsed = parseFundingHistory(await file.text(), file.name);
+      setRows(parsed);
+      setFileName(file.name);
+    } catch (err) {
+      setRows([]);
+      setError(err instanceof Error ? err.message : '文件解析失败');
+    }
+  };
+
+  const handleRun = () => {
+    const base = fundingStrategies.find(s => s.id === strategyId);
+    if (!base || rows.length === 0) return;
+    try {
+      setError(null);
+      setResult(runFundingBacktest(rows, { ...base, parameters: params }, settings));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '回测失败');
+    }
+  };
+
+  const dataSummary = useMemo(() => {
+    if (rows.length === 0) return null;
+    const ts = rows.map(r => r.ts);
+    return {
+      instruments: new Set(rows.map(r => r.instId)).size,
+      from: new Date(Math.min(...ts)).toLocaleString(),
+      to: new Date(Math.max(...ts)).toLocaleString(),
+    };
+  }, [rows]);
+
+  const formatUsd = (val: number) => `${val >= 0 ? '' : '-'}$${Math.abs(val).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Config */}
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
+        <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2"><FlaskConical className="w-5 h-5 text-blue-400" /> 资金费率轮动回测</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1.5">历史数据 (CSV / JSON)</label>
+              <label className="flex items-center gap-2 px-4 py-3 bg-slate-950 border border-dashed border-slate-600 rounded-lg text-sm text-slate-300 cursor-pointer hover:border-blue-500">
+                <Upload className="w-4 h-4" /> {fileName || '选择文件...'}
+                <input type="file" accept=".csv,.json" onChange={handleFile} className="hidden" />
+              </label>
+              <p className="text-[10px] text-slate-500 mt-1">列: ts, instId, price, fundingRate, volUsdt24h (可选 spotPrice, ctVal)。每个时间截面视为一次雷达扫描。</p>
+              {dataSummary && (
+                <p className="text-xs text-slate-400 mt-2">{rows.length} 行 · {dataSummary.instruments} 个标的 · {dataSummary.from} → {dataSummary.to}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xs text-slate-400 mb-1.5">策略模板</label>
+              <select value={strategyId} onChange={(e) => handleSelectStrategy(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white text-sm">
+                {fundingStrategies.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-slate-400 mb-1.5">初始资金 (USDT)</label>
+                <input type="number" value={settings.initialCapital} onChange={(e) => setSettings({ ...settings, initialCapital: parseFloat(e.target.value) })} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white text-sm" />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1.5">结算周期 (小时)</label>
+                <input type="number" value={settings.fundingIntervalHours} onChange={(e) => setSettings({ ...settings, fundingIntervalHours: parseFloat(e.target.value) })} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white text-sm" />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1.5">现货 Taker 费率</label>
+                <input type="number" step="0.0001" value={settings.spotFeeRate} onChange={(e) => setSettings({ ...settings, spotFeeRate: parseFloat(e.target.value) })} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white text-sm" />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1.5">合约 Taker 费率</label>
+                <input type="number" step="0.0001" value={settings.swapFeeRate} onChange={(e) => setSettings({ ...settings, swapFeeRate: parseFloat(e.target.value) })} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white text-sm" />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 content-start">
+            {PARAM_FIELDS.map(f => (
+              <div key={f.key}>
+                <label className="block text-xs text-slate-400 mb-1.5">{f.label}</label>
+                <input
+                  type="number" step={f.step}
+                  value={params[f.key] ?? 0}
+                  onChange={(e) => setParams({ ...params, [f.key]: parseFloat(e.target.value) })}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white text-sm"
+                />
+              </div>
+            ))}
+            <p className="col-span-2 text-[10px] text-slate-500">参数修改仅作用于本次回测，不影响线上策略。回测不调用 AI 审核。</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300 flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {error}</div>
+        )}
+
+        <div className="flex justify-end mt-6 border-t border-slate-700 pt-4">
+          <button onClick={handleRun} disabled={rows.length === 0 || !strategyId} className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm flex items-center gap-2 font-bold shadow-lg disabled:opacity-50">
+            <PlayCircle className="w-4 h-4" /> 运行回测
+          </button>
+        </div>
+      </div>
+
+      {/* Results */}
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+              <div className="text-xs text-slate-500 mb-1 uppercase">期末权益</div>
+              <div className="text-lg font-mono font-bold text-white">{formatUsd(result.finalEquity)}</div>
+              <div className={`text-xs font-mono ${result.totalReturnPct >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{result.totalReturnPct >= 0 ? '+' : ''}{result.totalReturnPct.toFixed(2)}%</div>
+            </div>
+            <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+              <div className="text-xs text-slate-500 mb-1 uppercase flex items-center gap-1"><DollarSign className="w-3 h-3" /> 资金费收入</div>
+              <div className="text-lg font-mono font-bold text-emerald-400">{formatUsd(result.fundingIncome)}</div>
+              <div className="text-xs text-slate-500">{result.settlements} 次结算</div>
+            </div>
+            <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+              <div className="text-xs text-slate-500 mb-1 uppercase">手续费</div>
+              <div className="text-lg font-mono font-bold text-red-400">{formatUsd(-result.feesPaid)}</div>
+            </div>
+            <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+              <div className="text-xs text-slate-500 mb-1 uppercase flex items-center gap-1"><RefreshCw className="w-3 h-3" /> 换手额</div>
+              <div className="text-lg font-mono font-bold text-white">{formatUsd(result.turnover)}</div>
+              <div className="text-xs text-slate-500">{result.trades.length} 笔操作 · {result.rotations} 次轮动</div>
+            </div>
+            <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+              <div className="text-xs text-slate-500 mb-1 uppercase flex items-center gap-1"><TrendingDown className="w-3 h-3" /> 最大回撤</div>
+              <div className="text-lg font-mono font-bold text-yellow-400">{result.maxDrawdownPct.toFixed(2)}%</div>
+            </div>
+            <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+              <div className="text-xs text-slate-500 mb-1 uppercase">期末持仓</div>
+              <div className="text-sm font-mono text-white break-all">{result.openPositions.length > 0 ? result.openPositions.join(', ') : '—'}</div>
+            </div>
+          </div>
+
+          <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-lg h-[360px] flex flex-col">
+            <h3 className="font-semibold text-white mb-4 flex items-center gap-2"><TrendingUp className="w-5 h-5 text-emerald-400" /> 权益曲线 (Equity Curve)</h3>
+            <div className="flex-1">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={result.equityCurve} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="ts" stroke="#94a3b8" tick={{ fontSize: 10 }} tickFormatter={(ts) => new Date(ts).toLocaleDateString()} />
+                  <YAxis stroke="#94a3b8" tick={{ fontSize: 10 }} domain={['auto', 'auto']} tickFormatter={(v) => v.toFixed(0)} />
+                  <ReTooltip
+                    contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
+                    labelFormatter={(ts) => new Date(ts).toLocaleString()}
+                    formatter={(val: any) => [formatUsd(val), '权益']}
+                  />
+                  <Line type="monotone" dataKey="equity" stroke="#10b981" dot={false} strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg overflow-hidden">
+            <div className="overflow-x-auto max-h-[400px]">
+              <table className="w-full text-left">
+                <thead className="bg-slate-900/50 text-xs uppercase text-slate-400 font-semibold">
+                  <tr>
+                    <th className="px-6 py-3">时间</th>
+                    <th className="px-6 py-3">标的</th>
+                    <th className="px-6 py-3">操作</th>
+                    <th className="px-6 py-3">价格</th>
+                    <th className="px-6 py-3">成交额</th>
+                    <th className="px-6 py-3">手续费</th>
+                    <th className="px-6 py-3">资金费</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700 text-sm font-mono text-slate-300">
+                  {result.trades.length === 0 ? (
+                    <tr><td colSpan={7} className="px-6 py-8 text-center text-slate-500 italic font-sans">回测期间未触发任何交易</td></tr>
+                  ) : (
+                    result.trades.map((t, idx) => (
+                      <tr key={idx} className="hover:bg-slate-700/30">
+                        <td className="px-6 py-2">{new Date(t.ts).toLocaleString()}</td>
+                        <td className="px-6 py-2 font-bold text-white font-sans">{t.instId}</td>
+                        <td className="px-6 py-2">
+                          <span className={`px-2 py-0.5 rounded text-xs font-bold ${t.action === 'ENTRY' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'}`}>{t.action === 'ENTRY' ? '入场' : '出场'}</span>
+                        </td>
+                        <td className="px-6 py-2">{t.price}</td>
+                        <td className="px-6 py-2">{formatUsd(t.notional)}</td>
+                        <td className="px-6 py-2 text-red-400">{t.fee.toFixed(2)}</td>
+                        <td className="px-6 py-2 text-emerald-400">{t.fundingEarned !== undefined ? t.fundingEarned.toFixed(2) : '—'}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
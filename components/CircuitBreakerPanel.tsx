@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, Save } from 'lucide-react';
+import { BreakerSettings, CircuitBreakerStatus } from '../types';
+import { updateBreakerSettings } from '../services/engineService';
+
+interface CircuitBreakerPanelProps {
+  status: CircuitBreakerStatus | null;
+  readOnly: boolean;
+  onSaved: () => void;
+}
+
+const FIELDS: { key: keyof BreakerSettings; label: string; unit: string; step: string; hint: string }[] = [
+  { key: 'dailyLossLimitPct', label: '日亏损上限', unit: '%', step: '1', hint: '账户权益相对当日 (UTC) 首次检查时的回撤' },
+  { key: 'maxExecutionErrors', label: '执行失败次数', unit: '次 / 30 分钟', step: '1', hint: '开仓、平仓、调仓与风控减仓的双边执行失败' },
+  { key: 'maxLatencyMs', label: '延迟上限', unit: 'ms', step: '500', hint: '连续 3 次检查超过 (或请求失败) 时触发' },
+  { key: 'staleDataSec', label: '行情停滞', unit: '秒', step: '30', hint: '最新行情时间戳连续 3 次检查超过此时长' }
+];
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white font-mono text-sm disabled:opacity-50';
+
+/** 系统设置中的熔断阈值与最近一次检查读数 */
+const CircuitBreakerPanel: React.FC<CircuitBreakerPanelProps> = ({ status, readOnly, onSaved }) => {
+  const [form, setForm] = useState<Partial<BreakerSettings>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const settings = status?.settings;
+  const readings = status?.readings;
+
+  useEffect(() => {
+    if (settings) setForm(settings);
+  }, [settings?.dailyLossLimitPct, settings?.maxExecutionErrors, settings?.maxLatencyMs, settings?.staleDataSec]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await updateBreakerSettings(form);
+      onSaved();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const reading = (key: keyof BreakerSettings): string => {
+    if (!readings) return '—';
+    switch (key) {
+      case 'dailyLossLimitPct': return readings.dayStartEquity === null ? '—' : `${readings.dailyLossPct >= 0 ? '-' : '+'}${Math.abs(readings.dailyLossPct).toFixed(2)}%`;
+      case 'maxExecutionErrors': return `${readings.recentErrors} 次`;
+      case 'maxLatencyMs': return readings.latencyMs === null ? '请求失败' : `${readings.latencyMs}ms`;
+      case 'staleDataSec': return readings.dataAgeSec === null ? '无数据' : `${readings.dataAgeSec.toFixed(0)} 秒前`;
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-xl">
+      <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2"><Gauge className="w-5 h-5 text-red-400" /> 熔断设置</h2>
+      {error && <div className="bg-red-500/10 border border-red-500/30 text-red-400 text-sm rounded-lg p-3 mb-4">{error}</div>}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-xs text-slate-400 mb-1.5" title={field.hint}>{field.label} ({field.unit})</label>
+            <input
+              type="number" min="0" step={field.step}
+              value={form[field.key] ?? ''}
+              disabled={readOnly}
+              onChange={(e) => setForm(prev => ({ ...prev, [field.key]: parseFloat(e.target.value) }))}
+              className={inputClass}
+            />
+            <div className="text-[10px] text-slate-500 mt-1">当前 {reading(field.key)}</div>
+          </div>
+        ))}
+      </div>
+      {!readOnly && (
+        <div className="flex justify-end mt-4">
+          <button onClick={handleSave} disabled={saving} className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-bold disabled:opacity-50"><Save className="w-4 h-4" /> 保存阈值</button>
+        </div>
+      )}
+      <p className="text-[10px] text-slate-500 italic mt-4">
+        引擎每 30 秒检查一次，任一条件触发时急停：停止全部策略并撤销挂单 (不自动平仓)。设为 0 关闭该项检查。
+        {readings ? ` 最近检查 ${new Date(readings.checkedAt).toLocaleTimeString()}。` : ' 策略运行后开始检查。'}
+      </p>
+    </div>
+  );
+};
+
+export default CircuitBreakerPanel;
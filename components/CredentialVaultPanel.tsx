@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, KeyRound, Plus, Trash2, CheckCircle2, Pencil } from 'lucide-react';
+import { CredentialProfileInput, VaultStatus } from '../types';
+import { unlockVault, createProfile, updateProfile, deleteProfile, saveDeepseekKey } from '../services/vaultService';
+
+interface CredentialVaultPanelProps {
+  vault: VaultStatus | null;
+  activeProfileId: string | null;
+  onSelectProfile: (id: string | null) => void;
+  onVaultChange: () => void;
+  readOnly: boolean; // 非 trader 只能查看
+}
+
+const EMPTY_FORM: CredentialProfileInput = { name: '', isSimulated: true, apiKey: '', secretKey: '', passphrase: '' };
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white font-mono text-sm';
+
+const CredentialVaultPanel: React.FC<CredentialVaultPanelProps> = ({ vault, activeProfileId, onSelectProfile, onVaultChange, readOnly }) => {
+  const [password, setPassword] = useState('');
+  const [form, setForm] = useState<CredentialProfileInput>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null); // null = 新建
+  const [showForm, setShowForm] = useState(false);
+  const [deepseekInput, setDeepseekInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      onVaultChange();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown');
+      return false;
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (await run(() => unlockVault(password))) setPassword('');
+  };
+
+  const openForm = (id: string | null) => {
+    const profile = vault?.profiles.find(p => p.id === id);
+    setEditingId(id);
+    setForm(profile ? { ...EMPTY_FORM, name: profile.name, isSimulated: profile.isSimulated } : EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const handleSaveProfile = async () => {
+    const ok = await run(async () => {
+      const profile = editingId ? await updateProfile(editingId, form) : await createProfile(form);
+      if (!activeProfileId) onSelectProfile(profile.id);
+    });
+    if (ok) {
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const handleDeleteProfile = (id: string, name: string) => {
+    if (window.confirm(`确定删除凭证配置「${name}」？`)) run(() => deleteProfile(id));
+  };
+
+  const handleSaveDeepseek = async (apiKey: string) => {
+    if (await run(() => saveDeepseekKey(apiKey))) setDeepseekInput('');
+  };
+
+  if (!vault) {
+    return <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 text-sm text-slate-500">正在连接凭证库...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="bg-red-500/10 border border-red-500/30 text-red-400 text-sm rounded-lg p-3">{error}</div>}
+
+      {!vault.unlocked && !readOnly && (
+        <div className="bg-slate-800 p-6 rounded-xl border border-amber-500/40 shadow-xl">
+          <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2"><Lock className="w-5 h-5 text-amber-400" /> 凭证库已锁定</h2>
+          <p className="text-xs text-slate-400 mb-4">输入主密码解锁 (首次使用时将以该密码初始化凭证库)。也可在服务端设置 VAULT_MASTER_KEY 环境变量自动解锁。</p>
+          <div className="flex gap-3">
+            <input type="password" placeholder="主密码" value={password} onChange={(e) => setPassword(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleUnlock()} className={inputClass} />
+            <button onClick={handleUnlock} disabled={!password} className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-sm font-bold disabled:opacity-50 shrink-0"><Unlock className="w-4 h-4" /> 解锁</button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-xl">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><KeyRound className="w-5 h-5 text-blue-400" /> OKX 凭证配置</h2>
+          <button onClick={() => openForm(null)} disabled={!vault.unlocked || readOnly} className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium disabled:opacity-50"><Plus className="w-4 h-4" /> 新增配置</button>
+        </div>
+
+        <div className="space-y-2">
+          {vault.profiles.length === 0 && <div className="text-sm text-slate-500">尚未注册凭证配置。</div>}
+          {vault.profiles.map(profile => (
+            <div key={profile.id} className={`flex items-center justify-between p-3 rounded-lg border ${profile.id === activeProfileId ? 'border-emerald-500/50 bg-emerald-500/5' : 'border-slate-700 bg-slate-900/50'}`}>
+              <button onClick={() => onSelectProfile(profile.id)} disabled={readOnly} className="flex items-center gap-3 text-left flex-1">
+                <CheckCircle2 className={`w-4 h-4 ${profile.id === activeProfileId ? 'text-emerald-400' : 'text-slate-600'}`} />
+                <div>
+                  <div className="text-sm text-white font-medium flex items-center gap-2">
+                    {profile.name}
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded border ${profile.isSimulated ? 'bg-blue-500/10 text-blue-400 border-blue-500/30' : 'bg-red-500/10 text-red-400 border-red-500/30'}`}>{profile.isSimulated ? '模拟盘' : '实盘'}</span>
+                  </div>
+                  <div className="text-[10px] text-slate-500 font-mono">API Key ****{profile.apiKeyHint} · 更新于 {new Date(profile.updatedAt).toLocaleString()}</div>
+                </div>
+              </button>
+              {!readOnly && (
+              <div className="flex items-center gap-3">
+                <button onClick={() => openForm(profile.id)} disabled={!vault.unlocked} className="text-slate-400 hover:text-white disabled:opacity-50" title="更新凭证"><Pencil className="w-4 h-4" /></button>
+                <button onClick={() => handleDeleteProfile(profile.id, profile.name)} disabled={profile.id === activeProfileId} className="text-slate-400 hover:text-red-400 disabled:opacity-30" title={profile.id === activeProfileId ? '使用中的配置不能删除' : '删除'}><Trash2 className="w-4 h-4" /></button>
+              </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {showForm && (
+          <div className="mt-6 pt-6 border-t border-slate-700 space-y-4">
+            <input type="text" placeholder="配置名称 (如: 模拟盘 / 实盘主账户 / 子账户A)" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />
+            <div className="flex items-center gap-3"><input type="checkbox" id="profile-sim" checked={form.isSimulated} onChange={(e) => setForm({ ...form, isSimulated: e.target.checked })} className="w-4 h-4" /><label htmlFor="profile-sim" className="text-sm">模拟盘</label></div>
+            <input type="text" placeholder={editingId ? 'API Key (留空保持不变)' : 'API Key'} value={form.apiKey} onChange={(e) => setForm({ ...form, apiKey: e.target.value })} className={inputClass} />
+            <input type="password" placeholder={editingId ? 'Secret Key (留空保持不变)' : 'Secret Key'} value={form.secretKey} onChange={(e) => setForm({ ...form, secretKey: e.target.value })} className={inputClass} />
+            <input type="password" placeholder={editingId ? 'Passphrase (留空保持不变)' : 'Passphrase'} value={form.passphrase} onChange={(e) => setForm({ ...form, passphrase: e.target.value })} className={inputClass} />
+            <div className="flex justify-end gap-3">
+              <button onClick={() => setShowForm(false)} className="px-4 py-2 text-sm text-slate-400 hover:text-white">取消</button>
+              <button onClick={handleSaveProfile} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm font-bold">保存至凭证库</button>
+            </div>
+          </div>
+        )}
+        <p className="text-[10px] text-slate-500 italic mt-4">密钥加密保存在服务端，浏览器只保存所选配置的 ID。所选配置同时用于服务端策略引擎。</p>
+      </div>
+
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-xl">
+        <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2"><Lock className="w-5 h-5 text-blue-400" /> DeepSeek 秘钥配置</h2>
+        <div className="text-xs mb-4">{vault.hasDeepseekKey ? <span className="text-emerald-400">已保存至凭证库</span> : <span className="text-slate-500">未配置</span>}</div>
+        {!readOnly && (
+        <div className="flex gap-3">
+          <input type="password" placeholder="sk-..." value={deepseekInput} onChange={(e) => setDeepseekInput(e.target.value)} className={inputClass} />
+          <button onClick={() => handleSaveDeepseek(deepseekInput)} disabled={!vault.unlocked || !deepseekInput} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-bold disabled:opacity-50 shrink-0">保存</button>
+          {vault.hasDeepseekKey && <button onClick={() => handleSaveDeepseek('')} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-lg text-sm shrink-0">清除</button>}
+        </div>
+        )}
+        <p className="text-[10px] text-slate-500 italic mt-4">API Key 仅供服务端策略引擎在后台运行时的 AI 审核使用。</p>
+      </div>
+    </div>
+  );
+};
+
+export default CredentialVaultPanel;
@@ -1,8 +1,14 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { Asset, TickerData, StrategyConfig, Position, OKXConfig, Instrument } from '../types';
+import { Asset, TickerData, StrategyConfig, Position, CredentialProfile, Instrument, FundingLedgerSummary, PairPnLReport, TradeFeeRates, StreamStatus, OKXRequestMetrics, HedgeCheck, PositionRisk, RiskLevel, RiskSnapshot } from '../types';
 import { okxService } from '../services/okxService';
+import { rebalancePosition } from '../services/ledgerService';
+import { getOkxMetrics } from '../services/engineService';
+import { hedgeDelta, hedgeStatus } from '../services/hedgeLogic';
+import FundingLedgerPanel from './FundingLedgerPanel';
+import FundingRateHistoryPanel from './FundingRateHistoryPanel';
+import PositionBookPanel from './PositionBookPanel';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as ReTooltip, Cell } from 'recharts';
-import { DollarSign, Clock, Server, Wallet, PieChart, Briefcase, TrendingUp, Scale, RefreshCw, AlertTriangle, CheckCircle, ArrowRightLeft, Zap, List } from 'lucide-react';
+import { DollarSign, Clock, Server, Wallet, PieChart, Briefcase, TrendingUp, Scale, RefreshCw, AlertTriangle, CheckCircle, ArrowRightLeft, Zap, List, ShieldAlert } from 'lucide-react';
 
 interface DashboardProps {
   assets: Asset[];
@@ -10,18 +16,49 @@ interface DashboardProps {
   marketData: TickerData[];
   positions: Position[];
   totalEquity: number;
-  okxConfig: OKXConfig;
+  profile: CredentialProfile | null;
+  canTrade: boolean; // trader 角色才能调仓
+  fundingLedger: FundingLedgerSummary | null;
+  positionBook: PairPnLReport[];
+  streamStatus: StreamStatus;
+  hedgeChecks: HedgeCheck[]; // 服务端对冲监控的最近一次检查
+  risk: RiskSnapshot | null; // 服务端强平风控的最近一次检查
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, positions, totalEquity, okxConfig }) => {
+const HEDGE_ACTION_LABELS: Record<NonNullable<HedgeCheck['action']>, string> = {
+  rebalanced: '已自动调仓',
+  failed: '自动调仓失败',
+  cooldown: '调仓冷却中',
+  hourly_limit: '调仓次数已达上限',
+  trading_off: '交易关闭，未调仓',
+  disabled: '自动调仓已关闭'
+};
+
+const RISK_ACTION_LABELS: Record<NonNullable<PositionRisk['action']>, string> = {
+  topped_up: '已划转保证金',
+  reduced: '已风控减仓',
+  reduce_failed: '风控减仓失败',
+  cooldown: '减仓冷却中',
+  trading_off: '交易关闭，未减仓'
+};
+
+const RISK_LEVEL_COLORS: Record<RiskLevel, string> = { ok: 'text-emerald-400', warning: 'text-yellow-400', critical: 'text-red-400' };
+const RISK_BAR_COLORS: Record<RiskLevel, string> = { ok: 'bg-emerald-500', warning: 'bg-yellow-500', critical: 'bg-red-500' };
+
+const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, positions, totalEquity, profile, canTrade, fundingLedger, positionBook, streamStatus, hedgeChecks, risk }) => {
   const [latency, setLatency] = useState<number>(0);
   const [nextFundingTime, setNextFundingTime] = useState<string>('');
   const [instruments, setInstruments] = useState<Instrument[]>([]);
   const [fixingId, setFixingId] = useState<string | null>(null);
+  const [historyInstId, setHistoryInstId] = useState<string | null>(null);
+  const [feeRates, setFeeRates] = useState<{ spot: TradeFeeRates; swap: TradeFeeRates } | null>(null);
+  const [okxMetrics, setOkxMetrics] = useState<OKXRequestMetrics | null>(null);
 
   useEffect(() => {
     okxService.getLatency().then(setLatency);
     okxService.getInstruments('SWAP').then(setInstruments);
+    Promise.all([okxService.getTradeFeeRates('SPOT'), okxService.getTradeFeeRates('SWAP')])
+      .then(([spot, swap]) => setFeeRates({ spot, swap }));
 
     const updateTimer = () => {
       const now = new Date();
@@ -39,11 +76,28 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
     return () => clearInterval(interval);
   }, []);
 
+  useEffect(() => {
+    const loadMetrics = () => getOkxMetrics().then(setOkxMetrics).catch(e => console.error(e));
+    loadMetrics();
+    const interval = setInterval(loadMetrics, 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const requestStats = useMemo(() => {
+    const endpoints = okxMetrics?.endpoints ?? [];
+    const sum = (key: 'throttled' | 'rateLimited' | 'failures') => endpoints.reduce((total, m) => total + m[key], 0);
+    const detail = endpoints
+      .filter(m => m.throttled + m.rateLimited + m.failures > 0)
+      .slice(0, 5)
+      .map(m => `${m.endpoint}: 排队 ${m.throttled} / 429 ${m.rateLimited} / 失败 ${m.failures}${m.lastError ? ` (${m.lastError})` : ''}`);
+    return { throttled: sum('throttled'), rateLimited: sum('rateLimited'), failures: sum('failures'), detail };
+  }, [okxMetrics]);
+
   const handleFixHedge = async (instId: string) => {
     if (!confirm(`Are you sure you want to rebalance ${instId}? This will execute market orders.`)) return;
     setFixingId(instId);
     try {
-        const res = await okxService.auditAndRebalance(instId);
+        const res = await rebalancePosition(instId);
         alert(res.message);
     } catch (e) {
         alert("Failed to fix hedge");
@@ -84,27 +138,30 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
           const swapValue = swapCoinQty * currentPrice;
           
           // Hedge Delta Calculation
-          const deltaAmount = spotBalance - swapCoinQty;
-          const deltaValue = deltaAmount * currentPrice;
+          const { deltaAmount, deltaValue } = hedgeDelta(spotBalance, swapSize, ctVal, currentPrice);
           
           // Spot Calculations
           const spotValue = spotBalance * currentPrice;
-          // Approximate Spot PnL: (Current - Entry) * Balance
-          // Note: Since we don't track exact Spot Entry in this simple version, we assume Spot Entry ~= Swap Entry for PnL estimation purposes
-          // This shows the "Hedged PnL" logic: Spot gains should offset Swap losses.
-          const spotPnL = (currentPrice - swapEntry) * spotBalance;
+          // 持仓账本记录了实际成交成本；账本外的持仓 (手动开仓或账本上线前) 仍以合约开仓价估算现货成本
+          const book = positionBook.find(b => b.swapInstId === pair && !b.closedAt);
+          const spotPnL = book ? book.spotPnl : (currentPrice - swapEntry) * spotBalance;
           
           // Yield Calculations
           // Next Yield (Next Payout) = Swap Value * Funding Rate (assuming Short & Positive Rate)
           const nextYield = swapValue * fundingRate;
           const dailyYield = nextYield * 3;
+          // 按账户 taker 费率估算的双边平仓成本，以及需要多少次结算覆盖
+          const exitFee = feeRates ? spotValue * feeRates.spot.taker + swapValue * feeRates.swap.taker : 0;
+          const breakEvenPeriods = nextYield > 0 ? exitFee / nextYield : Infinity;
+          // 已实现资金费 (来自账单台账)
+          const realized = fundingLedger?.byInstId.find(r => r.instId === pair);
           
-          // Price PnL = Spot PnL + Swap UPL
-          const pricePnL = spotPnL + swapUPL;
+          // Price PnL = Spot PnL + Swap PnL
+          const pricePnL = spotPnL + (book ? book.swapPnl : swapUPL);
 
-          let status: 'Perfect' | 'Dusty' | 'Risk' = 'Perfect';
-          if (Math.abs(deltaValue) > 10) status = 'Risk';
-          else if (Math.abs(deltaValue) > 1) status = 'Dusty';
+          const status = hedgeStatus(deltaValue);
+          const monitor = hedgeChecks.find(c => c.instId === pair);
+          const liquidation = risk?.positions.find(r => r.instId === pair);
 
           return {
               pair,
@@ -112,21 +169,38 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
               currentPrice,
               fundingRate,
               ctVal,
+              book,
               spot: { balance: spotBalance, value: spotValue, pnl: spotPnL },
               swap: { size: swapSize, coinQty: swapCoinQty, value: swapValue, entry: swapEntry, upl: swapUPL, leverage: pos.lever },
-              yield: { daily: dailyYield, next: nextYield, pricePnL: pricePnL },
-              hedge: { deltaAmount, deltaValue, status }
+              yield: { daily: dailyYield, next: nextYield, pricePnL: pricePnL, realizedTotal: realized?.totalUsd ?? 0, realized24h: realized?.last24hUsd ?? 0, exitFee, breakEvenPeriods },
+              hedge: { deltaAmount, deltaValue, status, monitor },
+              liquidation
           };
       });
-  }, [positions, assets, marketData, instruments]);
+  }, [positions, assets, marketData, instruments, fundingLedger, positionBook, feeRates, hedgeChecks, risk]);
+
+  // 账户保证金率 100% 触发强平，进度条按 0 ~ 1000% 显示；强平距离取所有组合中最近的一个
+  const riskGauge = useMemo(() => {
+    if (!risk) return null;
+    const distances = risk.positions.map(p => p.liqDistance).filter((d): d is number => d !== null);
+    const levels = [risk.marginLevel, ...risk.positions.map(p => p.level)];
+    return {
+      level: (levels.includes('critical') ? 'critical' : levels.includes('warning') ? 'warning' : 'ok') as RiskLevel,
+      marginPct: risk.marginRatio === null ? null : risk.marginRatio * 100,
+      minDistance: distances.length > 0 ? Math.min(...distances) : null,
+      paused: risk.pausedStrategies.length
+    };
+  }, [risk]);
 
   const globalStats = useMemo(() => {
     let totalHedgePnL = 0;
     let totalNextYield = 0;
     let totalDailyYield = 0;
     let totalValueDeployed = 0;
+    let totalExitFee = 0;
 
     portfolioItems.forEach(item => {
+        totalExitFee += item.yield.exitFee;
         totalHedgePnL += item.yield.pricePnL;
         totalNextYield += item.yield.next;
         totalDailyYield += item.yield.daily;
@@ -138,7 +212,7 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
     const apy = totalEquity > 0 ? (totalDailyYield * 365 / totalEquity) * 100 : 0;
     const utilization = totalEquity > 0 ? (totalValueDeployed / totalEquity) * 100 : 0;
 
-    return { totalHedgePnL, totalNextYield, totalDailyYield, apy, utilization, totalValueDeployed };
+    return { totalHedgePnL, totalNextYield, totalDailyYield, apy, utilization, totalValueDeployed, totalExitFee };
   }, [portfolioItems, totalEquity]);
 
   const formatVolume = (volStr: string) => {
@@ -161,7 +235,7 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
             <Zap className="w-4 h-4 text-yellow-400" /> 全局收益监控 (Total Yield Overview)
         </h2>
         
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-8 relative z-10">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-8 relative z-10">
             {/* Col 1: Hedge PnL */}
             <div>
                 <div className="text-xs text-slate-500 mb-1 font-medium uppercase">盘面总浮盈 (Price PnL)</div>
@@ -169,7 +243,7 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
                     {globalStats.totalHedgePnL >= 0 ? '+' : ''}{globalStats.totalHedgePnL.toFixed(2)}
                     <span className="text-xs text-slate-500 font-sans ml-1">USD</span>
                 </div>
-                <div className="text-[10px] text-slate-600 mt-1">现货盈亏 + 合约未结</div>
+                <div className="text-[10px] text-slate-600 mt-1">现货盈亏 + 合约盈亏</div>
             </div>
 
             {/* Col 2: Next Payout */}
@@ -191,22 +265,36 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
                     {globalStats.totalDailyYield >= 0 ? '+' : ''}{globalStats.totalDailyYield.toFixed(2)}
                     <span className="text-xs text-slate-500 font-sans ml-1">USD</span>
                 </div>
-                <div className="text-[10px] text-slate-600 mt-1">当前费率 × 3</div>
+                <div className="text-[10px] text-slate-600 mt-1">当前费率 × 3{feeRates && ` · 平仓成本 -${globalStats.totalExitFee.toFixed(2)}`}</div>
             </div>
 
-            {/* Col 4: APY */}
+            {/* Col 4: Realized Funding */}
+             <div>
+                <div className="text-xs text-slate-500 mb-1 font-medium uppercase">已实现资金费 (Realized)</div>
+                <div className={`text-2xl font-mono font-bold ${(fundingLedger?.totalUsd ?? 0) >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {(fundingLedger?.totalUsd ?? 0) >= 0 ? '+' : ''}{(fundingLedger?.totalUsd ?? 0).toFixed(2)}
+                    <span className="text-xs text-slate-500 font-sans ml-1">USD</span>
+                </div>
+                <div className="text-[10px] text-slate-600 mt-1">
+                    近 24h 实收 {(fundingLedger?.last24hUsd ?? 0) >= 0 ? '+' : ''}{(fundingLedger?.last24hUsd ?? 0).toFixed(2)} · 累计
+                </div>
+            </div>
+
+            {/* Col 5: APY */}
              <div>
                 <div className="text-xs text-slate-500 mb-1 font-medium uppercase">综合年化 (APY)</div>
                 <div className="text-2xl font-mono font-bold text-blue-400 flex items-baseline">
                     {globalStats.apy.toFixed(2)}<span className="text-sm ml-1">%</span>
                 </div>
-                <div className="text-[10px] text-slate-600 mt-1">基于总权益计算</div>
+                <div className="text-[10px] text-slate-600 mt-1">
+                    基于总权益计算{feeRates && ` · 费率 ${feeRates.spot.level} 现货 ${(feeRates.spot.taker * 100).toFixed(3)}% / 合约 ${(feeRates.swap.taker * 100).toFixed(3)}%`}
+                </div>
             </div>
         </div>
       </div>
 
       {/* Basic Status Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-lg relative overflow-hidden">
           <div className="flex flex-col h-full justify-between">
             <div className="text-slate-400 text-sm font-medium flex items-center gap-2"><Wallet className="w-4 h-4" /> 总权益 (Equity)</div>
@@ -236,11 +324,43 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
           <div className="flex flex-col h-full justify-between">
             <div className="text-slate-400 text-sm font-medium flex items-center gap-2"><Server className="w-4 h-4 text-purple-400" /> API 连接</div>
             <div className="mt-2">
-                <div className="flex items-center justify-between mb-1"><span className="text-sm text-white">{okxConfig.isSimulated ? '模拟盘' : '实盘'}</span><span className={`w-2 h-2 rounded-full ${latency < 150 ? 'bg-emerald-500' : 'bg-red-500'}`}></span></div>
-                <div className="text-xs text-slate-500 mt-1 text-right">{latency}ms latency</div>
+                <div className="flex items-center justify-between mb-1"><span className="text-sm text-white">{profile ? `${profile.name} · ${profile.isSimulated ? '模拟盘' : '实盘'}` : '未选择凭证'}</span><span className={`w-2 h-2 rounded-full ${latency < 150 ? 'bg-emerald-500' : 'bg-red-500'}`}></span></div>
+                <div className="flex items-center justify-between text-xs text-slate-500 mt-1">
+                  <span title="OKX WebSocket 推送：行情 / 账户 (断开时回退为 15 秒轮询)">
+                    推送 <span className={streamStatus.public ? 'text-emerald-400' : 'text-slate-500'}>行情</span> / <span className={streamStatus.private ? 'text-emerald-400' : 'text-slate-500'}>账户</span>
+                  </span>
+                  <span>{latency}ms latency</span>
+                </div>
+                {okxMetrics && (
+                  <div className="text-xs text-slate-500 mt-1 text-right" title={requestStats.detail.join('\n') || '暂无限频记录'}>
+                    限流排队 {requestStats.throttled} · 429 <span className={requestStats.rateLimited > 0 ? 'text-yellow-400' : ''}>{requestStats.rateLimited}</span> · 失败 <span className={requestStats.failures > 0 ? 'text-red-400' : ''}>{requestStats.failures}</span>
+                  </div>
+                )}
             </div>
           </div>
         </div>
+        <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-lg">
+          <div className="flex flex-col h-full justify-between">
+            <div className="text-slate-400 text-sm font-medium flex items-center gap-2"><ShieldAlert className={`w-4 h-4 ${riskGauge ? RISK_LEVEL_COLORS[riskGauge.level] : 'text-slate-500'}`} /> 强平风控</div>
+            {riskGauge ? (
+              <div className="mt-2">
+                <div className="flex items-end justify-between">
+                  <span className={`text-2xl font-bold ${RISK_LEVEL_COLORS[risk!.marginLevel]}`}>{riskGauge.marginPct === null ? '—' : `${riskGauge.marginPct.toFixed(0)}%`}</span>
+                  <span className="text-xs text-slate-500 mb-1">保证金率</span>
+                </div>
+                <div className="w-full bg-slate-700 h-1 rounded-full mt-2 overflow-hidden">
+                  <div className={`${RISK_BAR_COLORS[risk!.marginLevel]} h-full transition-all duration-500`} style={{ width: `${riskGauge.marginPct === null ? 100 : Math.min(riskGauge.marginPct / 10, 100)}%` }} />
+                </div>
+                <div className="flex items-center justify-between text-xs text-slate-500 mt-2" title={`最近检查 ${new Date(risk!.checkedAt).toLocaleTimeString()}`}>
+                  <span>最近强平距离 {riskGauge.minDistance === null ? '—' : `${(riskGauge.minDistance * 100).toFixed(1)}%`}</span>
+                  {riskGauge.paused > 0 && <span className="text-yellow-400">{riskGauge.paused} 个策略暂停开仓</span>}
+                </div>
+              </div>
+            ) : (
+              <div className="text-xs text-slate-500 mt-2">暂无运行中的资金费策略</div>
+            )}
+          </div>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -267,7 +387,19 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
                                  {item.hedge.status === 'Risk' && <span className="text-[10px] bg-red-500/20 text-red-400 px-2 py-0.5 rounded flex items-center gap-1 animate-pulse"><AlertTriangle className="w-3 h-3"/> Imbalanced</span>}
                              </div>
                              <div className="flex items-center gap-2">
-                                 {item.hedge.status !== 'Perfect' && (
+                                 {item.liquidation?.action && (
+                                     <span className={`text-[10px] ${item.liquidation.action === 'topped_up' || item.liquidation.action === 'reduced' ? 'text-slate-400' : item.liquidation.action === 'cooldown' ? 'text-yellow-400' : 'text-red-400'}`} title={item.liquidation.lastMessage}>
+                                         {RISK_ACTION_LABELS[item.liquidation.action]}
+                                         {item.liquidation.lastActionAt ? ` · ${new Date(item.liquidation.lastActionAt).toLocaleTimeString()}` : ''}
+                                     </span>
+                                 )}
+                                 {item.hedge.monitor?.action && (
+                                     <span className={`text-[10px] ${item.hedge.monitor.action === 'rebalanced' ? 'text-slate-400' : item.hedge.monitor.action === 'cooldown' ? 'text-yellow-400' : 'text-red-400'}`} title={item.hedge.monitor.lastMessage}>
+                                         {HEDGE_ACTION_LABELS[item.hedge.monitor.action]}
+                                         {item.hedge.monitor.lastRebalanceAt ? ` · ${new Date(item.hedge.monitor.lastRebalanceAt).toLocaleTimeString()}` : ''}
+                                     </span>
+                                 )}
+                                 {item.hedge.status !== 'Perfect' && canTrade && (
                                      <button 
                                         onClick={() => handleFixHedge(item.pair)}
                                         disabled={fixingId === item.pair}
@@ -294,8 +426,14 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
                                     <span className="text-xs text-slate-500">持仓价值</span>
                                     <span className="text-sm font-mono text-white">${item.spot.value.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</span>
                                 </div>
+                                {item.book && (
+                                <div className="flex justify-between items-end">
+                                    <span className="text-xs text-slate-500">平均成本</span>
+                                    <span className="text-sm font-mono text-white">${item.book.spotAvgCost.toPrecision(6)}</span>
+                                </div>
+                                )}
                                 <div className="flex justify-between items-end">
-                                    <span className="text-xs text-slate-500">估算盈亏</span>
+                                    <span className="text-xs text-slate-500">{item.book ? '现货盈亏' : '估算盈亏'}</span>
                                     <span className={`text-sm font-mono font-bold ${item.spot.pnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
                                         {item.spot.pnl >= 0 ? '+' : ''}{item.spot.pnl.toFixed(2)}
                                     </span>
@@ -324,6 +462,22 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
                                         {item.swap.upl >= 0 ? '+' : ''}{item.swap.upl.toFixed(2)}
                                     </span>
                                 </div>
+                                {item.liquidation && (
+                                <div className="flex justify-between items-end">
+                                    <span className="text-xs text-slate-500">强平距离</span>
+                                    <span className={`text-sm font-mono ${RISK_LEVEL_COLORS[item.liquidation.level]}`} title={`强平价 ${item.liquidation.liqPx || '—'} / 标记价格 ${item.liquidation.markPx}`}>
+                                        {item.liquidation.liqDistance === null ? '—' : `${(item.liquidation.liqDistance * 100).toFixed(1)}%`}
+                                    </span>
+                                </div>
+                                )}
+                                {item.book && (
+                                <div className="flex justify-between items-end">
+                                    <span className="text-xs text-slate-500">合约盈亏 (含已实现)</span>
+                                    <span className={`text-sm font-mono ${item.book.swapPnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                        {item.book.swapPnl >= 0 ? '+' : ''}{item.book.swapPnl.toFixed(2)}
+                                    </span>
+                                </div>
+                                )}
                              </div>
 
                              {/* Right: Net Summary */}
@@ -346,6 +500,23 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
                                     </span>
                                 </div>
 
+                                {item.book && (
+                                <>
+                                <div className="flex justify-between items-end">
+                                    <span className="text-xs text-slate-500">手续费 / 持仓期资金费</span>
+                                    <span className="text-sm font-mono text-slate-300">
+                                        -{item.book.feesUsd.toFixed(2)} / {item.book.fundingUsd >= 0 ? '+' : ''}{item.book.fundingUsd.toFixed(2)}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between items-end">
+                                    <span className="text-xs text-slate-500">组合净收益 (Net)</span>
+                                    <span className={`text-sm font-mono font-bold ${item.book.netPnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                        {item.book.netPnl >= 0 ? '+' : ''}{item.book.netPnl.toFixed(2)}
+                                    </span>
+                                </div>
+                                </>
+                                )}
+
                                 <div className="h-px bg-slate-700/50 my-1"></div>
 
                                 <div className="flex justify-between items-end">
@@ -366,6 +537,22 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
                                         +{item.yield.daily.toFixed(2)}
                                     </span>
                                 </div>
+
+                                {feeRates && (
+                                <div className="flex justify-between items-end">
+                                    <span className="text-xs text-slate-500">平仓成本 / 回本</span>
+                                    <span className="text-sm font-mono text-slate-300">
+                                        -{item.yield.exitFee.toFixed(2)} / {isFinite(item.yield.breakEvenPeriods) ? `${item.yield.breakEvenPeriods.toFixed(1)} 次结算` : '-'}
+                                    </span>
+                                </div>
+                                )}
+
+                                <div className="flex justify-between items-end">
+                                    <span className="text-xs text-slate-500">已收资金费 (24h / 累计)</span>
+                                    <span className={`text-sm font-mono ${item.yield.realizedTotal >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                        {item.yield.realized24h >= 0 ? '+' : ''}{item.yield.realized24h.toFixed(2)} / {item.yield.realizedTotal >= 0 ? '+' : ''}{item.yield.realizedTotal.toFixed(2)}
+                                    </span>
+                                </div>
                              </div>
                         </div>
                     </div>
@@ -375,7 +562,7 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
 
          {/* Right Radar Chart */}
          <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-lg flex flex-col h-[480px]">
-            <h3 className="font-semibold text-white mb-4">优选费率雷达 (Top 8)</h3>
+            <h3 className="font-semibold text-white mb-4">优选费率雷达 (Top 8)<span className="text-[10px] text-slate-500 font-normal ml-2">点击查看历史</span></h3>
             <div className="flex-1 min-h-[350px]">
                 <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={topFundingPairs} layout="vertical" margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
@@ -390,7 +577,7 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
                         `成交额: ${formatVolume(props.payload.volUsdt24h)}`
                     ]}
                     />
-                    <Bar dataKey="fundingRate" radius={[0, 4, 4, 0]} barSize={20}>
+                    <Bar dataKey="fundingRate" radius={[0, 4, 4, 0]} barSize={20} cursor="pointer" onClick={(entry: any) => setHistoryInstId(entry.instId)}>
                     {topFundingPairs.map((entry, index) => {
                         const isHeld = positions.some(p => p.instId === entry.instId);
                         const rate = parseFloat(entry.fundingRate);
@@ -411,6 +598,12 @@ const Dashboard: React.FC<DashboardProps> = ({ assets, strategies, marketData, p
             </div>
          </div>
       </div>
+
+      <FundingRateHistoryPanel selectedInstId={historyInstId} onSelect={setHistoryInstId} heldInstIds={positions.map(p => p.instId)} />
+
+      <PositionBookPanel entries={positionBook} />
+
+      <FundingLedgerPanel ledger={fundingLedger} />
     </div>
   );
 };
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { PieChart, Plus, Save, Trash2 } from 'lucide-react';
+import { ExposureLimits, ExposureStatus } from '../types';
+import { updateExposureLimits } from '../services/engineService';
+import { isMainstream } from '../services/exposureLogic';
+
+interface ExposureLimitsPanelProps {
+  status: ExposureStatus | null;
+  readOnly: boolean;
+  onSaved: () => void;
+}
+
+const PCT_FIELDS: { key: 'maxDeployedPct' | 'maxPairPct' | 'maxAltcoinPct'; label: string; hint: string }[] = [
+  { key: 'maxDeployedPct', label: '总敞口上限', hint: '全部合约持仓的名义价值合计 / 总权益' },
+  { key: 'maxPairPct', label: '单组合上限 (集中度)', hint: '单个套利组合的名义价值 / 总权益' },
+  { key: 'maxAltcoinPct', label: '非主流币上限', hint: 'BTC、ETH、SOL、BNB、XRP、OKB 以外的组合合计 / 总权益' }
+];
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white font-mono text-sm disabled:opacity-50';
+
+/** 系统设置中的组合敞口上限与最近一次开仓检查时的占用 */
+const ExposureLimitsPanel: React.FC<ExposureLimitsPanelProps> = ({ status, readOnly, onSaved }) => {
+  const [form, setForm] = useState<ExposureLimits | null>(null);
+  const [newInstId, setNewInstId] = useState('');
+  const [newCap, setNewCap] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const limits = status?.limits;
+  const usage = status?.usage;
+
+  useEffect(() => {
+    if (limits) setForm(limits);
+  }, [JSON.stringify(limits)]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await updateExposureLimits(form);
+      onSaved();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addCap = () => {
+    const instId = newInstId.trim().toUpperCase();
+    const cap = parseFloat(newCap);
+    if (!form || !instId.endsWith('-SWAP') || !(cap > 0)) {
+      setError('请输入永续合约 (如 ETH-USDT-SWAP) 与大于 0 的上限');
+      return;
+    }
+    setError(null);
+    setForm({ ...form, instrumentCaps: { ...form.instrumentCaps, [instId]: cap } });
+    setNewInstId('');
+    setNewCap('');
+  };
+
+  const removeCap = (instId: string) => {
+    if (!form) return;
+    const { [instId]: _removed, ...rest } = form.instrumentCaps;
+    setForm({ ...form, instrumentCaps: rest });
+  };
+
+  // 各项上限的当前占用 (单组合取占用最大的一个)
+  const used = (key: typeof PCT_FIELDS[number]['key']): number | null => {
+    if (!usage || usage.equity <= 0) return null;
+    const largest = Math.max(0, ...usage.pairs.map(p => p.notionalUsd));
+    const value = key === 'maxDeployedPct' ? usage.deployedUsd : key === 'maxPairPct' ? largest : usage.altcoinUsd;
+    return value / usage.equity * 100;
+  };
+
+  if (!form) return null;
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-xl">
+      <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2"><PieChart className="w-5 h-5 text-blue-400" /> 组合敞口上限</h2>
+      {error && <div className="bg-red-500/10 border border-red-500/30 text-red-400 text-sm rounded-lg p-3 mb-4">{error}</div>}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {PCT_FIELDS.map(field => {
+          const current = used(field.key);
+          const cap = form[field.key];
+          return (
+            <div key={field.key}>
+              <label className="block text-xs text-slate-400 mb-1.5" title={field.hint}>{field.label} (% 权益)</label>
+              <input
+                type="number" min="0" step="5"
+                value={cap}
+                disabled={readOnly}
+                onChange={(e) => setForm({ ...form, [field.key]: parseFloat(e.target.value) })}
+                className={inputClass}
+              />
+              <div className="w-full bg-slate-700 h-1 rounded-full mt-2 overflow-hidden">
+                <div className={`h-full ${current !== null && cap > 0 && current >= cap ? 'bg-red-500' : 'bg-blue-500'}`} style={{ width: `${current === null || cap <= 0 ? 0 : Math.min(current / cap * 100, 100)}%` }} />
+              </div>
+              <div className="text-[10px] text-slate-500 mt-1">当前 {current === null ? '—' : `${current.toFixed(1)}%`}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-6">
+        <div className="text-xs text-slate-400 mb-2">按标的上限 (USDT 名义价值)</div>
+        <div className="space-y-2">
+          {Object.entries(form.instrumentCaps).map(([instId, cap]) => {
+            const held = usage?.pairs.find(p => p.instId === instId)?.notionalUsd ?? 0;
+            return (
+              <div key={instId} className="flex items-center justify-between p-2.5 rounded-lg border border-slate-700 bg-slate-900/50 text-sm">
+                <span className="text-white font-mono">{instId}{!isMainstream(instId) && <span className="text-[10px] text-yellow-400 ml-2">非主流</span>}</span>
+                <div className="flex items-center gap-3">
+                  <span className="text-slate-400 font-mono text-xs">${held.toFixed(2)} / ${cap.toLocaleString()}</span>
+                  {!readOnly && <button onClick={() => removeCap(instId)} className="text-slate-400 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>}
+                </div>
+              </div>
+            );
+          })}
+          {Object.keys(form.instrumentCaps).length === 0 && <div className="text-[10px] text-slate-500">未设置，按上方比例检查。</div>}
+        </div>
+        {!readOnly && (
+          <div className="grid grid-cols-[1fr_140px_auto] gap-2 mt-3">
+            <input type="text" placeholder="ETH-USDT-SWAP" value={newInstId} onChange={(e) => setNewInstId(e.target.value)} className={inputClass} />
+            <input type="number" min="0" placeholder="上限 USDT" value={newCap} onChange={(e) => setNewCap(e.target.value)} className={inputClass} />
+            <button onClick={addCap} className="px-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg"><Plus className="w-4 h-4" /></button>
+          </div>
+        )}
+      </div>
+
+      {!readOnly && (
+        <div className="flex justify-end mt-4">
+          <button onClick={handleSave} disabled={saving} className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-bold disabled:opacity-50"><Save className="w-4 h-4" /> 保存上限</button>
+        </div>
+      )}
+      <p className="text-[10px] text-slate-500 italic mt-4">
+        所有资金费策略 (含轮动) 开仓前按剩余额度缩小投入，额度不足时拒绝并记录触发的上限。设为 0 关闭该项检查。
+        {usage ? ` 最近检查 ${new Date(usage.checkedAt).toLocaleTimeString()}，总权益 $${usage.equity.toFixed(2)}。` : ''}
+      </p>
+    </div>
+  );
+};
+
+export default ExposureLimitsPanel;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as ReTooltip, Cell } from 'recharts';
+import { Receipt } from 'lucide-react';
+import { FundingLedgerSummary } from '../types';
+
+interface FundingLedgerPanelProps {
+  ledger: FundingLedgerSummary | null;
+}
+
+const signed = (v: number, digits = 2) => `${v >= 0 ? '+' : ''}${v.toFixed(digits)}`;
+
+/** 已实现资金费台账：按日柱状图 + 按标的汇总 */
+const FundingLedgerPanel: React.FC<FundingLedgerPanelProps> = ({ ledger }) => {
+  if (!ledger) return null;
+
+  return (
+    <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-white flex items-center gap-2"><Receipt className="w-5 h-5 text-emerald-400" /> 资金费台账 (Realized Funding)</h3>
+        <span className="text-[10px] text-slate-500">
+          账单同步: {ledger.syncedAt ? new Date(ledger.syncedAt).toLocaleString() : '尚未同步'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={ledger.byDay} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis dataKey="day" stroke="#94a3b8" tick={{ fontSize: 9 }} tickFormatter={(day: string) => day.slice(5)} />
+              <YAxis stroke="#94a3b8" tick={{ fontSize: 9 }} width={50} />
+              <ReTooltip
+                cursor={{ fill: '#334155', opacity: 0.2 }}
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
+                formatter={(val: any) => [`${signed(val, 4)} USD`, '实收资金费']}
+              />
+              <Bar dataKey="totalUsd" radius={[4, 4, 0, 0]}>
+                {ledger.byDay.map((entry) => <Cell key={entry.day} fill={entry.totalUsd >= 0 ? '#10b981' : '#ef4444'} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="overflow-y-auto max-h-[220px]">
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 sticky top-0 bg-slate-800">
+              <tr>
+                <th className="text-left p-2 font-medium">标的</th>
+                <th className="text-right p-2 font-medium">近 24h</th>
+                <th className="text-right p-2 font-medium">累计</th>
+                <th className="text-right p-2 font-medium">笔数</th>
+                <th className="text-right p-2 font-medium">最近结算</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.byInstId.length === 0 && (
+                <tr><td colSpan={5} className="p-4 text-center text-slate-500">暂无资金费入账记录</td></tr>
+              )}
+              {ledger.byInstId.map(row => (
+                <tr key={row.instId} className="border-t border-slate-700/50 text-slate-300 font-mono">
+                  <td className="p-2 font-sans text-white">{row.instId}</td>
+                  <td className={`p-2 text-right ${row.last24hUsd >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{signed(row.last24hUsd, 4)}</td>
+                  <td className={`p-2 text-right font-bold ${row.totalUsd >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{signed(row.totalUsd, 4)}</td>
+                  <td className="p-2 text-right">{row.count}</td>
+                  <td className="p-2 text-right text-slate-500">{new Date(row.lastTs).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FundingLedgerPanel;
@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as ReTooltip, Legend, ReferenceLine } from 'recharts';
+import { History, Search } from 'lucide-react';
+import { FundingRateHistory, FundingRateStats } from '../types';
+import { fetchFundingRateHistory, fetchFundingRates } from '../services/ledgerService';
+
+interface FundingRateHistoryPanelProps {
+  selectedInstId: string | null; // 由费率雷达点击选中
+  onSelect: (instId: string) => void;
+  heldInstIds: string[];
+}
+
+const POLL_MS = 60000;
+const MAX_LISTED = 20;
+
+const pct = (rate: number | null, digits = 4) => (rate === null ? '—' : `${(rate * 100).toFixed(digits)}%`);
+const rateColor = (rate: number | null) => (rate === null ? 'text-slate-500' : rate >= 0 ? 'text-emerald-400' : 'text-red-400');
+
+/** 资金费率历史：全部 USDT 永续按近 7 天平均排序，选中标的后查看结算历史、滚动平均、年化与预测费率 */
+const FundingRateHistoryPanel: React.FC<FundingRateHistoryPanelProps> = ({ selectedInstId, onSelect, heldInstIds }) => {
+  const [stats, setStats] = useState<FundingRateStats[]>([]);
+  const [history, setHistory] = useState<FundingRateHistory | null>(null);
+  const [filter, setFilter] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        setStats(await fetchFundingRates());
+      } catch (e) {
+        console.error('Failed to fetch funding rates', e);
+      }
+    };
+    refresh();
+    const timer = setInterval(refresh, POLL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!selectedInstId) return;
+    fetchFundingRateHistory(selectedInstId)
+      .then(data => {
+        setHistory(data);
+        setError(null);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Unknown'));
+  }, [selectedInstId, stats]);
+
+  const listed = useMemo(() => {
+    const keyword = filter.trim().toUpperCase();
+    return stats
+      .filter(s => !keyword || s.instId.includes(keyword))
+      .sort((a, b) => (b.avg7d ?? b.predictedRate ?? -Infinity) - (a.avg7d ?? a.predictedRate ?? -Infinity))
+      .slice(0, MAX_LISTED);
+  }, [stats, filter]);
+
+  if (stats.length === 0) return null;
+
+  return (
+    <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-white flex items-center gap-2"><History className="w-5 h-5 text-blue-400" /> 资金费率历史 (Funding Rate History)</h3>
+        <span className="text-[10px] text-slate-500">已采集 {stats.length} 个 USDT 永续 · 每 {POLL_MS / 1000}s 刷新</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6">
+        <div>
+          <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2 mb-2">
+            <Search className="w-3.5 h-3.5 text-slate-500" />
+            <input type="text" placeholder="搜索标的" value={filter} onChange={(e) => setFilter(e.target.value)} className="w-full bg-transparent text-white p-2 text-xs focus:outline-none" />
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-500 text-left">
+                <th className="py-1.5 font-normal">标的</th>
+                <th className="py-1.5 font-normal text-right">预测</th>
+                <th className="py-1.5 font-normal text-right">7天均</th>
+                <th className="py-1.5 font-normal text-right">年化</th>
+              </tr>
+            </thead>
+            <tbody>
+              {listed.map(s => (
+                <tr
+                  key={s.instId}
+                  onClick={() => onSelect(s.instId)}
+                  className={`cursor-pointer border-t border-slate-700/50 hover:bg-slate-700/30 ${s.instId === selectedInstId ? 'bg-blue-500/10' : ''}`}
+                >
+                  <td className="py-1.5 text-white font-mono">
+                    {s.instId.replace('-USDT-SWAP', '')}
+                    {heldInstIds.includes(s.instId) && <span className="ml-1.5 text-[9px] text-purple-400">持仓</span>}
+                  </td>
+                  <td className={`py-1.5 text-right font-mono ${rateColor(s.predictedRate)}`}>{pct(s.predictedRate, 3)}</td>
+                  <td className={`py-1.5 text-right font-mono ${rateColor(s.avg7d)}`}>{pct(s.avg7d, 3)}</td>
+                  <td className={`py-1.5 text-right font-mono ${rateColor(s.annualizedPct)}`}>{s.annualizedPct === null ? '—' : `${s.annualizedPct.toFixed(1)}%`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {!selectedInstId ? (
+          <div className="flex items-center justify-center text-sm text-slate-500 border border-dashed border-slate-700 rounded-lg min-h-[300px]">
+            在左侧列表或费率雷达中选择标的查看历史
+          </div>
+        ) : history?.instId !== selectedInstId ? (
+          <div className="flex items-center justify-center text-sm text-slate-500 min-h-[300px]">{error ?? `加载 ${selectedInstId} ...`}</div>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+              <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+                <div className="text-[10px] text-slate-500 mb-1">预测下期费率</div>
+                <div className={`font-mono text-sm ${rateColor(history.predictedRate)}`}>{pct(history.predictedRate)}</div>
+                <div className="text-[10px] text-slate-500 mt-1">
+                  {history.nextFundingTime ? `${new Date(history.nextFundingTime).toLocaleTimeString()} 结算` : '—'}
+                  {history.nextRate !== null ? ` · 再下期 ${pct(history.nextRate)}` : ''}
+                </div>
+              </div>
+              <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+                <div className="text-[10px] text-slate-500 mb-1">最近结算</div>
+                <div className={`font-mono text-sm ${rateColor(history.lastRate)}`}>{pct(history.lastRate)}</div>
+              </div>
+              {([['24 小时均值', history.avg24h], ['3 天均值', history.avg3d], ['7 天均值', history.avg7d]] as [string, number | null][]).map(([label, value]) => (
+                <div key={label} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+                  <div className="text-[10px] text-slate-500 mb-1">{label}</div>
+                  <div className={`font-mono text-sm ${rateColor(value)}`}>{pct(value)}</div>
+                </div>
+              ))}
+              <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+                <div className="text-[10px] text-slate-500 mb-1">年化收益</div>
+                <div className={`font-mono text-sm ${rateColor(history.annualizedPct)}`}>{history.annualizedPct === null ? '—' : `${history.annualizedPct.toFixed(2)}%`}</div>
+                <div className="text-[10px] text-slate-500 mt-1">每 {history.intervalHours}h 结算</div>
+              </div>
+            </div>
+
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={history.points} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="fundingTime" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" tick={{ fontSize: 10 }} tickFormatter={(ts) => new Date(ts).toLocaleDateString()} />
+                  <YAxis stroke="#94a3b8" tick={{ fontSize: 10 }} domain={['auto', 'auto']} tickFormatter={(v) => `${(v * 100).toFixed(3)}%`} />
+                  <ReTooltip
+                    contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
+                    labelFormatter={(ts) => new Date(ts).toLocaleString()}
+                    formatter={(val: any, name: any) => [pct(val), name]}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 10 }} />
+                  <ReferenceLine y={0} stroke="#64748b" />
+                  <Line type="stepAfter" dataKey="rate" name="结算费率" stroke="#94a3b8" dot={false} strokeWidth={1} />
+                  <Line type="monotone" dataKey="avg24h" name="24h 滚动平均" stroke="#10b981" dot={false} strokeWidth={2} />
+                  <Line type="monotone" dataKey="avg7d" name="7 天滚动平均" stroke="#8b5cf6" dot={false} strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-[10px] text-slate-500 italic">
+              共 {history.samples} 次结算，本地保留 60 天。年化按近 7 天平均费率计算 (不足时用预测费率)，未计入手续费与基差变化。
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FundingRateHistoryPanel;
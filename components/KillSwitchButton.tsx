@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { XOctagon, RotateCcw } from 'lucide-react';
+import { AuthUser, CircuitBreakerStatus, HaltTrigger } from '../types';
+import { hasRole } from '../services/authService';
+import { engageKillSwitch, resetKillSwitch } from '../services/engineService';
+
+interface KillSwitchButtonProps {
+  status: CircuitBreakerStatus | null;
+  user: AuthUser;
+  onChange: (status: CircuitBreakerStatus) => void;
+}
+
+export const HALT_TRIGGER_LABELS: Record<HaltTrigger, string> = {
+  manual: '手动急停',
+  daily_loss: '日亏损熔断',
+  execution_errors: '执行失败熔断',
+  latency: '延迟熔断',
+  stale_data: '行情停滞熔断'
+};
+
+/** 侧边栏的全局急停按钮；急停后显示触发原因与解除按钮 */
+const KillSwitchButton: React.FC<KillSwitchButtonProps> = ({ status, user, onChange }) => {
+  const [confirming, setConfirming] = useState(false);
+  const [unwind, setUnwind] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const killSwitch = status?.killSwitch;
+
+  const run = async (action: () => Promise<CircuitBreakerStatus>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onChange(await action());
+      setConfirming(false);
+      setUnwind(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!hasRole(user, 'operator')) return null;
+
+  if (killSwitch?.halted) {
+    return (
+      <div className="p-3 rounded-lg border border-red-500/40 bg-red-500/10 space-y-2">
+        <div className="flex items-center gap-2 text-sm font-bold text-red-400"><XOctagon className="w-4 h-4" /> {HALT_TRIGGER_LABELS[killSwitch.trigger ?? 'manual']}</div>
+        <div className="text-[10px] text-red-300/80 leading-relaxed">
+          {killSwitch.reason}
+          {killSwitch.haltedAt ? ` · ${new Date(killSwitch.haltedAt).toLocaleString()}` : ''}
+          {killSwitch.actor ? ` · ${killSwitch.actor}` : ''}
+          {killSwitch.unwound ? ' · 已全部平仓' : ''}
+        </div>
+        {error && <div className="text-[10px] text-red-400">{error}</div>}
+        {hasRole(user, 'trader') && (
+          <div className="flex gap-2">
+            {!killSwitch.unwound && (
+              <button onClick={() => window.confirm('确定按市价双边平掉全部套利组合？') && run(() => engageKillSwitch(true))} disabled={busy} className="flex-1 text-[10px] bg-red-600 hover:bg-red-500 text-white px-2 py-1.5 rounded disabled:opacity-50">全部平仓</button>
+            )}
+            <button onClick={() => window.confirm('确定解除急停？策略需要逐个重新启动。') && run(resetKillSwitch)} disabled={busy} className="flex-1 text-[10px] bg-slate-700 hover:bg-slate-600 text-white px-2 py-1.5 rounded flex items-center justify-center gap-1 disabled:opacity-50"><RotateCcw className="w-3 h-3" /> 解除急停</button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (confirming) {
+    return (
+      <div className="p-3 rounded-lg border border-red-500/40 bg-slate-900 space-y-2">
+        <div className="text-xs text-slate-300">停止全部策略并撤销所有挂单？</div>
+        {hasRole(user, 'trader') && (
+          <label className="flex items-center gap-2 text-[10px] text-slate-400">
+            <input type="checkbox" checked={unwind} onChange={(e) => setUnwind(e.target.checked)} className="w-3 h-3 rounded border-slate-700 bg-slate-950 text-red-600" />
+            同时市价平掉全部套利组合
+          </label>
+        )}
+        {error && <div className="text-[10px] text-red-400">{error}</div>}
+        <div className="flex gap-2">
+          <button onClick={() => run(() => engageKillSwitch(unwind))} disabled={busy} className="flex-1 text-xs bg-red-600 hover:bg-red-500 text-white font-bold px-2 py-1.5 rounded disabled:opacity-50">{busy ? '执行中...' : '确认急停'}</button>
+          <button onClick={() => setConfirming(false)} disabled={busy} className="flex-1 text-xs bg-slate-700 hover:bg-slate-600 text-white px-2 py-1.5 rounded">取消</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <button onClick={() => setConfirming(true)} className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-lg border border-red-500/40 text-red-400 hover:bg-red-500/10 font-bold text-sm">
+      <XOctagon className="w-5 h-5" /> 紧急停止
+    </button>
+  );
+};
+
+export default KillSwitchButton;
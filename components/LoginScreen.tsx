@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Zap, LogIn, UserPlus } from 'lucide-react';
+import { AuthStatus } from '../types';
+import { login, setupFirstUser } from '../services/authService';
+
+interface LoginScreenProps {
+  needsSetup: boolean;
+  onAuthenticated: (status: AuthStatus) => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white font-mono text-sm focus:outline-none focus:border-blue-500';
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ needsSetup, onAuthenticated }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      onAuthenticated(needsSetup ? await setupFirstUser(username, password) : await login(username, password));
+    } catch (err) {
+      setError(needsSetup ? (err instanceof Error ? err.message : 'Unknown') : '用户名或密码错误');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-200 font-sans flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-slate-800 p-8 rounded-xl border border-slate-700 shadow-xl space-y-4">
+        <div className="flex items-center gap-2 text-emerald-500 font-bold text-xl mb-2"><Zap className="fill-current" /> QuantX</div>
+        {needsSetup && <p className="text-xs text-slate-400">尚未创建任何账户。请设置首个管理账户 (trader 角色)，之后可在系统设置中添加其他成员。</p>}
+        <input type="text" placeholder="用户名" autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} className={inputClass} />
+        <input type="password" placeholder={needsSetup ? '密码 (至少 8 位)' : '密码'} autoComplete={needsSetup ? 'new-password' : 'current-password'} value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        <button type="submit" disabled={submitting || !username || !password} className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-bold disabled:opacity-50">
+          {needsSetup ? <><UserPlus className="w-4 h-4" /> 创建账户并登录</> : <><LogIn className="w-4 h-4" /> 登录</>}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
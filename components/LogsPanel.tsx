@@ -37,6 +37,7 @@ const LogsPanel: React.FC<LogsPanelProps> = ({ logs }) => {
             <div className="text-slate-500 shrink-0 w-20">{new Date(log.timestamp).toLocaleTimeString()}</div>
             <div className="shrink-0 pt-0.5">{getIcon(log.level)}</div>
             <div className="font-bold text-slate-400 shrink-0 w-16">[{log.source}]</div>
+            {log.user && <div className="text-blue-400 shrink-0" title="操作人">@{log.user}</div>}
             <div className={`break-all ${log.level === 'error' ? 'text-red-300' : 'text-slate-300'}`}>
               {log.message}
             </div>
@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Order } from '../types';
 import { okxService } from '../services/okxService';
+import { parseClOrdId } from '../services/tradeJournalLogic';
+import SlicedExecutionsPanel from './SlicedExecutionsPanel';
 import { Clock, CheckCircle, XCircle, RotateCcw, Filter } from 'lucide-react';
 
+const PHASE_LABELS = { entry: '开仓', rebalance: '调仓', exit: '平仓' };
+
 const OrdersPanel: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'live' | 'history'>('history');
   const [orders, setOrders] = useState<Order[]>([]);
@@ -57,6 +61,8 @@ const OrdersPanel: React.FC = () => {
         </button>
       </div>
 
+      <SlicedExecutionsPanel />
+
       {/* Orders Table */}
       <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg overflow-hidden">
         <div className="overflow-x-auto">
@@ -69,12 +75,13 @@ const OrdersPanel: React.FC = () => {
                 <th className="px-6 py-4">价格</th>
                 <th className="px-6 py-4">数量</th>
                 <th className="px-6 py-4">状态</th>
+                <th className="px-6 py-4">交易编号</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-700">
               {orders.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500 italic">
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-500 italic">
                     暂无订单数据
                   </td>
                 </tr>
@@ -109,6 +116,12 @@ const OrdersPanel: React.FC = () => {
                         {order.state}
                       </div>
                     </td>
+                    <td className="px-6 py-4 font-mono text-xs text-slate-400">
+                      {(() => {
+                        const tag = parseClOrdId(order.clOrdId);
+                        return tag ? <>{tag.tradeId} <span className="text-slate-500">{PHASE_LABELS[tag.phase]}</span></> : '-';
+                      })()}
+                    </td>
                   </tr>
                 ))
               )}
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { BookOpen } from 'lucide-react';
+import { PairPnLReport } from '../types';
+
+interface PositionBookPanelProps {
+  entries: PairPnLReport[];
+}
+
+const signed = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(2)}`;
+const pnlClass = (v: number) => (v >= 0 ? 'text-emerald-400' : 'text-red-400');
+
+/** 套利组合持仓账本：按实际成交成本拆分现货盈亏、合约盈亏、手续费与资金费 */
+const PositionBookPanel: React.FC<PositionBookPanelProps> = ({ entries }) => {
+  const totals = useMemo(() => entries.reduce(
+    (acc, e) => ({
+      spotPnl: acc.spotPnl + e.spotPnl,
+      swapPnl: acc.swapPnl + e.swapPnl,
+      feesUsd: acc.feesUsd + e.feesUsd,
+      fundingUsd: acc.fundingUsd + e.fundingUsd,
+      netPnl: acc.netPnl + e.netPnl
+    }),
+    { spotPnl: 0, swapPnl: 0, feesUsd: 0, fundingUsd: 0, netPnl: 0 }
+  ), [entries]);
+
+  return (
+    <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-white flex items-center gap-2"><BookOpen className="w-5 h-5 text-blue-400" /> 持仓账本 (Position Book)</h3>
+        <span className="text-[10px] text-slate-500">现货按实际成交加权平均成本 · 仅统计引擎下单</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="text-left p-2 font-medium">组合</th>
+              <th className="text-left p-2 font-medium">状态</th>
+              <th className="text-right p-2 font-medium">现货 (数量 @ 成本)</th>
+              <th className="text-right p-2 font-medium">合约 (张 @ 均价)</th>
+              <th className="text-right p-2 font-medium">现货盈亏</th>
+              <th className="text-right p-2 font-medium">合约盈亏</th>
+              <th className="text-right p-2 font-medium">手续费</th>
+              <th className="text-right p-2 font-medium">资金费</th>
+              <th className="text-right p-2 font-medium">净收益</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.length === 0 && (
+              <tr><td colSpan={9} className="p-4 text-center text-slate-500">暂无引擎成交记录</td></tr>
+            )}
+            {entries.map(e => (
+              <tr key={e.id} className="border-t border-slate-700/50 text-slate-300 font-mono">
+                <td className="p-2 font-sans text-white">{e.swapInstId}</td>
+                <td className="p-2 font-sans">
+                  {e.closedAt
+                    ? <span className="text-slate-500" title={`${new Date(e.openedAt).toLocaleString()} - ${new Date(e.closedAt).toLocaleString()}`}>已平仓</span>
+                    : <span className="text-emerald-400" title={new Date(e.openedAt).toLocaleString()}>持仓中</span>}
+                </td>
+                <td className="p-2 text-right">{e.spotQty.toFixed(4)} @ {e.spotAvgCost.toPrecision(6)}</td>
+                <td className="p-2 text-right">{e.swapContracts} @ {e.swapAvgPx.toPrecision(6)}</td>
+                <td className={`p-2 text-right ${pnlClass(e.spotPnl)}`}>{signed(e.spotPnl)}</td>
+                <td className={`p-2 text-right ${pnlClass(e.swapPnl)}`}>{signed(e.swapPnl)}</td>
+                <td className="p-2 text-right text-slate-400">-{e.feesUsd.toFixed(2)}</td>
+                <td className={`p-2 text-right ${pnlClass(e.fundingUsd)}`}>{signed(e.fundingUsd)}</td>
+                <td className={`p-2 text-right font-bold ${pnlClass(e.netPnl)}`}>{signed(e.netPnl)}</td>
+              </tr>
+            ))}
+          </tbody>
+          {entries.length > 0 && (
+            <tfoot>
+              <tr className="border-t-2 border-slate-600 font-mono font-bold">
+                <td className="p-2 font-sans text-slate-400" colSpan={4}>合计 (USD)</td>
+                <td className={`p-2 text-right ${pnlClass(totals.spotPnl)}`}>{signed(totals.spotPnl)}</td>
+                <td className={`p-2 text-right ${pnlClass(totals.swapPnl)}`}>{signed(totals.swapPnl)}</td>
+                <td className="p-2 text-right text-slate-400">-{totals.feesUsd.toFixed(2)}</td>
+                <td className={`p-2 text-right ${pnlClass(totals.fundingUsd)}`}>{signed(totals.fundingUsd)}</td>
+                <td className={`p-2 text-right ${pnlClass(totals.netPnl)}`}>{signed(totals.netPnl)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PositionBookPanel;
@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { Layers, ChevronDown, ChevronRight } from 'lucide-react';
+import { SlicedExecution, SliceState } from '../types';
+import { fetchSlicedExecutions } from '../services/ledgerService';
+
+const POLL_MS = 5000;
+const MAX_SHOWN = 5;
+
+const STATUS_STYLES: Record<SlicedExecution['status'], { label: string; className: string }> = {
+  running: { label: '执行中', className: 'bg-blue-500/10 text-blue-400' },
+  completed: { label: '已完成', className: 'bg-emerald-500/10 text-emerald-400' },
+  partial: { label: '部分完成', className: 'bg-amber-500/10 text-amber-400' },
+  failed: { label: '失败', className: 'bg-red-500/10 text-red-400' },
+  interrupted: { label: '已中断', className: 'bg-slate-500/10 text-slate-400' }
+};
+
+const SLICE_STYLES: Record<SliceState, { label: string; className: string }> = {
+  pending: { label: '等待', className: 'bg-slate-700' },
+  running: { label: '执行中', className: 'bg-blue-500 animate-pulse' },
+  done: { label: '完成', className: 'bg-emerald-500' },
+  failed: { label: '失败', className: 'bg-red-500' },
+  skipped: { label: '跳过', className: 'bg-slate-800 border border-slate-600' }
+};
+
+const formatLeg = (sz?: number, px?: number) => (sz === undefined ? '-' : `${sz.toFixed(4)} @ ${px?.toPrecision(6)}`);
+
+/** 分片执行 (TWAP) 进度：每次开平仓的分片计划与逐片成交，执行中时自动刷新 */
+const SlicedExecutionsPanel: React.FC = () => {
+  const [executions, setExecutions] = useState<SlicedExecution[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setExecutions(await fetchSlicedExecutions());
+    } catch (e) {
+      console.error('Failed to fetch sliced executions', e);
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const hasRunning = executions.some(e => e.status === 'running');
+  useEffect(() => {
+    if (!hasRunning) return;
+    const timer = setInterval(refresh, POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasRunning]);
+
+  if (executions.length === 0) return null;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg overflow-hidden">
+      <div className="p-4 border-b border-slate-700 flex items-center gap-2">
+        <Layers className="w-5 h-5 text-blue-400" />
+        <h3 className="font-semibold text-white">分片执行 (TWAP)</h3>
+        {hasRunning && <span className="text-[10px] text-slate-500">每 {POLL_MS / 1000}s 刷新</span>}
+      </div>
+      <div className="divide-y divide-slate-700">
+        {executions.slice(0, MAX_SHOWN).map(exec => {
+          const pct = exec.totalContracts > 0 ? Math.min(100, (exec.filledContracts / exec.totalContracts) * 100) : 0;
+          const isOpen = expanded === exec.id;
+          return (
+            <div key={exec.id} className="px-4 py-3">
+              <div className="flex items-center gap-3 cursor-pointer" onClick={() => setExpanded(isOpen ? null : exec.id)}>
+                <span className="text-slate-500">{isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}</span>
+                <div className="min-w-[180px]">
+                  <div className="font-bold text-white text-sm">{exec.swapInstId} <span className="text-slate-400 font-normal">{exec.kind === 'entry' ? '开仓' : '平仓'}</span></div>
+                  <div className="text-[10px] text-slate-500 font-mono">{exec.tradeId} · {new Date(exec.createdAt).toLocaleString()}</div>
+                </div>
+                <span className={`px-2 py-0.5 rounded text-xs font-bold ${STATUS_STYLES[exec.status].className}`}>{STATUS_STYLES[exec.status].label}</span>
+                <div className="flex-1">
+                  <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500 transition-all" style={{ width: `${pct}%` }} />
+                  </div>
+                  <div className="flex gap-1 mt-1.5">
+                    {exec.slices.map(s => (
+                      <span key={s.index} title={`第 ${s.index} 片 · ${s.contracts} 张 · ${SLICE_STYLES[s.state].label}`} className={`h-1.5 flex-1 rounded-sm ${SLICE_STYLES[s.state].className}`} />
+                    ))}
+                  </div>
+                </div>
+                <div className="text-xs font-mono text-slate-300 min-w-[90px] text-right">{exec.filledContracts} / {exec.totalContracts} 张</div>
+              </div>
+              {isOpen && (
+                <table className="w-full text-xs font-mono mt-3">
+                  <thead className="text-slate-500">
+                    <tr>
+                      <th className="text-left py-1 font-medium">#</th>
+                      <th className="text-left py-1 font-medium">状态</th>
+                      <th className="text-right py-1 font-medium">计划 (张)</th>
+                      <th className="text-right py-1 font-medium">现货 (数量 @ 均价)</th>
+                      <th className="text-right py-1 font-medium">合约 (张 @ 均价)</th>
+                      <th className="text-right py-1 font-medium">完成时间</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {exec.slices.map(s => (
+                      <tr key={s.index} className="text-slate-300" title={s.message}>
+                        <td className="py-1 text-slate-500">{s.index}</td>
+                        <td className={`py-1 font-sans ${s.state === 'failed' ? 'text-red-400' : ''}`}>{SLICE_STYLES[s.state].label}</td>
+                        <td className="py-1 text-right">{s.contracts}</td>
+                        <td className="py-1 text-right">{formatLeg(s.spotSz, s.spotPx)}</td>
+                        <td className="py-1 text-right">{formatLeg(s.swapSz, s.swapPx)}</td>
+                        <td className="py-1 text-right text-slate-500">{s.finishedAt ? new Date(s.finishedAt).toLocaleTimeString() : '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SlicedExecutionsPanel;
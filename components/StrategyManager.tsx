@@ -1,14 +1,161 @@
 import React, { useState } from 'react';
-import { StrategyConfig } from '../types';
-import { Play, Square, Settings, Cpu, Save, Code, Sliders, Info, Radar, Zap } from 'lucide-react';
+import { StrategyConfig, StrategyType, EngineStrategyStatus, GridStatus, StrategyRevision, AuthUser } from '../types';
+import { hasRole } from '../services/authService';
+import { STRATEGY_TEMPLATES } from '../constants';
+import { DEFAULT_MAKER_REPRICE_SEC, DEFAULT_MAKER_TIMEOUT_SEC } from '../services/legExecutionLogic';
+import { DEFAULT_SLICE_WINDOW_SEC, DEFAULT_SLICE_DEPTH_PCT } from '../services/slicingLogic';
+import { DEFAULT_EXPECTED_HOLD_PERIODS, DEFAULT_MAX_ENTRY_COST_PCT } from '../services/slippageLogic';
+import { DEFAULT_REBALANCE_THRESHOLD_USD, DEFAULT_REBALANCE_COOLDOWN_SEC, DEFAULT_MAX_REBALANCES_PER_HOUR } from '../services/hedgeLogic';
+import {
+  DEFAULT_PAUSE_LIQ_DISTANCE_PCT, DEFAULT_REDUCE_LIQ_DISTANCE_PCT, DEFAULT_PAUSE_MARGIN_RATIO_PCT, DEFAULT_REDUCE_MARGIN_RATIO_PCT, DEFAULT_RISK_REDUCE_PCT
+} from '../services/riskLogic';
+import { Play, Square, Settings, Cpu, Save, Code, Sliders, Info, Radar, Zap, Plus, Grid3x3, Copy, Trash2, History, RotateCcw } from 'lucide-react';
 
 interface StrategyManagerProps {
   strategies: StrategyConfig[];
+  engineStatuses: Record<string, EngineStrategyStatus>;
   onToggleStrategy: (id: string, field: 'isActive' | 'isTrading') => void;
   onUpdateStrategy: (strategy: StrategyConfig) => void;
+  onCreateStrategy: (type: StrategyType) => void;
+  onCloneStrategy: (id: string) => void;
+  onDeleteStrategy: (id: string) => void;
+  onLoadHistory: (id: string) => Promise<StrategyRevision[]>;
+  user: AuthUser;
 }
 
-const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleStrategy, onUpdateStrategy }) => {
+const TYPE_LABELS: Record<StrategyType, string> = {
+  [StrategyType.ROTATIONAL_FUNDING]: '资金费率轮动',
+  [StrategyType.GRID_TRADING]: '网格交易',
+  [StrategyType.AI_SENTIMENT]: 'AI 情绪择时',
+};
+
+const GRID_FIELDS: { key: string; label: string; step?: string; unit?: string; hint?: string }[] = [
+  { key: 'lowerPrice', label: '区间下沿 (lowerPrice)', step: 'any', unit: 'USDT' },
+  { key: 'upperPrice', label: '区间上沿 (upperPrice)', step: 'any', unit: 'USDT' },
+  { key: 'gridCount', label: '网格数量 (gridCount)', step: '1', hint: '区间被切分的格数，价格档位 = 格数 + 1' },
+  { key: 'orderSize', label: '每格下单量 (orderSize)', step: 'any', hint: '现货为币数量，合约 (-SWAP) 为张数' },
+  { key: 'scanInterval', label: '同步间隔 (scanInterval)', step: '1', unit: '秒', hint: '检查挂单成交并补挂反向单的频率' },
+];
+
+const SENTIMENT_FIELDS: { key: string; label: string; step?: string; unit?: string; hint?: string }[] = [
+  { key: 'minConfidence', label: '最低置信度 (minConfidence)', step: '0.05', hint: 'AI 置信度低于此值 (0-1) 不开仓；置信度越高仓位越大' },
+  { key: 'maxTradeUsd', label: '单笔上限 (maxTradeUsd)', step: '10', unit: 'USDT' },
+  { key: 'maxTotalExposureUsd', label: '总敞口上限 (maxTotalExposureUsd)', step: '10', unit: 'USDT' },
+  { key: 'stopLossPct', label: '止损上限 (stopLossPct)', step: '0.5', unit: '%', hint: 'AI 建议的止损更宽时以此为准' },
+  { key: 'takeProfitPct', label: '默认止盈 (takeProfitPct)', step: '0.5', unit: '%', hint: 'AI 未给出止盈时使用' },
+  { key: 'leverage', label: '杠杆倍数 (leverage)', step: '1', unit: 'x', hint: '限制在 1-5 倍' },
+  { key: 'scanInterval', label: '分析间隔 (scanInterval)', step: '60', unit: '秒' },
+];
+
+const SLICE_FIELDS: { key: string; label: string; step: string; fallback: number; unit?: string; hint?: string }[] = [
+  { key: 'sliceCount', label: '分片数 (sliceCount)', step: '1', fallback: 1, hint: '把一次开仓或平仓拆成 N 片依次执行，1 = 不拆分' },
+  { key: 'sliceWindowSec', label: '分片时长 (sliceWindowSec)', step: '30', fallback: DEFAULT_SLICE_WINDOW_SEC, unit: '秒', hint: '全部分片在此时间内等间隔执行' },
+  { key: 'sliceDepthPct', label: '单片深度占比 (sliceDepthPct)', step: '5', fallback: DEFAULT_SLICE_DEPTH_PCT, unit: '%', hint: '单片最多占用最优价 0.2% 以内盘口深度的比例，深度不足时顺延到后续分片' },
+];
+
+const ENTRY_COST_FIELDS: { key: string; label: string; step: string; fallback: number; unit?: string; hint?: string }[] = [
+  { key: 'expectedHoldPeriods', label: '预期持有 (expectedHoldPeriods)', step: '3', fallback: DEFAULT_EXPECTED_HOLD_PERIODS, unit: '次结算', hint: '开仓前按此持有期估算资金费收入' },
+  { key: 'maxEntryCostPct', label: '成本上限 (maxEntryCostPct)', step: '5', fallback: DEFAULT_MAX_ENTRY_COST_PCT, unit: '%', hint: '按盘口预估的往返滑点 + 手续费超过预期资金费收入的该比例时缩小投入或跳过，0 = 不检查' },
+];
+
+const HEDGE_FIELDS: { key: string; label: string; step: string; fallback: number; unit?: string; hint?: string }[] = [
+  { key: 'rebalanceThresholdUsd', label: '调仓阈值 (rebalanceThresholdUsd)', step: '5', fallback: DEFAULT_REBALANCE_THRESHOLD_USD, unit: 'USDT', hint: '现货与合约偏差价值超过此值时自动调仓' },
+  { key: 'rebalanceCooldownSec', label: '调仓冷却 (rebalanceCooldownSec)', step: '60', fallback: DEFAULT_REBALANCE_COOLDOWN_SEC, unit: '秒', hint: '同一标的两次自动调仓的最小间隔' },
+  { key: 'maxRebalancesPerHour', label: '每小时上限 (maxRebalancesPerHour)', step: '1', fallback: DEFAULT_MAX_REBALANCES_PER_HOUR, unit: '次', hint: '达到上限后暂停自动调仓并告警，需人工处理' },
+];
+
+const RISK_FIELDS: { key: string; label: string; step: string; fallback: number; unit?: string; hint?: string }[] = [
+  { key: 'pauseLiqDistancePct', label: '暂停开仓距离 (pauseLiqDistancePct)', step: '5', fallback: DEFAULT_PAUSE_LIQ_DISTANCE_PCT, unit: '%', hint: '空头强平价高出标记价格的比例低于此值时暂停新开仓与轮动' },
+  { key: 'reduceLiqDistancePct', label: '减仓距离 (reduceLiqDistancePct)', step: '5', fallback: DEFAULT_REDUCE_LIQ_DISTANCE_PCT, unit: '%', hint: '强平距离低于此值时补充保证金，资金账户不足时双边减仓' },
+  { key: 'riskReducePct', label: '单次减仓比例 (riskReducePct)', step: '5', fallback: DEFAULT_RISK_REDUCE_PCT, unit: '%', hint: '每次风控减仓占持仓的比例，两次减仓间隔 5 分钟' },
+  { key: 'pauseMarginRatioPct', label: '暂停开仓保证金率 (pauseMarginRatioPct)', step: '50', fallback: DEFAULT_PAUSE_MARGIN_RATIO_PCT, unit: '%', hint: '账户保证金率低于此值时所有资金费策略暂停新开仓 (100% 触发强平)' },
+  { key: 'reduceMarginRatioPct', label: '减仓保证金率 (reduceMarginRatioPct)', step: '50', fallback: DEFAULT_REDUCE_MARGIN_RATIO_PCT, unit: '%', hint: '账户保证金率低于此值时补充保证金或减仓强平距离最近的组合' },
+];
+
+const GridCellsTable: React.FC<{ grid: GridStatus }> = ({ grid }) => (
+  <div className="mb-4 max-h-64 overflow-y-auto rounded-lg border border-slate-700/50">
+    <table className="w-full text-xs text-left">
+      <thead className="bg-slate-900 text-slate-500 uppercase sticky top-0">
+        <tr>
+          <th className="px-3 py-2">#</th>
+          <th className="px-3 py-2">价格区间</th>
+          <th className="px-3 py-2">挂单</th>
+          <th className="px-3 py-2 text-right">往返次数</th>
+          <th className="px-3 py-2 text-right">已实现利润</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-800">
+        {[...grid.cells].reverse().map(cell => (
+          <tr key={cell.index} className="text-slate-300">
+            <td className="px-3 py-1.5 text-slate-500">{cell.index}</td>
+            <td className="px-3 py-1.5 font-mono">{cell.lowerPx.toPrecision(6)} ~ {cell.upperPx.toPrecision(6)}</td>
+            <td className="px-3 py-1.5">
+              <span className={cell.side === 'buy' ? 'text-emerald-400' : 'text-red-400'}>
+                {cell.side === 'buy' ? `买 @${cell.lowerPx.toPrecision(6)}` : `卖 @${cell.upperPx.toPrecision(6)}`}
+              </span>
+              {!cell.ordId && <span className="ml-2 text-slate-600">(未挂)</span>}
+            </td>
+            <td className="px-3 py-1.5 text-right">{cell.roundTrips}</td>
+            <td className={`px-3 py-1.5 text-right font-mono ${cell.realizedProfit >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+              {cell.realizedProfit.toFixed(4)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const ACTION_LABELS: Record<StrategyRevision['action'], string> = {
+  CREATE: '创建',
+  UPDATE: '修改',
+  DELETE: '删除'
+};
+
+const RevisionHistory: React.FC<{ revisions: StrategyRevision[]; onRestore?: (revision: StrategyRevision) => void }> = ({ revisions, onRestore }) => (
+  <div className="mt-4 bg-slate-900 rounded-lg border border-slate-700 max-h-64 overflow-y-auto">
+    {revisions.length === 0 ? (
+      <div className="p-4 text-xs text-slate-500">暂无编辑记录</div>
+    ) : (
+      <table className="w-full text-xs">
+        <thead className="text-slate-500 sticky top-0 bg-slate-900">
+          <tr>
+            <th className="text-left p-2 pl-4 font-medium">时间</th>
+            <th className="text-left p-2 font-medium">操作</th>
+            <th className="text-left p-2 font-medium">操作人</th>
+            <th className="text-left p-2 font-medium">名称</th>
+            <th className="text-right p-2 pr-4 font-medium"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...revisions].reverse().map((rev, idx) => (
+            <tr key={rev.id} className="border-t border-slate-800 text-slate-300">
+              <td className="p-2 pl-4 font-mono">{new Date(rev.ts).toLocaleString()}</td>
+              <td className="p-2">{ACTION_LABELS[rev.action]}</td>
+              <td className="p-2 font-mono">{rev.author}</td>
+              <td className="p-2" title={JSON.stringify(rev.config.parameters, null, 2)}>{rev.config.name}</td>
+              <td className="p-2 pr-4 text-right">
+                {onRestore && idx > 0 && rev.action !== 'DELETE' && (
+                  <button onClick={() => onRestore(rev)} className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300">
+                    <RotateCcw className="w-3 h-3" /> 恢复此版本
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const StrategyManager: React.FC<StrategyManagerProps> = ({
+  strategies, engineStatuses, onToggleStrategy, onUpdateStrategy, onCreateStrategy, onCloneStrategy, onDeleteStrategy, onLoadHistory, user
+}) => {
+  // operator: 启停雷达与编辑配置；trader: 交易开关
+  const canOperate = hasRole(user, 'operator');
+  const canTrade = hasRole(user, 'trader');
+  const [newType, setNewType] = useState<StrategyType>(StrategyType.GRID_TRADING);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [mode, setMode] = useState<'form' | 'json'>('form');
   
@@ -17,9 +164,15 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
   
   // Form State
   const [formParams, setFormParams] = useState<any>({});
+  const [editName, setEditName] = useState<string>('');
+
+  // Edit History State
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<StrategyRevision[]>([]);
 
   const handleEdit = (strategy: StrategyConfig) => {
     setEditingId(strategy.id);
+    setEditName(strategy.name);
     setJsonParams(JSON.stringify(strategy.parameters, null, 2));
     setFormParams(strategy.parameters);
     setMode('form');
@@ -37,7 +190,7 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
 
       const strategy = strategies.find(s => s.id === editingId);
       if (strategy) {
-        onUpdateStrategy({ ...strategy, parameters: finalParams });
+        onUpdateStrategy({ ...strategy, name: editName.trim() || strategy.name, parameters: finalParams });
       }
       setEditingId(null);
     } catch (e) {
@@ -45,6 +198,34 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
     }
   };
 
+  const handleDelete = (strategy: StrategyConfig) => {
+    const owned = engineStatuses[strategy.id]?.ownedInstIds || [];
+    const warning = owned.length > 0 ? `\n\n该策略仍管理以下标的，删除后需手动处理持仓: ${owned.join(', ')}` : '';
+    if (window.confirm(`确定删除策略「${strategy.name}」？运行中的策略会先停止${strategy.type === StrategyType.GRID_TRADING ? '并撤销网格挂单' : ''}。${warning}`)) {
+      onDeleteStrategy(strategy.id);
+    }
+  };
+
+  const toggleHistory = async (id: string) => {
+    if (historyId === id) {
+      setHistoryId(null);
+      return;
+    }
+    setHistoryId(id);
+    setRevisions([]);
+    try {
+      setRevisions(await onLoadHistory(id));
+    } catch (e) {
+      alert(`编辑历史加载失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+    }
+  };
+
+  const handleRestore = (strategy: StrategyConfig, revision: StrategyRevision) => {
+    if (!window.confirm(`将策略「${strategy.name}」恢复到 ${new Date(revision.ts).toLocaleString()} 的配置？`)) return;
+    onUpdateStrategy({ ...strategy, name: revision.config.name, parameters: JSON.parse(JSON.stringify(revision.config.parameters)) });
+    setHistoryId(null);
+  };
+
   const updateFormParam = (key: string, value: any) => {
     const newParams = { ...formParams, [key]: value };
     setFormParams(newParams);
@@ -53,6 +234,26 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
 
   return (
     <div className="grid grid-cols-1 gap-6 animate-fade-in">
+      {canOperate && (
+      <div className="flex justify-end items-center gap-2">
+        <select
+          value={newType}
+          onChange={(e) => setNewType(e.target.value as StrategyType)}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 focus:outline-none focus:border-blue-500"
+        >
+          {(Object.keys(STRATEGY_TEMPLATES) as StrategyType[]).map(type => (
+            <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onCreateStrategy(newType)}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          <Plus className="w-4 h-4" /> 新建策略
+        </button>
+      </div>
+      )}
+
       {strategies.map((strategy) => (
         <div key={strategy.id} className={`bg-slate-800 rounded-xl border ${strategy.isActive ? 'border-emerald-500/50' : 'border-slate-700'} shadow-lg overflow-hidden transition-all duration-300`}>
           <div className="p-6">
@@ -76,7 +277,9 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
                   {/* Radar Switch */}
                   <button
                     onClick={() => onToggleStrategy(strategy.id, 'isActive')}
-                    className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all transform active:scale-95 border ${
+                    disabled={!canOperate}
+                    title={canOperate ? undefined : '需要 operator 权限'}
+                    className={`disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all transform active:scale-95 border ${
                       strategy.isActive 
                         ? 'bg-blue-500/10 text-blue-400 border-blue-500/30 hover:bg-blue-500/20' 
                         : 'bg-slate-700 text-slate-400 border-transparent hover:bg-slate-600'
@@ -92,9 +295,10 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
                   {/* Trading Switch */}
                   <button
                     onClick={() => onToggleStrategy(strategy.id, 'isTrading')}
-                    disabled={!strategy.isActive}
+                    disabled={!strategy.isActive || !canTrade}
+                    title={canTrade ? undefined : '需要 trader 权限'}
                     className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all transform active:scale-95 border ${
-                        !strategy.isActive 
+                        !strategy.isActive || !canTrade 
                             ? 'opacity-50 cursor-not-allowed bg-slate-800 text-slate-500 border-transparent'
                             : strategy.isTrading 
                                 ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30 hover:bg-emerald-500/20' 
@@ -113,6 +317,15 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
             {/* Configuration Area */}
             {editingId === strategy.id ? (
                <div className="mt-4 bg-slate-900 rounded-lg p-5 border border-slate-700">
+                  <div className="mb-4">
+                    <label className="block text-xs text-slate-400 mb-1.5">策略名称</label>
+                    <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        className="w-full md:w-1/2 bg-slate-950 border border-slate-700 rounded-lg text-white p-2.5 text-sm focus:outline-none"
+                    />
+                  </div>
                   <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-3">
                     <div className="flex gap-2">
                         <button 
@@ -130,7 +343,97 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
                     </div>
                   </div>
 
-                  {mode === 'form' ? (
+                  {mode === 'form' && strategy.type === StrategyType.GRID_TRADING ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          <div>
+                              <label className="block text-xs text-slate-400 mb-1.5">交易标的 (gridInstId)</label>
+                              <input
+                                  type="text"
+                                  value={formParams.gridInstId || ''}
+                                  onChange={(e) => updateFormParam('gridInstId', e.target.value.trim().toUpperCase())}
+                                  placeholder="BTC-USDT 或 BTC-USDT-SWAP"
+                                  className="w-full bg-slate-950 border border-slate-700 rounded-lg text-white p-2.5 text-sm focus:outline-none"
+                              />
+                          </div>
+
+                          <div>
+                              <label className="block text-xs text-slate-400 mb-1.5">网格间距 (gridSpacing)</label>
+                              <select
+                                  value={formParams.gridSpacing || 'arithmetic'}
+                                  onChange={(e) => updateFormParam('gridSpacing', e.target.value)}
+                                  className="w-full bg-slate-950 border border-slate-700 rounded-lg text-white p-2.5 text-sm focus:outline-none"
+                              >
+                                  <option value="arithmetic">等差 (每格价差相同)</option>
+                                  <option value="geometric">等比 (每格涨跌幅相同)</option>
+                              </select>
+                          </div>
+
+                          {GRID_FIELDS.map(field => (
+                              <div key={field.key}>
+                                  <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
+                                    {field.label}
+                                    {field.hint && (
+                                      <span title={field.hint}>
+                                        <Info className="w-3 h-3 text-slate-600" />
+                                      </span>
+                                    )}
+                                  </label>
+                                  <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2">
+                                    <input
+                                        type="number" step={field.step}
+                                        value={formParams[field.key] || 0}
+                                        onChange={(e) => updateFormParam(field.key, parseFloat(e.target.value))}
+                                        className="w-full bg-transparent text-white p-2.5 text-sm focus:outline-none"
+                                    />
+                                    {field.unit && <span className="text-slate-500 text-xs px-2">{field.unit}</span>}
+                                  </div>
+                              </div>
+                          ))}
+
+                          <div className="text-xs text-slate-500 border-l-2 border-blue-500/30 pl-3 md:col-span-2">
+                            修改区间、格数或下单量后，运行中的网格会撤销全部挂单并按新参数重建。现货网格启动时会市价买入卖单格所需的底仓。
+                          </div>
+                      </div>
+                  ) : mode === 'form' && strategy.type === StrategyType.AI_SENTIMENT ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          <div className="md:col-span-2">
+                              <label className="block text-xs text-slate-400 mb-1.5">分析标的 (sentimentInstIds，逗号分隔)</label>
+                              <input
+                                  type="text"
+                                  value={(formParams.sentimentInstIds || []).join(', ')}
+                                  onChange={(e) => updateFormParam('sentimentInstIds', e.target.value.split(',').map(v => v.trim().toUpperCase()).filter(Boolean))}
+                                  placeholder="BTC-USDT-SWAP, ETH-USDT-SWAP"
+                                  className="w-full bg-slate-950 border border-slate-700 rounded-lg text-white p-2.5 text-sm focus:outline-none font-mono"
+                              />
+                          </div>
+
+                          {SENTIMENT_FIELDS.map(field => (
+                              <div key={field.key}>
+                                  <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
+                                    {field.label}
+                                    {field.hint && (
+                                      <span title={field.hint}>
+                                        <Info className="w-3 h-3 text-slate-600" />
+                                      </span>
+                                    )}
+                                  </label>
+                                  <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2">
+                                    <input
+                                        type="number" step={field.step}
+                                        value={formParams[field.key] || 0}
+                                        onChange={(e) => updateFormParam(field.key, parseFloat(e.target.value))}
+                                        className="w-full bg-transparent text-white p-2.5 text-sm focus:outline-none"
+                                    />
+                                    {field.unit && <span className="text-slate-500 text-xs px-2">{field.unit}</span>}
+                                  </div>
+                              </div>
+                          ))}
+
+                          <div className="text-xs text-slate-500 border-l-2 border-blue-500/30 pl-3 md:col-span-2">
+                            每轮将各标的的涨跌幅、资金费率、成交额与持仓量发送给 DeepSeek 获取方向判断，仅平掉本策略开出的仓位。每笔交易的 AI 理由可在仪表盘的 AI 报告中审计。
+                          </div>
+                      </div>
+                  ) : mode === 'form' ? (
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                           <div>
                               <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
@@ -150,6 +453,24 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
                               </div>
                           </div>
                           
+                          <div>
+                              <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
+                                轮动费率差 (rotationThreshold)
+                                <span title="仓位已满时，新标的费率需比最弱持仓高出此值 (已扣除摊销手续费) 才会轮动">
+                                  <Info className="w-3 h-3 text-slate-600" />
+                                </span>
+                              </label>
+                              <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2">
+                                <input 
+                                    type="number" step="0.0001"
+                                    value={formParams.rotationThreshold || 0}
+                                    onChange={(e) => updateFormParam('rotationThreshold', parseFloat(e.target.value))}
+                                    className="w-full bg-transparent text-white p-2.5 text-sm focus:outline-none"
+                                />
+                                <span className="text-slate-500 text-xs px-2">%</span>
+                              </div>
+                          </div>
+
                           <div>
                               <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
                                 单币种分配比例 (allocationPct)
@@ -182,6 +503,198 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
                               </div>
                           </div>
 
+                          <div>
+                              <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
+                                排序费率 (rateAverageHours)
+                                <span title="候选筛选、排序与轮动比较使用本地费率历史的滚动平均，减少单次费率尖峰造成的追高与频繁轮动；出场仍按即时费率判断，没有历史的标的回退到即时费率">
+                                  <Info className="w-3 h-3 text-slate-600" />
+                                </span>
+                              </label>
+                              <select
+                                  value={formParams.rateAverageHours || 0}
+                                  onChange={(e) => updateFormParam('rateAverageHours', parseInt(e.target.value))}
+                                  className="w-full bg-slate-950 border border-slate-700 rounded-lg text-white p-2.5 text-sm focus:outline-none"
+                              >
+                                  <option value={0}>即时费率</option>
+                                  <option value={24}>近 24 小时平均</option>
+                                  <option value={72}>近 3 天平均</option>
+                                  <option value={168}>近 7 天平均</option>
+                              </select>
+                          </div>
+
+                          <div>
+                              <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
+                                执行方式 (executionMode)
+                                <span title="maker：两条腿都在买一/卖一挂 post-only 限价单并定时追价，超时后剩余数量改市价，手续费按 maker 费率">
+                                  <Info className="w-3 h-3 text-slate-600" />
+                                </span>
+                              </label>
+                              <select
+                                  value={formParams.executionMode || 'market'}
+                                  onChange={(e) => updateFormParam('executionMode', e.target.value)}
+                                  className="w-full bg-slate-950 border border-slate-700 rounded-lg text-white p-2.5 text-sm focus:outline-none"
+                              >
+                                  <option value="market">市价 (taker，立即成交)</option>
+                                  <option value="maker">挂单追价 (maker，超时转市价)</option>
+                              </select>
+                          </div>
+
+                          {formParams.executionMode === 'maker' && (
+                            <div className="grid grid-cols-2 gap-3">
+                              <div>
+                                <label className="block text-xs text-slate-400 mb-1.5">追价间隔 (makerRepriceSec)</label>
+                                <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2">
+                                  <input
+                                      type="number" step="1"
+                                      value={formParams.makerRepriceSec || DEFAULT_MAKER_REPRICE_SEC}
+                                      onChange={(e) => updateFormParam('makerRepriceSec', parseFloat(e.target.value))}
+                                      className="w-full bg-transparent text-white p-2.5 text-sm focus:outline-none"
+                                  />
+                                  <span className="text-slate-500 text-xs px-2">秒</span>
+                                </div>
+                              </div>
+                              <div>
+                                <label className="block text-xs text-slate-400 mb-1.5">超时转市价 (makerTimeoutSec)</label>
+                                <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2">
+                                  <input
+                                      type="number" step="5"
+                                      value={formParams.makerTimeoutSec || DEFAULT_MAKER_TIMEOUT_SEC}
+                                      onChange={(e) => updateFormParam('makerTimeoutSec', parseFloat(e.target.value))}
+                                      className="w-full bg-transparent text-white p-2.5 text-sm focus:outline-none"
+                                  />
+                                  <span className="text-slate-500 text-xs px-2">秒</span>
+                                </div>
+                              </div>
+                            </div>
+                          )}
+
+                          <div className="md:col-span-2 grid grid-cols-2 gap-3">
+                            {ENTRY_COST_FIELDS.map(field => (
+                              <div key={field.key}>
+                                <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
+                                  {field.label}
+                                  {field.hint && (
+                                    <span title={field.hint}>
+                                      <Info className="w-3 h-3 text-slate-600" />
+                                    </span>
+                                  )}
+                                </label>
+                                <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2">
+                                  <input
+                                      type="number" step={field.step}
+                                      value={formParams[field.key] ?? field.fallback}
+                                      onChange={(e) => updateFormParam(field.key, parseFloat(e.target.value))}
+                                      className="w-full bg-transparent text-white p-2.5 text-sm focus:outline-none"
+                                  />
+                                  {field.unit && <span className="text-slate-500 text-xs px-2">{field.unit}</span>}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+
+                          <div className="md:col-span-2 grid grid-cols-3 gap-3">
+                            {SLICE_FIELDS.map(field => (
+                              <div key={field.key}>
+                                <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
+                                  {field.label}
+                                  {field.hint && (
+                                    <span title={field.hint}>
+                                      <Info className="w-3 h-3 text-slate-600" />
+                                    </span>
+                                  )}
+                                </label>
+                                <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2">
+                                  <input
+                                      type="number" step={field.step}
+                                      value={formParams[field.key] || field.fallback}
+                                      onChange={(e) => updateFormParam(field.key, parseFloat(e.target.value))}
+                                      className="w-full bg-transparent text-white p-2.5 text-sm focus:outline-none"
+                                  />
+                                  {field.unit && <span className="text-slate-500 text-xs px-2">{field.unit}</span>}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+
+                          <div className="md:col-span-2 space-y-3">
+                            <div className="flex items-center gap-2">
+                              <input
+                                  type="checkbox"
+                                  id="autoRebalance"
+                                  checked={formParams.autoRebalance !== false}
+                                  onChange={(e) => updateFormParam('autoRebalance', e.target.checked)}
+                                  className="w-4 h-4 rounded border-slate-700 bg-slate-950 text-blue-600 focus:ring-blue-600"
+                              />
+                              <label htmlFor="autoRebalance" className="text-sm text-slate-300 font-medium">对冲偏差自动调仓</label>
+                              <span title="引擎每分钟检查持仓的现货与合约偏差，超过阈值时自动补齐；交易开关关闭时只告警">
+                                <Info className="w-3 h-3 text-slate-600" />
+                              </span>
+                            </div>
+                            <div className="grid grid-cols-3 gap-3">
+                              {HEDGE_FIELDS.map(field => (
+                                <div key={field.key}>
+                                  <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
+                                    {field.label}
+                                    {field.hint && (
+                                      <span title={field.hint}>
+                                        <Info className="w-3 h-3 text-slate-600" />
+                                      </span>
+                                    )}
+                                  </label>
+                                  <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2">
+                                    <input
+                                        type="number" step={field.step}
+                                        value={formParams[field.key] || field.fallback}
+                                        disabled={formParams.autoRebalance === false}
+                                        onChange={(e) => updateFormParam(field.key, parseFloat(e.target.value))}
+                                        className="w-full bg-transparent text-white p-2.5 text-sm focus:outline-none disabled:opacity-50"
+                                    />
+                                    {field.unit && <span className="text-slate-500 text-xs px-2">{field.unit}</span>}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+
+                          <div className="md:col-span-2 space-y-3">
+                            <div className="flex items-center gap-2">
+                              <input
+                                  type="checkbox"
+                                  id="autoMarginTopUp"
+                                  checked={formParams.autoMarginTopUp !== false}
+                                  onChange={(e) => updateFormParam('autoMarginTopUp', e.target.checked)}
+                                  className="w-4 h-4 rounded border-slate-700 bg-slate-950 text-blue-600 focus:ring-blue-600"
+                              />
+                              <label htmlFor="autoMarginTopUp" className="text-sm text-slate-300 font-medium">强平风控：优先从资金账户划转保证金</label>
+                              <span title="引擎每 30 秒检查强平距离与账户保证金率；关闭划转时达到减仓阈值直接双边减仓，交易开关关闭时只告警">
+                                <Info className="w-3 h-3 text-slate-600" />
+                              </span>
+                            </div>
+                            <div className="grid grid-cols-3 gap-3">
+                              {RISK_FIELDS.map(field => (
+                                <div key={field.key}>
+                                  <label className="block text-xs text-slate-400 mb-1.5 flex items-center gap-1">
+                                    {field.label}
+                                    {field.hint && (
+                                      <span title={field.hint}>
+                                        <Info className="w-3 h-3 text-slate-600" />
+                                      </span>
+                                    )}
+                                  </label>
+                                  <div className="flex items-center bg-slate-950 border border-slate-700 rounded-lg px-2">
+                                    <input
+                                        type="number" step={field.step}
+                                        value={formParams[field.key] || field.fallback}
+                                        onChange={(e) => updateFormParam(field.key, parseFloat(e.target.value))}
+                                        className="w-full bg-transparent text-white p-2.5 text-sm focus:outline-none"
+                                    />
+                                    {field.unit && <span className="text-slate-500 text-xs px-2">{field.unit}</span>}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+
                            <div className="space-y-4">
                              <div className="flex items-center gap-2 mt-2">
                                   <input 
@@ -224,6 +737,58 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
                </div>
             ) : (
               <div className="mt-4">
+                 {strategy.type === StrategyType.GRID_TRADING ? (
+                 <>
+                 <div className="flex flex-wrap gap-3 mb-4">
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">网格标的</span>
+                      <span className="text-white font-bold text-lg">{strategy.parameters.gridInstId || '-'}</span>
+                    </div>
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">价格区间</span>
+                      <span className="text-blue-400 font-bold text-lg">{strategy.parameters.lowerPrice} ~ {strategy.parameters.upperPrice}</span>
+                    </div>
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">网格</span>
+                      <span className="text-white font-bold text-lg">
+                        {strategy.parameters.gridCount} 格 · {strategy.parameters.gridSpacing === 'geometric' ? '等比' : '等差'}
+                      </span>
+                    </div>
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">已实现利润</span>
+                      <span className={`font-bold text-lg ${(engineStatuses[strategy.id]?.grid?.realizedProfit || 0) >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                        ${(engineStatuses[strategy.id]?.grid?.realizedProfit || 0).toFixed(4)}
+                      </span>
+                    </div>
+                 </div>
+                 {engineStatuses[strategy.id]?.grid?.initialized ? (
+                   <GridCellsTable grid={engineStatuses[strategy.id].grid!} />
+                 ) : (
+                   <div className="mb-4 flex items-center gap-2 text-xs text-slate-500">
+                     <Grid3x3 className="w-4 h-4" /> 开启交易后网格将按现价挂出首批买卖单。
+                   </div>
+                 )}
+                 </>
+                 ) : strategy.type === StrategyType.AI_SENTIMENT ? (
+                 <div className="flex flex-wrap gap-3 mb-4">
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">分析标的</span>
+                      <span className="text-white font-bold text-lg">{(strategy.parameters.sentimentInstIds || []).length} 个</span>
+                    </div>
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">最低置信度</span>
+                      <span className="text-blue-400 font-bold text-lg">{((strategy.parameters.minConfidence || 0) * 100).toFixed(0)}%</span>
+                    </div>
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">单笔 / 总敞口</span>
+                      <span className="text-emerald-400 font-bold text-lg">${strategy.parameters.maxTradeUsd} / ${strategy.parameters.maxTotalExposureUsd}</span>
+                    </div>
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">止损 / 止盈</span>
+                      <span className="text-white font-bold text-lg">{strategy.parameters.stopLossPct}% / {strategy.parameters.takeProfitPct}%</span>
+                    </div>
+                 </div>
+                 ) : (
                  <div className="flex flex-wrap gap-3 mb-4">
                     <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
                       <span className="text-[10px] text-slate-500 uppercase font-bold">单币分配</span>
@@ -237,17 +802,54 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
                       <span className="text-[10px] text-slate-500 uppercase font-bold">最大持仓</span>
                       <span className="text-white font-bold text-lg">{strategy.parameters.maxPositions || 3}</span>
                     </div>
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">执行方式</span>
+                      <span className="text-white font-bold text-lg">
+                        {strategy.parameters.executionMode === 'maker' ? 'Maker' : '市价'}
+                        {(strategy.parameters.sliceCount || 1) > 1 && ` · ${strategy.parameters.sliceCount} 片`}
+                      </span>
+                    </div>
                     <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 flex flex-col min-w-[120px]">
                       <span className="text-[10px] text-slate-500 uppercase font-bold">AI 审核</span>
                       <span className={`font-bold text-lg ${strategy.parameters.useAI ? 'text-emerald-400' : 'text-slate-500'}`}>{strategy.parameters.useAI ? 'ON' : 'OFF'}</span>
                     </div>
                  </div>
-                 <button 
-                  onClick={() => handleEdit(strategy)}
-                  className="text-sm text-slate-400 hover:text-white flex items-center gap-1.5 transition-colors"
-                 >
-                   <Settings className="w-4 h-4" /> 修改策略运行参数
-                 </button>
+                 )}
+                 <div className="flex items-center gap-5">
+                   {canOperate && (
+                   <>
+                   <button 
+                    onClick={() => handleEdit(strategy)}
+                    className="text-sm text-slate-400 hover:text-white flex items-center gap-1.5 transition-colors"
+                   >
+                     <Settings className="w-4 h-4" /> 修改策略运行参数
+                   </button>
+                   <button
+                    onClick={() => onCloneStrategy(strategy.id)}
+                    className="text-sm text-slate-400 hover:text-white flex items-center gap-1.5 transition-colors"
+                   >
+                     <Copy className="w-4 h-4" /> 克隆
+                   </button>
+                   </>
+                   )}
+                   <button
+                    onClick={() => toggleHistory(strategy.id)}
+                    className={`text-sm flex items-center gap-1.5 transition-colors ${historyId === strategy.id ? 'text-white' : 'text-slate-400 hover:text-white'}`}
+                   >
+                     <History className="w-4 h-4" /> 编辑历史
+                   </button>
+                   {canOperate && (
+                   <button
+                    onClick={() => handleDelete(strategy)}
+                    className="text-sm text-slate-400 hover:text-red-400 flex items-center gap-1.5 transition-colors"
+                   >
+                     <Trash2 className="w-4 h-4" /> 删除
+                   </button>
+                   )}
+                 </div>
+                 {historyId === strategy.id && (
+                   <RevisionHistory revisions={revisions} onRestore={canOperate ? (rev) => handleRestore(strategy, rev) : undefined} />
+                 )}
               </div>
             )}
           </div>
@@ -255,6 +857,11 @@ const StrategyManager: React.FC<StrategyManagerProps> = ({ strategies, onToggleS
           {/* Status Footer */}
           <div className="bg-slate-900/60 p-3 px-6 border-t border-slate-700/50 flex justify-between items-center text-[10px] tracking-wider text-slate-500 uppercase font-medium">
             <span className="flex items-center gap-1.5"><span className={`w-1.5 h-1.5 rounded-full ${strategy.isActive ? 'bg-emerald-500 animate-pulse' : 'bg-slate-600'}`}></span> ID: {strategy.id}</span>
+            {(engineStatuses[strategy.id]?.ownedInstIds || []).length > 0 && (
+              <span className="normal-case tracking-normal font-mono text-slate-400" title="由该策略管理的标的，其他策略不会在这些标的上开平仓">
+                持仓归属: {engineStatuses[strategy.id].ownedInstIds.join(', ')}
+              </span>
+            )}
             <span>LAST RUN: {strategy.lastRun ? new Date(strategy.lastRun).toLocaleTimeString() : 'PENDING'}</span>
           </div>
         </div>
@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ScrollText, RotateCcw, ChevronDown, ChevronRight, Filter } from 'lucide-react';
+import { StrategyConfig, TradeJournalEntry, TradePhase } from '../types';
+import { fetchTradeJournal } from '../services/ledgerService';
+
+interface TradeJournalPanelProps {
+  strategies: StrategyConfig[];
+}
+
+const PHASE_LABELS: Record<TradePhase, string> = { entry: '开仓', rebalance: '调仓', exit: '平仓' };
+
+const signed = (v: number, digits = 2) => `${v >= 0 ? '+' : ''}${v.toFixed(digits)}`;
+const pnlClass = (v: number) => (v >= 0 ? 'text-emerald-400' : 'text-red-400');
+const formatBasis = (basis?: number) => (basis === undefined ? '-' : `${signed(basis * 100, 3)}%`);
+
+const inputClass = 'bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm';
+
+/** 交易日志：每组套利的开仓、调仓、平仓订单按交易编号 (clOrdId 前缀) 归组 */
+const TradeJournalPanel: React.FC<TradeJournalPanelProps> = ({ strategies }) => {
+  const [entries, setEntries] = useState<TradeJournalEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [instFilter, setInstFilter] = useState('');
+  const [strategyFilter, setStrategyFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const refresh = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await fetchTradeJournal());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const instIds = useMemo(() => [...new Set(entries.map(e => e.swapInstId))].sort(), [entries]);
+  const strategyName = (id?: string) => (id ? strategies.find(s => s.id === id)?.name ?? id : '-');
+
+  // 日期按本地时区的自然日筛选开仓时间
+  const filtered = useMemo(() => {
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : -Infinity;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Infinity;
+    return entries.filter(e =>
+      (!instFilter || e.swapInstId === instFilter) &&
+      (!strategyFilter || e.strategyId === strategyFilter) &&
+      e.openedAt >= from && e.openedAt <= to
+    );
+  }, [entries, instFilter, strategyFilter, fromDate, toDate]);
+
+  const totals = useMemo(() => filtered.reduce(
+    (acc, e) => ({ feesUsd: acc.feesUsd + e.feesUsd, fundingUsd: acc.fundingUsd + e.fundingUsd, netPnl: acc.netPnl + e.netPnl }),
+    { feesUsd: 0, fundingUsd: 0, netPnl: 0 }
+  ), [filtered]);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-3 bg-slate-800 p-4 rounded-xl border border-slate-700">
+        <Filter className="w-4 h-4 text-slate-400" />
+        <select value={instFilter} onChange={(e) => setInstFilter(e.target.value)} className={inputClass}>
+          <option value="">全部标的</option>
+          {instIds.map(id => <option key={id} value={id}>{id}</option>)}
+        </select>
+        <select value={strategyFilter} onChange={(e) => setStrategyFilter(e.target.value)} className={inputClass}>
+          <option value="">全部策略</option>
+          {strategies.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+        <span className="text-slate-500 text-sm">至</span>
+        <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+        <div className="flex-1" />
+        <div className="text-xs text-slate-400 font-mono">
+          {filtered.length} 笔 · 手续费 -{totals.feesUsd.toFixed(2)} · 资金费 <span className={pnlClass(totals.fundingUsd)}>{signed(totals.fundingUsd)}</span> · 净收益 <span className={`font-bold ${pnlClass(totals.netPnl)}`}>{signed(totals.netPnl)}</span>
+        </div>
+        <button onClick={refresh} className="p-2 text-slate-400 hover:text-white transition-colors">
+          <RotateCcw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <div className="bg-red-500/10 border border-red-500/30 text-red-400 text-sm rounded-lg p-3">{error}</div>}
+
+      <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg overflow-hidden">
+        <div className="p-4 border-b border-slate-700 flex items-center gap-2">
+          <ScrollText className="w-5 h-5 text-blue-400" />
+          <h3 className="font-semibold text-white">交易日志 (Trade Journal)</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-900/50 text-xs uppercase text-slate-400 font-semibold">
+              <tr>
+                <th className="px-4 py-3"></th>
+                <th className="px-4 py-3">交易编号 / 标的</th>
+                <th className="px-4 py-3">策略</th>
+                <th className="px-4 py-3">开仓 / 平仓时间</th>
+                <th className="px-4 py-3 text-right">开仓 / 平仓基差</th>
+                <th className="px-4 py-3 text-right">开仓金额</th>
+                <th className="px-4 py-3 text-right">手续费</th>
+                <th className="px-4 py-3 text-right">资金费</th>
+                <th className="px-4 py-3 text-right">净收益</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {filtered.length === 0 && (
+                <tr><td colSpan={9} className="px-6 py-12 text-center text-slate-500 italic">暂无交易记录</td></tr>
+              )}
+              {filtered.map(entry => (
+                <React.Fragment key={entry.tradeId}>
+                  <tr onClick={() => setExpanded(expanded === entry.tradeId ? null : entry.tradeId)} className="hover:bg-slate-700/30 transition-colors cursor-pointer">
+                    <td className="px-4 py-3 text-slate-500">{expanded === entry.tradeId ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}</td>
+                    <td className="px-4 py-3">
+                      <div className="font-bold text-white">{entry.swapInstId}</div>
+                      <div className="text-[10px] text-slate-500 font-mono">{entry.tradeId}</div>
+                    </td>
+                    <td className="px-4 py-3 text-slate-300">{strategyName(entry.strategyId)}</td>
+                    <td className="px-4 py-3 font-mono text-xs text-slate-300">
+                      <div>{new Date(entry.openedAt).toLocaleString()}</div>
+                      <div className={entry.closedAt ? 'text-slate-500' : 'text-emerald-400'}>{entry.closedAt ? new Date(entry.closedAt).toLocaleString() : '持仓中'}</div>
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-xs text-slate-300">
+                      <div>{formatBasis(entry.entryBasis)}</div>
+                      <div className="text-slate-500">{formatBasis(entry.exitBasis)}</div>
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-300">${entry.notionalUsd.toFixed(2)}</td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-400">-{entry.feesUsd.toFixed(2)}</td>
+                    <td className={`px-4 py-3 text-right font-mono ${pnlClass(entry.fundingUsd)}`}>{signed(entry.fundingUsd)}</td>
+                    <td className={`px-4 py-3 text-right font-mono font-bold ${pnlClass(entry.netPnl)}`}>
+                      <div>{signed(entry.netPnl)}</div>
+                      <div className="text-[10px] font-normal">{signed(entry.returnPct, 3)}%</div>
+                    </td>
+                  </tr>
+                  {expanded === entry.tradeId && (
+                    <tr className="bg-slate-900/40">
+                      <td></td>
+                      <td colSpan={8} className="px-4 py-3">
+                        <table className="w-full text-xs font-mono">
+                          <thead className="text-slate-500">
+                            <tr>
+                              <th className="text-left py-1 font-medium">阶段</th>
+                              <th className="text-left py-1 font-medium">时间</th>
+                              <th className="text-left py-1 font-medium">订单</th>
+                              <th className="text-left py-1 font-medium">标的</th>
+                              <th className="text-left py-1 font-medium">方向</th>
+                              <th className="text-right py-1 font-medium">数量</th>
+                              <th className="text-right py-1 font-medium">均价</th>
+                              <th className="text-right py-1 font-medium">手续费 (USD)</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {entry.legs.map(leg => (
+                              <tr key={leg.ordId} className="text-slate-300">
+                                <td className="py-1 font-sans">{PHASE_LABELS[leg.phase]}</td>
+                                <td className="py-1">{new Date(leg.ts).toLocaleString()}</td>
+                                <td className="py-1 text-slate-500">{leg.clOrdId || leg.ordId}</td>
+                                <td className="py-1">{leg.instId}</td>
+                                <td className={`py-1 ${leg.side === 'buy' ? 'text-emerald-400' : 'text-red-400'}`}>{leg.side === 'buy' ? '买入' : '卖出'}</td>
+                                <td className="py-1 text-right">{leg.sz.toFixed(4)}</td>
+                                <td className="py-1 text-right">{leg.px.toPrecision(6)}</td>
+                                <td className="py-1 text-right">{leg.feeUsd.toFixed(4)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TradeJournalPanel;
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Plus, Trash2 } from 'lucide-react';
+import { AuthUser, UserRole } from '../types';
+import { fetchUsers, createUser, deleteUser, USER_ROLES } from '../services/authService';
+
+interface UserManagementPanelProps {
+  currentUser: AuthUser;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: '只读 (viewer)',
+  operator: '运维 (operator)',
+  trader: '交易员 (trader)'
+};
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white font-mono text-sm';
+
+const UserManagementPanel: React.FC<UserManagementPanelProps> = ({ currentUser }) => {
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('viewer');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => fetchUsers().then(setUsers).catch(e => setError(e.message));
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      await createUser(username, password, role);
+      setUsername('');
+      setPassword('');
+      refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown');
+    }
+  };
+
+  const handleDelete = async (target: string) => {
+    if (!window.confirm(`确定删除用户 ${target}？`)) return;
+    setError(null);
+    try {
+      await deleteUser(target);
+      refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown');
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-xl">
+      <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2"><Users className="w-5 h-5 text-blue-400" /> 用户与权限</h2>
+      {error && <div className="bg-red-500/10 border border-red-500/30 text-red-400 text-sm rounded-lg p-3 mb-4">{error}</div>}
+      <div className="space-y-2 mb-6">
+        {users.map(user => (
+          <div key={user.username} className="flex items-center justify-between p-3 rounded-lg border border-slate-700 bg-slate-900/50">
+            <div>
+              <div className="text-sm text-white font-medium">{user.username}{user.username === currentUser.username && <span className="text-[10px] text-slate-500 ml-2">(当前)</span>}</div>
+              <div className="text-[10px] text-slate-500">{ROLE_LABELS[user.role]} · 创建于 {new Date(user.createdAt).toLocaleDateString()}</div>
+            </div>
+            <button onClick={() => handleDelete(user.username)} disabled={user.username === currentUser.username} className="text-slate-400 hover:text-red-400 disabled:opacity-30"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input type="text" placeholder="用户名" value={username} onChange={(e) => setUsername(e.target.value)} className={inputClass} />
+        <input type="password" placeholder="初始密码 (至少 8 位)" value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+        <select value={role} onChange={(e) => setRole(e.target.value as UserRole)} className={inputClass}>
+          {USER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+        </select>
+      </div>
+      <div className="flex justify-end mt-4">
+        <button onClick={handleCreate} disabled={!username || !password} className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-bold disabled:opacity-50"><Plus className="w-4 h-4" /> 添加用户</button>
+      </div>
+      <p className="text-[10px] text-slate-500 italic mt-4">viewer 只读仪表盘与日志；operator 可启停策略雷达、编辑策略；trader 可开启交易、调仓平仓、管理凭证与用户。</p>
+    </div>
+  );
+};
+
+export default UserManagementPanel;
@@ -1,5 +1,5 @@
 
-import { StrategyConfig, StrategyType, LogEntry } from './types';
+import { StrategyConfig, StrategyType, StrategyParameters } from './types';
 
 export const DEFAULT_STRATEGIES: StrategyConfig[] = [
   {
@@ -12,9 +12,11 @@ export const DEFAULT_STRATEGIES: StrategyConfig[] = [
       minFundingRate: 0.0003, // 0.03% (approx 32% APY)
       minVolume24h: 10000000, // 10 Million USDT liquidity required
       rotationThreshold: 0.0002, // New rate must be 0.02% higher than current to switch
+      rotationHoldPeriods: 9, // Round-trip fees amortized over 9 settlements (3 days)
       exitThreshold: 0.0001, // Exit if rate drops below 0.01%
       allocationPct: 30, // Each position uses 30% of total equity (Spot buy amount)
       maxPositions: 3, // Support up to 3 positions
+      executionMode: 'market', // 'maker' = post-only limit orders chasing the book, market fallback after timeout
       useAI: true,
       scanInterval: 60, // 1 minute
     },
@@ -22,7 +24,40 @@ export const DEFAULT_STRATEGIES: StrategyConfig[] = [
   }
 ];
 
-export const MOCK_LOGS_INIT: LogEntry[] = [
-  { id: '1', timestamp: Date.now() - 100000, level: 'info', source: 'SYSTEM', message: '系统初始化完成。' },
-  { id: '2', timestamp: Date.now() - 90000, level: 'info', source: 'OKX', message: '已连接到 OKX V5 (模拟模式)。' },
-];
\ No newline at end of file
+// 主流币 (AI 风控的差异化标准与组合敞口的非主流币上限共用)
+export const MAINSTREAM_COINS = ['BTC', 'ETH', 'SOL', 'BNB', 'XRP', 'OKB'];
+
+// 新建策略时使用的默认参数模板
+export const STRATEGY_TEMPLATES: Partial<Record<StrategyType, { name: string; parameters: StrategyParameters }>> = {
+  [StrategyType.ROTATIONAL_FUNDING]: {
+    name: '资金费率轮动策略',
+    parameters: { ...DEFAULT_STRATEGIES[0].parameters },
+  },
+  [StrategyType.GRID_TRADING]: {
+    name: '现货网格策略',
+    parameters: {
+      gridInstId: 'BTC-USDT',
+      lowerPrice: 55000,
+      upperPrice: 75000,
+      gridCount: 20,
+      gridSpacing: 'arithmetic',
+      orderSize: 0.001, // BTC per grid
+      useAI: false,
+      scanInterval: 10,
+    },
+  },
+  [StrategyType.AI_SENTIMENT]: {
+    name: 'AI 情绪择时策略',
+    parameters: {
+      sentimentInstIds: ['BTC-USDT-SWAP', 'ETH-USDT-SWAP', 'SOL-USDT-SWAP'],
+      minConfidence: 0.65, // Ignore signals below 65% confidence
+      maxTradeUsd: 500, // Per-trade notional cap
+      maxTotalExposureUsd: 1500, // Total notional cap across all AI positions
+      stopLossPct: 3, // Hard stop, AI may only tighten it
+      takeProfitPct: 6,
+      leverage: 1,
+      useAI: true,
+      scanInterval: 900, // 15 minutes
+    },
+  },
+};
@@ -1,7 +1,15 @@
 import express from 'express';
-import crypto from 'crypto';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { forwardToOkx } from './server/okxGateway.ts';
+import { okxRateLimiter } from './server/okxRateLimiter.ts';
+import { strategyEngine } from './server/strategyEngine.ts';
+import { stateStore } from './server/stateStore.ts';
+import { fundingRateStore } from './server/fundingRateStore.ts';
+import { credentialVault, VaultLockedError } from './server/credentialVault.ts';
+import { authService } from './server/authService.ts';
+import { hasRole } from './services/authService.ts';
+import { DEFAULT_STRATEGIES } from './constants.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -18,71 +26,149 @@ app.use((req, res, next) => {
   next();
 });
 
+// --- Authentication ---
+// 会话令牌保存在 HttpOnly Cookie 中；除登录相关接口外，所有 /api/* 均需登录
+const SESSION_COOKIE = 'qx_session';
+const PUBLIC_API_PATHS = ['/auth/status', '/auth/login', '/auth/setup'];
+
+const sessionToken = (req) => {
+  const cookies = (req.headers.cookie || '').split(';').map(c => c.trim().split('='));
+  const match = cookies.find(([name]) => name === SESSION_COOKIE);
+  return match ? decodeURIComponent(match[1] || '') : undefined;
+};
+
+const setSessionCookie = (res, token) => {
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${encodeURIComponent(token)}; HttpOnly; SameSite=Strict; Path=/`);
+};
+
+const requireRole = (role) => (req, res, next) => {
+  if (!hasRole(req.user, role)) {
+    return res.status(403).json({ code: '403', msg: `Requires ${role} role`, data: [] });
+  }
+  next();
+};
+
+/** 将用户发起的操作写入系统日志 */
+const auditLog = (req, level, source, message) => {
+  stateStore.appendLog({
+    id: `audit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    level,
+    source,
+    message,
+    user: req.user.username
+  });
+};
+
+app.use('/api', (req, res, next) => {
+  req.user = authService.authenticate(sessionToken(req));
+  if (!req.user && !PUBLIC_API_PATHS.includes(req.path)) {
+    return res.status(401).json({ code: '401', msg: 'Login required', data: [] });
+  }
+  next();
+});
+
+app.get('/api/auth/status', (req, res) => {
+  res.json({ code: '0', data: { user: req.user, needsSetup: authService.needsSetup() } });
+});
+
+app.post('/api/auth/login', (req, res) => {
+  const { username, password } = req.body || {};
+  const token = authService.login(username, password);
+  if (!token) {
+    return res.status(401).json({ code: '401', msg: 'Invalid username or password' });
+  }
+  setSessionCookie(res, token);
+  req.user = authService.authenticate(token);
+  auditLog(req, 'info', 'SYSTEM', '用户登录。');
+  res.json({ code: '0', data: { user: req.user, needsSetup: false } });
+});
+
+// 尚无任何用户时创建首个 trader 账户
+app.post('/api/auth/setup', (req, res) => {
+  if (!authService.needsSetup()) {
+    return res.status(409).json({ code: '409', msg: 'Already initialized' });
+  }
+  const { username, password } = req.body || {};
+  try {
+    authService.createUser(username, password, 'trader');
+  } catch (error) {
+    return res.status(400).json({ code: '400', msg: error.message });
+  }
+  const token = authService.login(username.trim(), password);
+  setSessionCookie(res, token);
+  req.user = authService.authenticate(token);
+  auditLog(req, 'info', 'SYSTEM', '初始化首个 trader 账户。');
+  res.json({ code: '0', data: { user: req.user, needsSetup: false } });
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  authService.logout(sessionToken(req));
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; HttpOnly; SameSite=Strict; Path=/; Max-Age=0`);
+  res.json({ code: '0', msg: '' });
+});
+
+app.get('/api/auth/users', requireRole('trader'), (req, res) => {
+  res.json({ code: '0', data: authService.listUsers() });
+});
+
+app.post('/api/auth/users', requireRole('trader'), (req, res) => {
+  const { username, password, role } = req.body || {};
+  try {
+    const user = authService.createUser(username, password, role);
+    auditLog(req, 'info', 'SYSTEM', `创建用户 ${user.username} (${user.role})。`);
+    res.json({ code: '0', data: user });
+  } catch (error) {
+    res.status(400).json({ code: '400', msg: error.message });
+  }
+});
+
+app.delete('/api/auth/users/:username', requireRole('trader'), (req, res) => {
+  try {
+    authService.deleteUser(req.params.username);
+    auditLog(req, 'warning', 'SYSTEM', `删除用户 ${req.params.username}。`);
+    res.json({ code: '0', msg: '' });
+  } catch (error) {
+    res.status(400).json({ code: '400', msg: error.message });
+  }
+});
+
 // OKX API Proxy Endpoint - Using app.use for better path prefix matching
 app.use('/api/proxy', async (req, res) => {
   try {
-    // 1. Extract Configuration from Headers
-    const apiKey = req.headers['x-api-key'];
-    const secretKey = req.headers['x-secret-key'];
-    const passphrase = req.headers['x-passphrase'];
-    const isSimulated = req.headers['x-simulated-trading'] === '1';
-
-    if (!apiKey || !secretKey || !passphrase) {
-      return res.status(401).json({ code: '401', msg: 'Missing API Credentials', data: [] });
+    // 0. Reads are open to every user; OKX POST endpoints place/cancel orders or change account settings
+    if (req.method !== 'GET' && !hasRole(req.user, 'trader')) {
+      return res.status(403).json({ code: '403', msg: 'Requires trader role', data: [] });
     }
 
-    // 2. Prepare Target URL
-    // When using app.use, req.url is the path relative to the mount point (/api/proxy)
-    // Example: Client requests /api/proxy/api/v5/account/balance -> req.url is /api/v5/account/balance
-    const requestPath = req.url; 
-    const baseUrl = 'https://www.okx.com';
-    const targetUrl = `${baseUrl}${requestPath}`;
-
-    // 3. Generate OKX Signature
-    const timestamp = new Date().toISOString();
-    const method = req.method.toUpperCase();
-    const body = (method === 'POST' || method === 'PUT') && req.body && Object.keys(req.body).length > 0 
-      ? JSON.stringify(req.body) 
-      : '';
-    
-    // Prehash string: timestamp + method + requestPath + body
-    const preHash = timestamp + method + requestPath + body;
-    const signature = crypto.createHmac('sha256', secretKey).update(preHash).digest('base64');
-
-    // 4. Forward Request
-    const headers = {
-      'OK-ACCESS-KEY': apiKey,
-      'OK-ACCESS-SIGN': signature,
-      'OK-ACCESS-TIMESTAMP': timestamp,
-      'OK-ACCESS-PASSPHRASE': passphrase,
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    };
-
-    if (isSimulated) {
-      headers['x-simulated-trading'] = '1';
+    // 1. Resolve Credentials from the Vault (browser only sends the profile id)
+    const profileId = req.headers['x-profile-id'];
+    if (!profileId) {
+      return res.status(401).json({ code: '401', msg: 'Missing credential profile', data: [] });
     }
-
-    const fetchOptions = {
-      method,
-      headers,
-      body: method === 'GET' ? undefined : body
-    };
-
-    // console.log(`[Proxy] Forwarding to: ${targetUrl}`); // Debug log
-
-    const response = await fetch(targetUrl, fetchOptions);
-    
-    // Handle non-JSON responses (like 502/504 HTML from Cloudflare or upstream errors)
-    const contentType = response.headers.get('content-type');
-    if (!contentType || !contentType.includes('application/json')) {
-        const text = await response.text();
-        console.error('OKX Non-JSON Response:', text.substring(0, 200));
-        return res.status(502).json({ code: '502', msg: 'Upstream Error (Non-JSON response from OKX)', data: [] });
+    if (!credentialVault.isUnlocked()) {
+      return res.status(423).json({ code: '423', msg: 'Credential vault is locked', data: [] });
+    }
+    const config = credentialVault.getOkxConfig(profileId);
+    if (!config) {
+      return res.status(404).json({ code: '404', msg: `Unknown credential profile ${profileId}`, data: [] });
     }
 
-    const data = await response.json();
-    res.status(response.status).json(data);
+    // 2. Sign & Forward
+    // When using app.use, req.url is the path relative to the mount point (/api/proxy)
+    // Example: Client requests /api/proxy/api/v5/account/balance -> req.url is /api/v5/account/balance
+    const { status, data } = await forwardToOkx(
+      config,
+      req.method,
+      req.url,
+      req.body
+    );
+    if (req.method !== 'GET') {
+      const { instId, side, sz } = req.body || {};
+      auditLog(req, data.code === '0' ? 'info' : 'error', 'OKX',
+        `${req.method} ${req.url}${instId ? ` ${instId}` : ''}${side ? ` ${side}` : ''}${sz ? ` ${sz}` : ''} -> ${data.code === '0' ? 'OK' : `${data.code} ${data.msg}`}`);
+    }
+    res.status(status).json(data);
 
   } catch (error) {
     console.error('Proxy Error:', error);
@@ -90,6 +176,305 @@ app.use('/api/proxy', async (req, res) => {
   }
 });
 
+// --- Credential Vault ---
+// 密钥只在注册时上传一次，加密保存在 data/vault.json，之后前端只引用配置 ID
+const vaultError = (res, error) => {
+  const status = error instanceof VaultLockedError ? 423 : 400;
+  res.status(status).json({ code: String(status), msg: error.message });
+};
+
+app.get('/api/vault', (req, res) => {
+  res.json({ code: '0', data: credentialVault.getStatus() });
+});
+
+app.post('/api/vault/unlock', requireRole('trader'), (req, res) => {
+  const { password } = req.body || {};
+  if (!password || !credentialVault.unlock(password)) {
+    auditLog(req, 'warning', 'SYSTEM', '凭证库解锁失败：主密码错误。');
+    return res.status(403).json({ code: '403', msg: 'Invalid master password' });
+  }
+  auditLog(req, 'info', 'SYSTEM', '凭证库已解锁。');
+  strategyEngine.reloadCredentials();
+  res.json({ code: '0', data: credentialVault.getStatus() });
+});
+
+app.post('/api/vault/profiles', requireRole('trader'), (req, res) => {
+  try {
+    const profile = credentialVault.saveProfile(req.body || {});
+    auditLog(req, 'info', 'SYSTEM', `注册凭证配置 ${profile.name} (${profile.id})。`);
+    res.json({ code: '0', data: profile });
+  } catch (error) {
+    vaultError(res, error);
+  }
+});
+
+app.put('/api/vault/profiles/:id', requireRole('trader'), (req, res) => {
+  try {
+    const profile = credentialVault.saveProfile(req.body || {}, req.params.id);
+    auditLog(req, 'info', 'SYSTEM', `更新凭证配置 ${profile.name} (${profile.id})。`);
+    if (strategyEngine.getProfileId() === profile.id) strategyEngine.reloadCredentials();
+    res.json({ code: '0', data: profile });
+  } catch (error) {
+    vaultError(res, error);
+  }
+});
+
+app.delete('/api/vault/profiles/:id', requireRole('trader'), (req, res) => {
+  if (strategyEngine.getProfileId() === req.params.id) {
+    return res.status(409).json({ code: '409', msg: 'Profile is in use by the strategy engine' });
+  }
+  if (credentialVault.deleteProfile(req.params.id)) {
+    auditLog(req, 'warning', 'SYSTEM', `删除凭证配置 ${req.params.id}。`);
+  }
+  res.json({ code: '0', msg: '' });
+});
+
+app.put('/api/vault/deepseek', requireRole('trader'), (req, res) => {
+  try {
+    const apiKey = (req.body && req.body.apiKey) || '';
+    credentialVault.setDeepseekKey(apiKey);
+    auditLog(req, 'info', 'SYSTEM', apiKey ? '更新 DeepSeek Key。' : '清除 DeepSeek Key。');
+    strategyEngine.reloadCredentials();
+    res.json({ code: '0', data: credentialVault.getStatus() });
+  } catch (error) {
+    vaultError(res, error);
+  }
+});
+
+// --- Headless Strategy Engine ---
+// 策略循环运行在服务端，前端仅负责启停与展示状态
+app.put('/api/engine/profile', requireRole('trader'), (req, res) => {
+  const { profileId } = req.body || {};
+  if (profileId && !credentialVault.hasProfile(profileId)) {
+    return res.status(404).json({ code: '404', msg: `Unknown credential profile ${profileId}` });
+  }
+  strategyEngine.useProfile(profileId || null, req.user.username);
+  res.json({ code: '0', msg: '' });
+});
+
+app.get('/api/engine/status', (req, res) => {
+  res.json({ code: '0', data: strategyEngine.getStatus() });
+});
+
+// OKX 请求限频与重试统计 (/api/proxy 与引擎共用)
+app.get('/api/engine/okx-metrics', (req, res) => {
+  res.json({ code: '0', data: okxRateLimiter.getMetrics() });
+});
+
+app.post('/api/engine/strategies/:id/start', requireRole('operator'), (req, res) => {
+  const strategy = req.body;
+  if (!strategy || strategy.id !== req.params.id) {
+    return res.status(400).json({ code: '400', msg: 'Strategy config does not match id' });
+  }
+  if (strategyEngine.isHalted()) {
+    return res.status(409).json({ code: '409', msg: 'Kill switch engaged; reset it before starting strategies' });
+  }
+  // operator 只能启停雷达；打开交易开关、修改实盘交易中的策略参数需要 trader
+  const current = strategyEngine.getStrategyStatus(strategy.id);
+  if (strategy.isTrading && !current?.isTrading && !hasRole(req.user, 'trader')) {
+    return res.status(403).json({ code: '403', msg: 'Requires trader role to enable trading' });
+  }
+  if (strategyEngine.changesLiveConfig(strategy) && !hasRole(req.user, 'trader')) {
+    return res.status(403).json({ code: '403', msg: 'Requires trader role to change a live-trading strategy' });
+  }
+  strategyEngine.start(strategy, req.user.username);
+  res.json({ code: '0', data: strategyEngine.getStrategyStatus(req.params.id) });
+});
+
+app.post('/api/engine/strategies/:id/stop', requireRole('operator'), (req, res) => {
+  strategyEngine.stop(req.params.id, req.user.username);
+  res.json({ code: '0', data: strategyEngine.getStrategyStatus(req.params.id) });
+});
+
+// 全局急停：任何 operator 都可以停止全部策略；同时平仓与解除急停需要 trader
+app.post('/api/engine/kill-switch', requireRole('operator'), async (req, res) => {
+  const unwind = !!req.body?.unwind;
+  if (unwind && !hasRole(req.user, 'trader')) {
+    return res.status(403).json({ code: '403', msg: 'Requires trader role to unwind positions' });
+  }
+  try {
+    await strategyEngine.killSwitch(unwind, req.user.username);
+  } catch (error) {
+    return res.status(500).json({ code: '500', msg: error.message });
+  }
+  res.json({ code: '0', data: strategyEngine.getStatus().circuitBreaker });
+});
+
+app.post('/api/engine/kill-switch/reset', requireRole('trader'), (req, res) => {
+  strategyEngine.resetKillSwitch(req.user.username);
+  res.json({ code: '0', data: strategyEngine.getStatus().circuitBreaker });
+});
+
+app.put('/api/engine/breakers', requireRole('trader'), (req, res) => {
+  const patch = {};
+  for (const key of ['dailyLossLimitPct', 'maxExecutionErrors', 'maxLatencyMs', 'staleDataSec']) {
+    if (req.body?.[key] !== undefined) patch[key] = Number(req.body[key]);
+  }
+  res.json({ code: '0', data: strategyEngine.updateBreakerSettings(patch, req.user.username) });
+});
+
+// 组合敞口上限 (所有资金费策略共用)
+app.put('/api/engine/exposure-limits', requireRole('trader'), (req, res) => {
+  const patch = {};
+  for (const key of ['maxDeployedPct', 'maxPairPct', 'maxAltcoinPct']) {
+    if (req.body?.[key] !== undefined) patch[key] = Number(req.body[key]);
+  }
+  if (req.body?.instrumentCaps && typeof req.body.instrumentCaps === 'object') {
+    patch.instrumentCaps = Object.fromEntries(Object.entries(req.body.instrumentCaps).map(([instId, cap]) => [instId, Number(cap)]));
+  }
+  res.json({ code: '0', data: strategyEngine.updateExposureLimits(patch, req.user.username) });
+});
+
+app.delete('/api/engine/strategies/:id', requireRole('operator'), async (req, res) => {
+  try {
+    await strategyEngine.remove(req.params.id, req.user.username);
+    res.json({ code: '0', msg: '' });
+  } catch (error) {
+    res.status(500).json({ code: '500', msg: error.message });
+  }
+});
+
+app.get('/api/engine/strategies/:id/status', (req, res) => {
+  const status = strategyEngine.getStrategyStatus(req.params.id);
+  if (!status) {
+    return res.status(404).json({ code: '404', msg: 'Strategy not loaded in engine' });
+  }
+  res.json({ code: '0', data: status });
+});
+
+// --- Real-Time Stream ---
+// OKX WebSocket 推送经引擎合并后以 Server-Sent Events 转发 (行情、持仓、账户、订单、连接状态)
+const STREAM_KEEPALIVE_MS = 25000;
+
+app.get('/api/stream', (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  const send = (event) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  strategyEngine.streamSnapshot().forEach(send);
+  const unsubscribe = strategyEngine.subscribeStream(send);
+  const keepalive = setInterval(() => res.write(': ping\n\n'), STREAM_KEEPALIVE_MS);
+  req.on('close', () => {
+    unsubscribe();
+    clearInterval(keepalive);
+  });
+});
+
+// --- Funding Ledger ---
+// 已实现资金费收入 (OKX 账单 type=8)，请求时按节流增量同步
+app.get('/api/funding/ledger', async (req, res) => {
+  try {
+    res.json({ code: '0', data: await strategyEngine.getFundingLedger(req.query.refresh === '1') });
+  } catch (error) {
+    res.status(500).json({ code: '500', msg: error.message });
+  }
+});
+
+// 资金费率历史 (data/funding-rates.json)，引擎后台采集全部 USDT 永续
+app.get('/api/funding/rates', (req, res) => {
+  res.json({ code: '0', data: strategyEngine.getFundingRates() });
+});
+
+app.get('/api/funding/rates/:instId', (req, res) => {
+  const history = strategyEngine.getFundingRateHistory(req.params.instId);
+  if (!history) return res.status(404).json({ code: '404', msg: `${req.params.instId} 暂无费率记录` });
+  res.json({ code: '0', data: history });
+});
+
+app.get('/api/positions/book', async (req, res) => {
+  try {
+    res.json({ code: '0', data: await strategyEngine.getPositionBook() });
+  } catch (error) {
+    res.status(500).json({ code: '500', msg: error.message });
+  }
+});
+
+app.post('/api/positions/:instId/rebalance', requireRole('trader'), async (req, res) => {
+  try {
+    res.json({ code: '0', data: await strategyEngine.rebalancePair(req.params.instId, req.user.username) });
+  } catch (error) {
+    res.status(500).json({ code: '500', msg: error.message });
+  }
+});
+
+app.get('/api/journal', async (req, res) => {
+  try {
+    res.json({ code: '0', data: await strategyEngine.getTradeJournal() });
+  } catch (error) {
+    res.status(500).json({ code: '500', msg: error.message });
+  }
+});
+
+app.get('/api/executions', (req, res) => {
+  res.json({ code: '0', data: strategyEngine.getSlicedExecutions() });
+});
+
+// --- Persistence ---
+// 策略配置、编辑历史、日志与 AI 分析保存在 data/state.json，所有成员共享
+app.get('/api/strategies', (req, res) => {
+  res.json({ code: '0', data: stateStore.getStrategies() });
+});
+
+app.put('/api/strategies/:id', requireRole('operator'), (req, res) => {
+  const strategy = req.body;
+  if (!strategy || strategy.id !== req.params.id || !strategy.type || !strategy.parameters) {
+    return res.status(400).json({ code: '400', msg: 'Strategy config does not match id' });
+  }
+  if (strategyEngine.changesLiveConfig(strategy) && !hasRole(req.user, 'trader')) {
+    return res.status(403).json({ code: '403', msg: 'Requires trader role to change a live-trading strategy' });
+  }
+  const isNew = !stateStore.getStrategy(strategy.id);
+  const revisionCount = stateStore.getRevisions(strategy.id).length;
+  const saved = stateStore.saveStrategy(strategy, req.user.username);
+  if (stateStore.getRevisions(strategy.id).length !== revisionCount) {
+    auditLog(req, 'info', 'SYSTEM', `${isNew ? '创建' : '修改'}策略配置 ${saved.name}。`);
+  }
+  res.json({ code: '0', data: saved });
+});
+
+app.delete('/api/strategies/:id', requireRole('operator'), async (req, res) => {
+  try {
+    await strategyEngine.remove(req.params.id, req.user.username);
+    stateStore.deleteStrategy(req.params.id, req.user.username);
+    res.json({ code: '0', msg: '' });
+  } catch (error) {
+    res.status(500).json({ code: '500', msg: error.message });
+  }
+});
+
+app.get('/api/strategies/:id/history', (req, res) => {
+  res.json({ code: '0', data: stateStore.getRevisions(req.params.id) });
+});
+
+app.get('/api/logs', (req, res) => {
+  const limit = parseInt(req.query.limit) || undefined;
+  res.json({ code: '0', data: stateStore.getLogs(limit) });
+});
+
+app.post('/api/logs', (req, res) => {
+  const entry = req.body;
+  if (!entry || !entry.id || !entry.message) {
+    return res.status(400).json({ code: '400', msg: 'Invalid log entry' });
+  }
+  stateStore.appendLog({
+    id: String(entry.id),
+    timestamp: entry.timestamp || Date.now(),
+    level: entry.level || 'info',
+    source: entry.source || 'SYSTEM',
+    message: String(entry.message),
+    user: req.user.username
+  });
+  res.json({ code: '0', msg: '' });
+});
+
+app.get('/api/analyses', (req, res) => {
+  const limit = parseInt(req.query.limit) || undefined;
+  res.json({ code: '0', data: stateStore.getAnalyses(limit) });
+});
+
 // --- CRITICAL FIX: API 404 Handler ---
 // This must be placed BEFORE the static file serving or catch-all route.
 // It ensures that any request starting with /api/ that wasn't handled above returns JSON, not HTML.
@@ -105,6 +490,16 @@ app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'dist', 'index.html'));
 });
 
+stateStore.seedStrategies(DEFAULT_STRATEGIES);
+strategyEngine.restore();
+
+// 退出前立即落盘，避免丢失防抖中的写入
+['SIGINT', 'SIGTERM'].forEach(signal => process.on(signal, () => {
+  stateStore.flush();
+  fundingRateStore.flush();
+  process.exit(0);
+}));
+
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
 });
\ No newline at end of file
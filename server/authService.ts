@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AuthUser, UserRole } from '../types';
+import { USER_ROLES } from '../services/authService';
+import { DATA_DIR } from './stateStore';
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+interface StoredUser extends AuthUser {
+  passwordHash: string; // base64(salt):base64(scrypt)
+}
+
+interface Session {
+  username: string;
+  expiresAt: number;
+}
+
+const hashPassword = (password: string): string => {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64);
+  return `${salt.toString('base64')}:${hash.toString('base64')}`;
+};
+
+const verifyPassword = (password: string, stored: string): boolean => {
+  const [salt, hash] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+  if (!salt || !hash) return false;
+  return crypto.timingSafeEqual(crypto.scryptSync(password, salt, hash.length), hash);
+};
+
+/**
+ * 本地账户与会话 (data/users.json)
+ * 密码经 scrypt 加盐哈希保存；会话令牌保存在内存中，服务重启后需重新登录。
+ * 首个账户可通过 AUTH_ADMIN_USER / AUTH_ADMIN_PASSWORD 环境变量创建，或在登录页初始化 (角色为 trader)。
+ */
+class AuthService {
+  private filePath = path.join(DATA_DIR, 'users.json');
+  private users: StoredUser[] = this.load();
+  private sessions = new Map<string, Session>();
+
+  constructor() {
+    const username = process.env.AUTH_ADMIN_USER;
+    const password = process.env.AUTH_ADMIN_PASSWORD;
+    if (this.needsSetup() && username && password) {
+      this.createUser(username, password, 'trader');
+    }
+  }
+
+  private load(): StoredUser[] {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') console.error(`Failed to load ${this.filePath}`, e);
+      return [];
+    }
+  }
+
+  private save() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.users, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  needsSetup(): boolean {
+    return this.users.length === 0;
+  }
+
+  listUsers(): AuthUser[] {
+    return this.users.map(({ passwordHash: _hash, ...user }) => user);
+  }
+
+  createUser(username: string, password: string, role: UserRole): AuthUser {
+    const name = (username || '').trim();
+    if (!/^[\w.-]{2,32}$/.test(name)) throw new Error('Username must be 2-32 letters, digits, "_", "." or "-"');
+    if (!password || password.length < MIN_PASSWORD_LENGTH) throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    if (!USER_ROLES.includes(role)) throw new Error(`Unknown role ${role}`);
+    if (this.users.some(u => u.username === name)) throw new Error(`User ${name} already exists`);
+
+    const user: StoredUser = { username: name, role, createdAt: Date.now(), passwordHash: hashPassword(password) };
+    this.users = [...this.users, user];
+    this.save();
+    const { passwordHash: _hash, ...summary } = user;
+    return summary;
+  }
+
+  /** 删除用户并注销其会话；不允许删除最后一个 trader */
+  deleteUser(username: string) {
+    const user = this.users.find(u => u.username === username);
+    if (!user) throw new Error(`Unknown user ${username}`);
+    if (user.role === 'trader' && this.users.filter(u => u.role === 'trader').length === 1) {
+      throw new Error('Cannot delete the last trader account');
+    }
+    this.users = this.users.filter(u => u.username !== username);
+    this.save();
+    this.sessions.forEach((session, token) => {
+      if (session.username === username) this.sessions.delete(token);
+    });
+  }
+
+  /** 校验密码并创建会话，返回会话令牌；失败返回 null */
+  login(username: string, password: string): string | null {
+    const user = this.users.find(u => u.username === username);
+    if (!user || !password || !verifyPassword(password, user.passwordHash)) return null;
+    const token = crypto.randomBytes(32).toString('base64url');
+    this.sessions.set(token, { username: user.username, expiresAt: Date.now() + SESSION_TTL_MS });
+    return token;
+  }
+
+  logout(token: string) {
+    this.sessions.delete(token);
+  }
+
+  /** 按令牌取当前用户 (滑动过期) */
+  authenticate(token: string | undefined): AuthUser | null {
+    if (!token) return null;
+    const session = this.sessions.get(token);
+    if (!session) return null;
+    const user = this.users.find(u => u.username === session.username);
+    if (!user || session.expiresAt < Date.now()) {
+      this.sessions.delete(token);
+      return null;
+    }
+    session.expiresAt = Date.now() + SESSION_TTL_MS;
+    const { passwordHash: _hash, ...summary } = user;
+    return summary;
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,116 @@
+import { BreakerReadings, BreakerSettings, CircuitBreakerStatus, HaltTrigger, KillSwitchState, LogEntry } from '../types';
+import { OKXService } from '../services/okxService';
+import {
+  BREAKER_CHECK_INTERVAL_MS, resolveBreakerSettings, utcDay, dailyLossPct, pruneExecutionErrors,
+  breakerTrip, latencyExceeded, dataStale
+} from '../services/circuitBreakerLogic';
+import { stateStore } from './stateStore';
+
+type BreakerLogger = (level: LogEntry['level'], message: string, actor?: string) => void;
+
+/**
+ * 全局急停与熔断器 (Kill Switch & Circuit Breakers)
+ * 急停状态与阈值写入 stateStore，重启后保持；执行失败记录与连续超限次数只保存在内存中。
+ * 本类只负责判断与记录状态，停止策略、撤单与平仓由引擎执行。
+ */
+export class CircuitBreaker {
+  private killSwitch: KillSwitchState = stateStore.getKillSwitch();
+  private settings: BreakerSettings = resolveBreakerSettings(stateStore.getBreakerSettings());
+  private readings: BreakerReadings | null = null;
+  private errors: number[] = [];
+  private strikes = { latency: 0, staleData: 0 };
+  private lastRunAt = 0;
+
+  constructor(private log: BreakerLogger) {}
+
+  getStatus(): CircuitBreakerStatus {
+    return { killSwitch: this.killSwitch, settings: this.settings, readings: this.readings };
+  }
+
+  isHalted(): boolean {
+    return this.killSwitch.halted;
+  }
+
+  due(now = Date.now()): boolean {
+    return now - this.lastRunAt >= BREAKER_CHECK_INTERVAL_MS;
+  }
+
+  updateSettings(patch: Partial<BreakerSettings>, actor?: string): BreakerSettings {
+    this.settings = resolveBreakerSettings({ ...this.settings, ...patch });
+    stateStore.setBreakerSettings(this.settings);
+    const s = this.settings;
+    this.log('info', `[熔断] 阈值已更新: 日亏损 ${s.dailyLossLimitPct}%，执行失败 ${s.maxExecutionErrors} 次，延迟 ${s.maxLatencyMs}ms，行情 ${s.staleDataSec} 秒 (0 = 不检查)。`, actor);
+    return this.settings;
+  }
+
+  /** 记录一次双边执行结果，失败次数在下一次检查时判断 (急停期间的平仓不计入) */
+  recordExecution(success: boolean) {
+    if (!success && !this.killSwitch.halted) this.errors.push(Date.now());
+  }
+
+  /**
+   * 触发急停
+   * @returns 是否为新触发 (已处于急停状态时返回 false，原因保持不变)
+   */
+  trip(trigger: HaltTrigger, reason: string, actor?: string): boolean {
+    if (this.killSwitch.halted) return false;
+    this.killSwitch = { halted: true, trigger, reason, haltedAt: Date.now(), actor };
+    stateStore.setKillSwitch(this.killSwitch);
+    this.log('error', `[急停] ${reason}，停止全部策略并撤销挂单。`, actor);
+    return true;
+  }
+
+  markUnwound() {
+    this.killSwitch = { ...this.killSwitch, unwound: true };
+    stateStore.setKillSwitch(this.killSwitch);
+  }
+
+  /** 解除急停：策略保持停止，需要逐个重新启动 */
+  reset(actor?: string) {
+    if (!this.killSwitch.halted) return;
+    this.killSwitch = { halted: false };
+    stateStore.setKillSwitch(this.killSwitch);
+    this.errors = [];
+    this.strikes = { latency: 0, staleData: 0 };
+    this.log('warning', '[急停] 已解除，策略需手动重新启动。', actor);
+  }
+
+  /**
+   * 读取延迟、行情时间戳与账户权益并判断是否熔断
+   * 当日首次检查时记录日初权益；已处于急停状态时只更新读数
+   */
+  async check(okx: OKXService): Promise<{ trigger: HaltTrigger; reason: string } | null> {
+    const now = Date.now();
+    this.lastRunAt = now;
+    const [latency, tickers, margin] = await Promise.all([
+      okx.getLatency(),
+      okx.getMarketTickers().catch(() => []), // 行情获取失败按无数据计入停滞
+      okx.getMarginSummary().catch(() => null)
+    ]);
+
+    const newest = Math.max(0, ...tickers.map(t => parseInt(t.ts)).filter(ts => Number.isFinite(ts)));
+    const day = utcDay(now);
+    let baseline = stateStore.getEquityBaseline();
+    if (margin && (!baseline || baseline.day !== day)) {
+      baseline = { day, equity: margin.totalEq };
+      stateStore.setEquityBaseline(baseline);
+    }
+    const dayStartEquity = baseline?.day === day ? baseline.equity : null;
+    this.errors = pruneExecutionErrors(this.errors, now);
+    this.readings = {
+      checkedAt: now,
+      latencyMs: latency < 0 ? null : latency,
+      dataAgeSec: newest > 0 ? Math.max(0, (now - newest) / 1000) : null,
+      dayStartEquity,
+      equity: margin?.totalEq ?? null,
+      dailyLossPct: dayStartEquity !== null && margin ? dailyLossPct(dayStartEquity, margin.totalEq) : 0,
+      recentErrors: this.errors.length
+    };
+    this.strikes = {
+      latency: latencyExceeded(this.readings.latencyMs, this.settings) ? this.strikes.latency + 1 : 0,
+      staleData: dataStale(this.readings.dataAgeSec, this.settings) ? this.strikes.staleData + 1 : 0
+    };
+    if (this.killSwitch.halted) return null;
+    return breakerTrip(this.readings, this.strikes, this.settings);
+  }
+}
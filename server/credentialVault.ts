@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { OKXConfig, CredentialProfile, CredentialProfileInput, VaultStatus } from '../types';
+import { DATA_DIR } from './stateStore';
+
+const CIPHER = 'aes-256-gcm';
+const CHECK_PLAINTEXT = 'quantx-vault';
+
+interface SealedBox {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface OKXSecrets {
+  apiKey: string;
+  secretKey: string;
+  passphrase: string;
+}
+
+interface StoredProfile extends CredentialProfile {
+  secrets: SealedBox;
+}
+
+interface VaultFile {
+  salt: string;
+  check: SealedBox | null; // 用于校验主密码
+  profiles: StoredProfile[];
+  deepseek: SealedBox | null;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Credential vault is locked');
+  }
+}
+
+/**
+ * 服务端加密凭证库 (data/vault.json)
+ * OKX 凭证按命名配置 (模拟盘 / 实盘 / 子账户) 保存，DeepSeek Key 单独保存，均以 AES-256-GCM 加密落盘。
+ * 加密密钥由主密码经 scrypt 派生：启动时读取 VAULT_MASTER_KEY 自动解锁，也可通过 /api/vault/unlock 手动解锁。
+ * 浏览器只持有配置 ID，/api/proxy 与策略引擎在服务端按 ID 取出密钥签名。
+ */
+class CredentialVault {
+  private filePath = path.join(DATA_DIR, 'vault.json');
+  private file: VaultFile = this.load();
+  private key: Buffer | null = null;
+
+  constructor() {
+    const masterKey = process.env.VAULT_MASTER_KEY;
+    if (masterKey && !this.unlock(masterKey)) {
+      console.error('VAULT_MASTER_KEY does not match the existing credential vault, vault stays locked');
+    }
+  }
+
+  private load(): VaultFile {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') console.error(`Failed to load ${this.filePath}`, e);
+      return { salt: crypto.randomBytes(16).toString('base64'), check: null, profiles: [], deepseek: null };
+    }
+  }
+
+  private save() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.file, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  private seal(plaintext: string): SealedBox {
+    if (!this.key) throw new VaultLockedError();
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CIPHER, this.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+  }
+
+  private open(box: SealedBox, key: Buffer | null = this.key): string {
+    if (!key) throw new VaultLockedError();
+    const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(box.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(box.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(box.data, 'base64')), decipher.final()]).toString('utf-8');
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /** 用主密码解锁；首次使用时以该密码初始化凭证库。密码错误返回 false */
+  unlock(password: string): boolean {
+    const key = crypto.scryptSync(password, Buffer.from(this.file.salt, 'base64'), 32);
+    if (this.file.check) {
+      try {
+        if (this.open(this.file.check, key) !== CHECK_PLAINTEXT) return false;
+      } catch {
+        return false;
+      }
+      this.key = key;
+    } else {
+      this.key = key;
+      this.file.check = this.seal(CHECK_PLAINTEXT);
+      this.save();
+    }
+    return true;
+  }
+
+  getStatus(): VaultStatus {
+    return {
+      unlocked: this.isUnlocked(),
+      hasDeepseekKey: !!this.file.deepseek,
+      profiles: this.listProfiles()
+    };
+  }
+
+  listProfiles(): CredentialProfile[] {
+    return this.file.profiles.map(({ secrets: _secrets, ...profile }) => profile);
+  }
+
+  hasProfile(id: string): boolean {
+    return this.file.profiles.some(p => p.id === id);
+  }
+
+  /** 新建 (无 id) 或更新凭证配置；更新时未提供的密钥字段沿用原值 */
+  saveProfile(input: CredentialProfileInput, id?: string): CredentialProfile {
+    const existing = id ? this.file.profiles.find(p => p.id === id) : undefined;
+    if (id && !existing) throw new Error(`Unknown credential profile ${id}`);
+    const previous: Partial<OKXSecrets> = existing ? JSON.parse(this.open(existing.secrets)) : {};
+    const secrets: OKXSecrets = {
+      apiKey: input.apiKey || previous.apiKey || '',
+      secretKey: input.secretKey || previous.secretKey || '',
+      passphrase: input.passphrase || previous.passphrase || ''
+    };
+    if (!secrets.apiKey || !secrets.secretKey || !secrets.passphrase) {
+      throw new Error('API Key, Secret Key and Passphrase are required');
+    }
+
+    const now = Date.now();
+    const profile: StoredProfile = {
+      id: existing?.id ?? `profile-${now.toString(36)}`,
+      name: (input.name ?? '').trim() || existing?.name || 'OKX',
+      isSimulated: input.isSimulated,
+      apiKeyHint: secrets.apiKey.slice(-4),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      secrets: this.seal(JSON.stringify(secrets))
+    };
+    this.file.profiles = existing
+      ? this.file.profiles.map(p => p.id === profile.id ? profile : p)
+      : [...this.file.profiles, profile];
+    this.save();
+    const { secrets: _secrets, ...summary } = profile;
+    return summary;
+  }
+
+  deleteProfile(id: string): boolean {
+    if (!this.hasProfile(id)) return false;
+    this.file.profiles = this.file.profiles.filter(p => p.id !== id);
+    this.save();
+    return true;
+  }
+
+  /** 取出用于签名的 OKX 凭证；配置不存在返回 null，凭证库未解锁抛出 VaultLockedError */
+  getOkxConfig(id: string): OKXConfig | null {
+    const profile = this.file.profiles.find(p => p.id === id);
+    if (!profile) return null;
+    const secrets: OKXSecrets = JSON.parse(this.open(profile.secrets));
+    return { ...secrets, isSimulated: profile.isSimulated };
+  }
+
+  /** 空字符串表示清除 */
+  setDeepseekKey(apiKey: string) {
+    this.file.deepseek = apiKey ? this.seal(apiKey) : null;
+    this.save();
+  }
+
+  getDeepseekKey(): string {
+    return this.file.deepseek ? this.open(this.file.deepseek) : '';
+  }
+}
+
+export const credentialVault = new CredentialVault();
@@ -0,0 +1,50 @@
+import { ExposureLimitKind, ExposureLimits, ExposureStatus, ExposureUsage, Instrument, LogEntry } from '../types';
+import { OKXService } from '../services/okxService';
+import { resolveExposureLimits, exposureUsage, entryHeadroom } from '../services/exposureLogic';
+import { stateStore } from './stateStore';
+
+type ExposureLogger = (level: LogEntry['level'], message: string, actor?: string) => void;
+
+/**
+ * 组合敞口预算 (Exposure Budget)
+ * 所有资金费策略开仓前都经过这里：按当前权益与全部合约持仓 (含其他策略) 计算剩余额度，
+ * 引擎按返回的额度缩小投入或拒绝开仓。上限写入 stateStore。
+ */
+export class ExposureBudget {
+  private limits: ExposureLimits = resolveExposureLimits(stateStore.getExposureLimits());
+  private usage: ExposureUsage | null = null;
+
+  constructor(private log: ExposureLogger) {}
+
+  getStatus(): ExposureStatus {
+    return { limits: this.limits, usage: this.usage };
+  }
+
+  updateLimits(patch: Partial<ExposureLimits>, actor?: string): ExposureLimits {
+    this.limits = resolveExposureLimits({ ...this.limits, ...patch });
+    stateStore.setExposureLimits(this.limits);
+    const l = this.limits;
+    const caps = Object.entries(l.instrumentCaps).map(([instId, cap]) => `${instId} ${cap} USDT`).join('、');
+    this.log('info', `[敞口] 上限已更新: 总敞口 ${l.maxDeployedPct}%，单组合 ${l.maxPairPct}%，非主流币 ${l.maxAltcoinPct}%${caps ? `，${caps}` : ''} (0 = 不检查)。`, actor);
+    return this.limits;
+  }
+
+  /**
+   * 查询权益与持仓后返回 instId 的剩余开仓额度
+   * 权益或持仓查询失败、持仓缺少合约信息时抛出 (调用方按拒绝处理)：按零占用计算会让每项上限都显示额度充足。
+   * @param instruments 永续合约信息 (换算合约面值)
+   */
+  async headroom(okx: OKXService, instId: string, instruments: Instrument[]): Promise<{ headroom: number; limit: ExposureLimitKind | null; capUsd: number }> {
+    const [margin, positions] = await Promise.all([okx.getMarginSummary(), okx.getPositions()]);
+    const pairs = positions
+      .filter(p => p.instId.endsWith('-SWAP') && parseFloat(p.pos) !== 0)
+      .map(p => {
+        const instrument = instruments.find(i => i.instId === p.instId);
+        if (!instrument) throw new Error(`${p.instId} 缺少合约信息`);
+        const ctVal = parseFloat(instrument.ctVal);
+        return { instId: p.instId, notionalUsd: Math.abs(parseFloat(p.pos)) * ctVal * parseFloat(p.markPx) };
+      });
+    this.usage = exposureUsage(margin.totalEq, pairs, Date.now());
+    return entryHeadroom(this.usage, instId, this.limits);
+  }
+}
@@ -0,0 +1,51 @@
+import { FundingPayment, FundingLedgerSummary } from '../types';
+import { OKXService } from '../services/okxService';
+import { summarizeFundingPayments } from '../services/fundingLedgerLogic';
+import { stateStore } from './stateStore';
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_PAGES = 20; // 单次同步最多翻 20 页 (2000 条)
+
+/**
+ * 已实现资金费台账
+ * 定期从 OKX 账单 (type=8) 增量拉取资金费流水，按 billId 去重后写入 stateStore，
+ * 并按结算时的持仓归属记到对应策略名下。OKX 账单接口只保留近 7 天，需要服务持续运行才能积累完整历史。
+ */
+export class FundingLedger {
+  private lastSyncAt = 0;
+  private syncing: Promise<FundingPayment[]> | null = null;
+
+  /** 拉取并返回新入账的流水；距上次同步不足 SYNC_INTERVAL_MS 时跳过 (force 除外) */
+  sync(okx: OKXService, ownerOf: (instId: string) => string | undefined, force = false): Promise<FundingPayment[]> {
+    // 并发调用等待同一次同步，新流水只返回给发起者一次
+    if (this.syncing) return this.syncing.then(() => []);
+    if (!force && Date.now() - this.lastSyncAt < SYNC_INTERVAL_MS) return Promise.resolve([]);
+    this.syncing = this.fetchNew(okx, ownerOf).finally(() => {
+      this.syncing = null;
+      this.lastSyncAt = Date.now();
+    });
+    return this.syncing;
+  }
+
+  getSummary(): FundingLedgerSummary {
+    return summarizeFundingPayments(stateStore.getFundingPayments(), stateStore.getFundingSyncedAt());
+  }
+
+  private async fetchNew(okx: OKXService, ownerOf: (instId: string) => string | undefined): Promise<FundingPayment[]> {
+    const known = new Set(stateStore.getFundingPayments().map(p => p.billId));
+    const fresh: FundingPayment[] = [];
+    let after: string | undefined;
+
+    // 从最新一页向前翻，遇到已入账的 billId 即停止
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const bills = await okx.getFundingBills(after);
+      const unseen = bills.filter(b => !known.has(b.billId));
+      fresh.push(...unseen.map(b => ({ ...b, strategyId: ownerOf(b.instId) })));
+      if (bills.length < 100 || unseen.length < bills.length) break;
+      after = bills[bills.length - 1].billId;
+    }
+
+    stateStore.appendFundingPayments(fresh, Date.now());
+    return fresh;
+  }
+}
@@ -0,0 +1,88 @@
+import { FundingRateHistory, FundingRateStats, LogEntry } from '../types';
+import { OKXService } from '../services/okxService';
+import { FUNDING_HISTORY_RETENTION_MS, fundingRateHistory, fundingRateStats, needsBackfill } from '../services/fundingHistoryLogic';
+import { fundingRateStore } from './fundingRateStore';
+
+const COLLECT_INTERVAL_MS = 10 * 60 * 1000;
+const MAX_BACKFILL_PER_RUN = 50; // 单轮最多补拉 50 个标的的历史，其余下一轮继续
+const HISTORY_PAGE_SIZE = 100;
+const MAX_HISTORY_PAGES = 20; // 1h 结算的标的 60 天约 1440 条
+
+type CollectorLogger = (level: LogEntry['level'], message: string) => void;
+
+/**
+ * 资金费率采集
+ * 定期为全部 USDT 永续记录当期 (预测) 费率，并在出现新结算或从未拉取过时用 funding-rate-history 补齐历史，
+ * 写入 fundingRateStore。采集在后台进行，不阻塞引擎循环；单个标的失败只跳过该标的。
+ */
+export class FundingRateCollector {
+  private lastRunAt = 0;
+  private running: Promise<void> | null = null;
+
+  constructor(private log: CollectorLogger) {}
+
+  /** 距上次采集不足 COLLECT_INTERVAL_MS 或上一轮未结束时跳过 (force 只忽略间隔) */
+  collect(okx: OKXService, instIds: string[], force = false): Promise<void> {
+    if (this.running) return this.running;
+    if (!force && Date.now() - this.lastRunAt < COLLECT_INTERVAL_MS) return Promise.resolve();
+    this.lastRunAt = Date.now();
+    this.running = this.run(okx, instIds).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  list(): FundingRateStats[] {
+    const now = Date.now();
+    return fundingRateStore.list().map(s => fundingRateStats(s, now));
+  }
+
+  history(instId: string): FundingRateHistory | null {
+    const series = fundingRateStore.get(instId);
+    return series ? fundingRateHistory(series, Date.now()) : null;
+  }
+
+  private async run(okx: OKXService, instIds: string[]) {
+    const failed: string[] = [];
+    for (const instId of instIds) {
+      try {
+        fundingRateStore.recordSnapshot(instId, await okx.getFundingRateDetail(instId), Date.now());
+      } catch (e) {
+        failed.push(instId);
+      }
+    }
+
+    const backfill = instIds.filter(instId => !failed.includes(instId) && needsBackfill(fundingRateStore.get(instId), Date.now()));
+    let filled = 0;
+    for (const instId of backfill.slice(0, MAX_BACKFILL_PER_RUN)) {
+      try {
+        fundingRateStore.appendPoints(instId, await this.fetchMissing(okx, instId), Date.now());
+        filled++;
+      } catch (e) {
+        failed.push(instId);
+      }
+    }
+
+    if (filled > 0) {
+      const pending = backfill.length - MAX_BACKFILL_PER_RUN;
+      this.log('info', `[费率历史] 已补齐 ${filled} 个标的的结算记录${pending > 0 ? `，剩余 ${pending} 个下一轮继续` : ''}。`);
+    }
+    if (failed.length > 0) {
+      this.log('warning', `[费率历史] ${failed.length} 个标的采集失败: ${failed.slice(0, 5).join(', ')}${failed.length > 5 ? ' ...' : ''}`);
+    }
+  }
+
+  /** 向前翻页拉取结算记录，直到与本地最新记录衔接 (从未拉取过时拉满保留期) */
+  private async fetchMissing(okx: OKXService, instId: string) {
+    const now = Date.now();
+    const points = fundingRateStore.get(instId)?.points ?? [];
+    const since = points.length > 0 ? points[points.length - 1].fundingTime : now - FUNDING_HISTORY_RETENTION_MS;
+    const fetched = await okx.getFundingRateHistory(instId);
+    for (let page = 1; page < MAX_HISTORY_PAGES; page++) {
+      const oldest = fetched[fetched.length - 1];
+      if (!oldest || oldest.fundingTime <= since || fetched.length < page * HISTORY_PAGE_SIZE) break;
+      fetched.push(...await okx.getFundingRateHistory(instId, oldest.fundingTime));
+    }
+    return fetched;
+  }
+}
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { FundingRatePoint, FundingRateSeries } from '../types';
+import { mergeFundingPoints } from '../services/fundingHistoryLogic';
+import { DATA_DIR } from './stateStore';
+
+const SAVE_DEBOUNCE_MS = 5000;
+
+/**
+ * 资金费率时间序列 (data/funding-rates.json)
+ * 与 state.json 分开保存：全部 USDT 永续的结算历史体积较大，且写入频率与策略状态无关。
+ * 写入经过防抖并采用 临时文件 + rename 的原子替换。
+ */
+class FundingRateStore {
+  private filePath = path.join(DATA_DIR, 'funding-rates.json');
+  private series: Record<string, FundingRateSeries> = this.load();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private load(): Record<string, FundingRateSeries> {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') console.error(`Failed to load ${this.filePath}, starting with empty history`, e);
+      return {};
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  flush() {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmp = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(this.series));
+      fs.renameSync(tmp, this.filePath);
+    } catch (e) {
+      console.error(`Failed to persist funding rates to ${this.filePath}`, e);
+    }
+  }
+
+  get(instId: string): FundingRateSeries | undefined {
+    return this.series[instId];
+  }
+
+  list(): FundingRateSeries[] {
+    return Object.values(this.series);
+  }
+
+  /** 记录当期 (预测) 费率与下次结算时间 */
+  recordSnapshot(instId: string, snapshot: { predictedRate: number | null; nextRate: number | null; nextFundingTime: number | null }, now: number) {
+    this.series[instId] = { ...this.seriesFor(instId), ...snapshot, updatedAt: now };
+    this.scheduleSave();
+  }
+
+  /** 合并 funding-rate-history 返回的结算记录 */
+  appendPoints(instId: string, points: FundingRatePoint[], now: number) {
+    const series = this.seriesFor(instId);
+    this.series[instId] = { ...series, points: mergeFundingPoints(series.points, points, now), updatedAt: now };
+    this.scheduleSave();
+  }
+
+  private seriesFor(instId: string): FundingRateSeries {
+    return this.series[instId] ?? { instId, points: [], predictedRate: null, nextRate: null, nextFundingTime: null, updatedAt: 0 };
+  }
+}
+
+export const fundingRateStore = new FundingRateStore();
@@ -0,0 +1,290 @@
+import { StrategyConfig, Instrument, GridStatus, GridCell, Order } from '../types';
+import {
+  GridParams, resolveGridParams, validateGridParams, computeGridLevels, buildGridCells, cellOrderPrice, flipCell, fillCellPartially
+} from '../services/gridStrategyLogic';
+import { StrategyContext } from './strategyContext';
+import { stateStore } from './stateStore';
+
+export interface GridState extends GridStatus {
+  paramsKey: string;
+  params: GridParams;
+  instrument: Instrument;
+  isSwap: boolean;
+  ctVal: number; // 合约面值；现货为 1
+  outOfRange: boolean;
+  planLogged: boolean;
+  inventoryOrdId?: string; // 现货底仓市价买单，确认成交前不重复买入
+}
+
+const fmt = (px: number) => px.toPrecision(6);
+
+/**
+ * 网格交易执行器 (GRID_TRADING)
+ * 在 [lowerPrice, upperPrice] 区间内每格挂一张限价单，成交后在相邻档位挂反向单，
+ * 每完成一次 买->卖 (合约网格现价上方的格子为 卖->买) 往返即实现该格利润。网格状态 (含挂单 ID) 按策略 ID 持久化，重启后继续跟踪原有挂单。
+ */
+export class GridRunner {
+  private grids = new Map<string, GridState>(Object.entries(stateStore.getGridStates()));
+
+  getStatus(strategyId: string): GridStatus | undefined {
+    const state = this.grids.get(strategyId);
+    if (!state) return undefined;
+    return {
+      instId: state.instId,
+      levels: state.levels,
+      cells: state.cells,
+      realizedProfit: state.realizedProfit,
+      initialized: state.initialized
+    };
+  }
+
+  async run(strategy: StrategyConfig, ctx: StrategyContext) {
+    const params = resolveGridParams(strategy.parameters);
+    const error = validateGridParams(params);
+    if (error) {
+      ctx.log('error', 'STRATEGY', `[网格] ${strategy.name} 参数错误：${error}`);
+      return;
+    }
+
+    const paramsKey = JSON.stringify(params);
+    let state = this.grids.get(strategy.id);
+    if (state && state.paramsKey !== paramsKey) {
+      ctx.log('warning', 'STRATEGY', `[网格] 参数已变更，撤销旧网格挂单并重建。`);
+      await this.remove(strategy.id, ctx);
+      state = undefined;
+    }
+    if (!state) {
+      if (!ctx.claim(params.instId)) {
+        ctx.log('error', 'STRATEGY', `[网格] ${params.instId} 已被策略 ${ctx.ownerOf(params.instId)} 占用，无法建立网格。`);
+        return;
+      }
+      state = await this.build(params, paramsKey, ctx);
+      if (!state) {
+        ctx.release(params.instId);
+        return;
+      }
+      this.grids.set(strategy.id, state);
+      stateStore.setGridState(strategy.id, state);
+    }
+
+    const price = (await ctx.okx.getTicker(state.instId)).last;
+    this.checkRange(state, price, ctx);
+
+    if (!ctx.isTrading()) {
+      if (state.cells.some(c => c.ordId)) {
+        await this.cancelOrders(strategy.id, ctx);
+      } else if (!state.planLogged) {
+        const cells = state.initialized ? state.cells : buildGridCells(state.levels, price);
+        const buys = cells.filter(c => c.side === 'buy').length;
+        ctx.log('info', 'STRATEGY', `[模拟网格] ${state.instId} 区间 ${fmt(params.lowerPrice)} ~ ${fmt(params.upperPrice)}，` +
+          `${params.gridCount} 格 (${params.spacing === 'geometric' ? '等比' : '等差'})，买单 ${buys} 张 / 卖单 ${cells.length - buys} 张 (交易未开启)`);
+        state.planLogged = true;
+      }
+      return;
+    }
+    state.planLogged = false;
+
+    try {
+      if (!state.initialized) {
+        await this.initialize(strategy.id, state, price, ctx);
+      } else {
+        await this.sync(state, ctx);
+      }
+    } finally {
+      stateStore.setGridState(strategy.id, state);
+    }
+  }
+
+  /** 撤销该策略所有挂单，保留格子状态与已实现利润 (停止策略或关闭交易开关时调用) */
+  async cancelOrders(strategyId: string, ctx: StrategyContext) {
+    const state = this.grids.get(strategyId);
+    if (!state) return;
+    let canceled = 0;
+    for (const cell of state.cells) {
+      if (!cell.ordId) continue;
+      try {
+        await ctx.okx.cancelOrder(state.instId, cell.ordId);
+        canceled++;
+      } catch (e) {
+        // 可能刚好成交：保留 ordId，下一轮同步时按成交处理
+        ctx.log('warning', 'STRATEGY', `[网格] 撤单失败 #${cell.index} (${cell.ordId}): ${e instanceof Error ? e.message : 'Unknown'}`);
+        continue;
+      }
+      await this.applyOrderResult(state, cell.index, ctx);
+    }
+    if (canceled > 0) ctx.log('info', 'STRATEGY', `[网格] 已撤销 ${state.instId} 的 ${canceled} 张挂单。`);
+    stateStore.setGridState(strategyId, state);
+  }
+
+  /** 撤单并丢弃网格状态，释放标的归属 (参数变更或删除策略时调用) */
+  async remove(strategyId: string, ctx: StrategyContext) {
+    const state = this.grids.get(strategyId);
+    if (!state) return;
+    await this.cancelOrders(strategyId, ctx);
+    this.grids.delete(strategyId);
+    stateStore.setGridState(strategyId, undefined);
+    ctx.release(state.instId);
+  }
+
+  private async build(params: GridParams, paramsKey: string, ctx: StrategyContext): Promise<GridState | undefined> {
+    const isSwap = params.instId.endsWith('-SWAP');
+    const instruments = await ctx.okx.getInstruments(isSwap ? 'SWAP' : 'SPOT');
+    const instrument = instruments.find(i => i.instId === params.instId);
+    if (!instrument) {
+      ctx.log('error', 'STRATEGY', `[网格] 未找到交易标的 ${params.instId}`);
+      return undefined;
+    }
+    if (params.orderSize < parseFloat(instrument.minSz)) {
+      ctx.log('error', 'STRATEGY', `[网格] 每格下单量 ${params.orderSize} 低于最小下单量 ${instrument.minSz}`);
+      return undefined;
+    }
+    return {
+      instId: params.instId,
+      levels: computeGridLevels(params),
+      cells: [],
+      realizedProfit: 0,
+      initialized: false,
+      paramsKey,
+      params,
+      instrument,
+      isSwap,
+      ctVal: isSwap ? parseFloat(instrument.ctVal) || 1 : 1,
+      outOfRange: false,
+      planLogged: false
+    };
+  }
+
+  /**
+   * 首次启动：按现价划分买卖格。
+   * 现货需先市价买入卖单格所需的库存；合约的卖单格直接挂空单，无需预先建仓。
+   * 底仓买单 ID 先写入网格状态，确认成交超时或进程中断时下一轮查询该订单，不会重复买入。
+   */
+  private async initialize(strategyId: string, state: GridState, price: number, ctx: StrategyContext) {
+    // 底仓买单待确认时沿用下单时划分的格子
+    if (!state.inventoryOrdId) state.cells = buildGridCells(state.levels, price);
+    const sellCells = state.cells.filter(c => c.side === 'sell');
+
+    if (!state.isSwap && sellCells.length > 0) {
+      let filled: Pick<Order, 'avgPx' | 'fillPx'> | null;
+      if (state.inventoryOrdId) {
+        filled = await this.settleInventory(state, ctx);
+      } else {
+        const { taker } = await ctx.okx.getTradeFeeRates('SPOT');
+        const qty = (sellCells.length * state.params.orderSize) / (1 - Math.max(taker, 0));
+        ctx.log('info', 'STRATEGY', `[网格] 市价买入底仓 ${qty.toFixed(6)} ${state.instId.split('-')[0]}，用于 ${sellCells.length} 个卖单格。`);
+        state.inventoryOrdId = await ctx.okx.buySpotMarket(state.instrument, qty);
+        stateStore.setGridState(strategyId, state);
+        filled = await ctx.okx.pollOrder(state.instId, state.inventoryOrdId);
+      }
+      if (!filled) return;
+      const entryPx = parseFloat(filled.avgPx || filled.fillPx || price.toString());
+      state.cells = state.cells.map(c => c.side === 'sell' ? { ...c, entryPx } : c);
+      state.inventoryOrdId = undefined;
+    }
+
+    state.initialized = true;
+    ctx.log('success', 'STRATEGY', `[网格] ${state.instId} 网格已建立：${state.cells.length} 格，现价 ${fmt(price)}。`);
+    await this.placeMissingOrders(state, ctx);
+  }
+
+  /** 查询上一轮未确认的底仓买单：成交后返回订单；仍在撮合时返回 null；未成交则清除订单 ID，下一轮重新买入 */
+  private async settleInventory(state: GridState, ctx: StrategyContext): Promise<Order | null> {
+    const order = await ctx.okx.getOrder(state.instId, state.inventoryOrdId!);
+    if (order?.state === 'filled') return order;
+    if (order?.state === 'canceled' && parseFloat(order.accFillSz || '0') > 0) {
+      ctx.log('warning', 'STRATEGY', `[网格] 底仓买单 ${order.ordId} 仅部分成交 ${order.accFillSz}，部分卖单格可能库存不足。`);
+      return order;
+    }
+    if (!order || order.state === 'canceled') {
+      ctx.log('warning', 'STRATEGY', `[网格] 底仓买单 ${state.inventoryOrdId} 未成交，下一轮重新买入。`);
+      state.inventoryOrdId = undefined;
+    }
+    return null;
+  }
+
+  /** 检查每格挂单：成交则翻转方向并挂反向单，被撤则补挂 */
+  private async sync(state: GridState, ctx: StrategyContext) {
+    for (const cell of [...state.cells]) {
+      if (cell.ordId) await this.applyOrderResult(state, cell.index, ctx);
+    }
+    await this.placeMissingOrders(state, ctx);
+  }
+
+  private async applyOrderResult(state: GridState, index: number, ctx: StrategyContext) {
+    const cell = state.cells[index];
+    if (!cell.ordId) return;
+    const order = await ctx.okx.getOrder(state.instId, cell.ordId);
+    if (!order || (order.state === 'canceled' && !(parseFloat(order.accFillSz || '0') > 0))) {
+      this.updateCell(state, { ...cell, ordId: undefined });
+      return;
+    }
+    if (order.state !== 'filled' && order.state !== 'canceled') return;
+
+    const fillPx = parseFloat(order.avgPx || order.fillPx || cellOrderPrice(cell).toString());
+    const fillQty = parseFloat(order.accFillSz || order.sz) * state.ctVal;
+    if (order.state === 'canceled') {
+      // 撤单前部分成交：剩余数量不低于最小下单量时保持原方向补挂，否则按成交处理
+      const partial = fillCellPartially(cell, fillPx, fillQty, this.feeInUsdt(order, fillPx));
+      if (this.remainingSz(state, partial) >= parseFloat(state.instrument.minSz)) {
+        this.updateCell(state, partial);
+        ctx.log('info', 'STRATEGY', `[网格] #${cell.index} ${cell.side === 'buy' ? '买' : '卖'}单撤单前部分成交 ${order.accFillSz} @${fmt(fillPx)}，剩余数量重新挂单。`);
+        return;
+      }
+    }
+    const next = flipCell(cell, fillPx, fillQty, this.feeInUsdt(order, fillPx));
+    this.updateCell(state, next);
+
+    const filled = `[网格] #${cell.index} ${cell.side === 'buy' ? '买入' : '卖出'}成交 @${fmt(fillPx)}`;
+    const reorder = `改挂${next.side === 'buy' ? `买单 @${fmt(next.lowerPx)}` : `卖单 @${fmt(next.upperPx)}`}`;
+    if (next.roundTrips > cell.roundTrips) {
+      const profit = next.realizedProfit - cell.realizedProfit;
+      ctx.log('success', 'STRATEGY', `${filled}，本次利润 ${profit >= 0 ? '+' : ''}$${profit.toFixed(4)}，${reorder}`);
+    } else {
+      ctx.log('success', 'STRATEGY', `${filled}，${cell.side === 'buy' ? '开多' : '开空'}，${reorder}`);
+    }
+  }
+
+  private async placeMissingOrders(state: GridState, ctx: StrategyContext) {
+    // 限价单可能直接吃单成交，按 taker 费率预留
+    const spotFeeRate = state.isSwap ? 0 : Math.max((await ctx.okx.getTradeFeeRates('SPOT')).taker, 0);
+    for (const cell of state.cells) {
+      if (cell.ordId) continue;
+      // 现货买单的手续费以币扣除，多买一点保证后续卖单数量足够
+      const sz = !state.isSwap && cell.side === 'buy'
+        ? this.remainingSz(state, cell) / (1 - spotFeeRate)
+        : this.remainingSz(state, cell);
+      try {
+        const ordId = await ctx.okx.placeLimitOrder(state.instrument, cell.side, cellOrderPrice(cell), sz);
+        this.updateCell(state, { ...cell, ordId });
+      } catch (e) {
+        ctx.log('error', 'STRATEGY', `[网格] #${cell.index} ${cell.side === 'buy' ? '买' : '卖'}单挂单失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+      }
+    }
+  }
+
+  /** 该格当前方向尚需成交的下单数量 (扣除撤单前已部分成交的数量) */
+  private remainingSz(state: GridState, cell: GridCell): number {
+    return state.params.orderSize - (cell.filledSz ?? 0) / state.ctVal;
+  }
+
+  private updateCell(state: GridState, cell: GridCell) {
+    state.cells = state.cells.map(c => c.index === cell.index ? cell : c);
+    state.realizedProfit = state.cells.reduce((sum, c) => sum + c.realizedProfit, 0);
+  }
+
+  /** 手续费统一折算为 USDT 正数；现货买单的手续费以基础币扣除 */
+  private feeInUsdt(order: Order, fillPx: number): number {
+    const fee = Math.abs(parseFloat(order.fee || '0'));
+    return order.feeCcy && order.feeCcy !== 'USDT' ? fee * fillPx : fee;
+  }
+
+  private checkRange(state: GridState, price: number, ctx: StrategyContext) {
+    const outOfRange = price > state.params.upperPrice || price < state.params.lowerPrice;
+    if (outOfRange && !state.outOfRange) {
+      ctx.log('warning', 'STRATEGY', `[网格] ${state.instId} 现价 ${fmt(price)} 已突破区间 ${fmt(state.params.lowerPrice)} ~ ${fmt(state.params.upperPrice)}，网格暂停成交。`);
+    } else if (!outOfRange && state.outOfRange) {
+      ctx.log('info', 'STRATEGY', `[网格] ${state.instId} 现价 ${fmt(price)} 已回到区间内。`);
+    }
+    state.outOfRange = outOfRange;
+  }
+}
@@ -0,0 +1,123 @@
+import { DualSideResult, HedgeCheck, LogEntry } from '../types';
+import { OKXService } from '../services/okxService';
+import { HEDGE_CHECK_INTERVAL_MS, HedgeMonitorSettings, hedgeDelta, hedgeStatus, pruneRebalanceHistory, rebalanceBlock } from '../services/hedgeLogic';
+
+type HedgeLogger = (level: LogEntry['level'], message: string) => void;
+
+/** 引擎交给监控的组合：运行中的资金费策略持有的永续合约 */
+export interface MonitoredPair {
+  instId: string;
+  strategyId: string;
+  settings: HedgeMonitorSettings;
+  canTrade: boolean;
+}
+
+/**
+ * 后台对冲监控 (Hedge Monitor)
+ * 由引擎循环每分钟调用一次，计算每个组合的现货与合约偏差；偏差价值超过阈值时调用调仓 (auditAndRebalance)，
+ * 受冷却时间与每小时次数限制。调仓失败、达到次数上限或交易开关关闭时写入告警日志 (同一状态只记录一次)。
+ * 冷却记录只保存在内存中，进程重启后重新计算。
+ */
+export class HedgeMonitor {
+  private checks = new Map<string, HedgeCheck>();
+  private history = new Map<string, number[]>(); // instId -> 最近一小时的自动调仓时间
+  private lastRunAt = 0;
+
+  constructor(private log: HedgeLogger) {}
+
+  list(): HedgeCheck[] {
+    return [...this.checks.values()];
+  }
+
+  due(now = Date.now()): boolean {
+    return now - this.lastRunAt >= HEDGE_CHECK_INTERVAL_MS;
+  }
+
+  async run(okx: OKXService, pairs: MonitoredPair[], rebalance: (instId: string) => Promise<DualSideResult>) {
+    this.lastRunAt = Date.now();
+    const monitored = new Set(pairs.map(p => p.instId));
+    [...this.checks.keys()].filter(instId => !monitored.has(instId)).forEach(instId => this.checks.delete(instId));
+    if (pairs.length === 0) return;
+
+    const [positions, assets, swapInsts] = await Promise.all([okx.getPositions(), okx.getAccountAssets(), okx.getInstruments('SWAP')]);
+    // 查询失败时返回空列表，余额为空会被误判为裸空，本轮不做判断
+    if (assets.length === 0 || swapInsts.length === 0) return;
+
+    for (const pair of pairs) {
+      const pos = positions.find(p => p.instId === pair.instId && parseFloat(p.pos) < 0);
+      const swapInfo = swapInsts.find(i => i.instId === pair.instId);
+      if (!pos || !swapInfo) {
+        this.checks.delete(pair.instId);
+        continue;
+      }
+      let price: number;
+      try {
+        price = (await okx.getTicker(pair.instId)).last;
+      } catch (e) {
+        continue;
+      }
+      const base = pair.instId.split('-')[0];
+      const spotBalance = assets.find(a => a.currency === base)?.balance ?? 0;
+      const contracts = Math.abs(parseFloat(pos.pos));
+      const ctVal = parseFloat(swapInfo.ctVal);
+      const { deltaAmount, deltaValue } = hedgeDelta(spotBalance, contracts, ctVal, price);
+      const previous = this.checks.get(pair.instId);
+      const check: HedgeCheck = {
+        instId: pair.instId,
+        strategyId: pair.strategyId,
+        spotBalance,
+        swapCoinQty: contracts * ctVal,
+        deltaAmount,
+        deltaValue,
+        status: hedgeStatus(deltaValue, pair.settings.thresholdUsd),
+        checkedAt: this.lastRunAt,
+        lastRebalanceAt: previous?.lastRebalanceAt,
+        lastMessage: previous?.lastMessage
+      };
+      this.checks.set(pair.instId, check);
+      if (check.status === 'Risk') {
+        const label = `[对冲监控] ${pair.instId} 偏差 ${deltaAmount.toFixed(6)} ${base} (${deltaValue.toFixed(2)} USDT)`;
+        check.action = await this.handleDrift(pair, check, previous?.action, label, rebalance);
+      }
+    }
+  }
+
+  private async handleDrift(
+    pair: MonitoredPair,
+    check: HedgeCheck,
+    previousAction: HedgeCheck['action'],
+    label: string,
+    rebalance: (instId: string) => Promise<DualSideResult>
+  ): Promise<HedgeCheck['action']> {
+    if (!pair.settings.enabled) {
+      if (previousAction !== 'disabled') this.log('warning', `${label}，已关闭自动调仓，请人工处理。`);
+      return 'disabled';
+    }
+    if (!pair.canTrade) {
+      if (previousAction !== 'trading_off') this.log('warning', `${label}，交易开关关闭，未自动调仓。`);
+      return 'trading_off';
+    }
+    const now = check.checkedAt;
+    const history = pruneRebalanceHistory(this.history.get(pair.instId) ?? [], now);
+    this.history.set(pair.instId, history);
+    const block = rebalanceBlock(history, now, pair.settings);
+    if (block === 'hourly_limit') {
+      if (previousAction !== 'hourly_limit') {
+        this.log('error', `${label}，1 小时内已自动调仓 ${history.length} 次仍未恢复，暂停自动调仓，请人工检查。`);
+      }
+      return 'hourly_limit';
+    }
+    if (block === 'cooldown') return 'cooldown';
+
+    history.push(now);
+    this.log('warning', `${label}，超过阈值 ${pair.settings.thresholdUsd} USDT，自动调仓。`);
+    const res = await rebalance(pair.instId);
+    check.lastRebalanceAt = now;
+    check.lastMessage = res.message;
+    if (!res.success) {
+      this.log('error', `${label}，自动调仓失败: ${res.message}`);
+      return 'failed';
+    }
+    return 'rebalanced';
+  }
+}
@@ -0,0 +1,328 @@
+import { DualLegOperation, DualLegState, DualSideResult, Instrument, LegExecution, LegFill, LegOrderFill, LegOrderSpec, LogEntry, TradePhase } from '../types';
+import { OKXService } from '../services/okxService';
+import { tagClOrdId, parseClOrdId } from '../services/tradeJournalLogic';
+import { MAX_MAKER_ORDERS, makerChildSeq, makerPrice, sliceLegSeq, isMakerChildSeq } from '../services/legExecutionLogic';
+import { stateStore, FINISHED_LEG_STATES } from './stateStore';
+
+const MAX_ATTEMPTS = 3; // 第二腿与回滚各自的最大尝试次数
+const RETRY_BACKOFF_MS = 1000; // 线性退避: 1s, 2s, ...
+
+const STATE_LABELS: Record<DualLegState, string> = {
+  first_leg: '首腿下单',
+  second_leg: '第二腿下单',
+  unwinding: '回滚首腿',
+  completed: '完成',
+  unwound: '已回滚',
+  failed: '失败'
+};
+
+type LegLogger = (level: LogEntry['level'], message: string) => void;
+
+/** 执行记录所属的交易；slice 为分片序号，不拆分时省略 */
+export interface LegTarget {
+  tradeId: string;
+  slice?: number;
+}
+
+/**
+ * 双边执行协调器 (资金费率套利的开仓与平仓)
+ * 开仓: 首腿现货买入 → 第二腿合约开空；平仓: 首腿合约买回 → 第二腿卖出现货。
+ * 第二腿失败时有限次重试，仍失败则回滚首腿 (开仓卖回现货 / 平仓重新开空)，避免留下裸露的单腿。
+ * 每次状态变化写入 stateStore 并记录日志；每次下单使用确定的 clOrdId，重启后先按 clOrdId 查单再决定是否重下。
+ * maker 模式下每条腿先以 post-only 挂单追价，超时后剩余数量市价兜底；第二腿按首腿实际成交 (含部分成交) 对冲。
+ */
+export class LegCoordinator {
+  private running = new Set<string>();
+
+  constructor(private log: LegLogger) {}
+
+  /** 双边开仓；资金不足等前置检查失败时不产生执行记录 */
+  async enter(okx: OKXService, tradeId: string, strategyId: string, swapInstrument: Instrument, usdtAmount: number, execution: LegExecution): Promise<DualSideResult> {
+    let prepared: { spotInstrument: Instrument; spotSz: string };
+    try {
+      prepared = await okx.prepareDualSideEntry(swapInstrument.instId, usdtAmount, swapInstrument);
+    } catch (e) {
+      return { success: false, message: `Entry Failed: ${e instanceof Error ? e.message : 'Unknown'}`, fills: [] };
+    }
+    return this.enterSlice(okx, { tradeId }, strategyId, swapInstrument, prepared.spotInstrument, prepared.spotSz, execution);
+  }
+
+  /** 双边平仓：reduceOnly 买回全部空头合约，再卖出全部现货 (扫清残余) */
+  async exit(okx: OKXService, tradeId: string, strategyId: string | undefined, swapInstrument: Instrument, posSizeContracts: string, execution: LegExecution): Promise<DualSideResult> {
+    let spot: { spotInstrument: Instrument; spotSz: string } | null;
+    try {
+      spot = await okx.prepareDualSideExit(swapInstrument.instId);
+    } catch (e) {
+      return { success: false, message: `Exit Error: ${e instanceof Error ? e.message : 'Unknown'}`, fills: [] };
+    }
+    const contracts = Math.abs(parseFloat(posSizeContracts));
+    return this.exitSlice(okx, { tradeId }, strategyId, swapInstrument, spot?.spotInstrument, contracts, spot?.spotSz ?? null, execution);
+  }
+
+  /** 按给定现货数量双边开仓 (分片执行的一片，或已完成前置计算的整笔开仓) */
+  enterSlice(okx: OKXService, target: LegTarget, strategyId: string, swapInstrument: Instrument, spotInstrument: Instrument,
+    spotSz: string, execution: LegExecution): Promise<DualSideResult> {
+    const [base, quote] = swapInstrument.instId.split('-');
+    const op = this.create('entry', target, strategyId, swapInstrument, spotInstrument, execution,
+      { instId: `${base}-${quote}`, side: 'buy', sz: spotSz, tgtCcy: 'base_ccy' });
+    return this.run(okx, op);
+  }
+
+  /** 买回指定张数合约并卖出指定数量现货 (spotSz 为空时只平合约) */
+  exitSlice(okx: OKXService, target: LegTarget, strategyId: string | undefined, swapInstrument: Instrument, spotInstrument: Instrument | undefined,
+    contracts: number, spotSz: string | null, execution: LegExecution): Promise<DualSideResult> {
+    const [base, quote] = swapInstrument.instId.split('-');
+    const op = this.create('exit', target, strategyId, swapInstrument, spotInstrument, execution,
+      { instId: swapInstrument.instId, side: 'buy', sz: okx.floorLotSize(contracts, swapInstrument), reduceOnly: true });
+    if (spotSz) op.second = { instId: `${base}-${quote}`, side: 'sell', sz: spotSz, tgtCcy: 'base_ccy' };
+    return this.run(okx, op);
+  }
+
+  /** 未完成且当前未在执行的记录 (进程重启前中断的执行) */
+  interrupted(): DualLegOperation[] {
+    return stateStore.getLegOperations().filter(op => !FINISHED_LEG_STATES.includes(op.state) && !this.running.has(op.id));
+  }
+
+  /** 从中断处继续执行 */
+  resume(okx: OKXService, op: DualLegOperation): Promise<DualSideResult> {
+    this.log('warning', `[双边执行] ${this.label(op)} 从「${STATE_LABELS[op.state]}」恢复执行。`);
+    return this.run(okx, { ...op, fills: [...op.fills] });
+  }
+
+  private create(kind: DualLegOperation['kind'], target: LegTarget, strategyId: string | undefined, swapInstrument: Instrument,
+    spotInstrument: Instrument | undefined, execution: LegExecution, first: LegOrderSpec): DualLegOperation {
+    const now = Date.now();
+    const op: DualLegOperation = {
+      // 同一交易会先后有开仓、平仓 (及分片) 多条执行记录
+      id: `${target.tradeId}-${kind}${target.slice ? `-${target.slice}` : ''}-${now.toString(36)}`,
+      tradeId: target.tradeId,
+      ...(target.slice ? { slice: target.slice } : {}),
+      kind, strategyId, swapInstId: swapInstrument.instId, swapInstrument, spotInstrument, execution,
+      state: 'first_leg', first, attempts: 0, fills: [], createdAt: now, updatedAt: now
+    };
+    this.save(op);
+    return op;
+  }
+
+  private async run(okx: OKXService, op: DualLegOperation): Promise<DualSideResult> {
+    this.running.add(op.id);
+    try {
+      while (!FINISHED_LEG_STATES.includes(op.state)) {
+        await this.step(okx, op);
+      }
+    } finally {
+      this.running.delete(op.id);
+    }
+    const summary = op.fills.map(f => `${f.instId} ${f.side} ${f.sz.toFixed(6)}`).join(', ');
+    const mode = op.execution?.mode === 'maker' ? ` (maker ${this.makerShare(op)}%)` : '';
+    const message = op.state === 'completed'
+      ? `[Dual-Leg ${op.kind}]${mode} ${summary}`
+      : `${STATE_LABELS[op.state]}: ${op.lastError ?? 'Unknown'}${summary ? ` (成交: ${summary})` : ''}`;
+    return { success: op.state === 'completed', message, fills: op.fills };
+  }
+
+  private async step(okx: OKXService, op: DualLegOperation) {
+    switch (op.state) {
+      case 'first_leg': {
+        // 首腿部分成交 (maker 超时后市价兜底失败等) 时按已成交部分对冲
+        await this.attempt(okx, op, op.first, op.kind === 'entry' ? 'entry' : 'exit', 1);
+        const filled = this.legTotal(op, op.first);
+        if (!filled) return this.transition(op, 'failed', '首腿未成交，无需回滚');
+        this.planSecondLeg(okx, op, filled.sz);
+        if (op.second) return this.transition(op, 'second_leg', `首腿成交 ${filled.sz.toFixed(6)} @ ${filled.px}`);
+        if (op.kind === 'exit') return this.transition(op, 'completed', '无现货需卖出');
+        return this.escalateToUnwind(okx, op, '现货成交量不足 1 张合约');
+      }
+      case 'second_leg': {
+        if (await this.attempt(okx, op, op.second!, op.kind === 'entry' ? 'entry' : 'exit', 2 + op.attempts)) {
+          const filled = this.legTotal(op, op.second!)!;
+          return this.transition(op, 'completed', `第二腿成交 ${filled.sz.toFixed(6)} @ ${filled.px}`);
+        }
+        if (await this.backoff(op, '第二腿')) return;
+        return this.escalateToUnwind(okx, op, `第二腿连续 ${op.attempts} 次失败: ${op.lastError}`);
+      }
+      case 'unwinding': {
+        // 开仓回滚视为平仓，平仓回滚 (重新开空) 视为调仓
+        if (await this.attempt(okx, op, op.unwind!, op.kind === 'entry' ? 'exit' : 'rebalance', 1 + op.attempts)) {
+          const filled = this.legTotal(op, op.unwind!)!;
+          return this.transition(op, 'unwound', `首腿已回滚 ${filled.sz.toFixed(6)} @ ${filled.px}`);
+        }
+        if (await this.backoff(op, '回滚')) return;
+        return this.transition(op, 'failed', `回滚连续 ${op.attempts} 次失败: ${op.lastError}，单腿敞口需人工处理`);
+      }
+    }
+  }
+
+  /** 首腿成交后按实际成交量确定第二腿 */
+  private planSecondLeg(okx: OKXService, op: DualLegOperation, firstFilled: number) {
+    if (op.kind !== 'entry') return;
+    const spotQty = okx.floorLotSize(firstFilled, op.spotInstrument!);
+    // Contracts = Floor(ActualSpot / ctVal)，防止交易所因为某种原因没完全成交
+    // 加上极小量抵消浮点误差 (56.8 / 0.1 = 567.9999...)
+    const contracts = Math.floor(parseFloat(spotQty) / parseFloat(op.swapInstrument.ctVal) + 1e-9);
+    op.second = contracts >= parseFloat(op.swapInstrument.minSz) && contracts >= 1
+      ? { instId: op.swapInstId, side: 'sell', sz: contracts.toString() }
+      : undefined;
+  }
+
+  /**
+   * 回滚首腿中未被第二腿对冲的部分 (第二腿可能已部分成交)
+   * 未对冲部分不足最小下单量时：第二腿有成交视为完成，否则视为已回滚
+   */
+  private escalateToUnwind(okx: OKXService, op: DualLegOperation, note: string) {
+    const first = this.legTotal(op, op.first)!;
+    const hedged = op.second ? this.legTotal(op, op.second)?.sz ?? 0 : 0;
+    const ctVal = parseFloat(op.swapInstrument.ctVal);
+    const instrument = op.kind === 'entry' ? op.spotInstrument! : op.swapInstrument;
+    op.unwind = op.kind === 'entry'
+      ? { instId: op.first.instId, side: 'sell', sz: okx.floorLotSize(first.sz - hedged * ctVal, instrument), tgtCcy: 'base_ccy' }
+      : { instId: op.swapInstId, side: 'sell', sz: okx.floorLotSize(first.sz - hedged / ctVal, instrument) };
+    if (parseFloat(op.unwind.sz) >= parseFloat(instrument.minSz)) return this.transition(op, 'unwinding', note);
+    return hedged > 0
+      ? this.transition(op, 'completed', `${note}；未对冲部分低于最小下单量，按已成交部分完成`)
+      : this.transition(op, 'unwound', `${note}；首腿成交量低于最小下单量，无需回滚`);
+  }
+
+  /**
+   * 执行一条腿直至完成，每张订单的成交即时记入 op.fills
+   * maker 模式先挂单追价，超时后剩余数量市价兜底；累计成交达到该腿数量 (剩余不足最小下单量) 才视为完成，
+   * 部分成交返回 false，由调用方退避后按剩余数量重试
+   */
+  private async attempt(okx: OKXService, op: DualLegOperation, leg: LegOrderSpec, phase: TradePhase, seq: number): Promise<boolean> {
+    const instrument = leg.instId === op.swapInstId ? op.swapInstrument : op.spotInstrument!;
+    const clOrdId = this.tag(op, phase, seq);
+    try {
+      // 恢复执行：上次发出的订单可能已成交或仍在挂单
+      const pending = op.pendingClOrdId;
+      if (pending) {
+        const settled = await okx.settleLegOrder(leg.instId, pending);
+        this.record(op, settled);
+        if (!this.remaining(okx, op, leg, instrument)) return true;
+        // 同一 clOrdId 不能重复下单，剩余数量退避后以新序号重试
+        if (pending === clOrdId) return this.unfilled(op, leg, instrument, okx);
+      }
+      if (op.execution?.mode === 'maker') await this.workMaker(okx, op, leg, instrument, phase, seq);
+
+      const sz = this.remaining(okx, op, leg, instrument);
+      if (!sz) return true;
+      op.pendingClOrdId = clOrdId;
+      this.save(op);
+      let settled: LegOrderFill | null;
+      try {
+        settled = await okx.executeLeg({ ...leg, sz }, clOrdId);
+      } catch (e) {
+        // 请求异常时订单可能已到达交易所，按 clOrdId 确认
+        settled = await okx.settleLegOrder(leg.instId, clOrdId).catch(() => null);
+        if (!settled) throw e;
+      }
+      this.record(op, settled);
+      if (!this.remaining(okx, op, leg, instrument)) return true;
+      return this.unfilled(op, leg, instrument, okx);
+    } catch (e) {
+      op.lastError = `${leg.instId} ${leg.side} ${leg.sz}: ${e instanceof Error ? e.message : 'Unknown'}`;
+      // 尽量撤掉未确认的挂单，避免在状态切换后继续成交
+      if (op.pendingClOrdId) this.record(op, await okx.settleLegOrder(leg.instId, op.pendingClOrdId).catch(() => null));
+      return false;
+    }
+  }
+
+  /**
+   * maker 追价：在盘口内挂 post-only 单，每 repriceMs 撤单并按最新买一/卖一重挂，
+   * 直到剩余数量不足最小下单量、超时或挂单数达到上限
+   */
+  private async workMaker(okx: OKXService, op: DualLegOperation, leg: LegOrderSpec, instrument: Instrument, phase: TradePhase, seq: number) {
+    const { repriceMs, timeoutMs } = op.execution!;
+    const deadline = Date.now() + timeoutMs;
+    let sz: string | null;
+    while (Date.now() < deadline && (op.makerOrders ?? 0) < MAX_MAKER_ORDERS && (sz = this.remaining(okx, op, leg, instrument))) {
+      op.makerOrders = (op.makerOrders ?? 0) + 1;
+      const clOrdId = this.tag(op, phase, makerChildSeq(seq, op.makerOrders));
+      const { bidPx, askPx } = await okx.getTicker(leg.instId);
+      const px = makerPrice(leg.side, bidPx, askPx, parseFloat(instrument.tickSz));
+      op.pendingClOrdId = clOrdId;
+      this.save(op);
+      if (!(await okx.placeMakerLeg({ ...leg, sz }, instrument, px, clOrdId))) {
+        op.pendingClOrdId = undefined;
+        continue; // 盘口已移动，post-only 被拒，立即按新价重挂
+      }
+      await new Promise(r => setTimeout(r, Math.max(0, Math.min(repriceMs, deadline - Date.now()))));
+      this.record(op, await okx.settleLegOrder(leg.instId, clOrdId));
+    }
+  }
+
+  /** 日志中的执行标识：交易编号 (#分片序号) 与合约 */
+  private label(op: DualLegOperation): string {
+    return `${op.tradeId ?? op.id}${op.slice ? `#${op.slice}` : ''} ${op.swapInstId}`;
+  }
+
+  /** 订单的 clOrdId：分片执行共用所属交易的编号，序号按分片错开 */
+  private tag(op: DualLegOperation, phase: TradePhase, seq: number): string {
+    return tagClOrdId(op.tradeId ?? op.id, phase, sliceLegSeq(op.slice, seq));
+  }
+
+  /** 当前腿剩余的下单数量；不足最小下单量返回 null */
+  private remaining(okx: OKXService, op: DualLegOperation, leg: LegOrderSpec, instrument: Instrument): string | null {
+    if (!op.legFilledSz) return leg.sz;
+    const sz = okx.floorLotSize(parseFloat(leg.sz) - op.legFilledSz, instrument);
+    return parseFloat(sz) >= parseFloat(instrument.minSz) ? sz : null;
+  }
+
+  /** 该腿未完全成交：记录剩余数量作为失败原因 */
+  private unfilled(op: DualLegOperation, leg: LegOrderSpec, instrument: Instrument, okx: OKXService): false {
+    const left = this.remaining(okx, op, leg, instrument);
+    op.lastError = op.legFilledSz
+      ? `${leg.instId} ${leg.side} 部分成交 ${op.legFilledSz}/${leg.sz}，剩余 ${left} 未成交`
+      : `${leg.instId} ${leg.side} ${leg.sz} 未成交`;
+    return false;
+  }
+
+  /** 记入一张订单的成交并清除待确认标记 */
+  private record(op: DualLegOperation, settled: LegOrderFill | null) {
+    if (settled?.fill) op.fills.push(settled.fill);
+    op.legFilledSz = (op.legFilledSz ?? 0) + (settled?.filledSz ?? 0);
+    op.pendingClOrdId = undefined;
+    this.save(op);
+  }
+
+  /** 某条腿的累计成交 (数量合计、加权均价)；无成交返回 null */
+  private legTotal(op: DualLegOperation, leg: LegOrderSpec): { sz: number; px: number } | null {
+    const fills = op.fills.filter(f => f.instId === leg.instId && f.side === leg.side);
+    const sz = fills.reduce((sum, f) => sum + f.sz, 0);
+    return sz > 0 ? { sz, px: fills.reduce((sum, f) => sum + f.sz * f.px, 0) / sz } : null;
+  }
+
+  /** maker 挂单成交占全部成交的名义金额比例 (%) */
+  private makerShare(op: DualLegOperation): string {
+    const notional = (fills: LegFill[]) => fills.reduce((sum, f) => sum + f.sz * f.px, 0);
+    const total = notional(op.fills);
+    const maker = notional(op.fills.filter(f => isMakerChildSeq(parseClOrdId(f.clOrdId)?.seq ?? 0)));
+    return total > 0 ? ((maker / total) * 100).toFixed(0) : '0';
+  }
+
+  /** 失败计数加一；未达上限时退避后返回 true (同一阶段重试) */
+  private async backoff(op: DualLegOperation, legName: string): Promise<boolean> {
+    op.attempts += 1;
+    if (op.attempts >= MAX_ATTEMPTS) return false;
+    this.log('warning', `[双边执行] ${this.label(op)} ${legName}第 ${op.attempts} 次失败 (${op.lastError})，${op.attempts * RETRY_BACKOFF_MS / 1000}s 后重试。`);
+    op.makerOrders = 0;
+    this.save(op);
+    await new Promise(r => setTimeout(r, op.attempts * RETRY_BACKOFF_MS));
+    return true;
+  }
+
+  private transition(op: DualLegOperation, next: DualLegState, note: string) {
+    const from = op.state;
+    op.state = next;
+    op.attempts = 0;
+    op.legFilledSz = 0;
+    op.makerOrders = 0;
+    this.save(op);
+    const level: LogEntry['level'] = next === 'completed' ? 'success' : next === 'failed' ? 'error' : next === 'unwinding' || next === 'unwound' ? 'warning' : 'info';
+    this.log(level, `[双边执行] ${this.label(op)} ${op.kind === 'entry' ? '开仓' : '平仓'}: ${STATE_LABELS[from]} → ${STATE_LABELS[next]} (${note})`);
+  }
+
+  private save(op: DualLegOperation) {
+    op.updatedAt = Date.now();
+    stateStore.saveLegOperation({ ...op, fills: [...op.fills] });
+  }
+}
@@ -0,0 +1,897 @@
+import { GatewayResponse } from './okxGateway';
+import { StreamSocket, StreamSocketHandlers } from './okxStream';
+
+/**
+ * 本地 OKX V5 模拟交易所 (Mock Exchange)
+ * 设置 OKX_MOCK=1 后，/api/proxy 与服务端引擎的请求全部路由到这里，
+ * 用内存撮合引擎模拟现货/永续下单、持仓、余额与 8 小时资金费结算，便于离线端到端测试套利流程。
+ * WebSocket 推送同样由进程内的模拟连接提供 (openSocket)，不建立真实网络连接。
+ *
+ * 可选环境变量:
+ *   MOCK_INITIAL_USDT       初始 USDT 余额 (默认 100000)
+ *   MOCK_FUNDING_USDT       资金账户初始 USDT 余额 (默认 0，可划转到交易账户补充保证金)
+ *   MOCK_TAKER_FEE          现货 taker 费率 (默认 0.001)
+ *   MOCK_MAKER_FEE          现货 maker 费率 (默认 0.0008)
+ *   MOCK_SWAP_TAKER_FEE     永续 taker 费率 (默认 0.0005)
+ *   MOCK_SWAP_MAKER_FEE     永续 maker 费率 (默认 0.0002)
+ *   MOCK_SLIPPAGE_BPS       市价单滑点，单位 bp (默认 5)
+ *   MOCK_FUNDING_INTERVAL_MS 资金费结算周期 (默认 8 小时，可调小以加速测试)
+ *   MOCK_ORDER_FAIL_RATE    下单随机被拒的概率 (默认 0，用于测试双边执行的失败恢复)
+ *   MOCK_RATE_LIMIT_RATE    任意请求随机返回 429 / 50011 的概率 (默认 0，用于测试限频重试)
+ */
+
+const envNumber = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  const parsed = raw !== undefined ? parseFloat(raw) : NaN;
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+interface MockSocket {
+  kind: 'public' | 'private';
+  handlers: StreamSocketHandlers;
+  args: any[];
+  loggedIn: boolean;
+  closed: boolean;
+}
+
+const MAINT_MARGIN_RATE = 0.004; // 维持保证金率，用于计算账户 mgnRatio
+const PUSH_INTERVAL_MS = 1000;
+const PRIVATE_SNAPSHOT_TICKS = 10; // 持仓与账户每 10 秒定时推送一次全量
+
+export const isMockExchangeEnabled = (): boolean => process.env.OKX_MOCK === '1';
+
+interface MockMarket {
+  base: string;
+  price: number;
+  open24h: number;
+  basis: number; // 永续相对现货的溢价
+  ctVal: string;
+  swapMinSz: string;
+  spotMinSz: string;
+  spotLotSz: string;
+  tickSz: string;
+  baseFundingRate: number;
+  fundingPhase: number;
+  volUsdt24h: number;
+}
+
+interface MockOrder {
+  ordId: string;
+  clOrdId: string;
+  instId: string;
+  instType: 'SPOT' | 'SWAP';
+  side: 'buy' | 'sell';
+  ordType: 'market' | 'limit' | 'post_only';
+  tdMode: string;
+  tgtCcy: string;
+  sz: number;
+  px: number;
+  reduceOnly: boolean;
+  state: 'live' | 'partially_filled' | 'filled' | 'canceled';
+  accFillSz: number;
+  fillSz: number;
+  fillPx: number;
+  avgPx: number;
+  fee: number;
+  feeCcy: string;
+  cTime: number;
+  uTime: number;
+}
+
+interface MockPosition {
+  instId: string;
+  pos: number; // 合约张数，负数为空头
+  avgPx: number;
+  cTime: number;
+}
+
+interface MockBill {
+  billId: string;
+  instId: string;
+  type: string; // 8 = 资金费
+  subType: string; // 173 支出 / 174 收入
+  ccy: string;
+  balChg: number;
+  px: number;
+  ts: number;
+}
+
+class MockExchangeError extends Error {
+  constructor(public sCode: string, message: string) {
+    super(message);
+  }
+}
+
+const SEED_MARKETS: Omit<MockMarket, 'open24h' | 'fundingPhase'>[] = [
+  { base: 'BTC', price: 65000, basis: 0.0003, ctVal: '0.01', swapMinSz: '1', spotMinSz: '0.00001', spotLotSz: '0.00000001', tickSz: '0.1', baseFundingRate: 0.0001, volUsdt24h: 3e9 },
+  { base: 'ETH', price: 3200, basis: 0.0003, ctVal: '0.1', swapMinSz: '1', spotMinSz: '0.0001', spotLotSz: '0.000001', tickSz: '0.01', baseFundingRate: 0.00012, volUsdt24h: 1.5e9 },
+  { base: 'SOL', price: 150, basis: 0.0005, ctVal: '1', swapMinSz: '1', spotMinSz: '0.01', spotLotSz: '0.000001', tickSz: '0.01', baseFundingRate: 0.0004, volUsdt24h: 8e8 },
+  { base: 'XRP', price: 0.6, basis: 0.0002, ctVal: '100', swapMinSz: '1', spotMinSz: '1', spotLotSz: '0.000001', tickSz: '0.0001', baseFundingRate: 0.00005, volUsdt24h: 4e8 },
+  { base: 'DOGE', price: 0.15, basis: 0.0006, ctVal: '1000', swapMinSz: '1', spotMinSz: '10', spotLotSz: '0.000001', tickSz: '0.00001', baseFundingRate: 0.00035, volUsdt24h: 3e8 },
+  { base: 'PEPE', price: 0.00001, basis: 0.0008, ctVal: '10000000', swapMinSz: '1', spotMinSz: '100000', spotLotSz: '1', tickSz: '0.000000001', baseFundingRate: 0.0006, volUsdt24h: 2e8 },
+  { base: 'WIF', price: 2.5, basis: 0.001, ctVal: '1', swapMinSz: '1', spotMinSz: '0.1', spotLotSz: '0.0001', tickSz: '0.0001', baseFundingRate: 0.0008, volUsdt24h: 1.2e8 },
+  { base: 'BNB', price: 580, basis: 0.0002, ctVal: '0.01', swapMinSz: '1', spotMinSz: '0.001', spotLotSz: '0.000001', tickSz: '0.01', baseFundingRate: 0.0001, volUsdt24h: 1e8 },
+  { base: 'ORDI', price: 40, basis: -0.0004, ctVal: '0.1', swapMinSz: '1', spotMinSz: '0.01', spotLotSz: '0.0001', tickSz: '0.001', baseFundingRate: -0.0002, volUsdt24h: 6e7 },
+];
+
+class MockExchange {
+  private markets = new Map<string, MockMarket>();
+  private balances = new Map<string, number>();
+  private fundingBalances = new Map<string, number>(); // 资金账户 (不计入保证金)
+  private frozen = new Map<string, number>();
+  private orders: MockOrder[] = [];
+  private positions = new Map<string, MockPosition>();
+  private leverage = new Map<string, number>();
+  private bills: MockBill[] = [];
+  private orderSeq = 1;
+  private billSeq = 1;
+  private lastTick = Date.now();
+  private lastFundingSettlement: number;
+  private sockets = new Set<MockSocket>();
+  private pushTimer: ReturnType<typeof setInterval> | null = null;
+  private pushTicks = 0;
+
+  private takerFee = envNumber('MOCK_TAKER_FEE', 0.001);
+  private makerFee = envNumber('MOCK_MAKER_FEE', 0.0008);
+  private swapTakerFee = envNumber('MOCK_SWAP_TAKER_FEE', 0.0005);
+  private swapMakerFee = envNumber('MOCK_SWAP_MAKER_FEE', 0.0002);
+  private slippage = envNumber('MOCK_SLIPPAGE_BPS', 5) / 10000;
+  private fundingIntervalMs = envNumber('MOCK_FUNDING_INTERVAL_MS', 8 * 60 * 60 * 1000);
+  private orderFailRate = envNumber('MOCK_ORDER_FAIL_RATE', 0);
+  private rateLimitRate = envNumber('MOCK_RATE_LIMIT_RATE', 0);
+
+  constructor() {
+    SEED_MARKETS.forEach((m, i) => {
+      this.markets.set(m.base, { ...m, open24h: m.price, fundingPhase: i * 0.7 });
+    });
+    this.balances.set('USDT', envNumber('MOCK_INITIAL_USDT', 100000));
+    this.fundingBalances.set('USDT', envNumber('MOCK_FUNDING_USDT', 0));
+    this.lastFundingSettlement = Math.floor(Date.now() / this.fundingIntervalMs) * this.fundingIntervalMs;
+  }
+
+  async handle(method: string, requestPath: string, body?: any): Promise<GatewayResponse> {
+    const url = new URL(requestPath, 'http://mock.local');
+    const query = url.searchParams;
+    const route = `${method.toUpperCase()} ${url.pathname}`;
+
+    if (Math.random() < this.rateLimitRate) {
+      return { status: 429, data: { code: '50011', msg: 'Too Many Requests', data: [] } };
+    }
+    this.advance();
+
+    try {
+      switch (route) {
+        case 'GET /api/v5/public/time':
+          return this.ok([{ ts: Date.now().toString() }]);
+        case 'GET /api/v5/account/config':
+          return this.ok([{ acctLv: '3', posMode: 'net_mode', uid: 'mock' }]);
+        case 'GET /api/v5/public/instruments':
+          return this.ok(this.listInstruments(query.get('instType') || 'SWAP'));
+        case 'GET /api/v5/market/tickers':
+          return this.ok(this.listTickers(query.get('instType') || 'SWAP'));
+        case 'GET /api/v5/market/ticker':
+          return this.ok([this.tickerFor(this.requireParam(query, 'instId'))]);
+        case 'GET /api/v5/market/books':
+          return this.ok([this.orderBookFor(this.requireParam(query, 'instId'), parseInt(query.get('sz') || '20'))]);
+        case 'GET /api/v5/public/funding-rate':
+          return this.ok([this.fundingRateFor(this.requireParam(query, 'instId'))]);
+        case 'GET /api/v5/public/funding-rate-history':
+          return this.ok(this.fundingRateHistoryFor(this.requireParam(query, 'instId'), Math.min(parseInt(query.get('limit') || '100'), 100),
+            query.get('after') ? parseInt(query.get('after')!) : undefined));
+        case 'GET /api/v5/public/open-interest':
+          return this.ok([this.openInterestFor(this.requireParam(query, 'instId'))]);
+        case 'GET /api/v5/asset/balances':
+          return this.ok([...this.fundingBalances.entries()]
+            .filter(([ccy]) => !query.get('ccy') || ccy === query.get('ccy'))
+            .map(([ccy, bal]) => ({ ccy, bal: bal.toString(), availBal: bal.toString(), frozenBal: '0' })));
+        case 'POST /api/v5/asset/transfer':
+          return this.ok([this.transfer(body)]);
+        case 'POST /api/v5/account/set-leverage':
+          this.leverage.set(body.instId, parseFloat(body.lever) || 1);
+          return this.ok([{ instId: body.instId, lever: body.lever, mgnMode: body.mgnMode }]);
+        case 'POST /api/v5/trade/order':
+          return this.ok([this.placeOrder(body)]);
+        case 'POST /api/v5/trade/cancel-order':
+          return this.ok([this.cancelOrder(body.instId, body.ordId, body.clOrdId)]);
+        case 'GET /api/v5/trade/order':
+          return this.ok([this.formatOrder(this.findOrder(this.requireParam(query, 'instId'), query.get('ordId'), query.get('clOrdId')))]);
+        case 'POST /api/v5/trade/close-position':
+          return this.ok([this.closePosition(body.instId)]);
+        case 'GET /api/v5/account/trade-fee':
+          return this.ok([this.tradeFeeFor(this.requireParam(query, 'instType'))]);
+        case 'GET /api/v5/account/balance':
+          return this.ok([this.balanceSnapshot()]);
+        case 'GET /api/v5/account/positions':
+          return this.ok(this.listPositions());
+        case 'GET /api/v5/account/bills':
+          return this.ok(this.listBills(query));
+        case 'GET /api/v5/trade/orders-pending': {
+          const pending = this.orders.filter(o => o.state === 'live' || o.state === 'partially_filled').reverse();
+          const after = query.get('after');
+          const start = after ? pending.findIndex(o => o.ordId === after) + 1 : 0;
+          return this.ok(pending.slice(start, start + parseInt(query.get('limit') || '100')).map(o => this.formatOrder(o)));
+        }
+        case 'GET /api/v5/trade/orders-history': {
+          const limit = parseInt(query.get('limit') || '100');
+          return this.ok(this.orders.filter(o => o.state === 'filled' || o.state === 'canceled').reverse().slice(0, limit).map(o => this.formatOrder(o)));
+        }
+        default:
+          return { status: 404, data: { code: '404', msg: `Mock endpoint not implemented: ${route}`, data: [] } };
+      }
+    } catch (e) {
+      if (e instanceof MockExchangeError) {
+        return this.fail(e.sCode, e.message);
+      }
+      throw e;
+    }
+  }
+
+  // --- WebSocket Simulation ---
+
+  /**
+   * 进程内模拟 WebSocket 连接：支持 ping、login、subscribe。
+   * 订阅后先推送一次快照；public 频道每秒推送 ticker 与资金费率，私有频道在订单变化时推送订单、持仓与账户。
+   */
+  openSocket(kind: MockSocket['kind'], handlers: StreamSocketHandlers): StreamSocket {
+    const socket: MockSocket = { kind, handlers, args: [], loggedIn: false, closed: false };
+    this.sockets.add(socket);
+    if (!this.pushTimer) {
+      this.pushTimer = setInterval(() => this.pushTick(), PUSH_INTERVAL_MS);
+      this.pushTimer.unref();
+    }
+    setTimeout(() => handlers.onOpen(), 0);
+    return {
+      send: text => setTimeout(() => this.onSocketMessage(socket, text), 0),
+      close: () => {
+        if (socket.closed) return;
+        socket.closed = true;
+        this.sockets.delete(socket);
+        if (this.sockets.size === 0 && this.pushTimer) {
+          clearInterval(this.pushTimer);
+          this.pushTimer = null;
+        }
+        setTimeout(() => handlers.onClose(), 0);
+      }
+    };
+  }
+
+  private onSocketMessage(socket: MockSocket, text: string) {
+    if (socket.closed) return;
+    if (text === 'ping') return this.deliver(socket, 'pong');
+    const msg = JSON.parse(text);
+    if (msg.op === 'login') {
+      socket.loggedIn = socket.kind === 'private';
+      return this.deliver(socket, { event: 'login', code: '0', msg: '' });
+    }
+    if (msg.op !== 'subscribe') return;
+    this.advance();
+    (msg.args || []).forEach((arg: any) => {
+      if (socket.kind === 'private' && !socket.loggedIn) {
+        return this.deliver(socket, { event: 'error', code: '60011', msg: 'Please log in' });
+      }
+      socket.args.push(arg);
+      this.deliver(socket, { event: 'subscribe', arg });
+      this.pushTo(socket, arg, this.channelSnapshot(arg));
+    });
+  }
+
+  /** orders 频道没有快照，只推送变化 */
+  private channelSnapshot(arg: any): any[] | null {
+    switch (arg.channel) {
+      case 'tickers': return [this.tickerFor(arg.instId)];
+      case 'funding-rate': return [this.fundingRateFor(arg.instId)];
+      case 'positions': return this.listPositions();
+      case 'account': return [this.balanceSnapshot()];
+      default: return null;
+    }
+  }
+
+  private pushTick() {
+    this.advance();
+    const privateSnapshot = ++this.pushTicks % PRIVATE_SNAPSHOT_TICKS === 0;
+    this.sockets.forEach(socket => socket.args
+      .filter(arg => socket.kind === 'public' || privateSnapshot && arg.channel !== 'orders')
+      .forEach(arg => this.pushTo(socket, arg, this.channelSnapshot(arg))));
+  }
+
+  /** 订单变化：推送订单；成交后推送持仓 (已平仓的标的推送 pos = 0) 与账户 */
+  private notifyOrder(order: MockOrder) {
+    this.publish('orders', [this.formatOrder(order)]);
+    if (order.accFillSz <= 0) return;
+    const positions = this.listPositions();
+    if (order.instType === 'SWAP' && !this.positions.has(order.instId)) {
+      positions.push({ instType: 'SWAP', instId: order.instId, posSide: 'net', pos: '0', avgPx: '', upl: '0', uplRatio: '0', lever: '', liqPx: '', mgnMode: 'cross', markPx: '', notionalUsd: '0', cTime: '', uTime: Date.now().toString() });
+    }
+    this.publish('positions', positions);
+    this.publish('account', [this.balanceSnapshot()]);
+  }
+
+  private publish(channel: string, data: any[]) {
+    this.sockets.forEach(socket => socket.args.filter(arg => arg.channel === channel).forEach(arg => this.pushTo(socket, arg, data)));
+  }
+
+  private pushTo(socket: MockSocket, arg: any, data: any[] | null) {
+    if (data) this.deliver(socket, { arg, data });
+  }
+
+  private deliver(socket: MockSocket, payload: any) {
+    const text = typeof payload === 'string' ? payload : JSON.stringify(payload);
+    setTimeout(() => { if (!socket.closed) socket.handlers.onMessage(text); }, 0);
+  }
+
+  // --- Market Simulation ---
+
+  /** 推进行情：价格随机游走、撮合挂单、跨越结算点时结算资金费 */
+  private advance() {
+    const now = Date.now();
+    const dtSec = Math.min((now - this.lastTick) / 1000, 3600);
+    this.lastTick = now;
+
+    if (dtSec > 0) {
+      this.markets.forEach(m => {
+        // Box-Muller 正态扰动，约 0.03%/秒^0.5 波动
+        const gauss = Math.sqrt(-2 * Math.log(Math.random() || 1e-9)) * Math.cos(2 * Math.PI * Math.random());
+        m.price = m.price * Math.exp(0.0003 * Math.sqrt(dtSec) * gauss);
+      });
+      this.matchRestingOrders();
+    }
+
+    while (now - this.lastFundingSettlement >= this.fundingIntervalMs) {
+      this.lastFundingSettlement += this.fundingIntervalMs;
+      this.settleFunding();
+    }
+  }
+
+  private currentFundingRate(m: MockMarket): number {
+    return this.fundingRateAt(m, Date.now());
+  }
+
+  private fundingRateAt(m: MockMarket, ts: number): number {
+    // 围绕基准费率做周期性摆动，便于观察轮动与出场
+    const cycle = Math.sin(ts / (6 * 60 * 60 * 1000) * 2 * Math.PI + m.fundingPhase);
+    return m.baseFundingRate + 0.0002 * cycle;
+  }
+
+  private settleFunding() {
+    this.positions.forEach(p => {
+      const m = this.marketFor(p.instId);
+      // 资金费 = -持仓名义价值 * 费率 (空头在正费率下收取)
+      const payment = -p.pos * parseFloat(m.ctVal) * this.swapPrice(m) * this.currentFundingRate(m);
+      this.credit('USDT', payment);
+      this.bills.push({
+        billId: (this.billSeq++).toString(),
+        instId: p.instId,
+        type: '8',
+        subType: payment >= 0 ? '174' : '173',
+        ccy: 'USDT',
+        balChg: payment,
+        px: this.swapPrice(m),
+        ts: this.lastFundingSettlement
+      });
+    });
+  }
+
+  private swapPrice(m: MockMarket): number {
+    return m.price * (1 + m.basis);
+  }
+
+  private priceFor(instId: string): number {
+    const m = this.marketFor(instId);
+    return instId.endsWith('-SWAP') ? this.swapPrice(m) : m.price;
+  }
+
+  private marketFor(instId: string): MockMarket {
+    const m = this.markets.get(instId.split('-')[0]);
+    if (!m || !(instId.endsWith('-USDT') || instId.endsWith('-USDT-SWAP'))) {
+      throw new MockExchangeError('51001', `Instrument ID ${instId} does not exist.`);
+    }
+    return m;
+  }
+
+  private listInstruments(instType: string) {
+    return [...this.markets.values()].map(m => instType === 'SPOT'
+      ? { instType, instId: `${m.base}-USDT`, baseCcy: m.base, quoteCcy: 'USDT', ctVal: '', minSz: m.spotMinSz, tickSz: m.tickSz, lotSz: m.spotLotSz, state: 'live' }
+      : { instType: 'SWAP', instId: `${m.base}-USDT-SWAP`, baseCcy: '', quoteCcy: '', settleCcy: 'USDT', ctVal: m.ctVal, ctValCcy: m.base, minSz: m.swapMinSz, tickSz: m.tickSz, lotSz: m.swapMinSz, state: 'live' });
+  }
+
+  private listTickers(instType: string) {
+    const suffix = instType === 'SPOT' ? '-USDT' : '-USDT-SWAP';
+    return [...this.markets.values()].map(m => this.tickerFor(`${m.base}${suffix}`));
+  }
+
+  private tickerFor(instId: string) {
+    const m = this.marketFor(instId);
+    const last = this.priceFor(instId);
+    const spread = last * 0.0001;
+    return {
+      instType: instId.endsWith('-SWAP') ? 'SWAP' : 'SPOT',
+      instId,
+      last: last.toString(),
+      bidPx: (last - spread).toString(),
+      askPx: (last + spread).toString(),
+      open24h: m.open24h.toString(),
+      // SWAP 的 volCcy24h 以币计价，与 OKX 保持一致
+      volCcy24h: (m.volUsdt24h / last).toString(),
+      vol24h: (m.volUsdt24h / last).toString(),
+      ts: Date.now().toString()
+    };
+  }
+
+  /**
+   * 盘口：买一/卖一与 ticker 一致，每档间隔 1bp；
+   * 每档挂单约为 24h 成交额的百万分之二，越远越厚，成交额低的标的盘口相应变薄
+   */
+  private orderBookFor(instId: string, depth: number) {
+    const m = this.marketFor(instId);
+    const last = this.priceFor(instId);
+    const step = last * 0.0001;
+    const unit = instId.endsWith('-SWAP') ? last * parseFloat(m.ctVal) : last; // 每张或每个币的价值
+    const level = (i: number, px: number) => {
+      const usd = m.volUsdt24h * 2e-6 * (1 + i * 0.3) * (0.7 + Math.random() * 0.6);
+      return [px.toString(), (usd / unit).toFixed(instId.endsWith('-SWAP') ? 0 : 6), '0', '1'];
+    };
+    const levels = Math.min(Math.max(depth, 1), 400);
+    return {
+      bids: Array.from({ length: levels }, (_, i) => level(i, last - step * (i + 1))),
+      asks: Array.from({ length: levels }, (_, i) => level(i, last + step * (i + 1))),
+      ts: Date.now().toString()
+    };
+  }
+
+  /** OKX 约定：负数为收取手续费，正数为返佣；U 本位合约看 makerU / takerU */
+  private tradeFeeFor(instType: string) {
+    const isSwap = instType === 'SWAP';
+    const [maker, taker] = isSwap ? [this.swapMakerFee, this.swapTakerFee] : [this.makerFee, this.takerFee];
+    return {
+      instType, level: 'Lv1', category: '1', delivery: '', exercise: '',
+      maker: (-maker).toString(), taker: (-taker).toString(),
+      makerU: isSwap ? (-maker).toString() : '', takerU: isSwap ? (-taker).toString() : '',
+      ts: Date.now().toString()
+    };
+  }
+
+  private fundingRateFor(instId: string) {
+    const m = this.marketFor(instId);
+    const rate = this.currentFundingRate(m);
+    return {
+      instType: 'SWAP',
+      instId,
+      fundingRate: rate.toFixed(8),
+      nextFundingRate: (rate * 0.9).toFixed(8),
+      fundingTime: (this.lastFundingSettlement + this.fundingIntervalMs).toString(),
+      nextFundingTime: (this.lastFundingSettlement + 2 * this.fundingIntervalMs).toString()
+    };
+  }
+
+  /** 已结算费率 (新到旧)，按各结算时刻的费率公式回推 */
+  private fundingRateHistoryFor(instId: string, limit: number, after?: number) {
+    const m = this.marketFor(instId);
+    // after: 只返回早于该时间的结算
+    const newest = after === undefined
+      ? this.lastFundingSettlement
+      : this.lastFundingSettlement - (Math.floor((this.lastFundingSettlement - after) / this.fundingIntervalMs) + 1) * this.fundingIntervalMs;
+    return Array.from({ length: limit }, (_, i) => {
+      const fundingTime = newest - i * this.fundingIntervalMs;
+      const rate = this.fundingRateAt(m, fundingTime).toFixed(8);
+      return { instType: 'SWAP', instId, fundingRate: rate, realizedRate: rate, fundingTime: fundingTime.toString(), method: 'current_period' };
+    });
+  }
+
+  /** 持仓量按 24h 成交额的固定比例估算，随价格变动 */
+  private openInterestFor(instId: string) {
+    const m = this.marketFor(instId);
+    const oiUsd = m.volUsdt24h * 0.4 * (m.price / m.open24h);
+    const oiCcy = oiUsd / this.swapPrice(m);
+    return {
+      instType: 'SWAP',
+      instId,
+      oi: (oiCcy / parseFloat(m.ctVal)).toFixed(0),
+      oiCcy: oiCcy.toString(),
+      oiUsd: oiUsd.toString(),
+      ts: Date.now().toString()
+    };
+  }
+
+  // --- Order Handling ---
+
+  private placeOrder(body: any) {
+    const instId: string = body?.instId;
+    const instType = instId?.endsWith('-SWAP') ? 'SWAP' : 'SPOT';
+    this.marketFor(instId);
+
+    const sz = parseFloat(body.sz);
+    if (!(sz > 0)) throw new MockExchangeError('51000', 'Parameter sz error');
+    if (!['buy', 'sell'].includes(body.side)) throw new MockExchangeError('51000', 'Parameter side error');
+    const ordType = body.ordType as MockOrder['ordType'];
+    if (!['market', 'limit', 'post_only'].includes(ordType)) throw new MockExchangeError('51000', `Unsupported ordType ${body.ordType}`);
+
+    const px = parseFloat(body.px);
+    if (ordType !== 'market' && !(px > 0)) throw new MockExchangeError('51000', 'Parameter px error');
+    if (Math.random() < this.orderFailRate) throw new MockExchangeError('50001', 'Service temporarily unavailable. Please try again later.');
+
+    const now = Date.now();
+    const order: MockOrder = {
+      ordId: (this.orderSeq++).toString(),
+      clOrdId: body.clOrdId || '',
+      instId,
+      instType,
+      side: body.side,
+      ordType,
+      tdMode: body.tdMode || 'cross',
+      // OKX 现货市价买单默认按计价币 (quote_ccy) 下单
+      tgtCcy: body.tgtCcy || (instType === 'SPOT' && ordType === 'market' && body.side === 'buy' ? 'quote_ccy' : 'base_ccy'),
+      sz,
+      px: ordType === 'market' ? 0 : px,
+      reduceOnly: body.reduceOnly === true || body.reduceOnly === 'true',
+      state: 'live',
+      accFillSz: 0,
+      fillSz: 0,
+      fillPx: 0,
+      avgPx: 0,
+      fee: 0,
+      feeCcy: instType === 'SWAP' ? 'USDT' : (body.side === 'buy' ? instId.split('-')[0] : 'USDT'),
+      cTime: now,
+      uTime: now
+    };
+
+    if (ordType === 'market') {
+      const last = this.priceFor(instId);
+      const fillPx = order.side === 'buy' ? last * (1 + this.slippage) : last * (1 - this.slippage);
+      this.fill(order, fillPx, false);
+    } else {
+      const last = this.priceFor(instId);
+      const crosses = order.side === 'buy' ? px >= last : px <= last;
+      if (crosses && ordType === 'post_only') {
+        throw new MockExchangeError('51019', 'Post only order would take liquidity and was canceled.');
+      }
+      if (crosses) {
+        // 可立即成交的限价单按 taker 吃单，成交价不劣于限价
+        this.fill(order, order.side === 'buy' ? Math.min(px, last) : Math.max(px, last), false);
+      } else {
+        this.reserve(order);
+      }
+    }
+
+    this.orders.push(order);
+    this.notifyOrder(order);
+    return { ordId: order.ordId, clOrdId: order.clOrdId, sCode: '0', sMsg: 'Order placed' };
+  }
+
+  private cancelOrder(instId: string, ordId?: string, clOrdId?: string) {
+    const order = this.findOrder(instId, ordId ?? null, clOrdId ?? null);
+    if (order.state !== 'live' && order.state !== 'partially_filled') {
+      throw new MockExchangeError('51400', 'Order cancellation failed as the order has been filled, canceled or does not exist.');
+    }
+    this.release(order);
+    order.state = 'canceled';
+    order.uTime = Date.now();
+    this.notifyOrder(order);
+    return { ordId: order.ordId, clOrdId: order.clOrdId, sCode: '0', sMsg: '' };
+  }
+
+  /** 按 ordId 或 clOrdId 查单 (与 OKX 一致，二者必填其一，同时传入以 ordId 为准) */
+  private findOrder(instId: string, ordId: string | null, clOrdId: string | null = null): MockOrder {
+    if (!ordId && !clOrdId) throw new MockExchangeError('50014', 'Parameter ordId or clOrdId can not be empty.');
+    // clOrdId 只要求在挂单中唯一，重复时取最近一张
+    const order = this.orders.filter(o => o.instId === instId && (ordId ? o.ordId === ordId : o.clOrdId === clOrdId)).pop();
+    if (!order) throw new MockExchangeError('51603', 'Order does not exist.');
+    return order;
+  }
+
+  private matchRestingOrders() {
+    this.orders
+      .filter(o => o.state === 'live' && o.ordType !== 'market')
+      .forEach(o => {
+        const last = this.priceFor(o.instId);
+        const touched = o.side === 'buy' ? last <= o.px : last >= o.px;
+        if (!touched) return;
+        this.release(o);
+        try {
+          this.fill(o, o.px, true);
+        } catch (e) {
+          o.state = 'canceled';
+          o.uTime = Date.now();
+        }
+        this.notifyOrder(o);
+      });
+  }
+
+  /** 挂单冻结资金：现货买单冻结 USDT，现货卖单冻结币 */
+  private reserve(order: MockOrder) {
+    if (order.instType !== 'SPOT') return;
+    const [base] = order.instId.split('-');
+    const [ccy, amount] = order.side === 'buy' ? ['USDT', order.sz * order.px] : [base, order.sz];
+    if (this.available(ccy) < amount) {
+      throw new MockExchangeError('51008', `Order failed. Insufficient ${ccy} balance in account.`);
+    }
+    this.frozen.set(ccy, (this.frozen.get(ccy) || 0) + amount);
+  }
+
+  private release(order: MockOrder) {
+    if (order.instType !== 'SPOT' || order.ordType === 'market') return;
+    const [base] = order.instId.split('-');
+    const [ccy, amount] = order.side === 'buy' ? ['USDT', order.sz * order.px] : [base, order.sz];
+    this.frozen.set(ccy, Math.max(0, (this.frozen.get(ccy) || 0) - amount));
+  }
+
+  private fill(order: MockOrder, fillPx: number, isMaker: boolean) {
+    if (order.instType === 'SPOT') {
+      this.fillSpot(order, fillPx, isMaker);
+    } else {
+      this.fillSwap(order, fillPx, isMaker);
+    }
+    order.state = 'filled';
+    order.fillPx = fillPx;
+    order.avgPx = fillPx;
+    order.uTime = Date.now();
+  }
+
+  private fillSpot(order: MockOrder, fillPx: number, isMaker: boolean) {
+    const [base] = order.instId.split('-');
+    const feeRate = isMaker ? this.makerFee : this.takerFee;
+    const qty = order.tgtCcy === 'quote_ccy' ? order.sz / fillPx : order.sz;
+
+    if (order.side === 'buy') {
+      const cost = qty * fillPx;
+      if (this.available('USDT') < cost) throw new MockExchangeError('51008', 'Order failed. Insufficient USDT balance in account.');
+      this.credit('USDT', -cost);
+      // 买入手续费以买入币种扣除
+      this.credit(base, qty * (1 - feeRate));
+      order.fee = -qty * feeRate;
+    } else {
+      if (this.available(base) < qty - 1e-12) throw new MockExchangeError('51008', `Order failed. Insufficient ${base} balance in account.`);
+      this.credit(base, -qty);
+      this.credit('USDT', qty * fillPx * (1 - feeRate));
+      order.fee = -qty * fillPx * feeRate;
+    }
+    order.fillSz = qty;
+    order.accFillSz = qty;
+  }
+
+  private fillSwap(order: MockOrder, fillPx: number, isMaker: boolean) {
+    const m = this.marketFor(order.instId);
+    const ctVal = parseFloat(m.ctVal);
+    const feeRate = isMaker ? this.swapMakerFee : this.swapTakerFee;
+    const existing = this.positions.get(order.instId);
+    const current = existing?.pos || 0;
+    let delta = order.side === 'buy' ? order.sz : -order.sz;
+
+    if (order.reduceOnly) {
+      if (current === 0 || Math.sign(delta) === Math.sign(current)) {
+        throw new MockExchangeError('51169', 'Order failed because you do not have any positions in this direction.');
+      }
+      delta = Math.sign(delta) * Math.min(Math.abs(delta), Math.abs(current));
+    }
+
+    const next = current + delta;
+    const opening = Math.abs(next) > Math.abs(current) ? Math.abs(next) - Math.abs(current) : 0;
+    if (opening > 0) {
+      const lever = this.leverage.get(order.instId) || 1;
+      const requiredMargin = opening * ctVal * fillPx / lever;
+      if (this.availableEquity() < requiredMargin) {
+        throw new MockExchangeError('51008', 'Order failed. Insufficient USDT margin in account.');
+      }
+    }
+
+    // 平仓部分实现盈亏
+    if (current !== 0 && Math.sign(delta) !== Math.sign(current)) {
+      const closed = Math.min(Math.abs(delta), Math.abs(current));
+      this.credit('USDT', (fillPx - existing!.avgPx) * closed * ctVal * Math.sign(current));
+    }
+
+    if (next === 0) {
+      this.positions.delete(order.instId);
+    } else if (!existing || Math.sign(next) !== Math.sign(current)) {
+      this.positions.set(order.instId, { instId: order.instId, pos: next, avgPx: fillPx, cTime: Date.now() });
+    } else if (Math.abs(next) > Math.abs(current)) {
+      existing.avgPx = (existing.avgPx * Math.abs(current) + fillPx * Math.abs(delta)) / Math.abs(next);
+      existing.pos = next;
+    } else {
+      existing.pos = next;
+    }
+
+    const fee = Math.abs(delta) * ctVal * fillPx * feeRate;
+    this.credit('USDT', -fee);
+    order.fee = -fee;
+    order.fillSz = Math.abs(delta);
+    order.accFillSz = Math.abs(delta);
+  }
+
+  private closePosition(instId: string) {
+    const p = this.positions.get(instId);
+    if (!p) throw new MockExchangeError('51023', 'Position does not exist.');
+    const last = this.priceFor(instId);
+    const side: 'buy' | 'sell' = p.pos < 0 ? 'buy' : 'sell';
+    const fillPx = side === 'buy' ? last * (1 + this.slippage) : last * (1 - this.slippage);
+    const now = Date.now();
+    const order: MockOrder = {
+      ordId: (this.orderSeq++).toString(), clOrdId: '', instId, instType: 'SWAP', side, ordType: 'market', tdMode: 'cross',
+      tgtCcy: 'base_ccy', sz: Math.abs(p.pos), px: 0, reduceOnly: true, state: 'live', accFillSz: 0, fillSz: 0, fillPx: 0,
+      avgPx: 0, fee: 0, feeCcy: 'USDT', cTime: now, uTime: now
+    };
+    this.fill(order, fillPx, false);
+    this.orders.push(order);
+    this.notifyOrder(order);
+    return { instId, posSide: 'net' };
+  }
+
+  // --- Account ---
+
+  private credit(ccy: string, amount: number) {
+    const next = (this.balances.get(ccy) || 0) + amount;
+    if (Math.abs(next) < 1e-12) this.balances.delete(ccy);
+    else this.balances.set(ccy, next);
+  }
+
+  private available(ccy: string): number {
+    return (this.balances.get(ccy) || 0) - (this.frozen.get(ccy) || 0);
+  }
+
+  /** 跨币种保证金：现货持仓也计入可用保证金 */
+  private availableEquity(): number {
+    return parseFloat(this.balanceSnapshot().availEq);
+  }
+
+  private positionUpl(p: MockPosition): number {
+    const m = this.marketFor(p.instId);
+    return (this.swapPrice(m) - p.avgPx) * p.pos * parseFloat(m.ctVal);
+  }
+
+  private usedMargin(): number {
+    let margin = 0;
+    this.positions.forEach(p => {
+      const m = this.marketFor(p.instId);
+      margin += Math.abs(p.pos) * parseFloat(m.ctVal) * p.avgPx / (this.leverage.get(p.instId) || 1);
+    });
+    return margin;
+  }
+
+  /** 资金账户 (6) 与交易账户 (18) 之间划转 */
+  private transfer(body: any) {
+    const amt = parseFloat(body.amt);
+    const [from, to] = body.from === '6' ? [this.fundingBalances, this.balances] : [this.balances, this.fundingBalances];
+    if (!(amt > 0)) throw new MockExchangeError('51000', 'Parameter amt error');
+    if ((from.get(body.ccy) || 0) < amt) throw new MockExchangeError('58350', 'Insufficient balance.');
+    from.set(body.ccy, (from.get(body.ccy) || 0) - amt);
+    to.set(body.ccy, (to.get(body.ccy) || 0) + amt);
+    return { transId: (this.billSeq++).toString(), ccy: body.ccy, from: body.from, to: body.to, amt: body.amt };
+  }
+
+  private maintMargin(): number {
+    let mmr = 0;
+    this.positions.forEach(p => {
+      const m = this.marketFor(p.instId);
+      mmr += Math.abs(p.pos) * parseFloat(m.ctVal) * this.swapPrice(m) * MAINT_MARGIN_RATE;
+    });
+    return mmr;
+  }
+
+  private balanceSnapshot() {
+    let totalUpl = 0;
+    this.positions.forEach(p => { totalUpl += this.positionUpl(p); });
+
+    const details = [...this.balances.entries()].map(([ccy, cashBal]) => {
+      const isUsdt = ccy === 'USDT';
+      const px = isUsdt ? 1 : this.markets.get(ccy)?.price || 0;
+      const upl = isUsdt ? totalUpl : 0;
+      const availBal = isUsdt ? this.available(ccy) - this.usedMargin() : this.available(ccy);
+      return {
+        ccy,
+        cashBal: cashBal.toString(),
+        availBal: Math.max(0, availBal).toString(),
+        frozenBal: (this.frozen.get(ccy) || 0).toString(),
+        upl: upl.toString(),
+        eq: (cashBal + upl).toString(),
+        eqUsd: ((cashBal + upl) * px).toString()
+      };
+    });
+
+    const totalEq = details.reduce((sum, d) => sum + parseFloat(d.eqUsd), 0);
+    const availEq = totalEq - this.usedMargin() - (this.frozen.get('USDT') || 0);
+    const mmr = this.maintMargin();
+    return {
+      totalEq: totalEq.toString(), availEq: availEq.toString(), mmr: mmr.toString(),
+      mgnRatio: mmr > 0 ? (totalEq / mmr).toString() : '', uTime: Date.now().toString(), details
+    };
+  }
+
+  /** 账单流水：从新到旧，after/before 为 billId 游标 */
+  private listBills(query: URLSearchParams) {
+    const type = query.get('type');
+    const instId = query.get('instId');
+    const after = query.get('after');
+    const before = query.get('before');
+    const limit = Math.min(parseInt(query.get('limit') || '100'), 100);
+    return this.bills
+      .filter(b => (!type || b.type === type) && (!instId || b.instId === instId))
+      .filter(b => (!after || parseInt(b.billId) < parseInt(after)) && (!before || parseInt(b.billId) > parseInt(before)))
+      .reverse()
+      .slice(0, limit)
+      .map(b => ({
+        billId: b.billId,
+        instId: b.instId,
+        instType: 'SWAP',
+        type: b.type,
+        subType: b.subType,
+        ccy: b.ccy,
+        balChg: b.balChg.toString(),
+        pnl: b.balChg.toString(),
+        px: b.px.toString(),
+        ts: b.ts.toString()
+      }));
+  }
+
+  private listPositions() {
+    const availEq = Math.max(0, this.availableEquity());
+    return [...this.positions.values()].map(p => {
+      const m = this.marketFor(p.instId);
+      const lever = this.leverage.get(p.instId) || 1;
+      const upl = this.positionUpl(p);
+      const margin = Math.abs(p.pos) * parseFloat(m.ctVal) * p.avgPx / lever;
+      // 粗略全仓强平价：账户可用保证金加上本仓位保证金亏完时 (仓位越大或可用保证金越少，强平价越近)
+      const coinQty = Math.abs(p.pos) * parseFloat(m.ctVal);
+      const cushion = (availEq + margin) / coinQty;
+      const liqPx = p.pos < 0 ? this.swapPrice(m) + cushion : this.swapPrice(m) - cushion;
+      return {
+        instType: 'SWAP',
+        instId: p.instId,
+        posSide: 'net',
+        pos: p.pos.toString(),
+        avgPx: p.avgPx.toString(),
+        markPx: this.swapPrice(m).toString(),
+        upl: upl.toString(),
+        uplRatio: (margin > 0 ? upl / margin : 0).toString(),
+        lever: lever.toString(),
+        liqPx: Math.max(0, liqPx).toString(),
+        mgnMode: 'cross',
+        notionalUsd: (Math.abs(p.pos) * parseFloat(m.ctVal) * this.swapPrice(m)).toString(),
+        cTime: p.cTime.toString(),
+        uTime: Date.now().toString()
+      };
+    });
+  }
+
+  private formatOrder(o: MockOrder) {
+    return {
+      instType: o.instType,
+      instId: o.instId,
+      ordId: o.ordId,
+      clOrdId: o.clOrdId,
+      side: o.side,
+      posSide: 'net',
+      ordType: o.ordType,
+      tdMode: o.tdMode,
+      tgtCcy: o.instType === 'SPOT' ? o.tgtCcy : '',
+      sz: o.sz.toString(),
+      px: o.px ? o.px.toString() : '',
+      state: o.state,
+      fillSz: o.fillSz.toString(),
+      fillPx: o.fillPx ? o.fillPx.toString() : '',
+      accFillSz: o.accFillSz.toString(),
+      avgPx: o.avgPx ? o.avgPx.toString() : '',
+      fee: o.fee.toString(),
+      feeCcy: o.feeCcy,
+      reduceOnly: o.reduceOnly.toString(),
+      cTime: o.cTime.toString(),
+      uTime: o.uTime.toString()
+    };
+  }
+
+  // --- Response Helpers ---
+
+  private requireParam(query: URLSearchParams, name: string): string {
+    const value = query.get(name);
+    if (!value) throw new MockExchangeError('50014', `Parameter ${name} can not be empty.`);
+    return value;
+  }
+
+  private ok(data: any[]): GatewayResponse {
+    return { status: 200, data: { code: '0', msg: '', data } };
+  }
+
+  private fail(sCode: string, sMsg: string): GatewayResponse {
+    return { status: 200, data: { code: '1', msg: 'Operation failed.', data: [{ sCode, sMsg }] } };
+  }
+}
+
+export const mockExchange = new MockExchange();
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { OKXConfig } from '../types';
+import { isMockExchangeEnabled, mockExchange } from './mockExchange';
+import { okxRateLimiter } from './okxRateLimiter';
+import { MAX_RETRIES, endpointOf, retryDelay, retryReason } from '../services/rateLimitLogic';
+
+const OKX_BASE_URL = 'https://www.okx.com';
+
+export interface GatewayResponse {
+  status: number;
+  data: any;
+}
+
+/**
+ * 对 OKX V5 请求进行签名并转发。
+ * 供 /api/proxy 路由与服务端策略引擎共用，保证签名逻辑只有一份。
+ * 每个请求先经过按接口的令牌桶限频 (okxRateLimiter)，限频拒绝与临时错误按指数退避重试，重试用尽后返回最后一次响应。
+ * 设置 OKX_MOCK=1 时改为路由到本地模拟交易所，不访问 okx.com。
+ */
+export const forwardToOkx = async (
+  config: OKXConfig,
+  method: string,
+  requestPath: string,
+  body?: any
+): Promise<GatewayResponse> => {
+  const upperMethod = method.toUpperCase();
+  const endpoint = endpointOf(upperMethod, requestPath);
+  for (let attempt = 0; ; attempt++) {
+    await okxRateLimiter.acquire(config, endpoint);
+    let res: GatewayResponse;
+    try {
+      res = await sendToOkx(config, upperMethod, requestPath, body);
+    } catch (e) {
+      // 网络错误时下单请求可能已送达，只重试 GET
+      const reason = e instanceof Error ? e.message : 'Network error';
+      if (upperMethod !== 'GET' || attempt >= MAX_RETRIES) {
+        okxRateLimiter.recordFailure(endpoint, false, reason);
+        throw e;
+      }
+      okxRateLimiter.recordRetry(endpoint, false, reason);
+      await new Promise(r => setTimeout(r, retryDelay(attempt)));
+      continue;
+    }
+    const retry = retryReason(upperMethod, res.status, res.data?.code);
+    if (!retry) return res;
+    const reason = `${res.data?.code ?? res.status} ${res.data?.msg ?? ''}`.trim();
+    if (attempt >= MAX_RETRIES) {
+      okxRateLimiter.recordFailure(endpoint, retry === 'rate_limit', reason);
+      return res;
+    }
+    okxRateLimiter.recordRetry(endpoint, retry === 'rate_limit', reason);
+    await new Promise(r => setTimeout(r, retryDelay(attempt)));
+  }
+};
+
+const sendToOkx = async (
+  config: OKXConfig,
+  upperMethod: string,
+  requestPath: string,
+  body?: any
+): Promise<GatewayResponse> => {
+  if (isMockExchangeEnabled()) {
+    return mockExchange.handle(upperMethod, requestPath, body);
+  }
+
+  const bodyStr = (upperMethod === 'POST' || upperMethod === 'PUT') && body && Object.keys(body).length > 0
+    ? JSON.stringify(body)
+    : '';
+
+  // Prehash string: timestamp + method + requestPath + body
+  const timestamp = new Date().toISOString();
+  const preHash = timestamp + upperMethod + requestPath + bodyStr;
+  const signature = crypto.createHmac('sha256', config.secretKey).update(preHash).digest('base64');
+
+  const headers: Record<string, string> = {
+    'OK-ACCESS-KEY': config.apiKey,
+    'OK-ACCESS-SIGN': signature,
+    'OK-ACCESS-TIMESTAMP': timestamp,
+    'OK-ACCESS-PASSPHRASE': config.passphrase,
+    'Content-Type': 'application/json',
+    'Accept': 'application/json'
+  };
+
+  if (config.isSimulated) {
+    headers['x-simulated-trading'] = '1';
+  }
+
+  const response = await fetch(`${OKX_BASE_URL}${requestPath}`, {
+    method: upperMethod,
+    headers,
+    body: upperMethod === 'GET' ? undefined : bodyStr
+  });
+
+  // Handle non-JSON responses (like 502/504 HTML from Cloudflare or upstream errors)
+  const contentType = response.headers.get('content-type');
+  if (!contentType || !contentType.includes('application/json')) {
+    const text = await response.text();
+    console.error('OKX Non-JSON Response:', text.substring(0, 200));
+    return { status: 502, data: { code: '502', msg: 'Upstream Error (Non-JSON response from OKX)', data: [] } };
+  }
+
+  return { status: response.status, data: await response.json() };
+};
@@ -0,0 +1,67 @@
+import { OKXConfig, OKXEndpointMetrics, OKXRequestMetrics } from '../types';
+import { TokenBucket, rateLimitRule, takeToken } from '../services/rateLimitLogic';
+
+/**
+ * OKX REST 限频器 (服务端单例)
+ * /api/proxy 与策略引擎的请求都经过 forwardToOkx，在这里按接口排队并统计限频、重试与失败次数。
+ * 统计数据只保存在内存中，进程重启后清零。
+ */
+class OKXRateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+  private metrics = new Map<string, OKXEndpointMetrics>();
+  private since = Date.now();
+
+  /** 等待令牌；公共接口所有账户共用一个桶，私有接口每个 API Key 一个桶 */
+  async acquire(config: OKXConfig, endpoint: string): Promise<void> {
+    const rule = rateLimitRule(endpoint);
+    const key = rule.scope === 'ip' ? endpoint : `${config.apiKey}:${endpoint}`;
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: rule.limit, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+    const wait = takeToken(bucket, rule, now);
+    const m = this.entry(endpoint);
+    m.requests++;
+    if (wait > 0) {
+      m.throttled++;
+      m.waitMs += wait;
+      await new Promise(r => setTimeout(r, wait));
+    }
+  }
+
+  recordRetry(endpoint: string, rateLimited: boolean, reason: string) {
+    const m = this.entry(endpoint);
+    m.retries++;
+    if (rateLimited) m.rateLimited++;
+    Object.assign(m, { lastError: reason, lastErrorAt: Date.now() });
+  }
+
+  recordFailure(endpoint: string, rateLimited: boolean, reason: string) {
+    const m = this.entry(endpoint);
+    m.failures++;
+    if (rateLimited) m.rateLimited++;
+    Object.assign(m, { lastError: reason, lastErrorAt: Date.now() });
+    console.warn(`OKX request failed after retries: ${endpoint} (${reason})`);
+  }
+
+  /** 按问题严重程度排序：失败 > 被交易所限频 > 本地排队 */
+  getMetrics(): OKXRequestMetrics {
+    const endpoints = [...this.metrics.values()]
+      .map(m => ({ ...m }))
+      .sort((a, b) => b.failures - a.failures || b.rateLimited - a.rateLimited || b.throttled - a.throttled || b.requests - a.requests);
+    return { since: this.since, endpoints };
+  }
+
+  private entry(endpoint: string): OKXEndpointMetrics {
+    let m = this.metrics.get(endpoint);
+    if (!m) {
+      m = { endpoint, requests: 0, throttled: 0, waitMs: 0, rateLimited: 0, retries: 0, failures: 0 };
+      this.metrics.set(endpoint, m);
+    }
+    return m;
+  }
+}
+
+export const okxRateLimiter = new OKXRateLimiter();
@@ -0,0 +1,380 @@
+import crypto from 'crypto';
+import WebSocket from 'ws';
+import { Asset, LogEntry, OKXConfig, Order, Position, StreamEvent, StreamStatus, TickerData } from '../types';
+import { OKXStreamSource, availEqAsset, isVisibleAsset, parseAssetDetail, parseOrder, parsePosition } from '../services/okxService';
+import { isMockExchangeEnabled, mockExchange } from './mockExchange';
+
+type StreamLogger = (level: LogEntry['level'], message: string) => void;
+type StreamListener = (event: StreamEvent) => void;
+type ChannelKind = 'public' | 'private';
+
+export interface StreamSocketHandlers {
+  onOpen: () => void;
+  onMessage: (text: string) => void;
+  onClose: () => void;
+}
+
+export interface StreamSocket {
+  send: (text: string) => void;
+  close: () => void;
+}
+
+const WS_URLS: Record<'live' | 'simulated', Record<ChannelKind, string>> = {
+  live: { public: 'wss://ws.okx.com:8443/ws/v5/public', private: 'wss://ws.okx.com:8443/ws/v5/private' },
+  simulated: { public: 'wss://wspap.okx.com:8443/ws/v5/public', private: 'wss://wspap.okx.com:8443/ws/v5/private' }
+};
+const PING_MS = 20000; // OKX 30 秒无消息即断开连接
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const FANOUT_MS = 1000; // 向浏览器转发的合并间隔 (ticker 每 100ms 推送一次)
+const MARKET_SIZE = 20; // 仪表盘展示成交额前 20 的 USDT 永续
+const MARKET_REFRESH_MS = 30 * 60 * 1000;
+const ORDER_CACHE_SIZE = 500;
+const FINAL_ORDER_STATES = ['filled', 'canceled'];
+
+const openSocket = (url: string, kind: ChannelKind, handlers: StreamSocketHandlers): StreamSocket => {
+  if (isMockExchangeEnabled()) return mockExchange.openSocket(kind, handlers);
+  const ws = new WebSocket(url);
+  ws.on('open', handlers.onOpen);
+  ws.on('message', data => handlers.onMessage(data.toString()));
+  ws.on('close', handlers.onClose);
+  ws.on('error', e => console.warn(`OKX WebSocket (${kind}) error: ${e.message}`)); // 之后必然触发 close
+  return {
+    send: text => { if (ws.readyState === WebSocket.OPEN) ws.send(text); },
+    close: () => ws.terminate()
+  };
+};
+
+/**
+ * 单条 WebSocket 连接：私有频道先登录，断线后按指数退避重连并重新订阅全部频道。
+ * 每次切换凭证都新建连接，关闭后的连接不再重连。
+ */
+class StreamConnection {
+  private socket: StreamSocket | null = null;
+  private args = new Map<string, any>();
+  private ready = false;
+  private closed = false;
+  private attempts = 0;
+  private lastMessageAt = 0;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private kind: ChannelKind,
+    private config: OKXConfig,
+    private onData: (arg: any, data: any[]) => void,
+    private onState: (kind: ChannelKind, ready: boolean, reason?: string) => void
+  ) {
+    this.connect();
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  subscribe(args: any[]) {
+    const fresh = args.filter(a => !this.args.has(JSON.stringify(a)));
+    fresh.forEach(a => this.args.set(JSON.stringify(a), a));
+    if (this.ready && fresh.length > 0) this.send({ op: 'subscribe', args: fresh });
+  }
+
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.onDisconnect();
+  }
+
+  private connect() {
+    this.lastMessageAt = Date.now();
+    const url = WS_URLS[this.config.isSimulated ? 'simulated' : 'live'][this.kind];
+    this.socket = openSocket(url, this.kind, {
+      onOpen: () => (this.kind === 'private' ? this.login() : this.onReady()),
+      onMessage: text => this.handle(text),
+      onClose: () => this.onDisconnect()
+    });
+    this.pingTimer = setInterval(() => this.heartbeat(), PING_MS);
+  }
+
+  /** 登录签名：timestamp (秒) + GET + /users/self/verify */
+  private login() {
+    const timestamp = (Date.now() / 1000).toFixed(0);
+    const sign = crypto.createHmac('sha256', this.config.secretKey).update(`${timestamp}GET/users/self/verify`).digest('base64');
+    this.send({ op: 'login', args: [{ apiKey: this.config.apiKey, passphrase: this.config.passphrase, timestamp, sign }] });
+  }
+
+  private onReady() {
+    this.attempts = 0;
+    this.ready = true;
+    if (this.args.size > 0) this.send({ op: 'subscribe', args: [...this.args.values()] });
+    this.onState(this.kind, true);
+  }
+
+  private handle(text: string) {
+    this.lastMessageAt = Date.now();
+    if (text === 'pong') return;
+    let msg: any;
+    try {
+      msg = JSON.parse(text);
+    } catch (e) {
+      return;
+    }
+    if (msg.event === 'login') {
+      if (msg.code === '0') this.onReady();
+      return;
+    }
+    if (msg.event === 'error') {
+      // 登录失败时断开，按退避重试；订阅参数错误只记录
+      if (!this.ready) {
+        this.onState(this.kind, false, `${msg.code} ${msg.msg}`);
+        this.socket?.close();
+      } else {
+        console.warn(`OKX WebSocket (${this.kind}) ${msg.code}: ${msg.msg}`);
+      }
+      return;
+    }
+    if (msg.arg && Array.isArray(msg.data)) this.onData(msg.arg, msg.data);
+  }
+
+  private heartbeat() {
+    if (Date.now() - this.lastMessageAt > PING_MS * 1.5) {
+      this.socket?.close();
+      return;
+    }
+    this.socket?.send('ping');
+  }
+
+  private onDisconnect() {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    if (!this.socket) return;
+    this.socket = null;
+    const wasReady = this.ready;
+    this.ready = false;
+    if (wasReady && !this.closed) this.onState(this.kind, false);
+    if (this.closed) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.attempts++, RECONNECT_MAX_MS);
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private send(payload: any) {
+    this.socket?.send(JSON.stringify(payload));
+  }
+}
+
+/**
+ * OKX WebSocket 推送 (服务端)
+ * public: 仪表盘行情 (tickers) 与资金费率 (funding-rate)；private: 订单、持仓与账户。
+ * 推送数据缓存在内存中，供引擎的 OKXService 查询资金费率、等待订单成交，并合并后转发给浏览器 (/api/stream)。
+ */
+export class OKXStream implements OKXStreamSource {
+  private connections: Record<ChannelKind, StreamConnection> | null = null;
+  private tickers = new Map<string, TickerData>();
+  private funding = new Map<string, string>();
+  private positions = new Map<string, Position>();
+  private assets = new Map<string, Asset>();
+  private availEq: string | undefined;
+  private orders = new Map<string, any>(); // ordId -> 最近一次推送的原始订单
+  private orderWaiters = new Map<string, Set<(order: any) => void>>();
+  private updatedOrders = new Map<string, Order>();
+  private marketIds: string[] = [];
+  private listeners = new Set<StreamListener>();
+  private dirty = new Set<StreamEvent['type']>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private marketTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private loadMarket: () => Promise<TickerData[]>, private log: StreamLogger) {}
+
+  /** 按凭证建立连接；传入 null 断开 (切换凭证或凭证库锁定) */
+  connect(config: OKXConfig | null) {
+    if (this.connections) {
+      this.connections.public.close();
+      this.connections.private.close();
+      this.connections = null;
+    }
+    if (this.marketTimer) clearInterval(this.marketTimer);
+    this.marketTimer = null;
+    [this.tickers, this.funding, this.positions, this.assets, this.orders].forEach(m => m.clear());
+    this.marketIds = [];
+    this.markDirty('status');
+    if (!config) return;
+
+    const onState = (kind: ChannelKind, ready: boolean, reason?: string) => this.onState(kind, ready, reason);
+    this.connections = {
+      public: new StreamConnection('public', config, (arg, data) => this.onPublic(arg, data), onState),
+      private: new StreamConnection('private', config, (arg, data) => this.onPrivate(arg, data), onState)
+    };
+    this.connections.private.subscribe([
+      { channel: 'orders', instType: 'ANY' },
+      { channel: 'positions', instType: 'ANY' },
+      { channel: 'account' }
+    ]);
+    this.refreshMarket();
+    this.marketTimer = setInterval(() => this.refreshMarket(), MARKET_REFRESH_MS);
+  }
+
+  getStatus(): StreamStatus {
+    return { public: !!this.connections?.public.isReady(), private: !!this.connections?.private.isReady() };
+  }
+
+  subscribe(listener: StreamListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** 新连接的浏览器先收到一份完整快照 */
+  snapshot(): StreamEvent[] {
+    return (['status', 'market', 'positions', 'account'] as const)
+      .map(type => this.event(type))
+      .filter((e): e is StreamEvent => e !== null);
+  }
+
+  fundingRate(instId: string): string | undefined {
+    if (!this.connections?.public.isReady()) return undefined;
+    const cached = this.funding.get(instId);
+    if (cached === undefined) this.connections.public.subscribe([{ channel: 'funding-rate', instId }]);
+    return cached;
+  }
+
+  ordersReady(): boolean {
+    return !!this.connections?.private.isReady();
+  }
+
+  waitForOrder(ordId: string, timeoutMs: number): Promise<any | null> {
+    return new Promise(resolve => {
+      const cached = this.orders.get(ordId);
+      if (cached && FINAL_ORDER_STATES.includes(cached.state)) return resolve(cached);
+      const waiters = this.orderWaiters.get(ordId) ?? new Set();
+      const done = (order: any) => {
+        clearTimeout(timer);
+        waiters.delete(done);
+        if (waiters.size === 0) this.orderWaiters.delete(ordId);
+        resolve(order);
+      };
+      const timer = setTimeout(() => done(this.orders.get(ordId) ?? null), timeoutMs);
+      waiters.add(done);
+      this.orderWaiters.set(ordId, waiters);
+    });
+  }
+
+  /** 仪表盘行情：按成交额取前 MARKET_SIZE 个 USDT 永续订阅 ticker 与资金费率 */
+  private async refreshMarket() {
+    const connections = this.connections;
+    try {
+      const top = (await this.loadMarket())
+        .filter(t => t.instId.endsWith('-USDT-SWAP'))
+        .sort((a, b) => parseFloat(b.volUsdt24h) - parseFloat(a.volUsdt24h))
+        .slice(0, MARKET_SIZE);
+      if (connections !== this.connections || !connections) return;
+      top.forEach(t => { if (!this.tickers.has(t.instId)) this.tickers.set(t.instId, t); });
+      this.marketIds = top.map(t => t.instId);
+      connections.public.subscribe(this.marketIds.flatMap(instId => [
+        { channel: 'tickers', instId },
+        { channel: 'funding-rate', instId }
+      ]));
+      this.markDirty('market');
+    } catch (e) {
+      console.warn('Failed to load market watchlist', e);
+    }
+  }
+
+  private onState(kind: ChannelKind, ready: boolean, reason?: string) {
+    const label = kind === 'public' ? '行情推送' : '账户推送';
+    // 重连后订阅会先推送全量持仓，断线期间已平仓的标的不会再收到 pos = 0
+    if (kind === 'private' && ready) this.positions.clear();
+    if (ready) this.log('info', `[WebSocket] ${label}已连接。`);
+    else this.log('warning', `[WebSocket] ${label}${reason ? `登录失败 (${reason})` : '已断开'}，正在重连。`);
+    this.markDirty('status');
+  }
+
+  private onPublic(arg: any, data: any[]) {
+    data.forEach(d => {
+      if (arg.channel === 'tickers') {
+        const last = parseFloat(d.last);
+        this.tickers.set(d.instId, {
+          instId: d.instId,
+          last: d.last,
+          fundingRate: this.funding.get(d.instId) ?? '0',
+          volCcy24h: d.volCcy24h,
+          volUsdt24h: (parseFloat(d.volCcy24h) * last).toString(),
+          ts: d.ts
+        });
+      } else if (arg.channel === 'funding-rate') {
+        this.funding.set(d.instId, d.fundingRate);
+      }
+    });
+    if (data.some(d => this.marketIds.includes(d.instId))) this.markDirty('market');
+  }
+
+  private onPrivate(arg: any, data: any[]) {
+    switch (arg.channel) {
+      case 'orders':
+        data.forEach(o => this.onOrder(o));
+        this.markDirty('orders');
+        break;
+      case 'positions':
+        // 事件推送只包含变化的持仓，平仓后推送 pos = 0
+        data.forEach(p => {
+          if (parseFloat(p.pos) === 0) this.positions.delete(p.instId);
+          else this.positions.set(p.instId, parsePosition(p));
+        });
+        this.markDirty('positions');
+        break;
+      case 'account':
+        data.forEach(b => {
+          (b.details || []).forEach((d: any) => this.assets.set(d.ccy, parseAssetDetail(d)));
+          if (b.availEq !== undefined) this.availEq = b.availEq;
+        });
+        this.markDirty('account');
+        break;
+    }
+  }
+
+  private onOrder(order: any) {
+    this.orders.delete(order.ordId);
+    this.orders.set(order.ordId, order);
+    if (this.orders.size > ORDER_CACHE_SIZE) this.orders.delete(this.orders.keys().next().value!);
+    this.updatedOrders.set(order.ordId, parseOrder(order));
+    if (FINAL_ORDER_STATES.includes(order.state)) {
+      [...(this.orderWaiters.get(order.ordId) ?? [])].forEach(resolve => resolve(order));
+    }
+  }
+
+  private markDirty(type: StreamEvent['type']) {
+    this.dirty.add(type);
+    if (!this.flushTimer) this.flushTimer = setTimeout(() => this.flush(), FANOUT_MS);
+  }
+
+  private flush() {
+    this.flushTimer = null;
+    const types = [...this.dirty];
+    this.dirty.clear();
+    types.forEach(type => {
+      const event = this.event(type);
+      if (event) this.listeners.forEach(listener => listener(event));
+    });
+    this.updatedOrders.clear();
+  }
+
+  private event(type: StreamEvent['type']): StreamEvent | null {
+    switch (type) {
+      case 'status':
+        return { type, data: this.getStatus() };
+      case 'market': {
+        const data = this.marketIds
+          .map(id => this.tickers.get(id))
+          .filter((t): t is TickerData => !!t)
+          .map(t => ({ ...t, fundingRate: this.funding.get(t.instId) ?? t.fundingRate }));
+        return data.length > 0 ? { type, data } : null;
+      }
+      case 'positions':
+        return this.connections?.private.isReady() ? { type, data: [...this.positions.values()] } : null;
+      case 'account':
+        return this.assets.size > 0
+          ? { type, data: [...[...this.assets.values()].filter(isVisibleAsset), availEqAsset(this.availEq)] }
+          : null;
+      case 'orders':
+        return this.updatedOrders.size > 0 ? { type, data: [...this.updatedOrders.values()] } : null;
+    }
+  }
+}
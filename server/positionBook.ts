@@ -0,0 +1,56 @@
+import { LegFill, PairBookEntry, PairPnLReport } from '../types';
+import { OKXService } from '../services/okxService';
+import { createPairBookEntry, applyLegFill, reportPairPnl } from '../services/positionBookLogic';
+import { stateStore } from './stateStore';
+
+/**
+ * 套利组合持仓账本
+ * 记录资金费率套利每条腿的实际成交 (成交均价、数量、手续费)，按加权平均成本计算现货成本，
+ * 现货盈亏、合约盈亏、手续费与资金费分开列示。只记录引擎下的单，手动调仓不会进入账本。
+ */
+export class PositionBook {
+  /** 该组合未平仓记录的交易编号 */
+  openTradeId(swapInstId: string): string | undefined {
+    return this.findOpen(swapInstId)?.id;
+  }
+
+  /** 记入开仓成交；该组合已有未平仓记录时并入原记录 */
+  open(tradeId: string, strategyId: string | undefined, swapInstId: string, ctVal: number, fills: LegFill[]) {
+    if (fills.length === 0) return;
+    const entry = this.findOpen(swapInstId) ?? createPairBookEntry(tradeId, swapInstId, ctVal, strategyId, fills[0].ts);
+    this.save(entry, fills);
+  }
+
+  /** 记入调仓或平仓成交；没有未平仓记录 (账本外的持仓) 时忽略 */
+  append(swapInstId: string, fills: LegFill[]) {
+    const entry = this.findOpen(swapInstId);
+    if (entry && fills.length > 0) this.save(entry, fills);
+  }
+
+  /** 以最新成交价估值全部记录 (未平仓 + 最近已平仓) */
+  async getReport(okx: OKXService): Promise<PairPnLReport[]> {
+    const entries = stateStore.getPositionBook();
+    const payments = stateStore.getFundingPayments();
+    const prices = new Map<string, number>();
+    const openInstIds = new Set(entries.filter(e => !e.closedAt).flatMap(e => [e.spotInstId, e.swapInstId]));
+    await Promise.all([...openInstIds].map(async instId => {
+      try {
+        prices.set(instId, (await okx.getTicker(instId)).last);
+      } catch (e) {
+        prices.set(instId, 0); // 行情缺失时不计未实现盈亏
+      }
+    }));
+    return entries
+      .map((e: PairBookEntry) => reportPairPnl(e, prices.get(e.spotInstId) ?? 0, prices.get(e.swapInstId) ?? 0, payments))
+      .sort((a, b) => b.openedAt - a.openedAt);
+  }
+
+  private findOpen(swapInstId: string): PairBookEntry | undefined {
+    return stateStore.getPositionBook().find(e => e.swapInstId === swapInstId && !e.closedAt);
+  }
+
+  private save(entry: PairBookEntry, fills: LegFill[]) {
+    const others = stateStore.getPositionBook().filter(e => e.id !== entry.id);
+    stateStore.setPositionBook([...others, fills.reduce(applyLegFill, entry)]);
+  }
+}
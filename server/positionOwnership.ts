@@ -0,0 +1,55 @@
+/**
+ * 持仓归属表 (instId -> strategyId)
+ * 多个策略同时运行时，每个 instId 只能由一个策略开仓与平仓，避免互相平掉对方的仓位。
+ * 资金费率套利同时占用永续与对应现货，网格占用其标的，AI 择时占用其开仓的永续。
+ */
+export class PositionOwnership {
+  private owners: Map<string, string>;
+
+  constructor(initial: Record<string, string> = {}, private onChange?: (snapshot: Record<string, string>) => void) {
+    this.owners = new Map(Object.entries(initial));
+  }
+
+  private changed() {
+    this.onChange?.(Object.fromEntries(this.owners));
+  }
+
+  /** 认领成功 (或已归属本策略) 返回 true；已被其他策略占用返回 false */
+  claim(instId: string, strategyId: string): boolean {
+    const owner = this.owners.get(instId);
+    if (owner && owner !== strategyId) return false;
+    if (!owner) {
+      this.owners.set(instId, strategyId);
+      this.changed();
+    }
+    return true;
+  }
+
+  release(instId: string, strategyId: string) {
+    if (this.owners.get(instId) === strategyId) {
+      this.owners.delete(instId);
+      this.changed();
+    }
+  }
+
+  releaseAll(strategyId: string): string[] {
+    const released = this.ownedBy(strategyId);
+    released.forEach(instId => this.owners.delete(instId));
+    if (released.length > 0) this.changed();
+    return released;
+  }
+
+  ownerOf(instId: string): string | undefined {
+    return this.owners.get(instId);
+  }
+
+  ownedBy(strategyId: string): string[] {
+    return [...this.owners.entries()].filter(([, owner]) => owner === strategyId).map(([instId]) => instId);
+  }
+
+  /** 可由本策略操作：无主或归属本策略 */
+  isAvailable(instId: string, strategyId: string): boolean {
+    const owner = this.owners.get(instId);
+    return !owner || owner === strategyId;
+  }
+}
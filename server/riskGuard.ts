@@ -0,0 +1,179 @@
+import { DualSideResult, Instrument, LogEntry, PositionRisk, RiskSnapshot } from '../types';
+import { OKXService } from '../services/okxService';
+import {
+  RISK_CHECK_INTERVAL_MS, RISK_REDUCE_COOLDOWN_MS, MIN_TOP_UP_USDT, RiskLimits,
+  strictestLimits, shortLiqDistance, riskLevel, marginTopUpUsd, reduceContracts
+} from '../services/riskLogic';
+
+type RiskLogger = (level: LogEntry['level'], message: string) => void;
+
+/** 引擎交给风控的组合：运行中的资金费策略持有的永续合约 */
+export interface GuardedPair {
+  instId: string;
+  strategyId: string;
+  limits: RiskLimits;
+  canTrade: boolean;
+}
+
+const formatPct = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+/**
+ * 强平风控 (Risk Guard)
+ * 由引擎循环每 30 秒调用一次，检查账户保证金率与每个空头合约腿的强平距离：
+ * - 低于暂停阈值：持有该组合的策略 (账户级风险时为全部策略) 暂停新开仓与轮动；
+ * - 低于减仓阈值：先从资金账户划转 USDT 补充保证金，资金不足时按比例双边减仓 (现货与合约同步)，
+ *   同一标的两次减仓之间有冷却时间，等待保证金重新计算。
+ * 保证金、持仓或合约信息查询失败时抛出，保留上一次的结果 (包括暂停状态)：
+ * 把失败当作"没有持仓"会在接口故障、风险最高时解除暂停并跳过补仓与减仓。
+ */
+export class RiskGuard {
+  private snapshot: RiskSnapshot | null = null;
+  private lastReduceAt = new Map<string, number>();
+  private lastRunAt = 0;
+
+  constructor(private log: RiskLogger) {}
+
+  getSnapshot(): RiskSnapshot | null {
+    return this.snapshot;
+  }
+
+  due(now = Date.now()): boolean {
+    return now - this.lastRunAt >= RISK_CHECK_INTERVAL_MS;
+  }
+
+  entriesPaused(strategyId: string): boolean {
+    return !!this.snapshot?.pausedStrategies.includes(strategyId);
+  }
+
+  async run(
+    okx: OKXService,
+    pairs: GuardedPair[],
+    instruments: Instrument[],
+    reduce: (pair: GuardedPair, contracts: number) => Promise<DualSideResult>
+  ) {
+    const now = Date.now();
+    this.lastRunAt = now;
+    const account = strictestLimits(pairs.map(p => p.limits));
+    if (!account) {
+      this.updatePaused([]);
+      this.snapshot = null;
+      return;
+    }
+
+    // getPositions 失败时抛出 (不返回空列表)；合约信息为空说明 getInstruments 失败，同样不能继续
+    if (instruments.length === 0) throw new Error('合约信息获取失败，保留上一次的风控结果');
+    const [margin, positions] = await Promise.all([okx.getMarginSummary(), okx.getPositions()]);
+    const previous = new Map((this.snapshot?.positions ?? []).map(p => [p.instId, p]));
+    const risks: { pair: GuardedPair; risk: PositionRisk; contracts: number; instrument: Instrument }[] = [];
+    for (const pair of pairs) {
+      const pos = positions.find(p => p.instId === pair.instId && parseFloat(p.pos) < 0);
+      const instrument = instruments.find(i => i.instId === pair.instId);
+      if (!pos || !instrument) continue;
+      const contracts = Math.abs(parseFloat(pos.pos));
+      const markPx = parseFloat(pos.markPx);
+      const liqPx = parseFloat(pos.liqPx);
+      const liqDistance = shortLiqDistance(markPx, liqPx);
+      const last = previous.get(pair.instId);
+      risks.push({
+        pair, contracts, instrument,
+        risk: {
+          instId: pair.instId,
+          strategyId: pair.strategyId,
+          markPx, liqPx, liqDistance,
+          notionalUsd: contracts * parseFloat(instrument.ctVal) * markPx,
+          level: riskLevel(liqDistance, pair.limits.pauseLiqDistance, pair.limits.reduceLiqDistance),
+          lastActionAt: last?.lastActionAt,
+          lastMessage: last?.lastMessage
+        }
+      });
+    }
+
+    const marginLevel = riskLevel(margin.marginRatio, account.pauseMarginRatio, account.reduceMarginRatio);
+    const marginLabel = `账户保证金率 ${margin.marginRatio === null ? '-' : `${(margin.marginRatio * 100).toFixed(0)}%`}`;
+    if (marginLevel !== 'ok' && this.snapshot?.marginLevel !== marginLevel) {
+      this.log(marginLevel === 'critical' ? 'error' : 'warning',
+        `[风控] ${marginLabel}，低于${marginLevel === 'critical' ? '减仓' : '暂停开仓'}阈值 ${((marginLevel === 'critical' ? account.reduceMarginRatio : account.pauseMarginRatio) * 100).toFixed(0)}%。`);
+    }
+    risks.forEach(({ pair, risk }) => {
+      if (risk.level !== 'ok' && previous.get(risk.instId)?.level !== risk.level) {
+        const limit = risk.level === 'critical' ? pair.limits.reduceLiqDistance : pair.limits.pauseLiqDistance;
+        this.log(risk.level === 'critical' ? 'error' : 'warning',
+          `[风控] ${risk.instId} 强平距离 ${formatPct(risk.liqDistance)} (强平价 ${risk.liqPx})，低于${risk.level === 'critical' ? '减仓' : '暂停开仓'}阈值 ${formatPct(limit)}。`);
+      }
+    });
+
+    const paused = marginLevel !== 'ok'
+      ? [...new Set(pairs.map(p => p.strategyId))]
+      : [...new Set(risks.filter(r => r.risk.level !== 'ok').map(r => r.pair.strategyId))];
+    this.updatePaused(paused);
+    this.snapshot = { checkedAt: now, marginRatio: margin.marginRatio, marginLevel, positions: risks.map(r => r.risk), pausedStrategies: paused };
+
+    // 账户级风险且没有单个组合达到减仓阈值时，处理强平距离最近的组合
+    let targets = risks.filter(r => r.risk.level === 'critical');
+    if (marginLevel === 'critical' && targets.length === 0 && risks.length > 0) {
+      targets = [[...risks].sort((a, b) => (a.risk.liqDistance ?? Infinity) - (b.risk.liqDistance ?? Infinity))[0]];
+    }
+    if (targets.length === 0) return;
+
+    const needed = targets.reduce((sum, t) => sum + (t.risk.liqDistance === null ? 0 : marginTopUpUsd(t.risk.notionalUsd, t.risk.liqDistance, t.pair.limits.pauseLiqDistance)), 0)
+      + (marginLevel === 'critical' ? Math.max(0, margin.maintMargin * account.pauseMarginRatio - margin.totalEq) : 0);
+    if (account.autoTopUp && await this.topUp(okx, needed, targets.map(t => t.risk), now)) return;
+
+    for (const { pair, risk, contracts, instrument } of targets) {
+      await this.reduce(pair, risk, contracts, instrument, now, reduce);
+    }
+  }
+
+  /** @returns 划转金额足以覆盖缺口时返回 true，本轮不再减仓 */
+  private async topUp(okx: OKXService, needed: number, targets: PositionRisk[], now: number): Promise<boolean> {
+    if (needed < MIN_TOP_UP_USDT) return false;
+    let available = 0;
+    try {
+      available = await okx.getFundingBalance('USDT');
+    } catch (e) {
+      this.log('warning', `[风控] 资金账户余额查询失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+    }
+    const amount = Math.floor(Math.min(available, needed) * 100) / 100;
+    if (amount < MIN_TOP_UP_USDT) return false;
+    try {
+      await okx.transferToTrading('USDT', amount);
+    } catch (e) {
+      this.log('error', `[风控] 保证金划转失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+      return false;
+    }
+    const message = `从资金账户划转 ${amount.toFixed(2)} USDT 补充保证金 (缺口 ${needed.toFixed(2)} USDT)`;
+    this.log('warning', `[风控] ${message}。`);
+    targets.forEach(t => Object.assign(t, { action: 'topped_up', lastActionAt: now, lastMessage: message }));
+    return amount >= needed;
+  }
+
+  private async reduce(
+    pair: GuardedPair,
+    risk: PositionRisk,
+    contracts: number,
+    instrument: Instrument,
+    now: number,
+    reduce: (pair: GuardedPair, contracts: number) => Promise<DualSideResult>
+  ) {
+    if (!pair.canTrade) {
+      if (risk.action !== 'topped_up') risk.action = 'trading_off';
+      return;
+    }
+    if (now - (this.lastReduceAt.get(pair.instId) ?? 0) < RISK_REDUCE_COOLDOWN_MS) {
+      risk.action = 'cooldown';
+      return;
+    }
+    const size = reduceContracts(contracts, pair.limits.reduceFraction, parseFloat(instrument.minSz), parseFloat(instrument.lotSz));
+    this.lastReduceAt.set(pair.instId, now);
+    this.log('warning', `[风控] ${pair.instId} 双边减仓 ${size}/${contracts} 张 (强平距离 ${formatPct(risk.liqDistance)})。`);
+    const res = await reduce(pair, size);
+    Object.assign(risk, { action: res.success ? 'reduced' : 'reduce_failed', lastActionAt: now, lastMessage: res.message });
+    if (!res.success) this.log('error', `[风控] ${pair.instId} 减仓失败: ${res.message}`);
+  }
+
+  private updatePaused(paused: string[]) {
+    const before = this.snapshot?.pausedStrategies ?? [];
+    paused.filter(id => !before.includes(id)).forEach(id => this.log('warning', `[风控] 策略 ${id} 暂停新开仓。`));
+    before.filter(id => !paused.includes(id)).forEach(id => this.log('info', `[风控] 策略 ${id} 风险解除，恢复开仓。`));
+  }
+}
@@ -0,0 +1,304 @@
+import {
+  StrategyConfig, Instrument, SentimentFeatures, SentimentSignal, SentimentDirection, AITradeRecord, Order
+} from '../types';
+import { analyzeDirectionalSignals } from '../services/deepseekService';
+import {
+  SentimentParams, resolveSentimentParams, sizeFromConfidence, resolveExitLevels, checkExit, isSignalFlip, directionalPnlPct
+} from '../services/sentimentStrategyLogic';
+import { StrategyContext } from './strategyContext';
+import { stateStore } from './stateStore';
+
+type Direction = Exclude<SentimentDirection, 'NEUTRAL'>;
+
+export interface ManagedPosition {
+  instId: string;
+  direction: Direction;
+  entryPx: number;
+  contracts: number;
+  ctVal: number;
+  notionalUsd: number;
+  stopLossPct: number;
+  takeProfitPct: number;
+  simulated: boolean;
+  signal: SentimentSignal;
+  features: SentimentFeatures;
+  pendingOrdId?: string; // 已下单但未确认成交的开仓订单，下一轮按订单状态补记
+}
+
+const pct = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(2)}%`;
+
+/**
+ * AI 情绪择时执行器 (AI_SENTIMENT)
+ * 每轮: 止盈止损检查 -> 采集特征请求 AI 方向判断 -> 信号反转平仓 -> 按置信度在敞口上限内开仓。
+ * 只管理本策略开出的合约张数 (reduceOnly 平仓)，每笔开/平仓都保存 AI 的结构化理由供事后审计。
+ * 持仓与交易记录均持久化，重启后继续按原止盈止损管理。
+ */
+export class SentimentRunner {
+  private positions = new Map<string, Map<string, ManagedPosition>>(
+    Object.entries(stateStore.getSentimentPositions()).map(([id, list]) => [id, new Map(list.map(p => [p.instId, p]))])
+  );
+  private tradeSeq = stateStore.getAITrades().length;
+
+  getTrades(): AITradeRecord[] {
+    return stateStore.getAITrades();
+  }
+
+  /** 删除策略时丢弃其持仓记录 (归属由引擎统一释放) */
+  forget(strategyId: string) {
+    this.positions.delete(strategyId);
+    stateStore.setSentimentPositions(strategyId, []);
+  }
+
+  async run(strategy: StrategyConfig, ctx: StrategyContext) {
+    const params = resolveSentimentParams(strategy.parameters);
+    const held = this.heldFor(strategy.id);
+    const watchList = [...new Set([...params.instIds, ...held.keys()])];
+
+    const instruments = await ctx.okx.getInstruments('SWAP');
+    await this.settlePending(strategy.id, held, ctx);
+    const features = await this.collectFeatures(watchList, ctx);
+    const featureMap = new Map(features.map(f => [f.instId, f]));
+
+    // 1. 止盈止损 (待确认成交的开仓不参与)
+    for (const pos of [...held.values()].filter(p => !p.pendingOrdId)) {
+      const f = featureMap.get(pos.instId);
+      if (!f) continue;
+      const reason = checkExit(pos.direction, pos.entryPx, f.last, pos);
+      if (reason) await this.closePosition(strategy.id, pos, reason, f, instruments, ctx);
+    }
+
+    // 2. AI 方向判断
+    const analysis = await analyzeDirectionalSignals(features.filter(f => params.instIds.includes(f.instId)), ctx.deepseekKey);
+    if (analysis.error) {
+      ctx.log('warning', 'AI', `AI 择时跳过：${analysis.marketSummary}`);
+      return;
+    }
+    ctx.log('info', 'AI', `[AI 择时] ${analysis.marketSummary} | ` +
+      analysis.signals.map(s => `${s.instId} ${s.direction} ${(s.confidence * 100).toFixed(0)}%`).join(', '));
+    const signalMap = new Map(analysis.signals.map(s => [s.instId, s]));
+
+    // 3. 信号反转
+    for (const pos of [...held.values()].filter(p => !p.pendingOrdId)) {
+      const f = featureMap.get(pos.instId);
+      if (f && isSignalFlip(pos.direction, signalMap.get(pos.instId), params)) {
+        await this.closePosition(strategy.id, pos, 'SIGNAL_FLIP', f, instruments, ctx);
+      }
+    }
+
+    // 4. 按置信度从高到低开仓
+    const candidates = analysis.signals
+      .filter(s => !held.has(s.instId) && s.direction !== 'NEUTRAL')
+      .sort((a, b) => b.confidence - a.confidence);
+    for (const signal of candidates) {
+      const f = featureMap.get(signal.instId);
+      const instrument = instruments.find(i => i.instId === signal.instId);
+      if (!f || !instrument) continue;
+      const owner = ctx.ownerOf(signal.instId);
+      if (owner && owner !== strategy.id) {
+        ctx.log('info', 'STRATEGY', `[AI 择时] ${signal.instId} 已被策略 ${owner} 占用，跳过。`);
+        continue;
+      }
+      const notional = sizeFromConfidence(signal, params, this.exposure(held));
+      if (notional <= 0) continue;
+      await this.openPosition(strategy.id, signal, notional, f, instrument, params, ctx);
+    }
+  }
+
+  private heldFor(strategyId: string): Map<string, ManagedPosition> {
+    let held = this.positions.get(strategyId);
+    if (!held) {
+      held = new Map();
+      this.positions.set(strategyId, held);
+    }
+    return held;
+  }
+
+  private exposure(held: Map<string, ManagedPosition>): number {
+    let total = 0;
+    held.forEach(p => { total += p.notionalUsd; });
+    return total;
+  }
+
+  private async collectFeatures(instIds: string[], ctx: StrategyContext): Promise<SentimentFeatures[]> {
+    const results: SentimentFeatures[] = [];
+    for (const instId of instIds) {
+      try {
+        const [ticker, fundingRate, openInterestUsd] = await Promise.all([
+          ctx.okx.getTicker(instId),
+          ctx.okx.getFundingRate(instId),
+          ctx.okx.getOpenInterest(instId)
+        ]);
+        if (!(ticker.last > 0)) continue;
+        results.push({
+          instId,
+          last: ticker.last,
+          priceChange24hPct: ticker.open24h > 0 ? (ticker.last / ticker.open24h - 1) * 100 : 0,
+          fundingRate: parseFloat(fundingRate),
+          volUsdt24h: ticker.volUsdt24h,
+          openInterestUsd
+        });
+      } catch (e) {
+        ctx.log('warning', 'STRATEGY', `[AI 择时] ${instId} 行情获取失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+      }
+    }
+    return results;
+  }
+
+  private async openPosition(
+    strategyId: string,
+    signal: SentimentSignal,
+    notionalUsd: number,
+    f: SentimentFeatures,
+    instrument: Instrument,
+    params: SentimentParams,
+    ctx: StrategyContext
+  ) {
+    const ctVal = parseFloat(instrument.ctVal);
+    const contracts = Math.floor(notionalUsd / (ctVal * f.last));
+    if (contracts < parseFloat(instrument.minSz)) {
+      ctx.log('info', 'STRATEGY', `[AI 择时] ${signal.instId} 拟开仓 $${notionalUsd.toFixed(2)} 不足最小合约单位，跳过。`);
+      return;
+    }
+
+    if (!ctx.claim(signal.instId)) return;
+    const levels = resolveExitLevels(signal, params);
+    const simulated = !ctx.isTrading();
+    const pos: ManagedPosition = {
+      instId: signal.instId,
+      direction: signal.direction as Direction,
+      entryPx: f.last,
+      contracts,
+      ctVal,
+      notionalUsd: contracts * ctVal * f.last,
+      ...levels,
+      simulated,
+      signal,
+      features: f
+    };
+
+    if (simulated) {
+      ctx.log('info', 'STRATEGY', `[模拟开仓] ${this.label(pos)}，止损 ${levels.stopLossPct}% / 止盈 ${levels.takeProfitPct}% (交易未开启)`);
+      this.heldFor(strategyId).set(pos.instId, pos);
+      this.persist(strategyId);
+      this.record(strategyId, pos, 'OPEN', pos.entryPx);
+      return;
+    }
+
+    let ordId: string;
+    try {
+      await ctx.okx.setLeverage(signal.instId, params.leverage.toString(), 'cross');
+      ordId = await ctx.okx.placeSwapMarketOrder(instrument, signal.direction === 'LONG' ? 'buy' : 'sell', contracts);
+    } catch (e) {
+      ctx.log('error', 'STRATEGY', `[AI 开仓] ${signal.instId} 失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+      ctx.release(signal.instId);
+      return;
+    }
+    // 下单后先记为待确认并保留归属，确认成交前出错或重启也能按订单状态补记，不会丢失持仓
+    this.heldFor(strategyId).set(pos.instId, { ...pos, pendingOrdId: ordId });
+    this.persist(strategyId);
+    let filled;
+    try {
+      filled = await ctx.okx.pollOrder(signal.instId, ordId);
+    } catch (e) {
+      ctx.log('warning', 'STRATEGY', `[AI 开仓] ${signal.instId} 订单 ${ordId} 未确认成交 (${e instanceof Error ? e.message : 'Unknown'})，下一轮查询订单状态。`);
+      return;
+    }
+    this.confirmOpen(strategyId, pos, filled, ctx);
+  }
+
+  /** 查询待确认开仓订单的最终状态：成交 (含部分成交后撤单) 按成交量记入持仓，未成交则放弃并释放归属，仍在撮合时保留 */
+  private async settlePending(strategyId: string, held: Map<string, ManagedPosition>, ctx: StrategyContext) {
+    for (const pos of [...held.values()]) {
+      if (!pos.pendingOrdId) continue;
+      let order: Order | null;
+      try {
+        order = await ctx.okx.getOrder(pos.instId, pos.pendingOrdId);
+      } catch (e) {
+        ctx.log('warning', 'STRATEGY', `[AI 开仓] ${pos.instId} 订单 ${pos.pendingOrdId} 查询失败，下一轮重试: ${e instanceof Error ? e.message : 'Unknown'}`);
+        continue;
+      }
+      if (order && order.state !== 'filled' && order.state !== 'canceled') continue;
+      if (!order || !(parseFloat(order.accFillSz || '0') > 0)) {
+        ctx.log('warning', 'STRATEGY', `[AI 开仓] ${pos.instId} 订单 ${pos.pendingOrdId} 未成交，放弃开仓。`);
+        held.delete(pos.instId);
+        this.persist(strategyId);
+        ctx.release(pos.instId);
+        continue;
+      }
+      this.confirmOpen(strategyId, pos, order, ctx);
+    }
+  }
+
+  private confirmOpen(strategyId: string, pending: ManagedPosition, order: Pick<Order, 'accFillSz' | 'avgPx' | 'fillPx'>, ctx: StrategyContext) {
+    const entryPx = parseFloat(order.avgPx || order.fillPx || pending.entryPx.toString());
+    const contracts = parseFloat(order.accFillSz || pending.contracts.toString());
+    const pos: ManagedPosition = { ...pending, entryPx, contracts, notionalUsd: contracts * pending.ctVal * entryPx, pendingOrdId: undefined };
+    ctx.log('success', 'STRATEGY', `[AI 开仓] ${this.label(pos)} @${entryPx}，止损 ${pos.stopLossPct}% / 止盈 ${pos.takeProfitPct}%`);
+    this.heldFor(strategyId).set(pos.instId, pos);
+    this.persist(strategyId);
+    this.record(strategyId, pos, 'OPEN', entryPx);
+  }
+
+  private label(pos: ManagedPosition): string {
+    return `${pos.instId} ${pos.direction === 'LONG' ? '做多' : '做空'} ${pos.contracts} 张 (置信度 ${(pos.signal.confidence * 100).toFixed(0)}%)`;
+  }
+
+  private async closePosition(
+    strategyId: string,
+    pos: ManagedPosition,
+    reason: NonNullable<AITradeRecord['exitReason']>,
+    f: SentimentFeatures,
+    instruments: Instrument[],
+    ctx: StrategyContext
+  ) {
+    const reasonText = reason === 'STOP_LOSS' ? '止损' : reason === 'TAKE_PROFIT' ? '止盈' : '信号反转';
+    let exitPx = f.last;
+
+    if (pos.simulated) {
+      ctx.log('warning', 'STRATEGY', `[模拟平仓] ${pos.instId} ${reasonText}，收益 ${pct(directionalPnlPct(pos.direction, pos.entryPx, exitPx))}`);
+    } else {
+      const instrument = instruments.find(i => i.instId === pos.instId);
+      if (!instrument) return;
+      try {
+        const ordId = await ctx.okx.placeSwapMarketOrder(instrument, pos.direction === 'LONG' ? 'sell' : 'buy', pos.contracts, true);
+        const filled = await ctx.okx.pollOrder(pos.instId, ordId);
+        exitPx = parseFloat(filled.avgPx || filled.fillPx || f.last.toString());
+        ctx.log(reason === 'STOP_LOSS' ? 'warning' : 'success', 'STRATEGY',
+          `[AI 平仓] ${pos.instId} ${reasonText} @${exitPx}，收益 ${pct(directionalPnlPct(pos.direction, pos.entryPx, exitPx))}`);
+      } catch (e) {
+        ctx.log('error', 'STRATEGY', `[AI 平仓] ${pos.instId} 失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+        return;
+      }
+    }
+
+    this.heldFor(strategyId).delete(pos.instId);
+    this.persist(strategyId);
+    ctx.release(pos.instId);
+    this.record(strategyId, { ...pos, features: f }, 'CLOSE', exitPx, reason);
+  }
+
+  private persist(strategyId: string) {
+    stateStore.setSentimentPositions(strategyId, [...this.heldFor(strategyId).values()]);
+  }
+
+  private record(strategyId: string, pos: ManagedPosition, action: AITradeRecord['action'], price: number, exitReason?: AITradeRecord['exitReason']) {
+    stateStore.appendAITrade({
+      id: `ai-${Date.now().toString(36)}-${++this.tradeSeq}`,
+      strategyId,
+      ts: Date.now(),
+      instId: pos.instId,
+      action,
+      direction: pos.direction,
+      exitReason,
+      price,
+      contracts: pos.contracts,
+      notionalUsd: pos.contracts * pos.ctVal * price,
+      pnlPct: action === 'CLOSE' ? directionalPnlPct(pos.direction, pos.entryPx, price) : undefined,
+      stopLossPct: pos.stopLossPct,
+      takeProfitPct: pos.takeProfitPct,
+      simulated: pos.simulated,
+      signal: pos.signal,
+      features: pos.features
+    });
+  }
+}
@@ -0,0 +1,206 @@
+import { DualSideResult, Instrument, LegExecution, LegFill, LogEntry, SliceProgress, SlicedExecution } from '../types';
+import { OKXService } from '../services/okxService';
+import { SlicingParams, depthWithin, nextSliceContracts } from '../services/slicingLogic';
+import { LegCoordinator } from './legCoordinator';
+import { stateStore } from './stateStore';
+
+type SliceLogger = (level: LogEntry['level'], message: string) => void;
+
+export interface SliceHooks {
+  onFills: (fills: LegFill[]) => void; // 每片完成后记账
+  shouldContinue: () => boolean; // 策略停止或关闭交易时不再执行剩余分片
+}
+
+/** 每片要消耗的盘口：开仓买现货、卖合约；平仓买合约、卖现货 */
+const DEPTH_SIDES = {
+  entry: { spot: 'asks', swap: 'bids' },
+  exit: { spot: 'bids', swap: 'asks' }
+} as const;
+
+/**
+ * 分片执行 (TWAP)
+ * 把一次开仓或平仓按合约张数拆成多片，在时间窗口内等间隔执行；每片都是一次完整的双边执行 (LegCoordinator)，
+ * 现货与合约交替成交，任意时刻的敞口不超过一片。某一片失败时停止剩余分片，已完成的分片保持对冲。
+ */
+export class SliceExecutor {
+  constructor(private coordinator: LegCoordinator, private log: SliceLogger) {}
+
+  list(): SlicedExecution[] {
+    return [...stateStore.getSlicedExecutions()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /** 进程重启前未执行完的分片计划不再继续 (中断中的那一片由 LegCoordinator 恢复) */
+  markInterrupted() {
+    stateStore.getSlicedExecutions().filter(e => e.status === 'running').forEach(e => {
+      e.slices.filter(s => s.state === 'pending').forEach(s => { s.state = 'skipped'; });
+      this.finish(e, 'interrupted');
+    });
+  }
+
+  async enter(okx: OKXService, tradeId: string, strategyId: string, swapInstrument: Instrument, usdtAmount: number,
+    execution: LegExecution, slicing: SlicingParams, hooks: SliceHooks): Promise<DualSideResult> {
+    let prepared: { spotInstrument: Instrument; contracts: number; spotFeeRate: number };
+    try {
+      prepared = await okx.prepareDualSideEntry(swapInstrument.instId, usdtAmount, swapInstrument);
+    } catch (e) {
+      return { success: false, message: `Entry Failed: ${e instanceof Error ? e.message : 'Unknown'}`, fills: [] };
+    }
+    return this.run(okx, 'entry', tradeId, strategyId, swapInstrument, prepared.contracts, slicing, hooks, (slice, contracts) => {
+      const spotSz = okx.spotSizeForContracts(contracts, swapInstrument, prepared.spotInstrument, prepared.spotFeeRate);
+      return this.coordinator.enterSlice(okx, { tradeId, slice }, strategyId, swapInstrument, prepared.spotInstrument, spotSz, execution);
+    });
+  }
+
+  /** 分片平仓：每片卖出与合约等量的现货，最后一片卖出全部剩余现货 (扫清残余) */
+  async exit(okx: OKXService, tradeId: string, strategyId: string | undefined, swapInstrument: Instrument, posSizeContracts: string,
+    execution: LegExecution, slicing: SlicingParams, hooks: SliceHooks): Promise<DualSideResult> {
+    let spot: { spotInstrument: Instrument; spotSz: string } | null;
+    try {
+      spot = await okx.prepareDualSideExit(swapInstrument.instId);
+    } catch (e) {
+      return { success: false, message: `Exit Error: ${e instanceof Error ? e.message : 'Unknown'}`, fills: [] };
+    }
+    const total = Math.abs(parseFloat(posSizeContracts));
+    const ctVal = parseFloat(swapInstrument.ctVal);
+    return this.run(okx, 'exit', tradeId, strategyId, swapInstrument, total, slicing, hooks, async (slice, contracts, closesAll) => {
+      let spotSz: string | null = null;
+      if (spot && closesAll) {
+        try {
+          spotSz = (await okx.prepareDualSideExit(swapInstrument.instId))?.spotSz ?? null;
+        } catch (e) {
+          return { success: false, message: `Exit Error: ${e instanceof Error ? e.message : 'Unknown'}`, fills: [] };
+        }
+      } else if (spot) {
+        const sz = okx.floorLotSize(Math.min(contracts * ctVal, parseFloat(spot.spotSz)), spot.spotInstrument);
+        spotSz = parseFloat(sz) >= parseFloat(spot.spotInstrument.minSz) ? sz : null;
+      }
+      return this.coordinator.exitSlice(okx, { tradeId, slice }, strategyId, swapInstrument, spot?.spotInstrument, contracts, spotSz, execution);
+    });
+  }
+
+  private async run(
+    okx: OKXService,
+    kind: SlicedExecution['kind'],
+    tradeId: string,
+    strategyId: string | undefined,
+    swapInstrument: Instrument,
+    totalContracts: number,
+    slicing: SlicingParams,
+    hooks: SliceHooks,
+    execute: (slice: number, contracts: number, closesAll: boolean) => Promise<DualSideResult>
+  ): Promise<DualSideResult> {
+    const now = Date.now();
+    const evenSize = Math.ceil(totalContracts / slicing.count);
+    const record: SlicedExecution = {
+      id: `${tradeId}-${kind}-${now.toString(36)}`,
+      tradeId, kind, strategyId,
+      swapInstId: swapInstrument.instId,
+      totalContracts,
+      filledContracts: 0,
+      intervalMs: slicing.intervalMs,
+      status: 'running',
+      slices: Array.from({ length: slicing.count }, (_, i) => ({
+        index: i + 1,
+        contracts: Math.max(0, Math.min(evenSize, totalContracts - i * evenSize)),
+        state: 'pending' as const
+      })),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.save(record);
+    const label = `[分片执行] ${tradeId} ${swapInstrument.instId} ${kind === 'entry' ? '开仓' : '平仓'}`;
+    this.log('info', `${label}: 共 ${totalContracts} 张，计划 ${slicing.count} 片，间隔 ${(slicing.intervalMs / 1000).toFixed(0)}s。`);
+
+    const maxSlices = slicing.count * 2;
+    const minContracts = Math.max(1, parseFloat(swapInstrument.minSz));
+    const fills: LegFill[] = [];
+    let remaining = totalContracts;
+    let failure: string | null = null;
+
+    for (let index = 1; index <= maxSlices && remaining > 0; index++) {
+      if (index > 1) {
+        await new Promise(r => setTimeout(r, Math.max(0, record.createdAt + (index - 1) * slicing.intervalMs - Date.now())));
+        if (!hooks.shouldContinue()) {
+          failure = '策略已停止或交易开关关闭';
+          break;
+        }
+      }
+      const slicesLeft = (index <= slicing.count ? slicing.count : maxSlices) - index + 1;
+      const depth = await this.depthContracts(okx, swapInstrument, kind);
+      const contracts = nextSliceContracts(remaining, slicesLeft, depth, slicing.depthPct, minContracts, index === maxSlices);
+      const slice = this.slice(record, index);
+      Object.assign(slice, { contracts, state: 'running', startedAt: Date.now() });
+      this.save(record);
+
+      const res = await execute(index, contracts, contracts >= remaining);
+      fills.push(...res.fills);
+      hooks.onFills(res.fills);
+      this.summarize(slice, res.fills, swapInstrument.instId);
+      slice.finishedAt = Date.now();
+      if (!res.success) {
+        slice.state = 'failed';
+        slice.message = res.message;
+        failure = `第 ${index} 片失败: ${res.message}`;
+        this.save(record);
+        break;
+      }
+      slice.state = 'done';
+      remaining -= contracts;
+      record.filledContracts += slice.swapSz ?? 0;
+      this.save(record);
+      this.log('info', `${label} 第 ${index} 片完成: ${slice.swapSz ?? 0} 张 (累计 ${record.filledContracts}/${totalContracts})。`);
+    }
+
+    record.slices.filter(s => s.state === 'pending').forEach(s => { s.state = 'skipped'; });
+    const status = remaining <= 0 ? 'completed' : record.filledContracts > 0 ? 'partial' : 'failed';
+    this.finish(record, status);
+    const summary = `${label}: ${record.filledContracts}/${totalContracts} 张，${record.slices.filter(s => s.state === 'done').length} 片完成` +
+      (failure ? ` (${failure})` : '');
+    this.log(status === 'completed' ? 'success' : 'warning', summary);
+
+    // 开仓部分完成仍是对冲好的持仓，按成功处理；平仓必须全部完成
+    const success = kind === 'entry' ? record.filledContracts > 0 : remaining <= 0;
+    return { success, message: summary, fills };
+  }
+
+  /** 两条腿中较薄一侧的盘口深度 (折算成张数)；盘口获取失败时不封顶 */
+  private async depthContracts(okx: OKXService, swapInstrument: Instrument, kind: SlicedExecution['kind']): Promise<number> {
+    const [base, quote] = swapInstrument.instId.split('-');
+    try {
+      const [spotBook, swapBook] = await Promise.all([okx.getOrderBook(`${base}-${quote}`), okx.getOrderBook(swapInstrument.instId)]);
+      const spotContracts = depthWithin(spotBook, DEPTH_SIDES[kind].spot) / parseFloat(swapInstrument.ctVal);
+      return Math.min(spotContracts, depthWithin(swapBook, DEPTH_SIDES[kind].swap));
+    } catch (e) {
+      return Infinity;
+    }
+  }
+
+  private slice(record: SlicedExecution, index: number): SliceProgress {
+    let slice = record.slices.find(s => s.index === index);
+    if (!slice) {
+      slice = { index, contracts: 0, state: 'pending' };
+      record.slices.push(slice);
+    }
+    return slice;
+  }
+
+  /** 按成交汇总本片两条腿的数量与均价 */
+  private summarize(slice: SliceProgress, fills: LegFill[], swapInstId: string) {
+    const legs = { spot: fills.filter(f => f.instId !== swapInstId), swap: fills.filter(f => f.instId === swapInstId) };
+    // 回滚单方向相反，按净成交量统计
+    const net = (list: LegFill[]) => Math.abs(list.reduce((sum, f) => sum + (f.side === list[0].side ? f.sz : -f.sz), 0));
+    const vwap = (list: LegFill[]) => list.reduce((sum, f) => sum + f.sz * f.px, 0) / (list.reduce((sum, f) => sum + f.sz, 0) || 1);
+    if (legs.spot.length > 0) Object.assign(slice, { spotSz: net(legs.spot), spotPx: vwap(legs.spot) });
+    if (legs.swap.length > 0) Object.assign(slice, { swapSz: net(legs.swap), swapPx: vwap(legs.swap) });
+  }
+
+  private finish(record: SlicedExecution, status: SlicedExecution['status']) {
+    record.status = status;
+    this.save(record);
+  }
+
+  private save(record: SlicedExecution) {
+    record.updatedAt = Date.now();
+    stateStore.saveSlicedExecution({ ...record, slices: record.slices.map(s => ({ ...s })) });
+  }
+}
@@ -0,0 +1,371 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  StrategyConfig, StrategyRevision, LogEntry, AnalysisRecord, AITradeRecord, AIAnalysisResult, FundingPayment, PairBookEntry, DualLegOperation, DualLegState, SlicedExecution,
+  KillSwitchState, BreakerSettings, ExposureLimits
+} from '../types';
+import type { GridState } from './gridRunner';
+import type { ManagedPosition } from './sentimentRunner';
+
+const MAX_LOGS = 2000;
+const MAX_REVISIONS = 500;
+const MAX_ANALYSES = 200;
+const MAX_AI_TRADES = 500;
+const MAX_FUNDING_PAYMENTS = 20000;
+const MAX_CLOSED_BOOK_ENTRIES = 500;
+const MAX_FINISHED_LEG_OPERATIONS = 100;
+const MAX_SLICED_EXECUTIONS = 50;
+const SAVE_DEBOUNCE_MS = 1000;
+
+/** 双边执行的终态，其余状态在重启后需要恢复 */
+export const FINISHED_LEG_STATES: DualLegState[] = ['completed', 'unwound', 'failed'];
+
+/** 服务端数据目录 (state.json、vault.json、funding-rates.json) */
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+export interface PersistedState {
+  strategies: StrategyConfig[];
+  revisions: StrategyRevision[];
+  logs: LogEntry[];
+  analyses: AnalysisRecord[];
+  aiTrades: AITradeRecord[];
+  ownership: Record<string, string>; // instId -> strategyId
+  gridStates: Record<string, GridState>; // strategyId -> 网格状态 (含挂单 ID)
+  sentimentPositions: Record<string, ManagedPosition[]>; // strategyId -> AI 择时持仓
+  engineProfileId: string | null; // 引擎使用的凭证配置 (密钥在 vault.json)
+  fundingPayments: FundingPayment[]; // 已实现资金费流水 (来自 OKX 账单)
+  fundingSyncedAt: number;
+  positionBook: PairBookEntry[]; // 套利组合的成交与成本账本
+  legOperations: DualLegOperation[]; // 双边执行记录 (未完成的在重启后恢复)
+  slicedExecutions: SlicedExecution[]; // 分片执行进度 (最近 MAX_SLICED_EXECUTIONS 次)
+  killSwitch: KillSwitchState; // 全局急停 (解除前不能启动策略)
+  breakerSettings: Partial<BreakerSettings>; // 熔断阈值，未设置的项使用默认值
+  equityBaseline: { day: string; equity: number } | null; // 当日 (UTC) 首次检查时的账户权益
+  exposureLimits: Partial<ExposureLimits>; // 组合敞口上限，未设置的项使用默认值
+}
+
+const EMPTY_STATE: PersistedState = {
+  strategies: [],
+  revisions: [],
+  logs: [],
+  analyses: [],
+  aiTrades: [],
+  ownership: {},
+  gridStates: {},
+  sentimentPositions: {},
+  engineProfileId: null,
+  fundingPayments: [],
+  fundingSyncedAt: 0,
+  positionBook: [],
+  legOperations: [],
+  slicedExecutions: [],
+  killSwitch: { halted: false },
+  breakerSettings: {},
+  equityBaseline: null,
+  exposureLimits: {}
+};
+
+/** 影响策略行为的字段发生变化时才记录版本 (忽略启停与 lastRun) */
+/** 名称、类型或参数是否变化 (启停状态与 lastRun 不算配置变化) */
+export const configChanged = (a: StrategyConfig, b: StrategyConfig): boolean =>
+  a.name !== b.name || a.type !== b.type || JSON.stringify(a.parameters) !== JSON.stringify(b.parameters);
+
+/**
+ * 服务端持久化存储 (JSON 文件)
+ * 保存策略配置、编辑历史、日志、AI 分析与交易记录，重启与刷新后恢复，所有打开面板的成员共享同一份数据。
+ * 写入经过防抖并采用 临时文件 + rename 的原子替换，避免进程中断导致文件损坏。
+ *
+ * 环境变量: DATA_DIR 数据目录 (默认 ./data)
+ */
+class StateStore {
+  private filePath = path.join(DATA_DIR, 'state.json');
+  private state: PersistedState = this.load();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private revisionSeq = this.state.revisions.length;
+
+  private load(): PersistedState {
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      return { ...EMPTY_STATE, ...JSON.parse(raw) };
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') console.error(`Failed to load ${this.filePath}, starting with empty state`, e);
+      return { ...EMPTY_STATE };
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  flush() {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmp = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(this.state, null, 2));
+      fs.renameSync(tmp, this.filePath);
+    } catch (e) {
+      console.error(`Failed to persist state to ${this.filePath}`, e);
+    }
+  }
+
+  // --- Strategies ---
+
+  getStrategies(): StrategyConfig[] {
+    return this.state.strategies;
+  }
+
+  getStrategy(id: string): StrategyConfig | undefined {
+    return this.state.strategies.find(s => s.id === id);
+  }
+
+  /** 首次启动时写入默认策略 */
+  seedStrategies(defaults: StrategyConfig[]) {
+    if (this.state.strategies.length > 0 || this.state.revisions.length > 0) return;
+    defaults.forEach(s => this.saveStrategy(s, 'system'));
+  }
+
+  /**
+   * 新增或更新策略配置；配置变化时追加一条编辑历史
+   * 启停状态只能经引擎的启动/停止接口修改 (patchStrategyRuntime)，这里沿用已保存的值，新策略默认停止
+   */
+  saveStrategy(config: StrategyConfig, author: string = 'system'): StrategyConfig {
+    const existing = this.getStrategy(config.id);
+    const strategy: StrategyConfig = {
+      ...config,
+      isActive: existing?.isActive ?? false,
+      isTrading: existing?.isTrading ?? false,
+      lastRun: existing?.lastRun ?? config.lastRun
+    };
+    if (!existing) {
+      this.state.strategies = [...this.state.strategies, strategy];
+      this.addRevision(strategy, 'CREATE', author);
+    } else {
+      this.state.strategies = this.state.strategies.map(s => s.id === strategy.id ? strategy : s);
+      if (configChanged(existing, strategy)) this.addRevision(strategy, 'UPDATE', author);
+    }
+    this.scheduleSave();
+    return strategy;
+  }
+
+  /** 仅更新运行时字段 (启停状态、lastRun)，不产生编辑历史 */
+  patchStrategyRuntime(id: string, patch: Partial<Pick<StrategyConfig, 'isActive' | 'isTrading' | 'lastRun'>>) {
+    const existing = this.getStrategy(id);
+    if (!existing) return;
+    this.state.strategies = this.state.strategies.map(s => s.id === id ? { ...s, ...patch } : s);
+    this.scheduleSave();
+  }
+
+  deleteStrategy(id: string, author: string = 'system'): boolean {
+    const existing = this.getStrategy(id);
+    if (!existing) return false;
+    this.state.strategies = this.state.strategies.filter(s => s.id !== id);
+    this.addRevision(existing, 'DELETE', author);
+    this.scheduleSave();
+    return true;
+  }
+
+  getRevisions(strategyId: string): StrategyRevision[] {
+    return this.state.revisions.filter(r => r.strategyId === strategyId);
+  }
+
+  private addRevision(config: StrategyConfig, action: StrategyRevision['action'], author: string) {
+    this.state.revisions.push({
+      id: `rev-${Date.now().toString(36)}-${++this.revisionSeq}`,
+      strategyId: config.id,
+      ts: Date.now(),
+      action,
+      author,
+      config
+    });
+    if (this.state.revisions.length > MAX_REVISIONS) this.state.revisions = this.state.revisions.slice(-MAX_REVISIONS);
+  }
+
+  // --- Logs ---
+
+  getLogs(limit: number = MAX_LOGS): LogEntry[] {
+    return this.state.logs.slice(-limit);
+  }
+
+  appendLog(entry: LogEntry) {
+    this.state.logs.push(entry);
+    if (this.state.logs.length > MAX_LOGS) this.state.logs = this.state.logs.slice(-MAX_LOGS);
+    this.scheduleSave();
+  }
+
+  // --- AI ---
+
+  getAnalyses(limit: number = MAX_ANALYSES): AnalysisRecord[] {
+    return this.state.analyses.slice(-limit);
+  }
+
+  appendAnalysis(strategyId: string, result: AIAnalysisResult) {
+    this.state.analyses.push({ id: `ana-${Date.now().toString(36)}`, ts: Date.now(), strategyId, result });
+    if (this.state.analyses.length > MAX_ANALYSES) this.state.analyses = this.state.analyses.slice(-MAX_ANALYSES);
+    this.scheduleSave();
+  }
+
+  getAITrades(): AITradeRecord[] {
+    return this.state.aiTrades;
+  }
+
+  appendAITrade(trade: AITradeRecord) {
+    this.state.aiTrades.push(trade);
+    if (this.state.aiTrades.length > MAX_AI_TRADES) this.state.aiTrades = this.state.aiTrades.slice(-MAX_AI_TRADES);
+    this.scheduleSave();
+  }
+
+  // --- Position Ownership ---
+
+  getOwnership(): Record<string, string> {
+    return this.state.ownership;
+  }
+
+  setOwnership(ownership: Record<string, string>) {
+    this.state.ownership = ownership;
+    this.scheduleSave();
+  }
+
+  // --- Engine ---
+
+  getEngineProfileId(): string | null {
+    return this.state.engineProfileId;
+  }
+
+  setEngineProfileId(profileId: string | null) {
+    this.state.engineProfileId = profileId;
+    this.scheduleSave();
+  }
+
+  // --- Circuit Breaker ---
+
+  getKillSwitch(): KillSwitchState {
+    return this.state.killSwitch;
+  }
+
+  setKillSwitch(killSwitch: KillSwitchState) {
+    this.state.killSwitch = killSwitch;
+    this.scheduleSave();
+  }
+
+  getBreakerSettings(): Partial<BreakerSettings> {
+    return this.state.breakerSettings;
+  }
+
+  setBreakerSettings(settings: Partial<BreakerSettings>) {
+    this.state.breakerSettings = settings;
+    this.scheduleSave();
+  }
+
+  getEquityBaseline(): { day: string; equity: number } | null {
+    return this.state.equityBaseline;
+  }
+
+  setEquityBaseline(baseline: { day: string; equity: number }) {
+    this.state.equityBaseline = baseline;
+    this.scheduleSave();
+  }
+
+  // --- Exposure Budget ---
+
+  getExposureLimits(): Partial<ExposureLimits> {
+    return this.state.exposureLimits;
+  }
+
+  setExposureLimits(limits: Partial<ExposureLimits>) {
+    this.state.exposureLimits = limits;
+    this.scheduleSave();
+  }
+
+  // --- Funding Ledger ---
+
+  getFundingPayments(): FundingPayment[] {
+    return this.state.fundingPayments;
+  }
+
+  getFundingSyncedAt(): number {
+    return this.state.fundingSyncedAt;
+  }
+
+  /** 追加新拉取的资金费流水 (调用方负责按 billId 去重) */
+  appendFundingPayments(payments: FundingPayment[], syncedAt: number) {
+    this.state.fundingPayments = [...this.state.fundingPayments, ...payments]
+      .sort((a, b) => a.ts - b.ts)
+      .slice(-MAX_FUNDING_PAYMENTS);
+    this.state.fundingSyncedAt = syncedAt;
+    this.scheduleSave();
+  }
+
+  // --- Position Book ---
+
+  getPositionBook(): PairBookEntry[] {
+    return this.state.positionBook;
+  }
+
+  /** 保存账本；已平仓记录只保留最近 MAX_CLOSED_BOOK_ENTRIES 条 */
+  setPositionBook(entries: PairBookEntry[]) {
+    const open = entries.filter(e => !e.closedAt);
+    const closed = entries.filter(e => e.closedAt).sort((a, b) => a.closedAt! - b.closedAt!).slice(-MAX_CLOSED_BOOK_ENTRIES);
+    this.state.positionBook = [...closed, ...open];
+    this.scheduleSave();
+  }
+
+  // --- Dual-Leg Execution ---
+
+  getLegOperations(): DualLegOperation[] {
+    return this.state.legOperations;
+  }
+
+  /**
+   * 新增或更新一条双边执行记录。立即落盘而不走防抖：
+   * 下单前写入的 pendingClOrdId 必须在订单发出前持久化，重启恢复才能据此查单。
+   */
+  saveLegOperation(op: DualLegOperation) {
+    const all = [...this.state.legOperations.filter(o => o.id !== op.id), op];
+    const finished = all.filter(o => FINISHED_LEG_STATES.includes(o.state));
+    this.state.legOperations = [
+      ...finished.slice(-MAX_FINISHED_LEG_OPERATIONS),
+      ...all.filter(o => !FINISHED_LEG_STATES.includes(o.state))
+    ];
+    this.flush();
+  }
+
+  // --- Sliced Execution ---
+
+  getSlicedExecutions(): SlicedExecution[] {
+    return this.state.slicedExecutions;
+  }
+
+  saveSlicedExecution(execution: SlicedExecution) {
+    const others = this.state.slicedExecutions.filter(e => e.id !== execution.id);
+    this.state.slicedExecutions = [...others, execution].slice(-MAX_SLICED_EXECUTIONS);
+    this.scheduleSave();
+  }
+
+  // --- Runner State ---
+
+  getGridStates(): Record<string, GridState> {
+    return this.state.gridStates;
+  }
+
+  setGridState(strategyId: string, state: GridState | undefined) {
+    const { [strategyId]: _previous, ...rest } = this.state.gridStates;
+    this.state.gridStates = state ? { ...rest, [strategyId]: state } : rest;
+    this.scheduleSave();
+  }
+
+  getSentimentPositions(): Record<string, ManagedPosition[]> {
+    return this.state.sentimentPositions;
+  }
+
+  setSentimentPositions(strategyId: string, positions: ManagedPosition[]) {
+    const { [strategyId]: _previous, ...rest } = this.state.sentimentPositions;
+    this.state.sentimentPositions = positions.length > 0 ? { ...rest, [strategyId]: positions } : rest;
+    this.scheduleSave();
+  }
+}
+
+export const stateStore = new StateStore();
@@ -0,0 +1,17 @@
+import { OKXService } from '../services/okxService';
+import { LogEntry } from '../types';
+
+/**
+ * 引擎提供给各策略执行器 (Runner) 的运行上下文。
+ * isTrading() 每次调用都读取最新配置，执行期间关闭交易开关会立即生效。
+ * claim/release 操作持仓归属表，已绑定当前策略 ID。
+ */
+export interface StrategyContext {
+  okx: OKXService;
+  deepseekKey: string;
+  log: (level: LogEntry['level'], source: LogEntry['source'], message: string) => void;
+  isTrading: () => boolean;
+  claim: (instId: string) => boolean;
+  release: (instId: string) => void;
+  ownerOf: (instId: string) => string | undefined;
+}
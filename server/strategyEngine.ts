@@ -0,0 +1,949 @@
+import { OKXService } from '../services/okxService';
+import { analyzeMarketConditions } from '../services/deepseekService';
+import { forwardToOkx } from './okxGateway';
+import { OKXStream } from './okxStream';
+import { GridRunner } from './gridRunner';
+import { SentimentRunner } from './sentimentRunner';
+import { StrategyContext } from './strategyContext';
+import { PositionOwnership } from './positionOwnership';
+import { FundingLedger } from './fundingLedger';
+import { PositionBook } from './positionBook';
+import { LegCoordinator } from './legCoordinator';
+import { SliceExecutor } from './sliceExecutor';
+import { HedgeMonitor } from './hedgeMonitor';
+import { RiskGuard, GuardedPair } from './riskGuard';
+import { CircuitBreaker } from './circuitBreaker';
+import { ExposureBudget } from './exposureBudget';
+import { FundingRateCollector } from './fundingRateCollector';
+import { fundingRateStore } from './fundingRateStore';
+import { resolveLegExecution } from '../services/legExecutionLogic';
+import { resolveSlicing } from '../services/slicingLogic';
+import { hedgeDelta, resolveHedgeMonitor } from '../services/hedgeLogic';
+import { resolveRiskLimits } from '../services/riskLogic';
+import { EXPOSURE_LIMIT_LABELS } from '../services/exposureLogic';
+import { rankingRate } from '../services/fundingHistoryLogic';
+import { resolveEntryCostLimits, estimateEntryCost, fitEntrySize, EntryCostEstimate, ORDER_BOOK_DEPTH } from '../services/slippageLogic';
+import { newTradeId, buildTradeJournal } from '../services/tradeJournalLogic';
+import { stateStore, configChanged } from './stateStore';
+import { credentialVault } from './credentialVault';
+import {
+  resolveFundingParams, filterTradeableSwaps, meetsEntryRate, shouldExit, rankByFundingRate,
+  planEntries, planRotations, computeInvestAmount, rotationFeeRate, MAX_QUEUE_CANDIDATES, MIN_INVEST_USDT,
+  FundingParams, RotationPlan
+} from '../services/fundingStrategyLogic';
+import {
+  StrategyConfig, StrategyType, LogEntry, TickerData, Instrument, Position, Asset, AIAnalysisResult,
+  EngineCredentials, EngineStatus, EngineStrategyStatus, FundingLedgerSummary, PairPnLReport, DualSideResult, TradeJournalEntry,
+  LegFill, SlicedExecution, StreamEvent, BreakerSettings, HaltTrigger, ExposureLimits, FundingRateStats, FundingRateHistory
+} from '../types';
+
+const LOOP_TICK_MS = 3000;
+const MAX_LOGS = 500;
+
+interface RunningStrategy {
+  config: StrategyConfig;
+  running: boolean;
+  startedAt: number;
+}
+
+/**
+ * 无头策略引擎 (Headless Strategy Engine)
+ * 在服务端托管每个策略的 扫描 -> 出场 -> 入场 循环，关闭浏览器后仍持续运行。
+ * 前端只通过 /api/engine/* 启停策略并读取状态。
+ * 启停状态、lastRun、日志、AI 分析与持仓归属均写入 stateStore，进程重启后 restore() 恢复运行中的策略。
+ * OKX 与 DeepSeek 凭证按所选凭证配置 ID 从 credentialVault 读取。
+ */
+class StrategyEngine {
+  private okx = new OKXService(async (config, endpoint, method, body) =>
+    (await forwardToOkx(config, method, endpoint, body)).data
+  );
+  private stream = new OKXStream(() => this.okx.getMarketTickers(), (level, message) => this.addLog(level, 'SYSTEM', message));
+  private profileId: string | null = stateStore.getEngineProfileId();
+  private credentials: EngineCredentials | null = null;
+  private strategies = new Map<string, RunningStrategy>();
+  private lastAnalysis: AIAnalysisResult | null = stateStore.getAnalyses(1)[0]?.result ?? null;
+  private instruments: Instrument[] = [];
+  private gridRunner = new GridRunner();
+  private sentimentRunner = new SentimentRunner();
+  private fundingLedger = new FundingLedger();
+  private positionBook = new PositionBook();
+  private legCoordinator = new LegCoordinator((level, message) => this.addLog(level, 'STRATEGY', message));
+  private sliceExecutor = new SliceExecutor(this.legCoordinator, (level, message) => this.addLog(level, 'STRATEGY', message));
+  private hedgeMonitor = new HedgeMonitor((level, message) => this.addLog(level, 'STRATEGY', message));
+  private riskGuard = new RiskGuard((level, message) => this.addLog(level, 'STRATEGY', message));
+  private circuitBreaker = new CircuitBreaker((level, message, actor) => this.addLog(level, 'SYSTEM', message, actor));
+  private exposureBudget = new ExposureBudget((level, message, actor) => this.addLog(level, 'SYSTEM', message, actor));
+  private fundingRates = new FundingRateCollector((level, message) => this.addLog(level, 'OKX', message));
+  private ownership = new PositionOwnership(stateStore.getOwnership(), snapshot => stateStore.setOwnership(snapshot));
+  private skippedOrphans = new Set<string>(); // 已提示过不认领的无主持仓，避免每轮重复日志
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private logSeq = 0;
+
+  constructor() {
+    this.okx.setStream(this.stream);
+  }
+
+  /** 切换引擎使用的凭证配置；actor 为发起操作的用户，写入日志 */
+  useProfile(profileId: string | null, actor?: string) {
+    if (profileId !== this.profileId) {
+      this.addLog('info', 'SYSTEM', profileId ? `引擎切换至凭证配置 ${profileId}。` : '引擎已清除凭证配置。', actor);
+    }
+    this.profileId = profileId;
+    stateStore.setEngineProfileId(profileId);
+    this.reloadCredentials();
+  }
+
+  getProfileId(): string | null {
+    return this.profileId;
+  }
+
+  /** 从凭证库重新读取凭证 (切换配置、凭证库解锁或凭证更新后调用) */
+  reloadCredentials() {
+    const okx = this.profileId && credentialVault.isUnlocked() ? credentialVault.getOkxConfig(this.profileId) : null;
+    this.credentials = okx ? { okx, deepseekKey: credentialVault.getDeepseekKey() } : null;
+    this.okx.setConfig(okx);
+    this.stream.connect(okx);
+    this.instruments = [];
+  }
+
+  /** 恢复上次退出时处于运行状态的策略 (服务启动时调用一次) */
+  restore() {
+    this.reloadCredentials();
+    stateStore.getStrategies().filter(s => s.isActive).forEach(strategy => {
+      this.addLog('info', 'SYSTEM', `恢复运行策略 ${strategy.name}。`);
+      this.start(strategy);
+    });
+    // 重启前中断的双边执行在循环中恢复 (需要凭证可用)，未执行的分片不再继续
+    this.sliceExecutor.markInterrupted();
+    if (this.legCoordinator.interrupted().length > 0) this.ensureLoop();
+  }
+
+  /** 启动或更新一个策略 (幂等)：已在运行时仅替换配置并保留 lastRun；急停期间拒绝启动 */
+  start(strategy: StrategyConfig, actor?: string) {
+    if (this.circuitBreaker.isHalted()) {
+      this.addLog('warning', 'SYSTEM', `急停中，策略 ${strategy.name} 未启动。`, actor);
+      return;
+    }
+    const existing = this.strategies.get(strategy.id);
+    const lastRun = existing?.config.lastRun ?? strategy.lastRun ?? 0;
+    this.strategies.set(strategy.id, {
+      config: { ...strategy, isActive: true, lastRun },
+      running: true,
+      startedAt: existing?.running ? existing.startedAt : Date.now()
+    });
+    stateStore.patchStrategyRuntime(strategy.id, { isActive: true, isTrading: strategy.isTrading });
+    if (!existing?.running) {
+      this.addLog('info', 'SYSTEM', `策略 ${strategy.name} 已在服务端启动 (交易开关: ${strategy.isTrading ? '开' : '关'})。`, actor);
+    } else if (existing.config.isTrading !== strategy.isTrading) {
+      this.addLog(strategy.isTrading ? 'warning' : 'info', 'SYSTEM', `策略 ${strategy.name} 交易开关已${strategy.isTrading ? '开启' : '关闭'}。`, actor);
+    }
+    this.ensureLoop();
+  }
+
+  /** 停止策略；网格策略返回撤单完成的 Promise */
+  stop(id: string, actor?: string): Promise<void> {
+    const entry = this.strategies.get(id);
+    if (!entry || !entry.running) return Promise.resolve();
+    entry.running = false;
+    entry.config = { ...entry.config, isActive: false, isTrading: false };
+    stateStore.patchStrategyRuntime(id, { isActive: false, isTrading: false });
+    this.addLog('info', 'SYSTEM', `策略 ${entry.config.name} 已在服务端停止。`, actor);
+    if (entry.config.type === StrategyType.GRID_TRADING) {
+      return this.gridRunner.cancelOrders(id, this.contextFor(id)).catch(e =>
+        this.addLog('error', 'STRATEGY', `网格撤单异常: ${e instanceof Error ? e.message : 'Unknown'}`)
+      );
+    }
+    return Promise.resolve();
+  }
+
+  /** 停止并从引擎移除策略，释放其持仓归属 */
+  async remove(id: string, actor?: string) {
+    const name = this.strategies.get(id)?.config.name ?? stateStore.getStrategy(id)?.name ?? id;
+    await this.stop(id, actor);
+    // 已停止的网格仍可能保留底仓状态与归属，统一清理
+    await this.gridRunner.remove(id, this.contextFor(id));
+    this.sentimentRunner.forget(id);
+    this.strategies.delete(id);
+    const orphaned = this.ownership.releaseAll(id);
+    this.addLog(orphaned.length > 0 ? 'warning' : 'info', 'SYSTEM', `策略 ${name} 已删除。` +
+      (orphaned.length > 0 ? `以下标的可能仍有持仓，已解除归属: ${orphaned.join(', ')}` : ''), actor);
+  }
+
+  /** 新配置是否修改了正在实盘交易的策略 (名称、类型或参数)，需要 trader 权限 */
+  changesLiveConfig(strategy: StrategyConfig): boolean {
+    const entry = this.strategies.get(strategy.id);
+    return !!entry && entry.running && entry.config.isTrading && configChanged(entry.config, strategy);
+  }
+
+  getStrategyStatus(id: string): EngineStrategyStatus | null {
+    const entry = this.strategies.get(id);
+    if (!entry) return null;
+    return {
+      id,
+      running: entry.running,
+      isTrading: entry.running && entry.config.isTrading,
+      lastRun: entry.config.lastRun || 0,
+      startedAt: entry.startedAt,
+      ownedInstIds: this.ownership.ownedBy(id),
+      grid: this.gridRunner.getStatus(id)
+    };
+  }
+
+  getStatus(): EngineStatus {
+    return {
+      strategies: [...this.strategies.keys()].map(id => this.getStrategyStatus(id)!),
+      logs: stateStore.getLogs(MAX_LOGS),
+      lastAnalysis: this.lastAnalysis,
+      aiTrades: this.sentimentRunner.getTrades(),
+      profileId: this.profileId,
+      hedgeChecks: this.hedgeMonitor.list(),
+      risk: this.riskGuard.getSnapshot(),
+      circuitBreaker: this.circuitBreaker.getStatus(),
+      exposure: this.exposureBudget.getStatus()
+    };
+  }
+
+  updateExposureLimits(patch: Partial<ExposureLimits>, actor?: string): ExposureLimits {
+    return this.exposureBudget.updateLimits(patch, actor);
+  }
+
+  isHalted(): boolean {
+    return this.circuitBreaker.isHalted();
+  }
+
+  updateBreakerSettings(patch: Partial<BreakerSettings>, actor?: string): BreakerSettings {
+    return this.circuitBreaker.updateSettings(patch, actor);
+  }
+
+  /** 手动急停 (Kill Switch)；unwind 为 true 时同时双边平掉全部套利组合 (已急停时也可补充平仓) */
+  async killSwitch(unwind: boolean, actor?: string) {
+    await this.halt('manual', '手动急停', unwind, actor);
+  }
+
+  resetKillSwitch(actor?: string) {
+    this.circuitBreaker.reset(actor);
+  }
+
+  /** 增量同步资金费账单后返回台账汇总 (同步失败时返回已有数据) */
+  async getFundingLedger(force = false): Promise<FundingLedgerSummary> {
+    await this.syncFundingLedger(force);
+    return this.fundingLedger.getSummary();
+  }
+
+  /** 全部 USDT 永续的费率统计；同时在后台触发一次采集 (按间隔节流) */
+  getFundingRates(): FundingRateStats[] {
+    this.collectFundingRates();
+    return this.fundingRates.list();
+  }
+
+  getFundingRateHistory(instId: string): FundingRateHistory | null {
+    return this.fundingRates.history(instId);
+  }
+
+  async getPositionBook(): Promise<PairPnLReport[]> {
+    return this.positionBook.getReport(this.okx);
+  }
+
+  async getTradeJournal(): Promise<TradeJournalEntry[]> {
+    return buildTradeJournal(await this.positionBook.getReport(this.okx));
+  }
+
+  /** 订阅 WebSocket 推送 (合并后转发给浏览器)；返回取消订阅函数 */
+  subscribeStream(listener: (event: StreamEvent) => void): () => void {
+    return this.stream.subscribe(listener);
+  }
+
+  streamSnapshot(): StreamEvent[] {
+    return this.stream.snapshot();
+  }
+
+  /** 最近的分片执行进度 (最新在前) */
+  getSlicedExecutions(): SlicedExecution[] {
+    return this.sliceExecutor.list();
+  }
+
+  /** 手动调仓 (Auto-Fix)：补齐现货与合约的差额，成交记入该组合的交易编号 */
+  async rebalancePair(swapInstId: string, actor?: string): Promise<DualSideResult> {
+    if (!this.credentials) {
+      return { success: false, message: '未选择凭证配置或凭证库尚未解锁。', fills: [] };
+    }
+    const tradeId = this.positionBook.openTradeId(swapInstId);
+    const res = await this.okx.auditAndRebalance(swapInstId, tradeId);
+    this.positionBook.append(swapInstId, res.fills);
+    this.circuitBreaker.recordExecution(res.success);
+    this.addLog(res.success ? 'info' : 'error', 'STRATEGY', `[调仓] ${swapInstId}${tradeId ? ` (${tradeId})` : ''}: ${res.message}`, actor);
+    return res;
+  }
+
+  private async syncFundingLedger(force = false) {
+    if (!this.credentials) return;
+    try {
+      const added = await this.fundingLedger.sync(this.okx, instId => this.ownership.ownerOf(instId), force);
+      if (added.length > 0) {
+        const total = added.reduce((sum, p) => sum + p.amountUsd, 0);
+        this.addLog(total >= 0 ? 'success' : 'warning', 'OKX', `[资金费] 新入账 ${added.length} 笔，合计 ${total >= 0 ? '+' : ''}${total.toFixed(4)} USD`);
+      }
+    } catch (e) {
+      this.addLog('warning', 'OKX', `[资金费] 账单同步失败: ${e instanceof Error ? e.message : 'Unknown'}`);
+    }
+  }
+
+  private addLog(level: LogEntry['level'], source: LogEntry['source'], message: string, user?: string) {
+    stateStore.appendLog({ id: `engine-${Date.now().toString(36)}-${++this.logSeq}`, timestamp: Date.now(), level, source, message, user });
+  }
+
+  private ensureLoop() {
+    if (this.timeoutId) return;
+    const runLoop = async () => {
+      // 任何一步抛出都不能中断循环，否则后续熔断、风控检查全部停止
+      try {
+        await this.resumeLegOperations();
+        await this.checkBreakers();
+        const activeStrats = [...this.strategies.values()].filter(s => s.running).map(s => s.config);
+        for (const strategy of activeStrats) {
+          const scanInterval = (strategy.parameters.scanInterval || 60) * 1000;
+          const timeSinceLastRun = Date.now() - (strategy.lastRun || 0);
+          if (timeSinceLastRun < scanInterval) continue;
+          try {
+            await this.executeStrategy(strategy);
+          } catch (e) {
+            this.addLog('error', 'STRATEGY', `策略循环异常: ${e instanceof Error ? e.message : 'Unknown'}`);
+            this.updateStrategyLastRun(strategy.id);
+          }
+        }
+        await this.checkRisk();
+        await this.checkHedges();
+        await this.syncFundingLedger();
+        this.collectFundingRates();
+      } catch (e) {
+        this.addLog('error', 'SYSTEM', `引擎循环异常: ${e instanceof Error ? e.message : 'Unknown'}`);
+      } finally {
+        this.timeoutId = setTimeout(runLoop, LOOP_TICK_MS);
+      }
+    };
+    this.timeoutId = setTimeout(runLoop, 0);
+  }
+
+  /** 后台采集资金费率历史，不等待完成 (全部 USDT 永续逐个查询需要数十秒) */
+  private collectFundingRates() {
+    if (!this.credentials) return;
+    const okx = this.okx;
+    const loadInstruments = this.instruments.length > 0 ? Promise.resolve(this.instruments) : okx.getInstruments('SWAP');
+    loadInstruments
+      .then(instruments => this.fundingRates.collect(okx, instruments.map(i => i.instId).filter(id => id.endsWith('-USDT-SWAP'))))
+      .catch(e => this.addLog('warning', 'OKX', `[费率历史] 采集异常: ${e instanceof Error ? e.message : 'Unknown'}`));
+  }
+
+  /** 熔断检查：任一熔断条件触发时急停 (不自动平仓，异常行情下平仓的成交质量无法保证) */
+  private async checkBreakers() {
+    if (!this.credentials || !this.circuitBreaker.due()) return;
+    try {
+      const trip = await this.circuitBreaker.check(this.okx);
+      if (trip) await this.halt(trip.trigger, `熔断: ${trip.reason}`, false);
+    } catch (e) {
+      this.addLog('error', 'SYSTEM', `[熔断] 检查异常: ${e instanceof Error ? e.message : 'Unknown'}`);
+    }
+  }
+
+  /**
+   * 急停：停止全部策略 (网格撤销自身挂单)，再撤销账户内所有未成交订单；
+   * unwind 时对每个空头永续合约执行双边平仓 (市价、不分片)，成功后释放归属
+   */
+  private async halt(trigger: HaltTrigger, reason: string, unwind: boolean, actor?: string) {
+    this.circuitBreaker.trip(trigger, reason, actor);
+    await Promise.all([...this.strategies.keys()].map(id => this.stop(id, actor)));
+    if (!this.credentials) return;
+
+    let ordersCleared = false;
+    try {
+      const orders = await this.okx.getOrders('live');
+      let cancelled = 0;
+      for (const order of orders) {
+        try {
+          await this.okx.cancelOrder(order.instId, order.ordId);
+          cancelled++;
+        } catch (e) {
+          this.addLog('error', 'SYSTEM', `[急停] 撤单失败 ${order.instId} ${order.ordId}: ${e instanceof Error ? e.message : 'Unknown'}`, actor);
+        }
+      }
+      if (orders.length > 0) this.addLog('warning', 'SYSTEM', `[急停] 已撤销 ${cancelled}/${orders.length} 笔挂单。`, actor);
+      ordersCleared = cancelled === orders.length;
+    } catch (e) {
+      this.addLog('error', 'SYSTEM', `[急停] 挂单查询失败，未能撤单，请人工检查: ${e instanceof Error ? e.message : 'Unknown'}`, actor);
+    }
+    if (!unwind) return;
+
+    // 挂单、持仓或合约信息查询失败时不能判断是否已全部平仓，不标记 unwound
+    let shorts: Position[];
+    try {
+      if (this.instruments.length === 0) this.instruments = await this.okx.getInstruments('SWAP');
+      if (this.instruments.length === 0) throw new Error('合约信息获取失败');
+      shorts = (await this.okx.getPositions()).filter(p => p.instId.endsWith('-SWAP') && parseFloat(p.pos) < 0);
+    } catch (e) {
+      this.addLog('error', 'SYSTEM', `[急停平仓] 持仓查询失败，未执行平仓: ${e instanceof Error ? e.message : 'Unknown'}`, actor);
+      return;
+    }
+    let failed = 0;
+    let assets: Asset[] | null = null;
+    for (const pos of shorts) {
+      const owner = this.ownership.ownerOf(pos.instId);
+      // AI 择时的单边合约不是套利组合，由人工处理
+      if (owner && stateStore.getStrategy(owner)?.type !== StrategyType.ROTATIONAL_FUNDING) continue;
+      // 无主空头只平套利组合，人工开的裸空与无关的现货持仓不动
+      if (!owner) {
+        if (!assets && !this.positionBook.openTradeId(pos.instId)) {
+          try {
+            assets = await this.okx.getAccountAssets();
+          } catch (e) {
+            this.addLog('error', 'SYSTEM', `[急停平仓] ${pos.instId}: 余额查询失败，无法确认是否为套利组合，未平仓: ${e instanceof Error ? e.message : 'Unknown'}`, actor);
+            failed++;
+            continue;
+          }
+        }
+        if (!this.isArbitragePair(pos, assets, resolveHedgeMonitor().thresholdUsd)) {
+          this.addLog('warning', 'SYSTEM', `[急停平仓] ${pos.instId}: 空头不在账本中且没有对应现货对冲，未平仓，请人工处理。`, actor);
+          continue;
+        }
+      }
+      const swapInfo = this.instruments.find(i => i.instId === pos.instId);
+      if (!swapInfo) {
+        this.addLog('error', 'SYSTEM', `[急停平仓] ${pos.instId}: 缺少合约信息，未平仓。`, actor);
+        failed++;
+        continue;
+      }
+      const res = await this.exitPair(owner, swapInfo, pos);
+      this.addLog(res.success ? 'warning' : 'error', 'SYSTEM', `[急停平仓] ${pos.instId}: ${res.message}`, actor);
+      if (res.success && owner) this.releaseFundingPair(owner, pos.instId);
+      if (!res.success) failed++;
+    }
+    if (failed === 0 && ordersCleared) this.circuitBreaker.markUnwound();
+  }
+
+  /**
+   * 强平风控：检查运行中的资金费策略持有的空头合约与账户保证金率，
+   * 风险升高时暂停新开仓，达到减仓阈值时补充保证金或双边减仓
+   */
+  private async checkRisk() {
+    if (!this.credentials || !this.riskGuard.due()) return;
+    const recovering = new Set(this.legCoordinator.interrupted().map(op => op.swapInstId));
+    const pairs: GuardedPair[] = [...this.strategies.values()]
+      .filter(s => s.running && s.config.type === StrategyType.ROTATIONAL_FUNDING)
+      .flatMap(s => this.ownership.ownedBy(s.config.id)
+        .filter(instId => instId.endsWith('-SWAP') && !recovering.has(instId))
+        .map(instId => ({ instId, strategyId: s.config.id, limits: resolveRiskLimits(s.config.parameters), canTrade: s.config.isTrading })));
+    try {
+      if (pairs.length > 0 && this.instruments.length === 0) {
+        this.instruments = await this.okx.getInstruments('SWAP');
+      }
+      await this.riskGuard.run(this.okx, pairs, this.instruments, (pair, contracts) => this.reducePair(pair, contracts));
+    } catch (e) {
+      this.addLog('error', 'STRATEGY', `[风控] 检查异常: ${e instanceof Error ? e.message : 'Unknown'}`);
+    }
+  }
+
+  /**
+   * 风控减仓：按市价买回指定张数合约并卖出等量现货，成交记入该组合的交易编号
+   * 分片序号取当前秒数，避免多次减仓的 clOrdId 重复
+   */
+  private async reducePair(pair: GuardedPair, contracts: number): Promise<DualSideResult> {
+    const swapInfo = this.instruments.find(i => i.instId === pair.instId);
+    if (!swapInfo) return { success: false, message: `未找到 ${pair.instId} 的合约信息。`, fills: [] };
+    let spot: { spotInstrument: Instrument; spotSz: string } | null;
+    try {
+      spot = await this.okx.prepareDualSideExit(pair.instId);
+    } catch (e) {
+      return { success: false, message: `Exit Error: ${e instanceof Error ? e.message : 'Unknown'}`, fills: [] };
+    }
+    let spotSz: string | null = null;
+    if (spot) {
+      const sz = this.okx.floorLotSize(Math.min(contracts * parseFloat(swapInfo.ctVal), parseFloat(spot.spotSz)), spot.spotInstrument);
+      spotSz = parseFloat(sz) >= parseFloat(spot.spotInstrument.minSz) ? sz : null;
+    }
+    const tradeId = this.positionBook.openTradeId(pair.instId) ?? newTradeId();
+    const slice = Math.floor(Date.now() / 1000) % 100000 || 1;
+    const res = await this.legCoordinator.exitSlice(this.okx, { tradeId, slice }, pair.strategyId, swapInfo, spot?.spotInstrument,
+      contracts, spotSz, resolveLegExecution(undefined));
+    this.positionBook.append(pair.instId, res.fills);
+    this.circuitBreaker.recordExecution(res.success);
+    return res;
+  }
+
+  /**
+   * 对冲监控：检查运行中的资金费策略持有的组合，偏差超过阈值时自动调仓
+   * 中断待恢复的双边执行会自行补齐，不参与监控
+   */
+  private async checkHedges() {
+    if (!this.credentials || !this.hedgeMonitor.due()) return;
+    const recovering = new Set(this.legCoordinator.interrupted().map(op => op.swapInstId));
+    const pairs = [...this.strategies.values()]
+      .filter(s => s.running && s.config.type === StrategyType.ROTATIONAL_FUNDING)
+      .flatMap(s => this.ownership.ownedBy(s.config.id)
+        .filter(instId => instId.endsWith('-SWAP') && !recovering.has(instId))
+        .map(instId => ({ instId, strategyId: s.config.id, settings: resolveHedgeMonitor(s.config.parameters), canTrade: s.config.isTrading })));
+    try {
+      await this.hedgeMonitor.run(this.okx, pairs, instId => this.rebalancePair(instId));
+    } catch (e) {
+      this.addLog('error', 'STRATEGY', `[对冲监控] 检查异常: ${e instanceof Error ? e.message : 'Unknown'}`);
+    }
+  }
+
+  private updateStrategyLastRun(id: string) {
+    const entry = this.strategies.get(id);
+    if (!entry) return;
+    entry.config = { ...entry.config, lastRun: Date.now() };
+    stateStore.patchStrategyRuntime(id, { lastRun: entry.config.lastRun });
+  }
+
+  /** 读取最新配置：循环执行期间策略可能被更新或停止 */
+  private currentConfig(id: string): StrategyConfig | null {
+    const entry = this.strategies.get(id);
+    return entry && entry.running ? entry.config : null;
+  }
+
+  private contextFor(id: string): StrategyContext {
+    return {
+      okx: this.okx,
+      deepseekKey: this.credentials?.deepseekKey ?? '',
+      log: (level, source, message) => this.addLog(level, source, message),
+      // 停止后也视为关闭交易，避免撤单期间继续下单
+      isTrading: () => !!this.currentConfig(id)?.isTrading,
+      claim: (instId) => this.ownership.claim(instId, id),
+      release: (instId) => this.ownership.release(instId, id),
+      ownerOf: (instId) => this.ownership.ownerOf(instId)
+    };
+  }
+
+  /** 资金费率套利同时占用永续与对应现货 (平仓会卖出全部现货余额) */
+  private fundingPair(swapInstId: string): string[] {
+    const parts = swapInstId.split('-');
+    return [swapInstId, `${parts[0]}-${parts[1]}`];
+  }
+
+  private isFundingPairAvailable(strategyId: string, swapInstId: string): boolean {
+    return this.fundingPair(swapInstId).every(instId => this.ownership.isAvailable(instId, strategyId));
+  }
+
+  private claimFundingPair(strategyId: string, swapInstId: string): boolean {
+    if (!this.isFundingPairAvailable(strategyId, swapInstId)) return false;
+    this.fundingPair(swapInstId).forEach(instId => this.ownership.claim(instId, strategyId));
+    return true;
+  }
+
+  private releaseFundingPair(strategyId: string, swapInstId: string) {
+    this.fundingPair(swapInstId).forEach(instId => this.ownership.release(instId, strategyId));
+  }
+
+  /**
+   * 组合敞口检查 (资金费策略每次开仓前调用，含轮动开仓)
+   * @returns 允许的投入金额；被上限拦截或无法查询权益时记录日志并返回 0
+   */
+  private async fitExposure(instId: string, investAmt: number): Promise<number> {
+    let room: Awaited<ReturnType<ExposureBudget['headroom']>>;
+    try {
+      room = await this.exposureBudget.headroom(this.okx, instId, this.instruments);
+    } catch (e) {
+      this.addLog('warning', 'STRATEGY', `[敞口] ${instId} 开仓跳过：权益或持仓查询失败 (${e instanceof Error ? e.message : 'Unknown'})。`);
+      return 0;
+    }
+    if (!room.limit || room.headroom >= investAmt) return investAmt;
+    const label = `${EXPOSURE_LIMIT_LABELS[room.limit]} $${room.capUsd.toFixed(2)}，剩余 $${room.headroom.toFixed(2)}`;
+    if (room.headroom <= MIN_INVEST_USDT) {
+      this.addLog('warning', 'STRATEGY', `[敞口拒绝] ${instId} 拟投入 $${investAmt.toFixed(2)}，受${label}。`);
+      return 0;
+    }
+    this.addLog('info', 'STRATEGY', `[敞口] ${instId} 投入由 $${investAmt.toFixed(2)} 缩小至 $${room.headroom.toFixed(2)} (${label})。`);
+    return room.headroom;
+  }
+
+  /**
+   * 双边开仓：新建交易编号，按策略的执行方式 (市价 / maker) 下单，配置了分片时拆成多片执行。
+   * 成交记入持仓账本 (失败时的部分成交与回滚也要入账)
+   */
+  private async enterPair(strategyId: string, swapInfo: Instrument, investAmt: number): Promise<DualSideResult> {
+    const tradeId = newTradeId();
+    const params = this.currentConfig(strategyId)?.parameters;
+    const execution = resolveLegExecution(params);
+    const slicing = resolveSlicing(params);
+    const book = (fills: LegFill[]) => this.positionBook.open(tradeId, strategyId, swapInfo.instId, parseFloat(swapInfo.ctVal), fills);
+    const res = slicing
+      ? await this.sliceExecutor.enter(this.okx, tradeId, strategyId, swapInfo, investAmt, execution, slicing,
+        { onFills: book, shouldContinue: () => !!this.currentConfig(strategyId)?.isTrading })
+      : await this.legCoordinator.enter(this.okx, tradeId, strategyId, swapInfo, investAmt, execution);
+    if (!slicing) book(res.fills);
+    this.circuitBreaker.recordExecution(res.success);
+    return res;
+  }
+
+  /** 双边平仓：沿用开仓时的交易编号 (账本外的持仓另起编号，仅用于订单标记) */
+  private async exitPair(strategyId: string | undefined, swapInfo: Instrument, pos: Position): Promise<DualSideResult> {
+    const tradeId = this.positionBook.openTradeId(swapInfo.instId) ?? newTradeId();
+    const params = strategyId ? this.currentConfig(strategyId)?.parameters : undefined;
+    const execution = resolveLegExecution(params);
+    const slicing = resolveSlicing(params);
+    const book = (fills: LegFill[]) => this.positionBook.append(swapInfo.instId, fills);
+    const res = slicing
+      ? await this.sliceExecutor.exit(this.okx, tradeId, strategyId, swapInfo, pos.pos, execution, slicing,
+        { onFills: book, shouldContinue: () => !!strategyId && !!this.currentConfig(strategyId)?.isTrading })
+      : await this.legCoordinator.exit(this.okx, tradeId, strategyId, swapInfo, pos.pos, execution);
+    if (!slicing) book(res.fills);
+    this.circuitBreaker.recordExecution(res.success);
+    return res;
+  }
+
+  /**
+   * 恢复进程重启前中断的双边执行，按结果记账并处理持仓归属
+   * 分片执行的其他分片可能已建仓，账本中仍有未平仓记录时保留归属
+   */
+  private async resumeLegOperations() {
+    if (!this.credentials) return;
+    for (const op of this.legCoordinator.interrupted()) {
+      let res;
+      try {
+        res = await this.legCoordinator.resume(this.okx, op);
+      } catch (e) {
+        this.addLog('error', 'SYSTEM', `[双边执行] 恢复 ${op.swapInstId} 失败，下一轮重试: ${e instanceof Error ? e.message : 'Unknown'}`);
+        continue;
+      }
+      if (op.kind === 'entry') {
+        this.positionBook.open(op.tradeId ?? op.id, op.strategyId, op.swapInstId, parseFloat(op.swapInstrument.ctVal), res.fills);
+      } else {
+        this.positionBook.append(op.swapInstId, res.fills);
+      }
+      const stillOpen = !!this.positionBook.openTradeId(op.swapInstId);
+      const released = op.kind === 'entry' ? !res.success && !stillOpen : res.success && !stillOpen;
+      if (released && op.strategyId) this.releaseFundingPair(op.strategyId, op.swapInstId);
+    }
+  }
+
+  /**
+   * 认领无主的空头持仓 (引擎重启前开出的套利仓位)
+   * 只认领账本中有未平仓记录、或现货对冲偏差在调仓阈值内的合约空头；其余可能是人工或其他系统的仓位，记录后不处理
+   */
+  private async adoptOrphanPositions(strategy: StrategyConfig, positions: Position[]) {
+    const orphans = positions.filter(p => p.instId.endsWith('-SWAP') && parseFloat(p.pos) < 0 && !this.ownership.ownerOf(p.instId));
+    let assets: Asset[] | null = null;
+    for (const pos of orphans) {
+      if (!assets && !this.positionBook.openTradeId(pos.instId)) {
+        try {
+          assets = await this.okx.getAccountAssets();
+        } catch (e) {
+          this.addLog('warning', 'STRATEGY', `[持仓归属] 余额查询失败，本轮不认领账本外的持仓: ${e instanceof Error ? e.message : 'Unknown'}`);
+          return;
+        }
+      }
+      const hedged = this.isArbitragePair(pos, assets, resolveHedgeMonitor(strategy.parameters).thresholdUsd);
+      if (!hedged) {
+        if (!this.skippedOrphans.has(pos.instId)) {
+          this.addLog('warning', 'STRATEGY', `[持仓归属] ${pos.instId} 空头不在账本中且没有对应现货对冲，不认领，请人工处理。`);
+          this.skippedOrphans.add(pos.instId);
+        }
+        continue;
+      }
+      this.skippedOrphans.delete(pos.instId);
+      if (this.claimFundingPair(strategy.id, pos.instId)) {
+        this.addLog('info', 'STRATEGY', `[持仓归属] ${strategy.name} 认领无主空头持仓 ${pos.instId}。`);
+      }
+    }
+  }
+
+  /** 空头合约是否属于套利组合：账本中有未平仓记录，或现货余额与合约折算数量的偏差价值在阈值内 (assets 为空时只看账本) */
+  private isArbitragePair(pos: Position, assets: Asset[] | null, thresholdUsd: number): boolean {
+    if (this.positionBook.openTradeId(pos.instId)) return true;
+    const swapInfo = this.instruments.find(i => i.instId === pos.instId);
+    if (!assets || !swapInfo) return false;
+    const spotBalance = assets.find(a => a.currency === pos.instId.split('-')[0])?.balance ?? 0;
+    const { deltaValue } = hedgeDelta(spotBalance, parseFloat(pos.pos), parseFloat(swapInfo.ctVal), parseFloat(pos.markPx));
+    return Math.abs(deltaValue) <= thresholdUsd;
+  }
+
+  private async executeStrategy(strategy: StrategyConfig) {
+    if (!this.credentials) {
+      this.addLog('warning', 'STRATEGY', '策略挂起：未选择凭证配置或凭证库尚未解锁。');
+      this.updateStrategyLastRun(strategy.id);
+      return;
+    }
+
+    switch (strategy.type) {
+      case StrategyType.GRID_TRADING:
+        await this.gridRunner.run(strategy, this.contextFor(strategy.id));
+        this.updateStrategyLastRun(strategy.id);
+        return;
+      case StrategyType.AI_SENTIMENT:
+        await this.sentimentRunner.run(strategy, this.contextFor(strategy.id));
+        this.updateStrategyLastRun(strategy.id);
+        return;
+      default:
+        await this.executeMultiAssetStrategy(strategy);
+    }
+  }
+
+  private async executeMultiAssetStrategy(strategy: StrategyConfig) {
+
+    const isConfigValid = await this.okx.checkAccountConfiguration();
+    if (!isConfigValid) {
+      this.addLog('error', 'STRATEGY', '策略拦截：账户模式不兼容，请切换为“跨币种保证金模式”后再启动。');
+      this.stop(strategy.id);
+      return;
+    }
+
+    if (this.instruments.length === 0) {
+      this.instruments = await this.okx.getInstruments('SWAP');
+    }
+
+    this.addLog('info', 'STRATEGY', `[雷达扫描] 正在全市场搜寻套利机会...`);
+
+    const [allTickers, spotInsts] = await Promise.all([
+      this.okx.getMarketTickers().catch(() => [] as TickerData[]),
+      this.okx.getInstruments('SPOT')
+    ]);
+
+    if (allTickers.length === 0 || spotInsts.length === 0) {
+      this.addLog('warning', 'STRATEGY', '扫描中止：行情或现货列表获取失败 (可能被限频)，下一轮重试。');
+      this.updateStrategyLastRun(strategy.id);
+      return;
+    }
+
+    const params = resolveFundingParams(strategy.parameters);
+    const sortedByVol = filterTradeableSwaps(allTickers, spotInsts.map(si => si.instId), params);
+
+    // rateAverageHours > 0 时按本地费率历史的滚动平均筛选与排序，没有历史的标的回退到即时费率
+    const scoreRate = (instId: string, instant: number): number =>
+      rankingRate(fundingRateStore.get(instId), instant, params.rateAverageHours, Date.now()).rate;
+
+    const topCandidates: TickerData[] = [];
+    const failedRates: string[] = [];
+    for (const cand of sortedByVol) {
+      try {
+        const rate = scoreRate(cand.instId, parseFloat(await this.okx.getFundingRate(cand.instId)));
+        if (meetsEntryRate(rate, params)) topCandidates.push({ ...cand, fundingRate: rate.toString() });
+      } catch (e) {
+        failedRates.push(cand.instId);
+      }
+      if (topCandidates.length >= MAX_QUEUE_CANDIDATES) break;
+    }
+    if (failedRates.length > 0) {
+      this.addLog('warning', 'STRATEGY', `[雷达扫描] ${failedRates.length} 个标的资金费率获取失败，本轮结果不完整: ${failedRates.slice(0, 5).join(', ')}${failedRates.length > 5 ? ' ...' : ''}`);
+    }
+
+    if (topCandidates.length === 0) {
+      this.addLog('info', 'STRATEGY', '扫描结束：当前市场暂无高收益标的。');
+      this.updateStrategyLastRun(strategy.id);
+      return;
+    }
+
+    let finalTradeQueue = rankByFundingRate(topCandidates);
+    if (strategy.parameters.useAI) {
+      const analysis = await analyzeMarketConditions(topCandidates.slice(0, 10), strategy.name, this.credentials?.deepseekKey ?? '');
+      this.lastAnalysis = analysis;
+      stateStore.appendAnalysis(strategy.id, analysis);
+      if (analysis.recommendedAction === 'BUY' && analysis.suggestedPairs.length > 0) {
+        finalTradeQueue = analysis.suggestedPairs
+          .map(pair => topCandidates.find(t => t.instId === pair))
+          .filter((t): t is TickerData => !!t);
+        this.addLog('success', 'AI', `AI 审核通过：发现 ${finalTradeQueue.length} 个优质标的。`);
+      } else {
+        this.addLog('warning', 'AI', `AI 建议观望：${analysis.reasoning}`);
+        this.updateStrategyLastRun(strategy.id);
+        return;
+      }
+    }
+
+    const positions = await this.okx.getPositions();
+    await this.adoptOrphanPositions(strategy, positions.filter(p => parseFloat(p.pos) !== 0));
+    const currentPositions = positions.filter(p => parseFloat(p.pos) !== 0 && this.ownership.ownerOf(p.instId) === strategy.id);
+    const heldRates = new Map<string, number>();
+    for (const pos of currentPositions) {
+      let currentRate: number;
+      try {
+        currentRate = parseFloat(await this.okx.getFundingRate(pos.instId));
+      } catch (e) {
+        this.addLog('warning', 'STRATEGY', `[持仓检查] ${pos.instId} 资金费率获取失败，本轮跳过出场判断: ${e instanceof Error ? e.message : 'Unknown'}`);
+        continue;
+      }
+      heldRates.set(pos.instId, scoreRate(pos.instId, currentRate));
+      if (shouldExit(currentRate, params)) {
+        if (!this.currentConfig(strategy.id)?.isTrading) {
+          this.addLog('warning', 'STRATEGY', `[模拟信号] ${pos.instId} 费率降至 ${(currentRate*100).toFixed(4)}%，触发出场条件 (交易开关关闭)。`);
+          continue;
+        }
+        this.addLog('warning', 'STRATEGY', `[退出执行] ${pos.instId} 费率低，执行平仓。`);
+        const instInfo = this.instruments.find(i => i.instId === pos.instId);
+        if (instInfo) {
+          const res = await this.exitPair(strategy.id, instInfo, pos);
+          if (res.success) this.releaseFundingPair(strategy.id, pos.instId);
+        }
+      }
+    }
+
+    // 强平风控暂停期间仍执行出场，不再开仓或轮动
+    if (this.riskGuard.entriesPaused(strategy.id)) {
+      this.addLog('warning', 'STRATEGY', '[风控] 强平距离或保证金率低于阈值，本轮跳过开仓与轮动。');
+      this.updateStrategyLastRun(strategy.id);
+      return;
+    }
+
+    const updatedPos = await this.okx.getPositions();
+    const ownedPos = updatedPos.filter(p => parseFloat(p.pos) !== 0 && this.ownership.ownerOf(p.instId) === strategy.id);
+    const activeCount = ownedPos.length;
+    // 其他策略占用的标的不参与入场与轮动
+    const availableQueue = finalTradeQueue.filter(t => this.isFundingPairAvailable(strategy.id, t.instId));
+
+    if (activeCount >= params.maxPositions) {
+      const held = ownedPos
+        .filter(p => heldRates.has(p.instId))
+        .map(p => ({ instId: p.instId, fundingRate: heldRates.get(p.instId)! }));
+      const fees = await this.pairFeeRates(strategy);
+      const plans = planRotations(availableQueue, held, params, rotationFeeRate(fees.spot, fees.swap));
+      await this.executeRotations(strategy.id, plans, updatedPos, params);
+      this.updateStrategyLastRun(strategy.id);
+      return;
+    }
+
+    const newEntries = planEntries(availableQueue, updatedPos.filter(p => parseFloat(p.pos) !== 0).map(p => p.instId), activeCount, params);
+
+    if (newEntries.length > 0) {
+      const assets = await this.okx.getAccountAssets();
+      const usdtAsset = assets.find(a => a.currency === 'USDT');
+      let remainingUsdtCash = usdtAsset ? usdtAsset.available : 0;
+
+      for (const target of newEntries) {
+        const swapInfo = this.instruments.find(i => i.instId === target.instId);
+        const investAmt = swapInfo
+          ? await this.sizeForLiquidity(strategy, swapInfo, parseFloat(target.fundingRate), computeInvestAmount(remainingUsdtCash, params))
+          : 0;
+
+        if (swapInfo && investAmt > MIN_INVEST_USDT) {
+          const latest = this.currentConfig(strategy.id);
+          if (!latest) break; // 执行期间策略已被停止
+          if (!latest.isTrading) {
+            this.addLog('info', 'STRATEGY', `[模拟入场] 标的: ${target.instId}, 费率: ${(parseFloat(target.fundingRate)*100).toFixed(4)}%, 拟投入: $${investAmt.toFixed(2)} (交易未开启)`);
+            continue;
+          }
+
+          // 增加抖动延时
+          await new Promise(r => setTimeout(r, Math.random() * 2000 + 3000));
+
+          const allowedAmt = await this.fitExposure(target.instId, investAmt);
+          if (allowedAmt <= MIN_INVEST_USDT) continue;
+          if (!this.claimFundingPair(strategy.id, target.instId)) continue;
+          this.addLog('info', 'STRATEGY', `[入场决策] 标的: ${target.instId}, 拟分配 USDT: $${allowedAmt.toFixed(2)}`);
+          const res = await this.enterPair(strategy.id, swapInfo, allowedAmt);
+
+          if (res.success) {
+            this.addLog('success', 'STRATEGY', res.message);
+            remainingUsdtCash -= allowedAmt;
+          } else {
+            this.releaseFundingPair(strategy.id, target.instId);
+            this.addLog('error', 'STRATEGY', `执行失败: ${res.message}`);
+          }
+        }
+      }
+    }
+
+    this.updateStrategyLastRun(strategy.id);
+  }
+
+  /** 账户实际费率 (按 VIP 等级)；maker 执行方式按 maker 费率估算，否则按 taker */
+  private async pairFeeRates(strategy: StrategyConfig): Promise<{ spot: number; swap: number }> {
+    const [spot, swap] = await Promise.all([this.okx.getTradeFeeRates('SPOT'), this.okx.getTradeFeeRates('SWAP')]);
+    const side = resolveLegExecution(strategy.parameters).mode === 'maker' ? 'maker' : 'taker';
+    return { spot: spot[side], swap: swap[side] };
+  }
+
+  /**
+   * 开仓前按盘口预估两条腿的滑点：往返成本 (滑点 + 手续费) 超过持有期预期资金费收入的上限时缩小投入，
+   * 缩到最小投入仍超限则跳过该标的 (返回 0)
+   */
+  private async sizeForLiquidity(strategy: StrategyConfig, swapInfo: Instrument, fundingRate: number, investAmt: number): Promise<number> {
+    const limits = resolveEntryCostLimits(strategy.parameters);
+    if (limits.maxCostToFunding <= 0 || investAmt <= MIN_INVEST_USDT) return investAmt;
+
+    const [base, quote] = swapInfo.instId.split('-');
+    let books;
+    try {
+      books = await Promise.all([this.okx.getOrderBook(`${base}-${quote}`, ORDER_BOOK_DEPTH), this.okx.getOrderBook(swapInfo.instId, ORDER_BOOK_DEPTH)]);
+    } catch (e) {
+      this.addLog('warning', 'STRATEGY', `[深度检查] ${swapInfo.instId} 盘口获取失败，跳过：${e instanceof Error ? e.message : 'Unknown'}`);
+      return 0;
+    }
+    const fees = await this.pairFeeRates(strategy);
+    const settings = {
+      fundingRate,
+      holdPeriods: limits.holdPeriods,
+      ctVal: parseFloat(swapInfo.ctVal),
+      slices: resolveSlicing(strategy.parameters)?.count,
+      spotFeeRate: fees.spot,
+      swapFeeRate: fees.swap
+    };
+    const { approved, last } = fitEntrySize(investAmt, MIN_INVEST_USDT, limits.maxCostToFunding,
+      amount => estimateEntryCost(books[0], books[1], amount, settings));
+
+    const pct = (v: number) => isFinite(v) ? `${(v * 100).toFixed(3)}%` : '深度不足';
+    const describe = (e: EntryCostEstimate) =>
+      `滑点 现货 ${pct(e.spotEntry.slippage)} / 合约 ${pct(e.swapEntry.slippage)}，往返成本 ${pct(e.costRate)}，` +
+      `${limits.holdPeriods} 次结算预期资金费 ${pct(e.expectedFundingRate)}`;
+    if (!approved) {
+      this.addLog('warning', 'STRATEGY', `[深度检查] ${swapInfo.instId} 跳过：$${last.investAmt.toFixed(2)} 时${describe(last)}，` +
+        `成本超过预期收入的 ${(limits.maxCostToFunding * 100).toFixed(0)}%。`);
+      return 0;
+    }
+    if (approved.investAmt < investAmt) {
+      this.addLog('warning', 'STRATEGY', `[深度检查] ${swapInfo.instId} 盘口承接不足，投入由 $${investAmt.toFixed(2)} 缩减至 $${approved.investAmt.toFixed(2)}：${describe(approved)}。`);
+    } else {
+      this.addLog('info', 'STRATEGY', `[深度检查] ${swapInfo.instId} 通过：${describe(approved)}。`);
+    }
+    return approved.investAmt;
+  }
+
+  /** 仓位已满时执行轮动：先平最弱的一对，再以释放的资金开新仓 */
+  private async executeRotations(strategyId: string, plans: RotationPlan[], positions: Position[], params: FundingParams) {
+    for (const plan of plans) {
+      const target = plan.enter;
+      const summary = `${plan.exitInstId} (${(plan.exitRate*100).toFixed(4)}%) → ${target.instId} (${(parseFloat(target.fundingRate)*100).toFixed(4)}%)，` +
+        `费率提升 ${(plan.rateGain*100).toFixed(4)}%，扣费后净提升 ${(plan.netGain*100).toFixed(4)}%，预计 ${plan.breakEvenHours.toFixed(1)}h 回本手续费`;
+
+      const latest = this.currentConfig(strategyId);
+      if (!latest) return;
+      if (!latest.isTrading) {
+        this.addLog('info', 'STRATEGY', `[模拟轮动] ${summary} (交易未开启)`);
+        continue;
+      }
+
+      const pos = positions.find(p => p.instId === plan.exitInstId);
+      const exitInfo = this.instruments.find(i => i.instId === plan.exitInstId);
+      const enterInfo = this.instruments.find(i => i.instId === target.instId);
+      if (!pos || !exitInfo || !enterInfo) continue;
+
+      this.addLog('warning', 'STRATEGY', `[轮动决策] ${summary}`);
+      const exitRes = await this.exitPair(strategyId, exitInfo, pos);
+      if (!exitRes.success) {
+        this.addLog('error', 'STRATEGY', `轮动中止，平仓失败: ${exitRes.message}`);
+        return;
+      }
+      this.releaseFundingPair(strategyId, plan.exitInstId);
+
+      const assets = await this.okx.getAccountAssets();
+      const usdtAsset = assets.find(a => a.currency === 'USDT');
+      const investAmt = computeInvestAmount(usdtAsset ? usdtAsset.available : 0, params);
+      if (investAmt <= MIN_INVEST_USDT) {
+        this.addLog('warning', 'STRATEGY', `轮动开仓跳过：可用资金不足 ($${investAmt.toFixed(2)})。`);
+        continue;
+      }
+      const sizedAmt = await this.sizeForLiquidity(latest, enterInfo, parseFloat(target.fundingRate), investAmt);
+      if (sizedAmt <= MIN_INVEST_USDT) continue;
+
+      const allowedAmt = await this.fitExposure(target.instId, sizedAmt);
+      if (allowedAmt <= MIN_INVEST_USDT) continue;
+      if (!this.claimFundingPair(strategyId, target.instId)) continue;
+      const res = await this.enterPair(strategyId, enterInfo, allowedAmt);
+      if (res.success) {
+        this.addLog('success', 'STRATEGY', `[轮动完成] ${res.message}`);
+      } else {
+        this.releaseFundingPair(strategyId, target.instId);
+        this.addLog('error', 'STRATEGY', `轮动开仓失败: ${res.message}`);
+      }
+    }
+  }
+}
+
+export const strategyEngine = new StrategyEngine();
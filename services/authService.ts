@@ -0,0 +1,55 @@
+import { AuthStatus, AuthUser, UserRole } from '../types';
+
+/**
+ * 登录与用户管理客户端。
+ * 会话令牌保存在 HttpOnly Cookie 中，同源请求自动携带。
+ */
+const authRequest = async (endpoint: string, method: 'GET' | 'POST' | 'DELETE' = 'GET', body?: any) => {
+  const res = await fetch(`/api/auth${endpoint}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const json = await res.json();
+  if (json.code !== '0') {
+    throw new Error(`Auth API Error (${json.code}): ${json.msg}`);
+  }
+  return json.data;
+};
+
+export const fetchAuthStatus = async (): Promise<AuthStatus> => {
+  return authRequest('/status');
+};
+
+export const login = async (username: string, password: string): Promise<AuthStatus> => {
+  return authRequest('/login', 'POST', { username, password });
+};
+
+/** 创建首个 trader 账户 (仅在尚无用户时可用) */
+export const setupFirstUser = async (username: string, password: string): Promise<AuthStatus> => {
+  return authRequest('/setup', 'POST', { username, password });
+};
+
+export const logout = async (): Promise<void> => {
+  await authRequest('/logout', 'POST');
+};
+
+export const fetchUsers = async (): Promise<AuthUser[]> => {
+  return authRequest('/users');
+};
+
+export const createUser = async (username: string, password: string, role: UserRole): Promise<AuthUser> => {
+  return authRequest('/users', 'POST', { username, password, role });
+};
+
+export const deleteUser = async (username: string): Promise<void> => {
+  await authRequest(`/users/${encodeURIComponent(username)}`, 'DELETE');
+};
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, operator: 1, trader: 2 };
+
+export const USER_ROLES = Object.keys(ROLE_RANK) as UserRole[];
+
+/** 角色逐级包含：trader ⊃ operator ⊃ viewer (前后端共用) */
+export const hasRole = (user: AuthUser | null | undefined, role: UserRole): boolean =>
+  !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
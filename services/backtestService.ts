@@ -0,0 +1,301 @@
+import {
+  StrategyConfig, TickerData, FundingHistoryRow, BacktestSettings, BacktestResult, BacktestTrade, FundingRateSeries
+} from '../types';
+import {
+  resolveFundingParams, filterTradeableSwaps, selectTopCandidates, shouldExit, planEntries, planRotations,
+  rotationFeeRate, computeInvestAmount, planDualSideEntry, ENTRY_LEG_SPLIT, MIN_INVEST_USDT
+} from './fundingStrategyLogic';
+import { rankingRate } from './fundingHistoryLogic';
+
+export const DEFAULT_BACKTEST_SETTINGS: BacktestSettings = {
+  initialCapital: 10000,
+  spotFeeRate: 0.001,
+  swapFeeRate: 0.0005,
+  fundingIntervalHours: 8,
+};
+
+const COLUMN_ALIASES: Record<keyof FundingHistoryRow, string[]> = {
+  ts: ['ts', 'timestamp', 'time'],
+  instId: ['instid', 'inst_id', 'symbol'],
+  price: ['price', 'last', 'swapprice'],
+  fundingRate: ['fundingrate', 'funding_rate', 'rate'],
+  volUsdt24h: ['volusdt24h', 'volume', 'vol24h'],
+  spotPrice: ['spotprice', 'spot_price'],
+  ctVal: ['ctval', 'ct_val'],
+};
+
+const parseTimestamp = (value: any): number => {
+  if (typeof value === 'number') return value;
+  const str = String(value).trim();
+  if (/^\d+$/.test(str)) return parseInt(str);
+  const parsed = Date.parse(str);
+  if (isNaN(parsed)) throw new Error(`无法解析时间戳: ${str}`);
+  return parsed;
+};
+
+const normalizeRow = (raw: Record<string, any>, line: number): FundingHistoryRow => {
+  const lookup: Record<string, any> = {};
+  Object.keys(raw).forEach(k => { lookup[k.trim().toLowerCase()] = raw[k]; });
+  const pick = (field: keyof FundingHistoryRow) => {
+    const key = COLUMN_ALIASES[field].find(alias => lookup[alias] !== undefined && lookup[alias] !== '');
+    return key ? lookup[key] : undefined;
+  };
+
+  const ts = pick('ts');
+  const instId = pick('instId');
+  const price = parseFloat(pick('price'));
+  const fundingRate = parseFloat(pick('fundingRate'));
+  const volUsdt24h = parseFloat(pick('volUsdt24h'));
+  if (ts === undefined || !instId || isNaN(price) || isNaN(fundingRate) || isNaN(volUsdt24h)) {
+    throw new Error(`第 ${line} 行缺少必需字段 (ts, instId, price, fundingRate, volUsdt24h)`);
+  }
+
+  const spotPrice = parseFloat(pick('spotPrice'));
+  const ctVal = parseFloat(pick('ctVal'));
+  return {
+    ts: parseTimestamp(ts),
+    instId: String(instId).trim(),
+    price,
+    fundingRate,
+    volUsdt24h,
+    spotPrice: isNaN(spotPrice) ? undefined : spotPrice,
+    ctVal: isNaN(ctVal) ? undefined : ctVal,
+  };
+};
+
+/**
+ * 解析历史数据文件 (CSV 或 JSON 数组)。
+ * 必需列: ts, instId, price, fundingRate, volUsdt24h；可选列: spotPrice, ctVal
+ */
+export const parseFundingHistory = (text: string, fileName: string = ''): FundingHistoryRow[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[')) {
+    const data = JSON.parse(trimmed);
+    if (!Array.isArray(data)) throw new Error('JSON 文件须为数组格式');
+    return data.map((row, i) => normalizeRow(row, i + 1));
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter(l => l.trim() !== '');
+  const header = lines[0].split(',').map(h => h.trim());
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(',');
+    const raw: Record<string, string> = {};
+    header.forEach((h, idx) => { raw[h] = (cells[idx] || '').trim(); });
+    return normalizeRow(raw, i + 2);
+  });
+};
+
+interface SimPosition {
+  instId: string;
+  spotQty: number; // 扣除手续费后的现货持仓
+  swapQty: number; // 空头合约折合币数量
+  entryPx: number; // 永续开仓价
+  margin: number; // 1x 全仓占用保证金
+  fundingEarned: number;
+}
+
+interface MarketState {
+  price: number;
+  spotPrice: number;
+  fundingRate: number;
+  ctVal?: number;
+}
+
+/**
+ * 资金费率轮动策略回测。
+ * 每个时间截面视为一次雷达扫描：先按 exitThreshold 出场，仓位已满时按 rotationThreshold 轮动，再按与实盘相同的规则填补空仓位。
+ * 资金费在 UTC 对齐的结算点按上一截面的费率与价格结算，空头在正费率下收取。
+ * rateAverageHours > 0 时与实盘一样按回测中已结算费率的滚动平均筛选、排序与比较轮动 (出场仍看即时费率)。
+ * 注意：回测不调用 AI 审核 (useAI 被忽略)，也不做开仓前的盘口深度检查 (maxEntryCostPct 被忽略)，
+ * 按成交价无滑点成交，投入金额不会因盘口不足而缩减。
+ */
+export const runFundingBacktest = (
+  rows: FundingHistoryRow[],
+  strategy: StrategyConfig,
+  settings: BacktestSettings = DEFAULT_BACKTEST_SETTINGS
+): BacktestResult => {
+  const params = resolveFundingParams(strategy.parameters);
+  const intervalMs = settings.fundingIntervalHours * 60 * 60 * 1000;
+
+  const snapshots = new Map<number, FundingHistoryRow[]>();
+  rows.forEach(r => {
+    const bucket = snapshots.get(r.ts) || [];
+    bucket.push(r);
+    snapshots.set(r.ts, bucket);
+  });
+  const timeline = [...snapshots.keys()].sort((a, b) => a - b);
+
+  // 假设数据集中出现的每个永续都有对应现货
+  const spotInstIds = [...new Set(rows.map(r => r.instId.split('-').slice(0, 2).join('-')))];
+
+  const market = new Map<string, MarketState>();
+  const settled = new Map<string, FundingRateSeries>(); // 回测中已结算的费率，供滚动平均使用
+  const positions = new Map<string, SimPosition>();
+  const trades: BacktestTrade[] = [];
+  const equityCurve: { ts: number; equity: number }[] = [];
+
+  let cash = settings.initialCapital;
+  let fundingIncome = 0;
+  let feesPaid = 0;
+  let turnover = 0;
+  let settlements = 0;
+  let rotations = 0;
+  let peak = settings.initialCapital;
+  let maxDrawdownPct = 0;
+  let prevTs: number | null = null;
+
+  const closePosition = (pos: SimPosition, ts: number) => {
+    const m = market.get(pos.instId)!;
+    const spotNotional = pos.spotQty * m.spotPrice;
+    const swapNotional = pos.swapQty * m.price;
+    const spotFee = spotNotional * settings.spotFeeRate;
+    const swapFee = swapNotional * settings.swapFeeRate;
+    const swapPnl = (pos.entryPx - m.price) * pos.swapQty;
+
+    cash += spotNotional - spotFee + swapPnl - swapFee;
+    feesPaid += spotFee + swapFee;
+    turnover += spotNotional + swapNotional;
+    positions.delete(pos.instId);
+    trades.push({ ts, instId: pos.instId, action: 'EXIT', price: m.price, notional: spotNotional + swapNotional, fee: spotFee + swapFee, fundingEarned: pos.fundingEarned });
+  };
+
+  const openPosition = (instId: string, investAmt: number, ts: number): boolean => {
+    const m = market.get(instId)!;
+    let swapQty: number;
+    let buyQty: number;
+    if (m.ctVal) {
+      const plan = planDualSideEntry(investAmt, m.price, m.ctVal, settings.spotFeeRate);
+      if (plan.maxContracts < 1) return false;
+      swapQty = plan.targetSpotQty;
+      buyQty = plan.rawBuySize;
+    } else {
+      swapQty = (investAmt * ENTRY_LEG_SPLIT) / m.price;
+      buyQty = swapQty / (1 - settings.spotFeeRate);
+    }
+
+    const spotCost = buyQty * m.spotPrice;
+    const spotFee = spotCost * settings.spotFeeRate; // 以币扣除，折算为 USDT 计入费用
+    const swapNotional = swapQty * m.price;
+    const swapFee = swapNotional * settings.swapFeeRate;
+
+    cash -= spotCost + swapFee;
+    feesPaid += spotFee + swapFee;
+    turnover += spotCost + swapNotional;
+    positions.set(instId, { instId, spotQty: swapQty, swapQty, entryPx: m.price, margin: swapNotional, fundingEarned: 0 });
+    trades.push({ ts, instId, action: 'ENTRY', price: m.price, notional: spotCost + swapNotional, fee: spotFee + swapFee });
+    return true;
+  };
+
+  const availableCash = (): number => {
+    let lockedMargin = 0;
+    positions.forEach(pos => { lockedMargin += pos.margin; });
+    return Math.max(0, cash - lockedMargin);
+  };
+
+  const markToMarket = (): number => {
+    let equity = cash;
+    positions.forEach(pos => {
+      const m = market.get(pos.instId)!;
+      equity += pos.spotQty * m.spotPrice + (pos.entryPx - m.price) * pos.swapQty;
+    });
+    return equity;
+  };
+
+  const recordSettlement = (instId: string, fundingTime: number, rate: number) => {
+    let series = settled.get(instId);
+    if (!series) {
+      series = { instId, points: [], predictedRate: null, nextRate: null, nextFundingTime: null, updatedAt: fundingTime };
+      settled.set(instId, series);
+    }
+    series.points.push({ fundingTime, rate });
+  };
+
+  for (const ts of timeline) {
+    // 1. 结算 (prevTs, ts] 区间内的资金费
+    if (prevTs !== null) {
+      for (let boundary = Math.floor(prevTs / intervalMs) * intervalMs + intervalMs; boundary <= ts; boundary += intervalMs) {
+        positions.forEach(pos => {
+          const m = market.get(pos.instId)!;
+          const payment = pos.swapQty * m.price * m.fundingRate;
+          cash += payment;
+          fundingIncome += payment;
+          pos.fundingEarned += payment;
+        });
+        if (params.rateAverageHours > 0) market.forEach((m, instId) => recordSettlement(instId, boundary, m.fundingRate));
+        settlements++;
+      }
+    }
+    const scoreRate = (instId: string, instant: number): number =>
+      rankingRate(settled.get(instId), instant, params.rateAverageHours, ts).rate;
+
+    // 2. 更新行情截面
+    const snapshot = snapshots.get(ts)!;
+    snapshot.forEach(r => {
+      market.set(r.instId, {
+        price: r.price,
+        spotPrice: r.spotPrice ?? r.price,
+        fundingRate: r.fundingRate,
+        ctVal: r.ctVal ?? market.get(r.instId)?.ctVal,
+      });
+    });
+
+    // 3. 出场检查
+    [...positions.values()].forEach(pos => {
+      if (shouldExit(market.get(pos.instId)!.fundingRate, params)) closePosition(pos, ts);
+    });
+
+    // 4. 入场：与实盘相同的候选筛选与仓位分配
+    const tickers: TickerData[] = snapshot.map(r => ({
+      instId: r.instId,
+      last: r.price.toString(),
+      fundingRate: scoreRate(r.instId, r.fundingRate).toString(),
+      volCcy24h: (r.volUsdt24h / r.price).toString(),
+      volUsdt24h: r.volUsdt24h.toString(),
+      ts: r.ts.toString(),
+    }));
+    const queue = selectTopCandidates(filterTradeableSwaps(tickers, spotInstIds, params), params);
+
+    // 4.1 仓位已满：按 rotationThreshold 轮动
+    if (positions.size >= params.maxPositions) {
+      const held = [...positions.values()].map(pos => ({ instId: pos.instId, fundingRate: scoreRate(pos.instId, market.get(pos.instId)!.fundingRate) }));
+      planRotations(queue, held, params, rotationFeeRate(settings.spotFeeRate, settings.swapFeeRate)).forEach(plan => {
+        closePosition(positions.get(plan.exitInstId)!, ts);
+        const investAmt = computeInvestAmount(availableCash(), params);
+        if (investAmt > MIN_INVEST_USDT && openPosition(plan.enter.instId, investAmt, ts)) rotations++;
+      });
+    }
+
+    // 4.2 填补空仓位
+    const newEntries = planEntries(queue, [...positions.keys()], positions.size, params);
+    let remainingUsdtCash = availableCash();
+    for (const target of newEntries) {
+      const investAmt = computeInvestAmount(remainingUsdtCash, params);
+      if (investAmt <= MIN_INVEST_USDT) continue;
+      if (openPosition(target.instId, investAmt, ts)) remainingUsdtCash -= investAmt;
+    }
+
+    // 5. 记录权益曲线与回撤
+    const equity = markToMarket();
+    equityCurve.push({ ts, equity });
+    peak = Math.max(peak, equity);
+    if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, ((peak - equity) / peak) * 100);
+    prevTs = ts;
+  }
+
+  const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : settings.initialCapital;
+  return {
+    equityCurve,
+    finalEquity,
+    totalReturnPct: settings.initialCapital > 0 ? ((finalEquity - settings.initialCapital) / settings.initialCapital) * 100 : 0,
+    fundingIncome,
+    feesPaid,
+    turnover,
+    maxDrawdownPct,
+    settlements,
+    rotations,
+    openPositions: [...positions.keys()],
+    trades,
+  };
+};
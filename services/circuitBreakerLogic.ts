@@ -0,0 +1,73 @@
+import { BreakerReadings, BreakerSettings, HaltTrigger } from '../types';
+
+/**
+ * 熔断规则 (无 IO)
+ * 四类异常触发全局急停：当日权益回撤、短时间内多次双边执行失败、交易所延迟持续偏高、行情数据停止更新。
+ * 延迟与行情检查需要连续多次超限才触发，避免单次抖动停掉所有策略。
+ */
+
+export const BREAKER_CHECK_INTERVAL_MS = 30 * 1000;
+export const EXECUTION_ERROR_WINDOW_MS = 30 * 60 * 1000;
+export const BREAKER_STRIKES = 3; // 延迟与行情需要连续超限的检查次数
+
+export const DEFAULT_BREAKER_SETTINGS: BreakerSettings = {
+  dailyLossLimitPct: 5,
+  maxExecutionErrors: 3,
+  maxLatencyMs: 2000,
+  staleDataSec: 120
+};
+
+const nonNegative = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+export const resolveBreakerSettings = (settings?: Partial<BreakerSettings>): BreakerSettings => ({
+  dailyLossLimitPct: nonNegative(settings?.dailyLossLimitPct, DEFAULT_BREAKER_SETTINGS.dailyLossLimitPct),
+  maxExecutionErrors: Math.floor(nonNegative(settings?.maxExecutionErrors, DEFAULT_BREAKER_SETTINGS.maxExecutionErrors)),
+  maxLatencyMs: nonNegative(settings?.maxLatencyMs, DEFAULT_BREAKER_SETTINGS.maxLatencyMs),
+  staleDataSec: nonNegative(settings?.staleDataSec, DEFAULT_BREAKER_SETTINGS.staleDataSec)
+});
+
+/** 日亏损按 UTC 自然日计算 (与 OKX 的日切一致) */
+export const utcDay = (now: number): string => new Date(now).toISOString().slice(0, 10);
+
+/** 相对日初权益的回撤百分比，正数为亏损 */
+export const dailyLossPct = (dayStartEquity: number, equity: number): number =>
+  dayStartEquity > 0 ? ((dayStartEquity - equity) / dayStartEquity) * 100 : 0;
+
+/** 只保留统计窗口内的执行失败时间 */
+export const pruneExecutionErrors = (history: number[], now: number): number[] =>
+  history.filter(t => now - t < EXECUTION_ERROR_WINDOW_MS);
+
+/**
+ * 按读数判断是否熔断
+ * @param strikes 延迟与行情连续超限的次数 (含本次)
+ * @returns 第一个触发的熔断及原因，没有触发时返回 null
+ */
+export const breakerTrip = (
+  readings: BreakerReadings,
+  strikes: { latency: number; staleData: number },
+  settings: BreakerSettings
+): { trigger: HaltTrigger; reason: string } | null => {
+  if (settings.dailyLossLimitPct > 0 && readings.dailyLossPct >= settings.dailyLossLimitPct) {
+    return { trigger: 'daily_loss', reason: `当日权益回撤 ${readings.dailyLossPct.toFixed(2)}%，超过上限 ${settings.dailyLossLimitPct}%` };
+  }
+  if (settings.maxExecutionErrors > 0 && readings.recentErrors >= settings.maxExecutionErrors) {
+    return { trigger: 'execution_errors', reason: `30 分钟内双边执行失败 ${readings.recentErrors} 次` };
+  }
+  if (settings.maxLatencyMs > 0 && strikes.latency >= BREAKER_STRIKES) {
+    const latency = readings.latencyMs === null ? '请求失败' : `${readings.latencyMs}ms`;
+    return { trigger: 'latency', reason: `交易所延迟连续 ${strikes.latency} 次超过 ${settings.maxLatencyMs}ms (最近 ${latency})` };
+  }
+  if (settings.staleDataSec > 0 && strikes.staleData >= BREAKER_STRIKES) {
+    const age = readings.dataAgeSec === null ? '没有行情数据' : `最新行情 ${readings.dataAgeSec.toFixed(0)} 秒前`;
+    return { trigger: 'stale_data', reason: `行情连续 ${strikes.staleData} 次未更新 (${age})` };
+  }
+  return null;
+};
+
+/** 本次读数是否计入延迟 / 行情的连续超限次数 */
+export const latencyExceeded = (latencyMs: number | null, settings: BreakerSettings): boolean =>
+  settings.maxLatencyMs > 0 && (latencyMs === null || latencyMs > settings.maxLatencyMs);
+
+export const dataStale = (dataAgeSec: number | null, settings: BreakerSettings): boolean =>
+  settings.staleDataSec > 0 && (dataAgeSec === null || dataAgeSec > settings.staleDataSec);
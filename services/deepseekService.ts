@@ -1,4 +1,5 @@
-import { AIAnalysisResult, TickerData } from '../types';
+import { AIAnalysisResult, TickerData, SentimentFeatures, SentimentSignal, SentimentAnalysisResult } from '../types';
+import { MAINSTREAM_COINS } from '../constants';
 
 /**
  * 使用 DeepSeek API 批量分析市场标的。
@@ -18,9 +19,6 @@ export const analyzeMarketConditions = async (
     };
   }
 
-  // 定义主流币列表 (Mainstream Coins)
-  const mainstreamCoins = ['BTC', 'ETH', 'SOL', 'BNB', 'XRP', 'OKB'];
-
   const formattedCandidates = marketData.map(t => {
       const volumeInMillions = parseFloat(t.volUsdt24h) / 1e6;
       return {
@@ -28,7 +26,7 @@ export const analyzeMarketConditions = async (
           fundingRate: `${(parseFloat(t.fundingRate)*100).toFixed(4)}%`,
           // 关键修改：发送纯数字，单位为百万 (Million)，消除 AI 对字符串 "$900M" 的解析歧义
           turnoverMillions: parseFloat(volumeInMillions.toFixed(2)), 
-          isMainstream: mainstreamCoins.some(coin => t.instId.startsWith(`${coin}-`))
+          isMainstream: MAINSTREAM_COINS.some(coin => t.instId.startsWith(`${coin}-`))
       };
   });
 
@@ -89,4 +87,103 @@ export const analyzeMarketConditions = async (
       suggestedPairs: []
     };
   }
-};
\ No newline at end of file
+};
+
+const clamp = (value: any, min: number, max: number, fallback: number): number => {
+  const n = parseFloat(value);
+  return isNaN(n) ? fallback : Math.min(Math.max(n, min), max);
+};
+
+/**
+ * AI 情绪择时：基于价格变动、资金费率、成交额与持仓量，为每个标的给出方向与置信度。
+ * 返回结果经过校验与裁剪，未覆盖到的标的视为中性。
+ */
+export const analyzeDirectionalSignals = async (
+  features: SentimentFeatures[],
+  apiKey: string
+): Promise<SentimentAnalysisResult> => {
+  if (!apiKey || features.length === 0) {
+    return { marketSummary: '缺少分析数据或 API Key', signals: [], error: 'NO_INPUT' };
+  }
+
+  const formattedFeatures = features.map(f => ({
+    instId: f.instId,
+    last: f.last,
+    priceChange24hPct: parseFloat(f.priceChange24hPct.toFixed(2)),
+    fundingRatePct: parseFloat((f.fundingRate * 100).toFixed(4)),
+    turnoverMillions: parseFloat((f.volUsdt24h / 1e6).toFixed(2)),
+    openInterestMillions: parseFloat((f.openInterestUsd / 1e6).toFixed(2))
+  }));
+
+  try {
+    const prompt = `
+      你是一个严谨的加密货币永续合约交易员。请基于以下特征，对每个标的给出未来 4-24 小时的方向判断。
+
+      特征说明:
+      - priceChange24hPct: 24 小时涨跌幅 (%)
+      - fundingRatePct: 当前资金费率 (%)，过高的正费率意味着多头拥挤
+      - turnoverMillions: 24h 成交额 (百万 USDT)
+      - openInterestMillions: 持仓量 (百万 USD)，与价格同向放大代表趋势确认，背离代表可能反转
+
+      待分析标的:
+      ${JSON.stringify(formattedFeatures)}
+
+      要求:
+      1. direction 只能是 "LONG"、"SHORT" 或 "NEUTRAL"；信号不明确时必须给出 "NEUTRAL"。
+      2. confidence 为 0-1 的小数，只有多个特征相互印证时才可超过 0.7。
+      3. stopLossPct / takeProfitPct 为建议的止损/止盈幅度 (%)，止盈应大于止损。
+      4. factors 列出支持判断的关键依据，risks 列出可能使判断失效的风险，均使用中文短句。
+
+      返回 JSON 格式：
+      {
+        "marketSummary": "中文整体市场观点",
+        "signals": [
+          { "instId": "BTC-USDT-SWAP", "direction": "LONG", "confidence": 0.72, "stopLossPct": 2.5, "takeProfitPct": 5, "summary": "一句话结论", "factors": ["..."], "risks": ["..."] }
+        ]
+      }
+    `;
+
+    const response = await fetch("https://api.deepseek.com/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model: "deepseek-chat",
+        messages: [
+          { role: "system", content: "你是一个专业的加密货币量化交易员。请仅返回 JSON。" },
+          { role: "user", content: prompt }
+        ],
+        response_format: { type: "json_object" }
+      })
+    });
+
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    const parsed = JSON.parse(data.choices[0].message.content);
+    const known = new Set(features.map(f => f.instId));
+
+    const signals: SentimentSignal[] = (Array.isArray(parsed.signals) ? parsed.signals : [])
+      .filter((s: any) => s && known.has(s.instId))
+      .map((s: any) => ({
+        instId: s.instId,
+        direction: ['LONG', 'SHORT'].includes(s.direction) ? s.direction : 'NEUTRAL',
+        confidence: clamp(s.confidence, 0, 1, 0),
+        stopLossPct: s.stopLossPct !== undefined ? clamp(s.stopLossPct, 0, 50, 0) : undefined,
+        takeProfitPct: s.takeProfitPct !== undefined ? clamp(s.takeProfitPct, 0, 100, 0) : undefined,
+        summary: String(s.summary || ''),
+        factors: Array.isArray(s.factors) ? s.factors.map(String) : [],
+        risks: Array.isArray(s.risks) ? s.risks.map(String) : []
+      }));
+
+    return { marketSummary: String(parsed.marketSummary || ''), signals };
+
+  } catch (error) {
+    return {
+      marketSummary: `AI 服务连接失败: ${error instanceof Error ? error.message : '未知'}`,
+      signals: [],
+      error: 'REQUEST_FAILED'
+    };
+  }
+};
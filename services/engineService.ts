@@ -0,0 +1,61 @@
+import { StrategyConfig, EngineStatus, EngineStrategyStatus, OKXRequestMetrics, CircuitBreakerStatus, BreakerSettings, ExposureLimits } from '../types';
+
+/**
+ * 服务端策略引擎客户端。
+ * 策略循环运行在 server.js 中，前端只负责启停、同步配置与读取状态。
+ */
+const engineRequest = async (endpoint: string, method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET', body?: any) => {
+  const res = await fetch(`/api/engine${endpoint}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const json = await res.json();
+  if (json.code !== '0') {
+    throw new Error(`Engine API Error (${json.code}): ${json.msg}`);
+  }
+  return json.data;
+};
+
+/** 选择引擎使用的凭证配置 (密钥由服务端凭证库提供) */
+export const setEngineProfile = async (profileId: string | null): Promise<void> => {
+  await engineRequest('/profile', 'PUT', { profileId });
+};
+
+export const getEngineStatus = async (): Promise<EngineStatus> => {
+  return engineRequest('/status');
+};
+
+/** OKX 请求的限频排队、429 与重试统计 */
+export const getOkxMetrics = async (): Promise<OKXRequestMetrics> => {
+  return engineRequest('/okx-metrics');
+};
+
+export const startStrategy = async (strategy: StrategyConfig): Promise<EngineStrategyStatus> => {
+  return engineRequest(`/strategies/${encodeURIComponent(strategy.id)}/start`, 'POST', strategy);
+};
+
+export const stopStrategy = async (id: string): Promise<EngineStrategyStatus | null> => {
+  return engineRequest(`/strategies/${encodeURIComponent(id)}/stop`, 'POST');
+};
+
+export const deleteStrategy = async (id: string): Promise<void> => {
+  await engineRequest(`/strategies/${encodeURIComponent(id)}`, 'DELETE');
+};
+
+/** 全局急停：停止全部策略并撤销挂单；unwind 时同时双边平掉全部套利组合 */
+export const engageKillSwitch = async (unwind: boolean): Promise<CircuitBreakerStatus> => {
+  return engineRequest('/kill-switch', 'POST', { unwind });
+};
+
+export const resetKillSwitch = async (): Promise<CircuitBreakerStatus> => {
+  return engineRequest('/kill-switch/reset', 'POST');
+};
+
+export const updateBreakerSettings = async (settings: Partial<BreakerSettings>): Promise<BreakerSettings> => {
+  return engineRequest('/breakers', 'PUT', settings);
+};
+
+export const updateExposureLimits = async (limits: Partial<ExposureLimits>): Promise<ExposureLimits> => {
+  return engineRequest('/exposure-limits', 'PUT', limits);
+};
@@ -0,0 +1,67 @@
+import { ExposureLimitKind, ExposureLimits, ExposureUsage } from '../types';
+import { MAINSTREAM_COINS } from '../constants';
+
+/**
+ * 组合敞口预算 (无 IO)
+ * 敞口按空头合约的名义价值计算 (与现货等额)，上限均相对账户总权益。
+ * 开仓前取各项上限的剩余额度中最小的一个：额度不足最小投入时拒绝，否则把投入缩小到剩余额度以内。
+ */
+
+export const DEFAULT_EXPOSURE_LIMITS: ExposureLimits = {
+  maxDeployedPct: 80,
+  maxPairPct: 25,
+  maxAltcoinPct: 30,
+  instrumentCaps: {}
+};
+
+export const EXPOSURE_LIMIT_LABELS: Record<ExposureLimitKind, string> = {
+  deployed: '总敞口上限',
+  pair: '单组合集中度上限',
+  altcoin: '非主流币上限',
+  instrument: '标的上限'
+};
+
+const nonNegative = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+export const resolveExposureLimits = (limits?: Partial<ExposureLimits>): ExposureLimits => ({
+  maxDeployedPct: nonNegative(limits?.maxDeployedPct, DEFAULT_EXPOSURE_LIMITS.maxDeployedPct),
+  maxPairPct: nonNegative(limits?.maxPairPct, DEFAULT_EXPOSURE_LIMITS.maxPairPct),
+  maxAltcoinPct: nonNegative(limits?.maxAltcoinPct, DEFAULT_EXPOSURE_LIMITS.maxAltcoinPct),
+  instrumentCaps: Object.fromEntries(
+    Object.entries(limits?.instrumentCaps ?? {}).filter(([instId, cap]) => instId.endsWith('-SWAP') && nonNegative(cap, 0) > 0)
+  )
+});
+
+export const isMainstream = (instId: string): boolean => MAINSTREAM_COINS.some(coin => instId.startsWith(`${coin}-`));
+
+export const exposureUsage = (equity: number, pairs: { instId: string; notionalUsd: number }[], now: number): ExposureUsage => ({
+  checkedAt: now,
+  equity,
+  deployedUsd: pairs.reduce((sum, p) => sum + p.notionalUsd, 0),
+  altcoinUsd: pairs.filter(p => !isMainstream(p.instId)).reduce((sum, p) => sum + p.notionalUsd, 0),
+  pairs
+});
+
+/**
+ * 在 instId 上新开仓的剩余额度
+ * @returns 最紧的一项上限 (没有任何上限时 limit 为 null、headroom 为 Infinity)
+ */
+export const entryHeadroom = (
+  usage: ExposureUsage,
+  instId: string,
+  limits: ExposureLimits
+): { headroom: number; limit: ExposureLimitKind | null; capUsd: number } => {
+  const held = usage.pairs.find(p => p.instId === instId)?.notionalUsd ?? 0;
+  const pctOf = (pct: number) => usage.equity * pct / 100;
+  const candidates: { limit: ExposureLimitKind; capUsd: number; used: number }[] = [];
+  if (limits.maxDeployedPct > 0) candidates.push({ limit: 'deployed', capUsd: pctOf(limits.maxDeployedPct), used: usage.deployedUsd });
+  if (limits.maxPairPct > 0) candidates.push({ limit: 'pair', capUsd: pctOf(limits.maxPairPct), used: held });
+  if (limits.maxAltcoinPct > 0 && !isMainstream(instId)) candidates.push({ limit: 'altcoin', capUsd: pctOf(limits.maxAltcoinPct), used: usage.altcoinUsd });
+  if (limits.instrumentCaps[instId]) candidates.push({ limit: 'instrument', capUsd: limits.instrumentCaps[instId], used: held });
+
+  return candidates.reduce<{ headroom: number; limit: ExposureLimitKind | null; capUsd: number }>((tightest, c) => {
+    const headroom = Math.max(0, c.capUsd - c.used);
+    return headroom < tightest.headroom ? { headroom, limit: c.limit, capUsd: c.capUsd } : tightest;
+  }, { headroom: Infinity, limit: null, capUsd: Infinity });
+};
@@ -0,0 +1,91 @@
+import { FundingRatePoint, FundingRateSeries, FundingRateStats, FundingRateHistory } from '../types';
+import { FUNDING_INTERVAL_HOURS } from './fundingStrategyLogic';
+
+/**
+ * 资金费率历史 (无 IO)
+ * 滚动平均按时间窗口而非结算次数计算：OKX 永续的结算间隔有 1h / 4h / 8h，按时间窗口才能横向比较。
+ */
+
+export const FUNDING_HISTORY_RETENTION_MS = 60 * 24 * 60 * 60 * 1000; // 本地保留 60 天
+const HOUR_MS = 60 * 60 * 1000;
+
+/** 按 fundingTime 去重合并 (新数据覆盖旧数据)，升序排列并丢弃超出保留期的记录 */
+export const mergeFundingPoints = (existing: FundingRatePoint[], incoming: FundingRatePoint[], now: number): FundingRatePoint[] => {
+  const byTime = new Map(existing.map(p => [p.fundingTime, p]));
+  incoming.forEach(p => byTime.set(p.fundingTime, p));
+  return [...byTime.values()]
+    .filter(p => p.fundingTime >= now - FUNDING_HISTORY_RETENTION_MS)
+    .sort((a, b) => a.fundingTime - b.fundingTime);
+};
+
+/** (end - windowHours, end] 内已结算费率的平均值；窗口内没有记录时返回 null */
+export const averageRate = (points: FundingRatePoint[], windowHours: number, end: number): number | null => {
+  const inWindow = points.filter(p => p.fundingTime > end - windowHours * HOUR_MS && p.fundingTime <= end);
+  if (inWindow.length === 0) return null;
+  return inWindow.reduce((sum, p) => sum + p.rate, 0) / inWindow.length;
+};
+
+/** 相邻结算时间间隔的中位数 (小时)，记录不足时按 8 小时 */
+export const fundingIntervalHours = (points: FundingRatePoint[]): number => {
+  const gaps = points.slice(1).map((p, i) => p.fundingTime - points[i].fundingTime).filter(g => g > 0).sort((a, b) => a - b);
+  if (gaps.length === 0) return FUNDING_INTERVAL_HOURS;
+  return Math.round(gaps[Math.floor(gaps.length / 2)] / HOUR_MS) || FUNDING_INTERVAL_HOURS;
+};
+
+/** 单次费率按结算频率换算的年化收益 (%) */
+export const annualizedPct = (rate: number, intervalHours: number): number =>
+  rate * (24 / intervalHours) * 365 * 100;
+
+/** 上一次应结算的时间已晚于本地最新记录时需要补拉历史 (从未拉取过的标的同样需要) */
+export const needsBackfill = (series: FundingRateSeries | undefined, now: number): boolean => {
+  if (!series || series.points.length === 0) return true;
+  const intervalMs = fundingIntervalHours(series.points) * HOUR_MS;
+  const lastSettled = series.points[series.points.length - 1].fundingTime;
+  const expected = series.nextFundingTime !== null ? series.nextFundingTime - intervalMs : now - intervalMs;
+  return expected > lastSettled;
+};
+
+export const fundingRateStats = (series: FundingRateSeries, now: number): FundingRateStats => {
+  const { points } = series;
+  const intervalHours = fundingIntervalHours(points);
+  const avg7d = averageRate(points, 7 * 24, now);
+  const basis = avg7d ?? series.predictedRate;
+  return {
+    instId: series.instId,
+    predictedRate: series.predictedRate,
+    nextRate: series.nextRate,
+    nextFundingTime: series.nextFundingTime,
+    lastRate: points.length > 0 ? points[points.length - 1].rate : null,
+    avg24h: averageRate(points, 24, now),
+    avg3d: averageRate(points, 3 * 24, now),
+    avg7d,
+    intervalHours,
+    annualizedPct: basis === null ? null : annualizedPct(basis, intervalHours),
+    samples: points.length,
+    updatedAt: series.updatedAt
+  };
+};
+
+/** 明细视图：每次结算附带截至当时的 24h / 7d 滚动平均 */
+export const fundingRateHistory = (series: FundingRateSeries, now: number): FundingRateHistory => ({
+  ...fundingRateStats(series, now),
+  points: series.points.map(p => ({
+    ...p,
+    avg24h: averageRate(series.points, 24, p.fundingTime) ?? p.rate,
+    avg7d: averageRate(series.points, 7 * 24, p.fundingTime) ?? p.rate
+  }))
+});
+
+/**
+ * 策略筛选与排序使用的费率
+ * windowHours > 0 且窗口内有结算记录时取滚动平均，否则回退到即时费率 (新上线或尚未补齐历史的标的)。
+ */
+export const rankingRate = (
+  series: FundingRateSeries | undefined,
+  instantRate: number,
+  windowHours: number,
+  now: number
+): { rate: number; averaged: boolean } => {
+  const avg = windowHours > 0 && series ? averageRate(series.points, windowHours, now) : null;
+  return avg === null ? { rate: instantRate, averaged: false } : { rate: avg, averaged: true };
+};
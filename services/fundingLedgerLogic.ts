@@ -0,0 +1,56 @@
+import { FundingPayment, FundingLedgerSummary, FundingIncomeByInst } from '../types';
+
+/**
+ * 已实现资金费收入的汇总逻辑 (无 IO)：按标的、按日 (UTC)、按策略统计。
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 14;
+const RECENT_LIMIT = 50;
+
+export const utcDay = (ts: number): string => new Date(ts).toISOString().slice(0, 10);
+
+export const summarizeFundingPayments = (
+  payments: FundingPayment[],
+  syncedAt: number,
+  now: number = Date.now(),
+  days: number = DEFAULT_DAYS
+): FundingLedgerSummary => {
+  const byInst = new Map<string, FundingIncomeByInst>();
+  const byDay = new Map<string, number>();
+  const byStrategy: Record<string, number> = {};
+  let totalUsd = 0;
+  let last24hUsd = 0;
+
+  // 最近 N 天按日补零，便于画连续柱状图
+  for (let i = days - 1; i >= 0; i--) byDay.set(utcDay(now - i * DAY_MS), 0);
+
+  for (const p of payments) {
+    const inLast24h = now - p.ts < DAY_MS;
+    totalUsd += p.amountUsd;
+    if (inLast24h) last24hUsd += p.amountUsd;
+
+    const inst = byInst.get(p.instId) ?? { instId: p.instId, totalUsd: 0, last24hUsd: 0, count: 0, lastTs: 0 };
+    inst.totalUsd += p.amountUsd;
+    if (inLast24h) inst.last24hUsd += p.amountUsd;
+    inst.count += 1;
+    inst.lastTs = Math.max(inst.lastTs, p.ts);
+    byInst.set(p.instId, inst);
+
+    const day = utcDay(p.ts);
+    if (byDay.has(day)) byDay.set(day, byDay.get(day)! + p.amountUsd);
+
+    const strategyKey = p.strategyId ?? 'unassigned';
+    byStrategy[strategyKey] = (byStrategy[strategyKey] ?? 0) + p.amountUsd;
+  }
+
+  return {
+    totalUsd,
+    last24hUsd,
+    byInstId: [...byInst.values()].sort((a, b) => b.totalUsd - a.totalUsd),
+    byDay: [...byDay.entries()].map(([day, total]) => ({ day, totalUsd: total })),
+    byStrategy,
+    recent: [...payments].sort((a, b) => b.ts - a.ts).slice(0, RECENT_LIMIT),
+    syncedAt
+  };
+};
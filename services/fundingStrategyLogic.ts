@@ -0,0 +1,169 @@
+import { StrategyConfig, TickerData } from '../types';
+
+/**
+ * 资金费率轮动策略的纯决策逻辑 (无 IO)。
+ * 服务端引擎与回测器共用这里的筛选、出场与仓位计算规则。
+ * 回测不模拟 AI 审核与开仓前的盘口深度检查 (历史数据没有盘口)，投入金额与成本比实盘乐观，见 backtestService。
+ */
+
+export const MAX_SCAN_CANDIDATES = 30; // 按成交额取前 N 个标的查询费率
+export const MAX_QUEUE_CANDIDATES = 10; // 达标后最多保留 N 个候选
+export const MIN_INVEST_USDT = 20;
+export const ENTRY_LEG_SPLIT = 0.48; // 单腿资金占比，预留缓冲应对波动
+export const CASH_BUFFER = 0.95;
+export const DEFAULT_SPOT_FEE_RATE = 0.001;
+export const DEFAULT_SWAP_FEE_RATE = 0.0005; // 费率接口不可用时的保守取值 (按 taker)
+export const FUNDING_INTERVAL_HOURS = 8;
+
+export interface FundingParams {
+  minFundingRate: number;
+  minVolume24h: number;
+  exitThreshold: number;
+  allocationPct: number;
+  maxPositions: number;
+  rotationThreshold: number;
+  rotationHoldPeriods: number; // 摊销轮动手续费的预期持有结算次数
+  rateAverageHours: number; // > 0 时候选筛选、排序与轮动比较使用近 N 小时平均费率 (出场仍看即时费率)
+}
+
+/** 统一参数缺省值，与历史行为保持一致 */
+export const resolveFundingParams = (params: StrategyConfig['parameters']): FundingParams => ({
+  minFundingRate: params.minFundingRate || 0.0002,
+  minVolume24h: params.minVolume24h || 5000000,
+  exitThreshold: params.exitThreshold || 0.0001,
+  allocationPct: params.allocationPct || 30,
+  maxPositions: params.maxPositions || 3,
+  rotationThreshold: params.rotationThreshold || 0.0002,
+  rotationHoldPeriods: params.rotationHoldPeriods || 9,
+  rateAverageHours: params.rateAverageHours || 0,
+});
+
+/** USDT 永续 + 存在对应现货 + 成交额达标，按成交额降序取前 MAX_SCAN_CANDIDATES */
+export const filterTradeableSwaps = (
+  tickers: TickerData[],
+  spotInstIds: string[],
+  params: FundingParams
+): TickerData[] => {
+  const spotSet = new Set(spotInstIds);
+  return tickers
+    .filter(t => {
+      if (!t.instId.endsWith('-USDT-SWAP')) return false;
+      const parts = t.instId.split('-');
+      return spotSet.has(`${parts[0]}-${parts[1]}`) && parseFloat(t.volUsdt24h) > params.minVolume24h;
+    })
+    .sort((a, b) => parseFloat(b.volUsdt24h) - parseFloat(a.volUsdt24h))
+    .slice(0, MAX_SCAN_CANDIDATES);
+};
+
+export const meetsEntryRate = (fundingRate: number, params: FundingParams): boolean =>
+  fundingRate >= params.minFundingRate;
+
+export const shouldExit = (fundingRate: number, params: FundingParams): boolean =>
+  fundingRate < params.exitThreshold;
+
+/** 费率已知时的候选筛选 (回测使用)；实盘引擎逐个查询费率，规则相同 */
+export const selectTopCandidates = (sortedByVol: TickerData[], params: FundingParams): TickerData[] =>
+  rankByFundingRate(
+    sortedByVol.filter(t => meetsEntryRate(parseFloat(t.fundingRate), params)).slice(0, MAX_QUEUE_CANDIDATES)
+  );
+
+export const rankByFundingRate = (candidates: TickerData[]): TickerData[] =>
+  [...candidates].sort((a, b) => parseFloat(b.fundingRate) - parseFloat(a.fundingRate));
+
+/** 填补空余仓位：跳过已持仓标的，最多 maxPositions - activeCount 个 */
+export const planEntries = (
+  queue: TickerData[],
+  heldInstIds: string[],
+  activeCount: number,
+  params: FundingParams
+): TickerData[] => {
+  if (activeCount >= params.maxPositions) return [];
+  return queue.filter(t => !heldInstIds.includes(t.instId)).slice(0, params.maxPositions - activeCount);
+};
+
+export const computeInvestAmount = (remainingUsdtCash: number, params: FundingParams): number =>
+  (remainingUsdtCash * (params.allocationPct / 100)) * CASH_BUFFER;
+
+export interface DualSideEntryPlan {
+  oneContractValue: number;
+  maxContracts: number;
+  targetSpotQty: number;
+  rawBuySize: number; // 含手续费损耗的现货买入量 (未对齐精度)
+}
+
+/**
+ * 以整数合约张数为锚，逆推现货买入量。
+ * 现货手续费以币扣除，因此买入量 = 目标量 / (1 - feeRate)。
+ */
+export const planDualSideEntry = (
+  usdtAmount: number,
+  price: number,
+  ctVal: number,
+  feeRate: number = DEFAULT_SPOT_FEE_RATE
+): DualSideEntryPlan => {
+  const oneContractValue = ctVal * price;
+  const maxContracts = Math.floor((usdtAmount * ENTRY_LEG_SPLIT) / oneContractValue);
+  const targetSpotQty = maxContracts * ctVal;
+  return {
+    oneContractValue,
+    maxContracts,
+    targetSpotQty,
+    rawBuySize: targetSpotQty / (1 - feeRate)
+  };
+};
+
+/** 轮动一次的双边往返费率：平旧仓 (现货+合约) + 开新仓 (现货+合约) */
+export const rotationFeeRate = (
+  spotFeeRate: number = DEFAULT_SPOT_FEE_RATE,
+  swapFeeRate: number = DEFAULT_SWAP_FEE_RATE
+): number => 2 * (spotFeeRate + swapFeeRate);
+
+export interface HeldFunding {
+  instId: string;
+  fundingRate: number;
+}
+
+export interface RotationPlan {
+  exitInstId: string;
+  exitRate: number;
+  enter: TickerData;
+  rateGain: number; // 每次结算的费率提升
+  netGain: number; // 扣除摊销手续费后的提升
+  breakEvenHours: number; // 费率提升覆盖轮动手续费所需时间
+}
+
+/**
+ * 仓位已满时的轮动计划：最弱持仓与最优候选逐对比较，
+ * 费率差扣除摊销到 rotationHoldPeriods 次结算的往返手续费后仍超过 rotationThreshold 才轮动。
+ */
+export const planRotations = (
+  queue: TickerData[],
+  held: HeldFunding[],
+  params: FundingParams,
+  roundTripFeeRate: number = rotationFeeRate()
+): RotationPlan[] => {
+  if (held.length < params.maxPositions) return [];
+
+  const heldIds = held.map(h => h.instId);
+  const candidates = rankByFundingRate(queue.filter(t => !heldIds.includes(t.instId)));
+  const weakest = [...held].sort((a, b) => a.fundingRate - b.fundingRate);
+  const amortizedFee = roundTripFeeRate / params.rotationHoldPeriods;
+
+  const plans: RotationPlan[] = [];
+  for (let i = 0; i < Math.min(candidates.length, weakest.length); i++) {
+    const enter = candidates[i];
+    const weak = weakest[i];
+    const rateGain = parseFloat(enter.fundingRate) - weak.fundingRate;
+    const netGain = rateGain - amortizedFee;
+    if (netGain <= params.rotationThreshold) break;
+    plans.push({
+      exitInstId: weak.instId,
+      exitRate: weak.fundingRate,
+      enter,
+      rateGain,
+      netGain,
+      breakEvenHours: (roundTripFeeRate / rateGain) * FUNDING_INTERVAL_HOURS
+    });
+  }
+  return plans;
+};
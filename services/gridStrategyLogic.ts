@@ -0,0 +1,99 @@
+import { StrategyConfig, GridSpacing, GridCell } from '../types';
+
+/**
+ * 网格策略的纯计算逻辑 (无 IO)：档位生成、初始挂单方向与成交后翻转。
+ */
+
+export interface GridParams {
+  instId: string;
+  upperPrice: number;
+  lowerPrice: number;
+  gridCount: number;
+  spacing: GridSpacing;
+  orderSize: number;
+}
+
+export const resolveGridParams = (params: StrategyConfig['parameters']): GridParams => ({
+  instId: params.gridInstId || '',
+  upperPrice: params.upperPrice || 0,
+  lowerPrice: params.lowerPrice || 0,
+  gridCount: Math.floor(params.gridCount || 0),
+  spacing: params.gridSpacing === 'geometric' ? 'geometric' : 'arithmetic',
+  orderSize: params.orderSize || 0,
+});
+
+/** 返回参数错误描述，合法时返回 null */
+export const validateGridParams = (p: GridParams): string | null => {
+  if (!p.instId) return '未设置网格标的 (gridInstId)';
+  if (!(p.lowerPrice > 0) || !(p.upperPrice > p.lowerPrice)) return '价格区间无效：需满足 0 < lowerPrice < upperPrice';
+  if (p.gridCount < 2 || p.gridCount > 200) return '网格数量 (gridCount) 需在 2 ~ 200 之间';
+  if (!(p.orderSize > 0)) return '每格下单量 (orderSize) 必须大于 0';
+  return null;
+};
+
+/** 生成 gridCount + 1 个价格档位 (等差或等比) */
+export const computeGridLevels = (p: GridParams): number[] => {
+  const levels: number[] = [];
+  for (let i = 0; i <= p.gridCount; i++) {
+    levels.push(p.spacing === 'geometric'
+      ? p.lowerPrice * Math.pow(p.upperPrice / p.lowerPrice, i / p.gridCount)
+      : p.lowerPrice + (i * (p.upperPrice - p.lowerPrice)) / p.gridCount);
+  }
+  return levels;
+};
+
+/**
+ * 按当前价分配每格初始方向：
+ * 整格位于现价上方的挂卖单 (需预先持有库存)，其余挂买单。
+ */
+export const buildGridCells = (levels: number[], price: number): GridCell[] =>
+  levels.slice(0, -1).map((lowerPx, index) => ({
+    index,
+    lowerPx,
+    upperPx: levels[index + 1],
+    side: lowerPx >= price ? 'sell' : 'buy',
+    realizedProfit: 0,
+    roundTrips: 0,
+  }));
+
+export const cellOrderPrice = (cell: GridCell): number =>
+  cell.side === 'buy' ? cell.lowerPx : cell.upperPx;
+
+/** 本次成交与撤单前已部分成交的加权均价 */
+const blendedFillPx = (cell: GridCell, fillPx: number, fillSz: number): number => {
+  const prevSz = cell.filledSz ?? 0;
+  return prevSz > 0 ? ((cell.filledPx ?? fillPx) * prevSz + fillPx * fillSz) / (prevSz + fillSz) : fillPx;
+};
+
+/** 平仓成交的利润：卖单平多头，买单平空头 */
+const closingProfit = (cell: GridCell, fillPx: number, fillSz: number): number =>
+  (cell.side === 'sell' ? fillPx - cell.entryPx! : cell.entryPx! - fillPx) * fillSz;
+
+/**
+ * 成交后翻转方向并改挂反向单。
+ * 该格没有持仓 (entryPx 为空) 时本次成交为开仓：买单开多、合约网格的卖单开空，记录开仓均价，不计利润；
+ * 有持仓时为平仓：按开仓价结算利润并计一次往返。
+ * fillSz 为本次成交的币数量，feeUsd 为本次成交手续费 (正数，USDT 计价)。
+ */
+export const flipCell = (cell: GridCell, fillPx: number, fillSz: number, feeUsd: number): GridCell => {
+  const side: GridCell['side'] = cell.side === 'buy' ? 'sell' : 'buy';
+  const flipped: GridCell = { ...cell, side, ordId: undefined, filledSz: undefined, filledPx: undefined };
+  if (cell.entryPx === undefined) {
+    return { ...flipped, entryPx: blendedFillPx(cell, fillPx, fillSz), realizedProfit: cell.realizedProfit - feeUsd };
+  }
+  return {
+    ...flipped,
+    entryPx: undefined,
+    realizedProfit: cell.realizedProfit + closingProfit(cell, fillPx, fillSz) - feeUsd,
+    roundTrips: cell.roundTrips + 1,
+  };
+};
+
+/**
+ * 挂单被撤但已部分成交：保持原方向，记入成交部分 (开仓更新部分成交均价，平仓结算该部分利润)，剩余数量重新挂单。
+ */
+export const fillCellPartially = (cell: GridCell, fillPx: number, fillSz: number, feeUsd: number): GridCell => {
+  const partial = { ...cell, ordId: undefined, filledSz: (cell.filledSz ?? 0) + fillSz, filledPx: blendedFillPx(cell, fillPx, fillSz) };
+  if (cell.entryPx === undefined) return { ...partial, realizedProfit: cell.realizedProfit - feeUsd };
+  return { ...partial, realizedProfit: cell.realizedProfit + closingProfit(cell, fillPx, fillSz) - feeUsd };
+};
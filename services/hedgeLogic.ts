@@ -0,0 +1,54 @@
+import { HedgeCheck, StrategyParameters } from '../types';
+
+/**
+ * 对冲偏差 (Delta) 的计算与自动调仓的限流规则 (无 IO)
+ * 偏差 = 现货余额 - 合约折算的币数量，正数为现货多、负数为现货不足 (裸空)。
+ * 偏差价值超过阈值时自动调仓；同一标的两次调仓之间有冷却时间，且每小时次数有上限，避免调仓失败时反复下单。
+ */
+
+export const HEDGE_CHECK_INTERVAL_MS = 60 * 1000;
+export const DUST_DELTA_USD = 1; // 低于此值视为完全对冲
+export const DEFAULT_REBALANCE_THRESHOLD_USD = 10;
+export const DEFAULT_REBALANCE_COOLDOWN_SEC = 300;
+export const DEFAULT_MAX_REBALANCES_PER_HOUR = 4;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface HedgeMonitorSettings {
+  enabled: boolean;
+  thresholdUsd: number;
+  cooldownMs: number;
+  maxPerHour: number;
+}
+
+export const resolveHedgeMonitor = (params?: Partial<StrategyParameters>): HedgeMonitorSettings => ({
+  enabled: params?.autoRebalance !== false,
+  thresholdUsd: params?.rebalanceThresholdUsd && params.rebalanceThresholdUsd > 0 ? params.rebalanceThresholdUsd : DEFAULT_REBALANCE_THRESHOLD_USD,
+  cooldownMs: (params?.rebalanceCooldownSec && params.rebalanceCooldownSec > 0 ? params.rebalanceCooldownSec : DEFAULT_REBALANCE_COOLDOWN_SEC) * 1000,
+  maxPerHour: params?.maxRebalancesPerHour && params.maxRebalancesPerHour > 0 ? Math.floor(params.maxRebalancesPerHour) : DEFAULT_MAX_REBALANCES_PER_HOUR
+});
+
+export const hedgeDelta = (spotBalance: number, contracts: number, ctVal: number, price: number): { deltaAmount: number; deltaValue: number } => {
+  const deltaAmount = spotBalance - Math.abs(contracts) * ctVal;
+  return { deltaAmount, deltaValue: deltaAmount * price };
+};
+
+export const hedgeStatus = (deltaValue: number, thresholdUsd: number = DEFAULT_REBALANCE_THRESHOLD_USD): HedgeCheck['status'] => {
+  if (Math.abs(deltaValue) > thresholdUsd) return 'Risk';
+  if (Math.abs(deltaValue) > DUST_DELTA_USD) return 'Dusty';
+  return 'Perfect';
+};
+
+/**
+ * 自动调仓是否被限流
+ * @param history 该标的最近的调仓时间 (成功与失败都计入)
+ * @returns 被阻止时返回原因，可以调仓时返回 null
+ */
+export const rebalanceBlock = (history: number[], now: number, settings: HedgeMonitorSettings): 'cooldown' | 'hourly_limit' | null => {
+  const last = history.length > 0 ? Math.max(...history) : 0;
+  if (now - last < settings.cooldownMs) return 'cooldown';
+  if (history.filter(t => now - t < HOUR_MS).length >= settings.maxPerHour) return 'hourly_limit';
+  return null;
+};
+
+/** 只保留最近一小时内的调仓时间 */
+export const pruneRebalanceHistory = (history: number[], now: number): number[] => history.filter(t => now - t < HOUR_MS);
@@ -0,0 +1,32 @@
+import { FundingLedgerSummary, PairPnLReport, TradeJournalEntry, DualSideResult, SlicedExecution, FundingRateStats, FundingRateHistory } from '../types';
+
+/**
+ * 收益账本客户端：已实现资金费台账 (来自 OKX 资金费账单)、资金费率历史、套利组合持仓账本与交易日志 (来自实际成交)。
+ */
+const request = async <T>(endpoint: string, method: 'GET' | 'POST' = 'GET'): Promise<T> => {
+  const res = await fetch(endpoint, { method });
+  const json = await res.json();
+  if (json.code !== '0') {
+    throw new Error(`Ledger API Error (${json.code}): ${json.msg}`);
+  }
+  return json.data;
+};
+
+export const fetchFundingLedger = (refresh = false) =>
+  request<FundingLedgerSummary>(`/api/funding/ledger${refresh ? '?refresh=1' : ''}`);
+
+/** 服务端采集的全部 USDT 永续费率统计 (滚动平均、年化与预测费率) */
+export const fetchFundingRates = () => request<FundingRateStats[]>('/api/funding/rates');
+
+/** 单个标的的结算历史及滚动平均 */
+export const fetchFundingRateHistory = (instId: string) => request<FundingRateHistory>(`/api/funding/rates/${instId}`);
+
+export const fetchPositionBook = () => request<PairPnLReport[]>('/api/positions/book');
+
+export const fetchTradeJournal = () => request<TradeJournalEntry[]>('/api/journal');
+
+/** 最近的分片执行进度 (最新在前) */
+export const fetchSlicedExecutions = () => request<SlicedExecution[]>('/api/executions');
+
+/** 服务端按持仓差额调仓，成交记入该组合的交易编号 (trader) */
+export const rebalancePosition = (instId: string) => request<DualSideResult>(`/api/positions/${instId}/rebalance`, 'POST');
@@ -0,0 +1,35 @@
+import { ExecutionMode, LegExecution, StrategyParameters } from '../types';
+
+/**
+ * 双边执行的下单方式 (无 IO)
+ * maker 模式在盘口内挂 post-only 限价单，按固定间隔撤单追价，超时后剩余数量改市价。
+ * 每张挂单的 clOrdId 序号 = 所属腿的序号 × 100 + 挂单序号 (e1 的挂单为 e101, e102 ...)，市价兜底单沿用腿的序号。
+ * 分片执行时序号再加上 分片序号 × 1000 (第 3 片首腿为 e3001，其挂单为 e3101, e3102 ...)。
+ * 腿序号不超过 9，所以序号除以 1000 的余数 ≥ 100 的就是挂单。
+ */
+
+export const DEFAULT_MAKER_REPRICE_SEC = 5;
+export const DEFAULT_MAKER_TIMEOUT_SEC = 60;
+export const MAX_MAKER_ORDERS = 99; // 单次尝试的挂单数上限，超出后直接市价兜底
+
+export const resolveLegExecution = (params?: Partial<StrategyParameters>): LegExecution => {
+  const mode: ExecutionMode = params?.executionMode === 'maker' ? 'maker' : 'market';
+  const repriceSec = params?.makerRepriceSec && params.makerRepriceSec > 0 ? params.makerRepriceSec : DEFAULT_MAKER_REPRICE_SEC;
+  const timeoutSec = params?.makerTimeoutSec && params.makerTimeoutSec > 0 ? params.makerTimeoutSec : DEFAULT_MAKER_TIMEOUT_SEC;
+  return { mode, repriceMs: repriceSec * 1000, timeoutMs: Math.max(timeoutSec, repriceSec) * 1000 };
+};
+
+/**
+ * 挂单价格：价差大于 1 个 tick 时在买一/卖一基础上改善 1 个 tick 排到队首，但不跨过对手价
+ */
+export const makerPrice = (side: 'buy' | 'sell', bidPx: number, askPx: number, tickSz: number): number => {
+  const tick = tickSz > 0 ? tickSz : 0;
+  if (side === 'buy') return askPx - bidPx > tick * 1.5 ? bidPx + tick : bidPx;
+  return askPx - bidPx > tick * 1.5 ? askPx - tick : askPx;
+};
+
+export const makerChildSeq = (legSeq: number, orderIndex: number): number => legSeq * 100 + orderIndex;
+
+export const sliceLegSeq = (slice: number | undefined, legSeq: number): number => (slice ?? 0) * 1000 + legSeq;
+
+export const isMakerChildSeq = (seq: number): boolean => seq % 1000 >= 100;
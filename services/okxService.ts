@@ -1,32 +1,119 @@
-import { OKXConfig, TickerData, Asset, Position, Order, Instrument } from '../types';
+import { OKXConfig, OKXProfileRef, TickerData, Asset, Position, Order, Instrument, FundingBill, LegFill, LegOrderFill, LegOrderSpec, DualSideResult, TradePhase, OrderBook, TradeFeeRates, FundingRatePoint } from '../types';
+import { planDualSideEntry, DEFAULT_SPOT_FEE_RATE, DEFAULT_SWAP_FEE_RATE } from './fundingStrategyLogic';
+import { legFillFromOrder } from './positionBookLogic';
+import { tagClOrdId } from './tradeJournalLogic';
+
+/**
+ * 请求通道：浏览器端按凭证配置 ID 经 /api/proxy 转发 (由服务端凭证库签名)，服务端引擎直接签名请求。
+ * 返回 OKX 原始 JSON ({ code, msg, data })。
+ */
+export type OKXTransport<A> = (
+  auth: A,
+  endpoint: string,
+  method: 'GET' | 'POST',
+  body?: any
+) => Promise<any>;
+
+const proxyTransport: OKXTransport<OKXProfileRef> = async (auth, endpoint, method, body) => {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'x-profile-id': auth.profileId
+  };
+
+  const res = await fetch(`/api/proxy${endpoint}`, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined
+  });
+  return res.json();
+};
+
+/**
+ * 服务端 WebSocket 推送提供的实时数据 (server/okxStream.ts)；浏览器端不设置。
+ * 推送未连接或尚无数据时，OKXService 退回 REST 查询。
+ */
+export interface OKXStreamSource {
+  /** 推送缓存的资金费率；尚未订阅该标的时开始订阅并返回 undefined */
+  fundingRate(instId: string): string | undefined;
+  /** 私有 orders 频道是否可用 */
+  ordersReady(): boolean;
+  /** 等待订单推送到终态 (filled / canceled)；超时返回最近一次推送的订单，没有推送过则为 null */
+  waitForOrder(ordId: string, timeoutMs: number): Promise<any | null>;
+}
 
-class OKXService {
-  private config: OKXConfig | null = null;
+export const parseAssetDetail = (d: any): Asset => ({
+  currency: d.ccy,
+  balance: parseFloat(d.cashBal),
+  available: parseFloat(d.availBal), // 关键：这是真实的可用现金
+  equityUsd: parseFloat(d.eqUsd)
+});
+
+/** 账户可用保证金以伪币种 ACCOUNT_AVAIL_EQ 附在资产列表末尾 */
+export const availEqAsset = (availEq: string | undefined): Asset => ({
+  currency: 'ACCOUNT_AVAIL_EQ',
+  balance: parseFloat(availEq || '0'),
+  available: parseFloat(availEq || '0'),
+  equityUsd: parseFloat(availEq || '0')
+});
+
+export const isVisibleAsset = (a: Asset): boolean => a.equityUsd > 1 || a.balance > 0;
+
+export const parsePosition = (p: any): Position => ({
+  instId: p.instId,
+  pos: p.pos,
+  avgPx: p.avgPx,
+  upl: p.upl,
+  uplRatio: p.uplRatio,
+  lever: p.lever,
+  liqPx: p.liqPx || '0',
+  markPx: p.markPx || '0',
+  mgnMode: p.mgnMode,
+  cTime: parseInt(p.cTime)
+});
+
+export const parseOrder = (o: any): Order => ({
+  ordId: o.ordId,
+  clOrdId: o.clOrdId,
+  instId: o.instId,
+  side: o.side,
+  ordType: o.ordType,
+  sz: o.sz,
+  px: o.px,
+  state: o.state,
+  cTime: parseInt(o.cTime),
+  fillSz: o.fillSz,
+  accFillSz: o.accFillSz,
+  fillPx: o.fillPx,
+  avgPx: o.avgPx,
+  fee: o.fee,
+  feeCcy: o.feeCcy
+});
+
+const FEE_CACHE_MS = 60 * 60 * 1000; // 费率等级按 30 天交易量每日调整，缓存 1 小时足够
+const MAX_PENDING_PAGES = 20; // 挂单最多翻 20 页 (2000 条)
+
+export class OKXService<A = OKXConfig> {
+  private config: A | null = null;
+  private feeRates = new Map<TradeFeeRates['instType'], TradeFeeRates>();
+  private stream: OKXStreamSource | null = null;
+
+  constructor(private transport: OKXTransport<A>) {}
+
+  setStream(stream: OKXStreamSource | null) {
+    this.stream = stream;
+  }
 
-  setConfig(config: OKXConfig) {
+  setConfig(config: A | null) {
     this.config = config;
+    this.feeRates.clear(); // 不同账户的费率等级不同
   }
 
   private async request(endpoint: string, method: 'GET' | 'POST' = 'GET', body?: any) {
-    if (!this.config || !this.config.apiKey) {
+    if (!this.config) {
       throw new Error("API credentials not configured");
     }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'x-api-key': this.config.apiKey,
-      'x-secret-key': this.config.secretKey,
-      'x-passphrase': this.config.passphrase,
-      'x-simulated-trading': this.config.isSimulated ? '1' : '0'
-    };
-
-    const res = await fetch(`/api/proxy${endpoint}`, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined
-    });
-
-    const json = await res.json();
+    const json = await this.transport(this.config, endpoint, method, body);
     if (json.code !== '0') {
       // 忽略部分非关键错误
       if (json.code === '51000') {
@@ -81,7 +168,7 @@ class OKXService {
   }
 
   async checkAccountConfiguration(): Promise<boolean> {
-    if (!this.config?.apiKey) return false;
+    if (!this.config) return false;
     try {
         const data = await this.request('/api/v5/account/config');
         return data[0]?.acctLv !== '1';
@@ -91,7 +178,7 @@ class OKXService {
   }
 
   async getInstruments(instType: 'SWAP' | 'SPOT' = 'SWAP'): Promise<Instrument[]> {
-    if (!this.config?.apiKey) return [];
+    if (!this.config) return [];
     try {
       const data = await this.request(`/api/v5/public/instruments?instType=${instType}`);
       return data.map((i: any) => ({
@@ -109,39 +196,58 @@ class OKXService {
     }
   }
 
+  /** 获取失败 (重试用尽) 时抛出异常，避免扫描与熔断把空列表当作真实行情 */
   async getMarketTickers(): Promise<TickerData[]> {
-      if (!this.config?.apiKey) return [];
-      try {
-          const tickerData = await this.request('/api/v5/market/tickers?instType=SWAP');
-          return tickerData.map((t: any) => {
-              const lastPrice = parseFloat(t.last);
-              const volCcy = parseFloat(t.volCcy24h);
-              const calculatedVolUsdt = (volCcy * lastPrice).toString();
-              return {
-                  instId: t.instId,
-                  last: t.last,
-                  fundingRate: '0', 
-                  volCcy24h: t.volCcy24h,
-                  volUsdt24h: calculatedVolUsdt,
-                  ts: t.ts
-              };
-          });
-      } catch (e) {
-          return [];
-      }
+      if (!this.config) return [];
+      const tickerData = await this.request('/api/v5/market/tickers?instType=SWAP');
+      return tickerData.map((t: any) => {
+          const lastPrice = parseFloat(t.last);
+          const volCcy = parseFloat(t.volCcy24h);
+          const calculatedVolUsdt = (volCcy * lastPrice).toString();
+          return {
+              instId: t.instId,
+              last: t.last,
+              fundingRate: '0', 
+              volCcy24h: t.volCcy24h,
+              volUsdt24h: calculatedVolUsdt,
+              ts: t.ts
+          };
+      });
   }
 
+  /** 获取失败 (重试用尽) 时抛出异常，不能当作 0 处理：持仓会因此误判为费率过低而平仓 */
   async getFundingRate(instId: string): Promise<string> {
-      try {
-          const data = await this.request(`/api/v5/public/funding-rate?instId=${instId}`);
-          return data[0]?.fundingRate || '0';
-      } catch (e) {
-          return '0';
-      }
+      const pushed = this.stream?.fundingRate(instId);
+      if (pushed !== undefined) return pushed;
+      const data = await this.request(`/api/v5/public/funding-rate?instId=${instId}`);
+      return data[0]?.fundingRate || '0';
+  }
+
+  /** 当期费率、再下一期预测费率 (OKX 可能返回空) 与下次结算时间 */
+  async getFundingRateDetail(instId: string): Promise<{ predictedRate: number | null; nextRate: number | null; nextFundingTime: number | null }> {
+      const data = await this.request(`/api/v5/public/funding-rate?instId=${instId}`);
+      const num = (v: string | undefined) => (v === undefined || v === '' ? null : parseFloat(v));
+      return {
+          predictedRate: num(data[0]?.fundingRate),
+          nextRate: num(data[0]?.nextFundingRate),
+          nextFundingTime: num(data[0]?.fundingTime)
+      };
+  }
+
+  /**
+   * 已结算的资金费率 (新到旧，单页最多 100 条)；优先取实际结算费率 realizedRate
+   * after 为结算时间 (ms)，只返回早于该时间的记录，用于向前翻页
+   */
+  async getFundingRateHistory(instId: string, after?: number, limit = 100): Promise<FundingRatePoint[]> {
+      const data = await this.request(`/api/v5/public/funding-rate-history?instId=${instId}&limit=${limit}${after !== undefined ? `&after=${after}` : ''}`);
+      return data.map((r: any) => ({
+          fundingTime: parseInt(r.fundingTime),
+          rate: parseFloat(r.realizedRate || r.fundingRate)
+      }));
   }
 
   async getFundingRates(): Promise<TickerData[]> {
-    if (!this.config?.apiKey) return [];
+    if (!this.config) return [];
     try {
         const allTickers = await this.getMarketTickers();
         const topByVol = allTickers
@@ -156,6 +262,8 @@ class OKXService {
             } catch (e) { return null; }
         });
         const results = await Promise.all(promises);
+        const missing = results.filter(r => r === null).length;
+        if (missing > 0) console.warn(`Funding rates incomplete: ${missing}/${topByVol.length} requests failed`);
         return results.filter((r): r is TickerData => r !== null);
     } catch (e) {
         return [];
@@ -174,7 +282,18 @@ class OKXService {
     }
   }
 
+  /** 等待订单成交：推送可用时由 orders 频道唤醒，否则每 500ms 查询一次 */
   async pollOrder(instId: string, ordId: string, maxRetries = 10): Promise<any> {
+    if (this.stream?.ordersReady()) {
+        const pushed = await this.stream.waitForOrder(ordId, maxRetries * 500);
+        // 推送超时 (可能恰好断线) 时以 REST 查询为准
+        const order = pushed?.state === 'filled' || pushed?.state === 'canceled'
+            ? pushed
+            : (await this.request(`/api/v5/trade/order?instId=${instId}&ordId=${ordId}`))[0];
+        if (order?.state === 'filled') return order;
+        if (order?.state === 'canceled') throw new Error('Order was canceled by system.');
+        throw new Error(`Order polling timed out (not filled in ${maxRetries * 0.5}s).`);
+    }
     for (let i = 0; i < maxRetries; i++) {
         await new Promise(r => setTimeout(r, 500));
         const orders = await this.request(`/api/v5/trade/order?instId=${instId}&ordId=${ordId}`);
@@ -186,152 +305,339 @@ class OKXService {
     throw new Error('Order polling timed out (not filled in 5s).');
   }
 
+  /** 交易编号标签 (clOrdId)，未指定交易编号时不打标签 */
+  private tag(tradeId: string | undefined, phase: TradePhase, seq: number): { clOrdId?: string } {
+      return tradeId ? { clOrdId: tagClOrdId(tradeId, phase, seq) } : {};
+  }
+
+  /** 等待订单成交并返回成交记录；超时则按当前已成交部分返回，完全未成交返回 null */
+  private async fetchLegFill(instId: string, ordId: string): Promise<LegFill | null> {
+      const order = await this.fetchFinalOrder(instId, ordId);
+      return order ? legFillFromOrder(order) : null;
+  }
+
+  /** 等待订单成交，超时返回订单当前状态 (原始数据) */
+  private async fetchFinalOrder(instId: string, ordId: string): Promise<any | null> {
+      try {
+          return await this.pollOrder(instId, ordId);
+      } catch (e) {
+          const orders = await this.request(`/api/v5/trade/order?instId=${instId}&ordId=${ordId}`);
+          return orders[0] ?? null;
+      }
+  }
+
+  private toLegOrderFill(order: any): LegOrderFill {
+      return { fill: legFillFromOrder(order), filledSz: parseFloat(order.accFillSz || '0') };
+  }
+
+  async getTicker(instId: string): Promise<{ last: number; bidPx: number; askPx: number; open24h: number; volUsdt24h: number }> {
+      const data = await this.request(`/api/v5/market/ticker?instId=${instId}`);
+      const t = data[0] || {};
+      const last = parseFloat(t.last || '0');
+      return {
+          last,
+          bidPx: parseFloat(t.bidPx || t.last || '0'),
+          askPx: parseFloat(t.askPx || t.last || '0'),
+          open24h: parseFloat(t.open24h || '0'),
+          // SWAP 的 volCcy24h 以币计价，SPOT 以计价币 (USDT) 计价
+          volUsdt24h: parseFloat(t.volCcy24h || '0') * (instId.endsWith('-SWAP') ? last : 1)
+      };
+  }
+
+  /** 盘口深度 (默认前 20 档) */
+  async getOrderBook(instId: string, depth = 20): Promise<OrderBook> {
+      const data = await this.request(`/api/v5/market/books?instId=${instId}&sz=${depth}`);
+      const book = data[0] || {};
+      const levels = (rows: string[][] = []): [number, number][] => rows.map(r => [parseFloat(r[0]), parseFloat(r[1])]);
+      return { instId, bids: levels(book.bids), asks: levels(book.asks), ts: parseInt(book.ts) || Date.now() };
+  }
+
+  /**
+   * 账户在某一产品类型的 maker / taker 费率 (按 VIP 等级)，缓存 1 小时
+   * OKX 以负数表示收取手续费，这里转换为正数表示支出；U 本位合约取 makerU / takerU。
+   * 接口失败时返回默认费率 (不缓存，下次重试)。
+   */
+  async getTradeFeeRates(instType: TradeFeeRates['instType']): Promise<TradeFeeRates> {
+      const cached = this.feeRates.get(instType);
+      if (cached && Date.now() - cached.fetchedAt < FEE_CACHE_MS) return cached;
+      try {
+          const data = await this.request(`/api/v5/account/trade-fee?instType=${instType}`);
+          const row = data[0] || {};
+          const rate = (u: string | undefined, plain: string | undefined) => -parseFloat(u || plain || 'NaN');
+          const rates: TradeFeeRates = {
+              instType,
+              level: row.level || 'unknown',
+              maker: rate(row.makerU, row.maker),
+              taker: rate(row.takerU, row.taker),
+              fetchedAt: Date.now()
+          };
+          if (isNaN(rates.maker) || isNaN(rates.taker)) throw new Error('trade-fee 返回数据不完整');
+          this.feeRates.set(instType, rates);
+          return rates;
+      } catch (e) {
+          console.warn(`Failed to fetch ${instType} trade fee, using default`, e);
+          const fallback = instType === 'SPOT' ? DEFAULT_SPOT_FEE_RATE : DEFAULT_SWAP_FEE_RATE;
+          return { instType, level: 'default', maker: fallback, taker: fallback, fetchedAt: Date.now() };
+      }
+  }
+
   /**
-   * V3.0 Precision-First Zero-Dust Entry Protocol
+   * 挂限价单 (网格等策略使用)
+   * 价格按 tickSz 取整 (买单向下、卖单向上，避免吃单)，数量按 lotSz 向下取整
+   */
+  async placeLimitOrder(
+      instrument: Instrument,
+      side: 'buy' | 'sell',
+      px: number,
+      sz: number,
+      options: { postOnly?: boolean; reduceOnly?: boolean; clOrdId?: string } = {}
+  ): Promise<string> {
+      const finalPx = side === 'buy'
+          ? this.floorToPrecision(px, instrument.tickSz)
+          : this.ceilToPrecision(px, instrument.tickSz);
+      const finalSz = this.floorToPrecision(sz, instrument.lotSz);
+      if (parseFloat(finalSz) < parseFloat(instrument.minSz)) {
+          throw new Error(`Order size ${finalSz} below minSz ${instrument.minSz} for ${instrument.instId}`);
+      }
+
+      const data = await this.request('/api/v5/trade/order', 'POST', {
+          instId: instrument.instId,
+          tdMode: 'cross',
+          side,
+          ordType: options.postOnly ? 'post_only' : 'limit',
+          px: finalPx,
+          sz: finalSz,
+          ...(options.reduceOnly ? { reduceOnly: true } : {}),
+          ...(options.clOrdId ? { clOrdId: options.clOrdId } : {})
+      });
+      const ordId = data[0]?.ordId;
+      if (!ordId) throw new Error(`Failed to place limit order on ${instrument.instId}`);
+      return ordId;
+  }
+
+  async cancelOrder(instId: string, ordId: string): Promise<void> {
+      await this.request('/api/v5/trade/cancel-order', 'POST', { instId, ordId });
+  }
+
+  async getOrder(instId: string, ordId: string): Promise<Order | null> {
+      const data = await this.request(`/api/v5/trade/order?instId=${instId}&ordId=${ordId}`);
+      const o = data[0];
+      if (!o) return null;
+      return {
+          ordId: o.ordId,
+          clOrdId: o.clOrdId,
+          instId: o.instId,
+          side: o.side,
+          ordType: o.ordType,
+          sz: o.sz,
+          px: o.px,
+          state: o.state,
+          cTime: parseInt(o.cTime),
+          fillSz: o.fillSz,
+          accFillSz: o.accFillSz,
+          fillPx: o.fillPx,
+          avgPx: o.avgPx,
+          fee: o.fee,
+          feeCcy: o.feeCcy
+      };
+  }
+
+  /** 市价买入指定数量的现货 (按币计价)，返回订单 ID */
+  async buySpotMarket(instrument: Instrument, baseQty: number): Promise<string> {
+      const sz = this.ceilToPrecision(baseQty, instrument.lotSz);
+      const data = await this.request('/api/v5/trade/order', 'POST', {
+          instId: instrument.instId, tdMode: 'cross', side: 'buy', ordType: 'market', tgtCcy: 'base_ccy', sz
+      });
+      const ordId = data[0]?.ordId;
+      if (!ordId) throw new Error(`Failed to place market buy on ${instrument.instId}`);
+      return ordId;
+  }
+
+  /** 永续合约持仓量，单位 USD */
+  async getOpenInterest(instId: string): Promise<number> {
+      try {
+          const data = await this.request(`/api/v5/public/open-interest?instType=SWAP&instId=${instId}`);
+          return parseFloat(data[0]?.oiUsd || '0');
+      } catch (e) {
+          return 0;
+      }
+  }
+
+  /**
+   * 永续合约市价单 (按张)，返回订单 ID
+   * 平仓时使用 reduceOnly 只减少指定张数，不影响其他策略在同一合约上的持仓
+   */
+  async placeSwapMarketOrder(instrument: Instrument, side: 'buy' | 'sell', contracts: number, reduceOnly = false, clOrdId?: string): Promise<string> {
+      const sz = this.floorToPrecision(contracts, instrument.lotSz);
+      if (parseFloat(sz) < parseFloat(instrument.minSz)) {
+          throw new Error(`Order size ${sz} below minSz ${instrument.minSz} for ${instrument.instId}`);
+      }
+      const data = await this.request('/api/v5/trade/order', 'POST', {
+          instId: instrument.instId, tdMode: 'cross', side, ordType: 'market', sz,
+          ...(reduceOnly ? { reduceOnly: true } : {}),
+          ...(clOrdId ? { clOrdId } : {})
+      });
+      const ordId = data[0]?.ordId;
+      if (!ordId) throw new Error(`Failed to place market order on ${instrument.instId}`);
+      return ordId;
+  }
+
+  /**
+   * V3.0 Precision-First Zero-Dust Entry Protocol (开仓前置计算)
    * 1. 根据资金计算最大整数合约张数 (Anchor)
    * 2. 逆推所需现货数量 (Reverse Calc)
    * 3. 加上手续费损耗缓冲 (Fee Buffer)
    * 4. 向上取整到 Spot lotSz (Ceil Precision)
-   * 5. 执行原子下单
+   * 返回现货买入量；两条腿的下单与失败恢复由服务端 LegCoordinator 负责。资金不足等情况直接抛出。
    */
-  async executeDualSideEntry(
+  async prepareDualSideEntry(
       instId: string, 
       usdtAmount: number,
       swapInstrument: Instrument
-  ): Promise<{ success: boolean; message: string }> {
+  ): Promise<{ spotInstrument: Instrument; spotSz: string; contracts: number; spotFeeRate: number }> {
       const parts = instId.split('-');
-      const baseCcy = parts[0];
       const spotInstId = `${parts[0]}-${parts[1]}`;
 
-      try {
-          // 1. 获取基础数据
-          const [ticker, spotInsts] = await Promise.all([
-              this.request(`/api/v5/market/ticker?instId=${instId}`),
-              this.getInstruments('SPOT')
-          ]);
-          
-          const price = parseFloat(ticker[0]?.last || '0');
-          const spotInfo = spotInsts.find(i => i.instId === spotInstId);
-
-          if (price <= 0) throw new Error("无法获取当前市价");
-          if (!spotInfo) throw new Error(`Spot pair ${spotInstId} not found`);
-
-          // 2. 计算最大可开合约张数 (Anchor)
-          const ctVal = parseFloat(swapInstrument.ctVal);
-          const oneContractValue = ctVal * price;
-          
-          // 预留 5% 作为波动缓冲
-          const availableForOneSide = usdtAmount * 0.48; 
-          
-          // Max Contracts = Floor(Funds / UnitValue)
-          const maxContracts = Math.floor(availableForOneSide / oneContractValue);
-          
-          if (maxContracts < parseFloat(swapInstrument.minSz)) {
-               return { success: false, message: `资金不足最小合约单位。至少需: $${(oneContractValue * parseFloat(swapInstrument.minSz)).toFixed(2)}` };
-          }
+      // 1. 获取基础数据
+      const [ticker, spotInsts, spotFees] = await Promise.all([
+          this.request(`/api/v5/market/ticker?instId=${instId}`),
+          this.getInstruments('SPOT'),
+          this.getTradeFeeRates('SPOT')
+      ]);
+      
+      const price = parseFloat(ticker[0]?.last || '0');
+      const spotInfo = spotInsts.find(i => i.instId === spotInstId);
+
+      if (price <= 0) throw new Error("无法获取当前市价");
+      if (!spotInfo) throw new Error(`Spot pair ${spotInstId} not found`);
+
+      // 2-4. 以整数合约为锚逆推现货量，并计入手续费损耗 (按账户现货 taker 费率预留：maker 模式超时后剩余部分也会以市价成交)
+      const ctVal = parseFloat(swapInstrument.ctVal);
+      const spotFeeRate = Math.max(spotFees.taker, 0);
+      const { oneContractValue, maxContracts, targetSpotQty, rawBuySize } = planDualSideEntry(usdtAmount, price, ctVal, spotFeeRate);
+      
+      if (maxContracts < parseFloat(swapInstrument.minSz)) {
+           throw new Error(`资金不足最小合约单位。至少需: $${(oneContractValue * parseFloat(swapInstrument.minSz)).toFixed(2)}`);
+      }
 
-          // 3. 逆推目标现货量 (Target Spot)
-          const targetSpotQty = maxContracts * ctVal;
+      // 5. 现货精度对齐 (Precision Alignment - Ceil)
+      // 向上取整，宁可多买一点(Dust)，不能少买(Naked Short)
+      const finalSpotSz = this.ceilToPrecision(rawBuySize, spotInfo.lotSz);
 
-          // 4. 计算含手续费的买单量 (Fee Adjusted)
-          // Taker fee 0.1% => Need to buy Target / (1 - 0.001)
-          const estimatedFeeRate = 0.001;
-          const rawBuySize = targetSpotQty / (1 - estimatedFeeRate);
+      console.log(`[Entry Plan] Contracts: ${maxContracts}, TargetSpot: ${targetSpotQty}, WithFee: ${rawBuySize}, FinalOrder: ${finalSpotSz}`);
 
-          // 5. 现货精度对齐 (Precision Alignment - Ceil)
-          // 向上取整，宁可多买一点(Dust)，不能少买(Naked Short)
-          const finalSpotSz = this.ceilToPrecision(rawBuySize, spotInfo.lotSz);
+      await this.setLeverage(instId, '1', 'cross');
+      return { spotInstrument: spotInfo, spotSz: finalSpotSz, contracts: maxContracts, spotFeeRate };
+  }
 
-          console.log(`[Entry Plan] Contracts: ${maxContracts}, TargetSpot: ${targetSpotQty}, WithFee: ${rawBuySize}, FinalOrder: ${finalSpotSz}`);
+  /** 对冲指定张数合约需买入的现货数量 (计入手续费损耗，向上取整)，分片开仓使用 */
+  spotSizeForContracts(contracts: number, swapInstrument: Instrument, spotInstrument: Instrument, spotFeeRate: number): string {
+      const targetSpotQty = contracts * parseFloat(swapInstrument.ctVal);
+      return this.ceilToPrecision(targetSpotQty / (1 - spotFeeRate), spotInstrument.lotSz);
+  }
 
-          // 6. 执行操作
-          await this.setLeverage(instId, '1', 'cross');
+  /** 平仓时需卖出的现货数量 (全部余额，扫清残余)；不足 minSz 返回 null */
+  async prepareDualSideExit(instId: string): Promise<{ spotInstrument: Instrument; spotSz: string } | null> {
+      const parts = instId.split('-');
+      const spotInstId = `${parts[0]}-${parts[1]}`;
+      const [assets, spotInsts] = await Promise.all([this.getAccountAssets(), this.getInstruments('SPOT')]);
+      const balance = assets.find(a => a.currency === parts[0])?.balance ?? 0;
+      const spotInfo = spotInsts.find(i => i.instId === spotInstId);
+      if (!spotInfo || balance <= 0) return null;
+      const sellSz = this.floorToPrecision(balance, spotInfo.lotSz);
+      return parseFloat(sellSz) >= parseFloat(spotInfo.minSz) ? { spotInstrument: spotInfo, spotSz: sellSz } : null;
+  }
 
-          // 6.1 买入现货 (使用 base_ccy 模式买币)
-          const spotOrder = await this.request('/api/v5/trade/order', 'POST', {
-              instId: spotInstId,
-              tdMode: 'cross',
-              side: 'buy',
-              ordType: 'market',
-              tgtCcy: 'base_ccy', // 关键：按币买
-              sz: finalSpotSz
-          });
+  /** 按 lotSz 向下取整的下单数量 (卖出、回滚使用) */
+  floorLotSize(value: number, instrument: Instrument): string {
+      return this.floorToPrecision(value, instrument.lotSz);
+  }
 
-          const spotOrderId = spotOrder[0]?.ordId;
-          if (!spotOrderId) throw new Error("Failed to place spot order");
+  /** 下一条腿的市价单并等待成交；下单被拒直接抛出 */
+  async executeLeg(leg: LegOrderSpec, clOrdId: string): Promise<LegOrderFill> {
+      const data = await this.request('/api/v5/trade/order', 'POST', {
+          instId: leg.instId, tdMode: 'cross', side: leg.side, ordType: 'market', sz: leg.sz, clOrdId,
+          ...(leg.tgtCcy ? { tgtCcy: leg.tgtCcy } : {}),
+          ...(leg.reduceOnly ? { reduceOnly: true } : {})
+      });
+      const ordId = data[0]?.ordId;
+      if (!ordId) throw new Error(`Failed to place order on ${leg.instId}`);
+      const order = await this.fetchFinalOrder(leg.instId, ordId);
+      return order ? this.toLegOrderFill(order) : { fill: null, filledSz: 0 };
+  }
 
-          // 等待成交
-          let filledSpot;
+  /**
+   * 为一条腿挂 post-only 限价单 (maker 模式)
+   * 挂单会吃单而被交易所拒绝 (51019) 时返回 false，由调用方按新盘口重挂
+   */
+  async placeMakerLeg(leg: LegOrderSpec, instrument: Instrument, px: number, clOrdId: string): Promise<boolean> {
+      try {
+          await this.placeLimitOrder(instrument, leg.side, px, parseFloat(leg.sz), { postOnly: true, reduceOnly: leg.reduceOnly, clOrdId });
+          return true;
+      } catch (e) {
+          if (e instanceof Error && e.message.includes('51019')) return false;
+          throw e;
+      }
+  }
+
+  /**
+   * 按 clOrdId 结算订单：仍在挂单的先撤销，再返回最终成交 (用于 maker 追价与确认结果不明的下单)
+   * 订单不存在返回 null
+   */
+  async settleLegOrder(instId: string, clOrdId: string): Promise<LegOrderFill | null> {
+      const query = async () => {
           try {
-              filledSpot = await this.pollOrder(spotInstId, spotOrderId);
+              const orders = await this.request(`/api/v5/trade/order?instId=${instId}&clOrdId=${clOrdId}`);
+              return orders[0] ?? null;
           } catch (e) {
-              // 超时也不要紧，只要成交了部分或全部，我们后续按实际成交量开合约
-              console.warn("Spot order polling timeout/error. Checking status...");
+              if (e instanceof Error && e.message.includes('51603')) return null; // Order does not exist
+              throw e;
           }
-          
-          // 重新查询订单确认成交量
-          const checkOrder = await this.request(`/api/v5/trade/order?instId=${spotInstId}&ordId=${spotOrderId}`);
-          const actualSpotFilled = parseFloat(checkOrder[0]?.accFillSz || '0');
-
-          if (actualSpotFilled <= 0) {
-              return { success: false, message: "Spot buy failed (No fill)." };
-          }
-
-          // 7. 根据实际现货成交量重新计算合约 (Double Safe)
-          // 虽然我们计算得很精准，但防止交易所因为某种原因没完全成交
-          // Contracts = Floor(ActualSpot / ctVal)
-          const safeContracts = Math.floor(actualSpotFilled / ctVal);
-
-          if (safeContracts < 1) {
-              // 极端情况：买入失败回滚
-              await this.request('/api/v5/trade/order', 'POST', { 
-                 instId: spotInstId, tdMode: 'cross', side: 'sell', ordType: 'market', tgtCcy: 'base_ccy', sz: actualSpotFilled.toString()
-              });
-              return { success: false, message: `成交现货 ${actualSpotFilled} 不足1张合约，已回滚。` };
+      };
+      let order = await query();
+      if (order && (order.state === 'live' || order.state === 'partially_filled')) {
+          try {
+              await this.request('/api/v5/trade/cancel-order', 'POST', { instId, clOrdId });
+          } catch (e) {
+              // 撤单时恰好成交 (51400) 等情况以重新查询的状态为准
           }
-
-          // 8. 开空合约
-          await this.request('/api/v5/trade/order', 'POST', {
-              instId: instId,
-              tdMode: 'cross', 
-              side: 'sell', 
-              ordType: 'market',
-              sz: safeContracts.toString()
-          });
-
-          return { 
-              success: true, 
-              message: `[Precision Entry] Spot: ${actualSpotFilled}, Swap: ${safeContracts} (${safeContracts*ctVal}). Delta ~0.` 
-          };
-
-      } catch (e) {
-          return { success: false, message: `Entry Failed: ${e instanceof Error ? e.message : 'Unknown'}` };
+          order = await query();
       }
+      return order ? this.toLegOrderFill(order) : null;
   }
 
   /**
    * 自动再平衡 (Auto-Rebalancing)
    * 扫描持仓，计算 Delta，自动买入补齐或卖出多余现货
+   * 指定 tradeId 时调仓订单以 clOrdId 标记 (序号取时间戳，同一交易可多次调仓)
    */
-  async auditAndRebalance(instId: string): Promise<{ success: boolean; message: string }> {
+  async auditAndRebalance(instId: string, tradeId?: string): Promise<DualSideResult> {
+     const fills: LegFill[] = [];
+     const tag = this.tag(tradeId, 'rebalance', Date.now() % 1e8);
+     const placeAndFill = async (body: any) => {
+         const data = await this.request('/api/v5/trade/order', 'POST', { ...body, ...tag });
+         const fill = data[0]?.ordId ? await this.fetchLegFill(body.instId, data[0].ordId) : null;
+         if (fill) fills.push(fill);
+     };
      try {
          const parts = instId.split('-');
          const baseCcy = parts[0];
          const spotInstId = `${parts[0]}-${parts[1]}`;
 
-         const [positions, assets, swapInsts, spotInsts] = await Promise.all([
+         const [positions, assets, swapInsts, spotInsts, spotFees] = await Promise.all([
              this.getPositions(),
              this.getAccountAssets(),
              this.getInstruments('SWAP'),
-             this.getInstruments('SPOT')
+             this.getInstruments('SPOT'),
+             this.getTradeFeeRates('SPOT')
          ]);
 
          const pos = positions.find(p => p.instId === instId);
-         if (!pos) return { success: false, message: "No position found." };
+         if (!pos) return { success: false, message: "No position found.", fills };
 
          const swapInfo = swapInsts.find(i => i.instId === instId);
          const spotInfo = spotInsts.find(i => i.instId === spotInstId);
-         if (!swapInfo || !spotInfo) return { success: false, message: "Metadata missing." };
+         if (!swapInfo || !spotInfo) return { success: false, message: "Metadata missing.", fills };
 
          const spotAsset = assets.find(a => a.currency === baseCcy);
          const balance = spotAsset ? spotAsset.balance : 0;
@@ -345,7 +651,7 @@ class OKXService {
          // 忽略极小误差 (小于 1/10 的 minSz 或 价值极低)
          const minSpotSz = parseFloat(spotInfo.minSz);
          if (absDiff < minSpotSz * 0.5) {
-             return { success: true, message: "Perfectly balanced." };
+             return { success: true, message: "Perfectly balanced.", fills };
          }
 
          // Case 1: 现货多了 (Excess Spot)
@@ -356,151 +662,139 @@ class OKXService {
              
              if (newContracts >= parseFloat(swapInfo.minSz)) {
                  // 够开新合约 -> 开空
-                 await this.request('/api/v5/trade/order', 'POST', {
+                 await placeAndFill({
                     instId: instId, tdMode: 'cross', side: 'sell', ordType: 'market', sz: newContracts.toString()
                  });
-                 return { success: true, message: `Opened ${newContracts} new contracts to cover excess spot.` };
+                 return { success: true, message: `Opened ${newContracts} new contracts to cover excess spot.`, fills };
              } else {
                  // 不够开合约 -> 扫尘 (卖出多余现货)
                  const sellSz = this.floorToPrecision(diff, spotInfo.lotSz);
                  if (parseFloat(sellSz) >= parseFloat(spotInfo.minSz)) {
-                     await this.request('/api/v5/trade/order', 'POST', {
+                     await placeAndFill({
                         instId: spotInstId, tdMode: 'cross', side: 'sell', ordType: 'market', tgtCcy: 'base_ccy', sz: sellSz
                      });
-                     return { success: true, message: `Sold dust (${sellSz}) to match contracts.` };
+                     return { success: true, message: `Sold dust (${sellSz}) to match contracts.`, fills };
                  }
-                 return { success: true, message: "Dust too small to sell." };
+                 return { success: true, message: "Dust too small to sell.", fills };
              }
          } 
          // Case 2: 现货少了 (Deficit Spot - Naked Short Risk)
          else {
             const shortage = absDiff;
-            // 补单需考虑手续费
-            const estimatedFeeRate = 0.001;
-            const rawBuySize = shortage / (1 - estimatedFeeRate);
+            // 补单为市价单，按账户现货 taker 费率计入以币扣除的手续费
+            const rawBuySize = shortage / (1 - Math.max(spotFees.taker, 0));
             const buySz = this.ceilToPrecision(rawBuySize, spotInfo.lotSz);
             
             if (parseFloat(buySz) >= parseFloat(spotInfo.minSz)) {
-                await this.request('/api/v5/trade/order', 'POST', {
+                await placeAndFill({
                     instId: spotInstId, tdMode: 'cross', side: 'buy', ordType: 'market', tgtCcy: 'base_ccy', sz: buySz
                 });
-                return { success: true, message: `Bought ${buySz} spot to cover naked short.` };
+                return { success: true, message: `Bought ${buySz} spot to cover naked short.`, fills };
             }
             
-            // 如果缺口实在太小买不了，可能需要平掉一张合约来平衡 (暂不实现，优先买入)
-            return { success: false, message: "Shortage too small to buy, but exists." };
+            // 缺口小于现货最小下单量：买入平空减少合约张数 (向上取整)，再卖出因此多出的现货
+            const trimSz = this.ceilToPrecision(shortage / ctVal, swapInfo.lotSz);
+            if (parseFloat(trimSz) >= parseFloat(swapInfo.minSz) && parseFloat(trimSz) <= contracts) {
+                await placeAndFill({
+                    instId: instId, tdMode: 'cross', side: 'buy', ordType: 'market', sz: trimSz, reduceOnly: true
+                });
+                const excessSz = this.floorToPrecision(parseFloat(trimSz) * ctVal - shortage, spotInfo.lotSz);
+                if (parseFloat(excessSz) >= minSpotSz) {
+                    await placeAndFill({
+                        instId: spotInstId, tdMode: 'cross', side: 'sell', ordType: 'market', tgtCcy: 'base_ccy', sz: excessSz
+                    });
+                }
+                return { success: true, message: `Trimmed ${trimSz} contracts to cover a shortage below spot minSz (${shortage}).`, fills };
+            }
+            return { success: false, message: "Shortage too small to buy or trim.", fills };
          }
 
      } catch (e) {
-         return { success: false, message: `Rebalance Error: ${e instanceof Error ? e.message : 'Unknown'}` };
+         return { success: false, message: `Rebalance Error: ${e instanceof Error ? e.message : 'Unknown'}`, fills };
      }
   }
 
-  async executeDualSideExit(
-      instId: string, 
-      swapInstrument: Instrument,
-      posSizeContracts: string 
-  ): Promise<{ success: boolean; message: string }> {
-      const parts = instId.split('-');
-      const spotInstId = `${parts[0]}-${parts[1]}`;
-      const contracts = Math.abs(parseInt(posSizeContracts));
+  /**
+   * 账户保证金率 (倍数) 与维持保证金；没有持仓或负债时 OKX 返回空的 mgnRatio，此时为 null。
+   * 查询失败时抛出异常 (风控不能把失败当作安全)
+   */
+  async getMarginSummary(): Promise<{ marginRatio: number | null; totalEq: number; maintMargin: number }> {
+    const data = await this.request('/api/v5/account/balance');
+    const ratio = parseFloat(data[0]?.mgnRatio);
+    return {
+      marginRatio: isNaN(ratio) ? null : ratio,
+      totalEq: parseFloat(data[0]?.totalEq || '0'),
+      maintMargin: parseFloat(data[0]?.mmr || '0')
+    };
+  }
 
-      try {
-          // 1. 平合约
-          const swapPromise = this.request('/api/v5/trade/close-position', 'POST', { instId: instId, mgnMode: 'cross' });
-          
-          // 2. 卖现货 (全卖，不论多少，扫清残余)
-          // 获取当前持仓余额
-          const spotAsset = (await this.getAccountAssets()).find(a => a.currency === parts[0]);
-          const balance = spotAsset ? spotAsset.balance : 0;
-          
-          const spotInsts = await this.getInstruments('SPOT');
-          const spotInfo = spotInsts.find(i => i.instId === spotInstId);
-          
-          let spotPromise = Promise.resolve();
-          if (balance > 0 && spotInfo) {
-              const sellSz = this.floorToPrecision(balance, spotInfo.lotSz);
-              if (parseFloat(sellSz) >= parseFloat(spotInfo.minSz)) {
-                spotPromise = this.request('/api/v5/trade/order', 'POST', {
-                    instId: spotInstId,
-                    tdMode: 'cross',
-                    side: 'sell',
-                    ordType: 'market',
-                    tgtCcy: 'base_ccy',
-                    sz: sellSz
-                });
-              }
-          }
+  /** 资金账户 (funding) 中可划转的余额 */
+  async getFundingBalance(ccy: string): Promise<number> {
+    const data = await this.request(`/api/v5/asset/balances?ccy=${ccy}`);
+    return parseFloat(data.find((b: any) => b.ccy === ccy)?.availBal || '0');
+  }
 
-          await Promise.all([swapPromise, spotPromise]);
-          return { success: true, message: `Exit Success` };
-      } catch (e) {
-          return { success: false, message: `Exit Error: ${e instanceof Error ? e.message : 'Unknown'}` };
-      }
+  /** 从资金账户 (6) 划转到交易账户 (18)，增加全仓保证金 */
+  async transferToTrading(ccy: string, amount: number): Promise<void> {
+    await this.request('/api/v5/asset/transfer', 'POST', { ccy, amt: amount.toFixed(2), from: '6', to: '18' });
   }
 
+  /**
+   * 账户、持仓与订单查询失败 (重试用尽) 时抛出异常，不返回空列表：
+   * 风控、敞口与急停平仓会把空列表当作"没有持仓"，在接口故障时放开限制或误报平仓完成。
+   */
   async getAccountAssets(): Promise<Asset[]> {
-    if (!this.config?.apiKey) return [];
-    try {
-        const data = await this.request('/api/v5/account/balance');
-        const details = data[0]?.details || [];
-        const assets = details.map((d: any) => ({
-            currency: d.ccy,
-            balance: parseFloat(d.cashBal),
-            available: parseFloat(d.availBal), // 关键：这是真实的可用现金
-            equityUsd: parseFloat(d.eqUsd) 
-        })).filter((a: Asset) => a.equityUsd > 1 || a.balance > 0);
-        
-        assets.push({
-            currency: 'ACCOUNT_AVAIL_EQ',
-            balance: parseFloat(data[0].availEq || '0'),
-            available: parseFloat(data[0].availEq || '0'),
-            equityUsd: parseFloat(data[0].availEq || '0')
-        });
-
-        return assets;
-    } catch (e) { return []; }
+    if (!this.config) return [];
+    const data = await this.request('/api/v5/account/balance');
+    const details = data[0]?.details || [];
+    const assets: Asset[] = details.map(parseAssetDetail).filter(isVisibleAsset);
+    assets.push(availEqAsset(data[0]?.availEq));
+    return assets;
   }
 
   async getPositions(): Promise<Position[]> {
-    if (!this.config?.apiKey) return [];
-    try {
-        const data = await this.request('/api/v5/account/positions');
-        return data.map((p: any) => ({
-            instId: p.instId,
-            pos: p.pos,
-            avgPx: p.avgPx,
-            upl: p.upl,
-            uplRatio: p.uplRatio,
-            lever: p.lever,
-            liqPx: p.liqPx || '0',
-            mgnMode: p.mgnMode,
-            cTime: parseInt(p.cTime)
-        }));
-    } catch (e) { return []; }
+    if (!this.config) return [];
+    const data = await this.request('/api/v5/account/positions');
+    return data.map(parsePosition);
   }
 
+  /** live 按 ordId 游标翻页取全部挂单；history 只取最近 20 条 */
   async getOrders(state: 'live' | 'history' = 'live'): Promise<Order[]> {
-    if (!this.config?.apiKey) return [];
-    const endpoint = state === 'live' ? '/api/v5/trade/orders-pending' : '/api/v5/trade/orders-history?limit=20';
-    try {
-        const data = await this.request(endpoint);
-        return data.map((o: any) => ({
-            ordId: o.ordId,
-            clOrdId: o.clOrdId,
-            instId: o.instId,
-            side: o.side,
-            ordType: o.ordType,
-            sz: o.sz,
-            px: o.px,
-            state: o.state,
-            cTime: parseInt(o.cTime),
-            fillSz: o.fillSz,
-            accFillSz: o.accFillSz, 
-            fillPx: o.fillPx
-        }));
-    } catch (e) { return []; }
+    if (!this.config) return [];
+    if (state === 'history') {
+      return (await this.request('/api/v5/trade/orders-history?limit=20')).map(parseOrder);
+    }
+    const orders: Order[] = [];
+    for (let page = 0; page < MAX_PENDING_PAGES; page++) {
+      const after = orders.length > 0 ? `&after=${orders[orders.length - 1].ordId}` : '';
+      const data = await this.request(`/api/v5/trade/orders-pending?limit=100${after}`);
+      orders.push(...data.map(parseOrder));
+      if (data.length < 100) break;
+    }
+    return orders;
+  }
+
+  /**
+   * 资金费账单 (account/bills, type=8)，按 billId 从新到旧返回，最多 100 条。
+   * after 为分页游标：返回比该 billId 更早的记录。请求失败直接抛出，由调用方决定是否重试。
+   */
+  async getFundingBills(after?: string): Promise<FundingBill[]> {
+    const query = `type=8&limit=100${after ? `&after=${after}` : ''}`;
+    const data = await this.request(`/api/v5/account/bills?${query}`);
+    return data.map((b: any) => {
+      const amount = parseFloat(b.balChg);
+      const isStable = ['USDT', 'USDC', 'USD'].includes(b.ccy);
+      return {
+        billId: b.billId,
+        instId: b.instId,
+        ccy: b.ccy,
+        amount,
+        // 币本位合约的资金费以币计价，按账单价格折算
+        amountUsd: isStable ? amount : amount * (parseFloat(b.px) || 0),
+        ts: parseInt(b.ts)
+      };
+    });
   }
 }
 
-export const okxService = new OKXService();
\ No newline at end of file
+export const okxService = new OKXService<OKXProfileRef>(proxyTransport);
\ No newline at end of file
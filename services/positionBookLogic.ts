@@ -0,0 +1,105 @@
+import { LegFill, PairBookEntry, PairPnLReport, FundingPayment } from '../types';
+
+/**
+ * 持仓账本的记账逻辑 (无 IO)：现货按加权平均成本，合约按开仓均价，
+ * 手续费与资金费单独累计，不摊入成本。
+ */
+
+const QUOTE_CCYS = ['USDT', 'USDC', 'USD'];
+
+/**
+ * 由 OKX 订单原始数据生成成交记录，未成交返回 null。
+ * 现货买单的手续费以币扣除 (fee 为负)，实际入账数量 = accFillSz + fee；手续费统一折算为 USD。
+ */
+export const legFillFromOrder = (order: any): LegFill | null => {
+  const filled = parseFloat(order.accFillSz || '0');
+  if (!(filled > 0)) return null;
+  const px = parseFloat(order.avgPx || order.fillPx || '0');
+  const fee = parseFloat(order.fee || '0');
+  const feeInQuote = !order.feeCcy || QUOTE_CCYS.includes(order.feeCcy);
+  const isSpot = !order.instId.endsWith('-SWAP');
+  const feeInBase = isSpot && !feeInQuote;
+  return {
+    instId: order.instId,
+    ordId: order.ordId,
+    side: order.side,
+    sz: feeInBase ? filled + fee : filled,
+    px,
+    feeUsd: -fee * (feeInQuote ? 1 : px),
+    ts: parseInt(order.uTime || order.cTime) || Date.now(),
+    ...(order.clOrdId ? { clOrdId: order.clOrdId } : {})
+  };
+};
+
+export const createPairBookEntry = (id: string, swapInstId: string, ctVal: number, strategyId: string | undefined, now: number): PairBookEntry => {
+  const [base, quote] = swapInstId.split('-');
+  return {
+    id,
+    swapInstId,
+    spotInstId: `${base}-${quote}`,
+    strategyId,
+    ctVal,
+    spotQty: 0,
+    spotAvgCost: 0,
+    spotRealizedPnl: 0,
+    swapContracts: 0,
+    swapAvgPx: 0,
+    swapRealizedPnl: 0,
+    feesUsd: 0,
+    fills: [],
+    openedAt: now
+  };
+};
+
+/** 记入一笔成交，返回新的账本记录 */
+export const applyLegFill = (entry: PairBookEntry, fill: LegFill): PairBookEntry => {
+  const next: PairBookEntry = { ...entry, fills: [...entry.fills, fill], feesUsd: entry.feesUsd + fill.feeUsd };
+
+  if (fill.instId === entry.spotInstId) {
+    if (fill.side === 'buy') {
+      const qty = entry.spotQty + fill.sz;
+      next.spotAvgCost = qty > 0 ? (entry.spotAvgCost * entry.spotQty + fill.px * fill.sz) / qty : 0;
+      next.spotQty = qty;
+    } else {
+      const sold = Math.min(fill.sz, entry.spotQty);
+      next.spotRealizedPnl = entry.spotRealizedPnl + (fill.px - entry.spotAvgCost) * sold;
+      next.spotQty = entry.spotQty - sold;
+    }
+  } else if (fill.instId === entry.swapInstId) {
+    if (fill.side === 'sell') {
+      const contracts = entry.swapContracts + fill.sz;
+      next.swapAvgPx = (entry.swapAvgPx * entry.swapContracts + fill.px * fill.sz) / contracts;
+      next.swapContracts = contracts;
+    } else {
+      const covered = Math.min(fill.sz, entry.swapContracts);
+      next.swapRealizedPnl = entry.swapRealizedPnl + (entry.swapAvgPx - fill.px) * covered * entry.ctVal;
+      next.swapContracts = entry.swapContracts - covered;
+    }
+  }
+
+  // 减仓成交后合约腿已清零 (正常平仓或开仓失败回滚)
+  const reducing = (fill.instId === entry.spotInstId) === (fill.side === 'sell');
+  if (reducing && next.swapContracts <= 0) next.closedAt = fill.ts;
+  return next;
+};
+
+/** 按最新价估值；已平仓记录的残余现货 (精度尾差) 不计浮动盈亏 */
+export const reportPairPnl = (entry: PairBookEntry, spotPx: number, swapPx: number, payments: FundingPayment[]): PairPnLReport => {
+  const open = !entry.closedAt;
+  const spotUnrealized = open && spotPx > 0 ? (spotPx - entry.spotAvgCost) * entry.spotQty : 0;
+  const swapUnrealized = open && swapPx > 0 ? (entry.swapAvgPx - swapPx) * entry.swapContracts * entry.ctVal : 0;
+  const fundingUsd = payments
+    .filter(p => p.instId === entry.swapInstId && p.ts >= entry.openedAt && (!entry.closedAt || p.ts <= entry.closedAt))
+    .reduce((sum, p) => sum + p.amountUsd, 0);
+  const spotPnl = entry.spotRealizedPnl + spotUnrealized;
+  const swapPnl = entry.swapRealizedPnl + swapUnrealized;
+  return {
+    ...entry,
+    spotPx,
+    swapPx,
+    spotPnl,
+    swapPnl,
+    fundingUsd,
+    netPnl: spotPnl + swapPnl - entry.feesUsd + fundingUsd
+  };
+};
@@ -0,0 +1,89 @@
+/**
+ * OKX REST 限频与重试策略 (无 IO)
+ * 每个接口一个令牌桶，容量与补充速率取自 OKX 文档的限频 (次数 / 时间窗口)；
+ * 公共行情接口按 IP 限频，账户与交易接口按 API Key 限频。
+ * 令牌不足时预支 (令牌数为负)，调用方按返回的等待时间排队，保证并发请求按到达顺序平滑发出。
+ */
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+  scope: 'ip' | 'account';
+}
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** 按 "METHOD path" 配置；未列出的接口使用 DEFAULT_RATE_LIMIT */
+const RATE_LIMITS: Record<string, { limit: number; windowMs: number }> = {
+  'GET /api/v5/market/tickers': { limit: 20, windowMs: 2000 },
+  'GET /api/v5/market/ticker': { limit: 20, windowMs: 2000 },
+  'GET /api/v5/market/books': { limit: 40, windowMs: 2000 },
+  'GET /api/v5/public/funding-rate': { limit: 20, windowMs: 2000 },
+  'GET /api/v5/public/funding-rate-history': { limit: 10, windowMs: 2000 },
+  'GET /api/v5/public/instruments': { limit: 20, windowMs: 2000 },
+  'GET /api/v5/public/open-interest': { limit: 20, windowMs: 2000 },
+  'GET /api/v5/public/time': { limit: 10, windowMs: 2000 },
+  'GET /api/v5/account/balance': { limit: 10, windowMs: 2000 },
+  'GET /api/v5/account/positions': { limit: 10, windowMs: 2000 },
+  'GET /api/v5/account/bills': { limit: 5, windowMs: 1000 },
+  'GET /api/v5/account/config': { limit: 5, windowMs: 2000 },
+  'GET /api/v5/account/trade-fee': { limit: 5, windowMs: 2000 },
+  'POST /api/v5/account/set-leverage': { limit: 20, windowMs: 2000 },
+  'GET /api/v5/asset/balances': { limit: 6, windowMs: 1000 },
+  'POST /api/v5/asset/transfer': { limit: 1, windowMs: 1000 },
+  'POST /api/v5/trade/order': { limit: 60, windowMs: 2000 },
+  'GET /api/v5/trade/order': { limit: 60, windowMs: 2000 },
+  'POST /api/v5/trade/cancel-order': { limit: 60, windowMs: 2000 },
+  'POST /api/v5/trade/close-position': { limit: 20, windowMs: 2000 },
+  'GET /api/v5/trade/orders-pending': { limit: 60, windowMs: 2000 },
+  'GET /api/v5/trade/orders-history': { limit: 40, windowMs: 2000 }
+};
+export const DEFAULT_RATE_LIMIT = { limit: 10, windowMs: 2000 };
+
+export const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 4000;
+const RATE_LIMIT_CODES = ['50011', '50061']; // 请求过于频繁 / 子账户限频
+const TRANSIENT_CODES = ['50001', '50004', '50013', '50026']; // 服务暂不可用 / 接口超时 / 系统繁忙 / 系统错误
+const TRANSIENT_STATUS = [502, 503, 504];
+
+/** 限频与统计的接口标识：方法 + 不含查询参数的路径 */
+export const endpointOf = (method: string, requestPath: string): string =>
+  `${method.toUpperCase()} ${requestPath.split('?')[0]}`;
+
+export const rateLimitRule = (endpoint: string): RateLimitRule => {
+  const path = endpoint.split(' ')[1] ?? '';
+  const scope = path.startsWith('/api/v5/public/') || path.startsWith('/api/v5/market/') ? 'ip' : 'account';
+  return { ...(RATE_LIMITS[endpoint] ?? DEFAULT_RATE_LIMIT), scope };
+};
+
+/**
+ * 取一个令牌 (原地修改 bucket)
+ * @returns 需要等待的毫秒数；0 表示立即发出
+ */
+export const takeToken = (bucket: TokenBucket, rule: RateLimitRule, now: number): number => {
+  const perMs = rule.limit / rule.windowMs;
+  bucket.tokens = Math.min(rule.limit, bucket.tokens + (now - bucket.updatedAt) * perMs);
+  bucket.updatedAt = now;
+  bucket.tokens -= 1;
+  return bucket.tokens >= 0 ? 0 : Math.ceil(-bucket.tokens / perMs);
+};
+
+/**
+ * 是否值得重试
+ * 限频拒绝 (HTTP 429 / 50011) 的请求未被处理，下单也可以安全重试；
+ * 其他临时错误只重试 GET，避免重复下单。
+ */
+export const retryReason = (method: string, status: number, code: string | undefined): 'rate_limit' | 'transient' | null => {
+  if (status === 429 || (code !== undefined && RATE_LIMIT_CODES.includes(code))) return 'rate_limit';
+  if (method.toUpperCase() !== 'GET') return null;
+  if (TRANSIENT_STATUS.includes(status) || (code !== undefined && TRANSIENT_CODES.includes(code))) return 'transient';
+  return null;
+};
+
+/** 指数退避 (0.5s, 1s, 2s ... 上限 4s)，叠加最多 50% 的随机抖动，避免多个请求同时重试 */
+export const retryDelay = (attempt: number, random: number = Math.random()): number =>
+  Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS) * (1 + random * 0.5);
@@ -0,0 +1,77 @@
+import { RiskLevel, StrategyParameters } from '../types';
+
+/**
+ * 空头合约腿的强平风险 (无 IO)
+ * 强平距离 = 空头强平价高出标记价格的比例；账户保证金率 = OKX 返回的 mgnRatio (倍数，1 = 100% 时触发强平)。
+ * 两个阈值：低于 pause 暂停新开仓；低于 reduce 先从资金账户划转保证金，没有可用资金时现货与合约同步减仓。
+ */
+
+export const RISK_CHECK_INTERVAL_MS = 30 * 1000;
+export const RISK_REDUCE_COOLDOWN_MS = 5 * 60 * 1000; // 同一标的两次减仓的最小间隔，等待成交后的保证金重新计算
+export const DEFAULT_PAUSE_LIQ_DISTANCE_PCT = 50;
+export const DEFAULT_REDUCE_LIQ_DISTANCE_PCT = 25;
+export const DEFAULT_PAUSE_MARGIN_RATIO_PCT = 500;
+export const DEFAULT_REDUCE_MARGIN_RATIO_PCT = 200;
+export const DEFAULT_RISK_REDUCE_PCT = 25;
+export const MIN_TOP_UP_USDT = 1;
+
+export interface RiskLimits {
+  pauseLiqDistance: number;
+  reduceLiqDistance: number;
+  pauseMarginRatio: number; // 倍数
+  reduceMarginRatio: number;
+  reduceFraction: number; // 每次减仓的比例
+  autoTopUp: boolean;
+}
+
+const pct = (value: number | undefined, fallback: number): number => (value && value > 0 ? value : fallback) / 100;
+
+export const resolveRiskLimits = (params?: Partial<StrategyParameters>): RiskLimits => {
+  const reduceLiqDistance = pct(params?.reduceLiqDistancePct, DEFAULT_REDUCE_LIQ_DISTANCE_PCT);
+  const reduceMarginRatio = pct(params?.reduceMarginRatioPct, DEFAULT_REDUCE_MARGIN_RATIO_PCT);
+  return {
+    // 暂停阈值不低于减仓阈值
+    pauseLiqDistance: Math.max(pct(params?.pauseLiqDistancePct, DEFAULT_PAUSE_LIQ_DISTANCE_PCT), reduceLiqDistance),
+    reduceLiqDistance,
+    pauseMarginRatio: Math.max(pct(params?.pauseMarginRatioPct, DEFAULT_PAUSE_MARGIN_RATIO_PCT), reduceMarginRatio),
+    reduceMarginRatio,
+    reduceFraction: Math.min(pct(params?.riskReducePct, DEFAULT_RISK_REDUCE_PCT), 1),
+    autoTopUp: params?.autoMarginTopUp !== false
+  };
+};
+
+/** 多个策略共用一个账户：账户级阈值取最严格的一组 */
+export const strictestLimits = (limits: RiskLimits[]): RiskLimits | null => limits.length === 0 ? null : {
+  pauseLiqDistance: Math.max(...limits.map(l => l.pauseLiqDistance)),
+  reduceLiqDistance: Math.max(...limits.map(l => l.reduceLiqDistance)),
+  pauseMarginRatio: Math.max(...limits.map(l => l.pauseMarginRatio)),
+  reduceMarginRatio: Math.max(...limits.map(l => l.reduceMarginRatio)),
+  reduceFraction: Math.max(...limits.map(l => l.reduceFraction)),
+  autoTopUp: limits.every(l => l.autoTopUp)
+};
+
+/** 空头强平距离；没有强平价 (保证金充足时 OKX 返回空) 时为 null */
+export const shortLiqDistance = (markPx: number, liqPx: number): number | null =>
+  markPx > 0 && liqPx > 0 ? (liqPx - markPx) / markPx : null;
+
+/** 数值越低越危险；null 表示没有风险 */
+export const riskLevel = (value: number | null, pause: number, reduce: number): RiskLevel => {
+  if (value === null) return 'ok';
+  if (value < reduce) return 'critical';
+  if (value < pause) return 'warning';
+  return 'ok';
+};
+
+/**
+ * 把强平距离恢复到暂停阈值所需的保证金
+ * 全仓模式下每增加 M 的可用保证金，空头强平价约上移 M / 币数量，即强平距离增加 M / 名义价值
+ */
+export const marginTopUpUsd = (notionalUsd: number, distance: number, targetDistance: number): number =>
+  Math.max(0, notionalUsd * (targetDistance - distance));
+
+/** 按比例减仓的张数 (按 lotSz 向上取整，至少 minSz，不超过持仓) */
+export const reduceContracts = (contracts: number, fraction: number, minSz: number, lotSz: number): number => {
+  const step = lotSz > 0 ? lotSz : 1;
+  const raw = Math.ceil((contracts * fraction) / step - 1e-9) * step;
+  return Math.min(contracts, Math.max(minSz, raw));
+};
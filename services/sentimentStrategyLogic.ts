@@ -0,0 +1,76 @@
+import { StrategyConfig, SentimentSignal, SentimentDirection } from '../types';
+
+/**
+ * AI 情绪择时策略的纯计算逻辑 (无 IO)：置信度换算仓位、敞口上限与止盈止损判定。
+ */
+
+export const DEFAULT_SENTIMENT_INST_IDS = ['BTC-USDT-SWAP', 'ETH-USDT-SWAP', 'SOL-USDT-SWAP'];
+
+export interface SentimentParams {
+  instIds: string[];
+  minConfidence: number;
+  maxTradeUsd: number;
+  maxTotalExposureUsd: number;
+  stopLossPct: number;
+  takeProfitPct: number;
+  leverage: number;
+}
+
+export const resolveSentimentParams = (params: StrategyConfig['parameters']): SentimentParams => ({
+  instIds: params.sentimentInstIds && params.sentimentInstIds.length > 0 ? params.sentimentInstIds : DEFAULT_SENTIMENT_INST_IDS,
+  minConfidence: params.minConfidence || 0.65,
+  maxTradeUsd: params.maxTradeUsd || 500,
+  maxTotalExposureUsd: params.maxTotalExposureUsd || 1500,
+  stopLossPct: params.stopLossPct || 3,
+  takeProfitPct: params.takeProfitPct || 6,
+  leverage: Math.min(Math.max(params.leverage || 1, 1), 5),
+});
+
+/**
+ * 置信度 -> 名义价值：从 minConfidence 到 1 线性放大到 maxTradeUsd，
+ * 再受剩余总敞口约束。未达到 minConfidence 或方向中性时返回 0。
+ */
+export const sizeFromConfidence = (
+  signal: SentimentSignal,
+  params: SentimentParams,
+  currentExposureUsd: number
+): number => {
+  if (signal.direction === 'NEUTRAL' || signal.confidence < params.minConfidence) return 0;
+  const span = 1 - params.minConfidence;
+  const scale = span > 0 ? 0.5 + 0.5 * ((signal.confidence - params.minConfidence) / span) : 1;
+  const remaining = Math.max(0, params.maxTotalExposureUsd - currentExposureUsd);
+  return Math.min(params.maxTradeUsd * scale, remaining);
+};
+
+/** 止损取 AI 建议与参数上限中较紧的一个；止盈优先采用 AI 建议 */
+export const resolveExitLevels = (
+  signal: SentimentSignal,
+  params: SentimentParams
+): { stopLossPct: number; takeProfitPct: number } => ({
+  stopLossPct: signal.stopLossPct && signal.stopLossPct > 0 ? Math.min(signal.stopLossPct, params.stopLossPct) : params.stopLossPct,
+  takeProfitPct: signal.takeProfitPct && signal.takeProfitPct > 0 ? signal.takeProfitPct : params.takeProfitPct,
+});
+
+/** 按方向计算的收益率 (%) */
+export const directionalPnlPct = (direction: Exclude<SentimentDirection, 'NEUTRAL'>, entryPx: number, price: number): number =>
+  (direction === 'LONG' ? price / entryPx - 1 : 1 - price / entryPx) * 100;
+
+export const checkExit = (
+  direction: Exclude<SentimentDirection, 'NEUTRAL'>,
+  entryPx: number,
+  price: number,
+  levels: { stopLossPct: number; takeProfitPct: number }
+): 'STOP_LOSS' | 'TAKE_PROFIT' | null => {
+  const pnlPct = directionalPnlPct(direction, entryPx, price);
+  if (pnlPct <= -levels.stopLossPct) return 'STOP_LOSS';
+  if (pnlPct >= levels.takeProfitPct) return 'TAKE_PROFIT';
+  return null;
+};
+
+/** 信号方向与持仓相反且置信度达标时视为反转 */
+export const isSignalFlip = (
+  heldDirection: Exclude<SentimentDirection, 'NEUTRAL'>,
+  signal: SentimentSignal | undefined,
+  params: SentimentParams
+): boolean =>
+  !!signal && signal.direction !== 'NEUTRAL' && signal.direction !== heldDirection && signal.confidence >= params.minConfidence;
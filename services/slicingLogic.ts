@@ -0,0 +1,59 @@
+import { OrderBook, StrategyParameters } from '../types';
+
+/**
+ * 分片执行 (TWAP) 的纯计算逻辑 (无 IO)
+ * 每片先按剩余数量均分，再以两条腿中较薄一侧的盘口深度封顶，避免单片吃穿盘口；
+ * 因深度不足推迟的数量顺延到后续分片，分片数最多扩展到计划的 2 倍，最后一片成交全部剩余数量。
+ */
+
+export const DEFAULT_SLICE_WINDOW_SEC = 300;
+export const DEFAULT_SLICE_DEPTH_PCT = 25;
+export const SLICE_DEPTH_BAND = 0.002; // 统计最优价 0.2% 以内的深度
+export const MAX_SLICES = 50;
+
+export interface SlicingParams {
+  count: number;
+  intervalMs: number;
+  depthPct: number;
+}
+
+/** 未配置或片数 ≤ 1 时返回 null (不拆分) */
+export const resolveSlicing = (params?: Partial<StrategyParameters>): SlicingParams | null => {
+  const count = Math.min(Math.floor(params?.sliceCount || 1), MAX_SLICES);
+  if (count <= 1) return null;
+  const windowSec = params?.sliceWindowSec && params.sliceWindowSec > 0 ? params.sliceWindowSec : DEFAULT_SLICE_WINDOW_SEC;
+  const depthPct = params?.sliceDepthPct && params.sliceDepthPct > 0 ? Math.min(params.sliceDepthPct, 100) : DEFAULT_SLICE_DEPTH_PCT;
+  return { count, intervalMs: (windowSec * 1000) / count, depthPct };
+};
+
+/** 某一侧最优价 band 范围内的挂单数量合计 */
+export const depthWithin = (book: OrderBook, side: 'bids' | 'asks', band: number = SLICE_DEPTH_BAND): number => {
+  const levels = book[side];
+  if (levels.length === 0) return 0;
+  const best = levels[0][0];
+  const limit = side === 'asks' ? best * (1 + band) : best * (1 - band);
+  return levels
+    .filter(([px]) => (side === 'asks' ? px <= limit : px >= limit))
+    .reduce((sum, [, sz]) => sum + sz, 0);
+};
+
+/**
+ * 下一片的合约张数
+ * @param remaining 剩余张数
+ * @param slicesLeft 剩余的片数 (含本片)；计划片数用完后按扩展后的上限计算
+ * @param depthContracts 两条腿中较薄一侧折算成张数的深度
+ * @param isLast 已到分片上限，本片成交全部剩余
+ */
+export const nextSliceContracts = (
+  remaining: number,
+  slicesLeft: number,
+  depthContracts: number,
+  depthPct: number,
+  minContracts: number,
+  isLast: boolean
+): number => {
+  if (isLast) return remaining;
+  const even = Math.ceil(remaining / Math.max(slicesLeft, 1));
+  const cap = Math.floor(depthContracts * depthPct / 100);
+  return Math.min(remaining, Math.max(minContracts, Math.min(even, cap)));
+};
@@ -0,0 +1,137 @@
+import { OrderBook, StrategyParameters } from '../types';
+import { DEFAULT_SPOT_FEE_RATE, DEFAULT_SWAP_FEE_RATE, ENTRY_LEG_SPLIT } from './fundingStrategyLogic';
+
+/**
+ * 开仓前的滑点与深度预估 (无 IO)
+ * 按当前盘口逐档模拟两条腿的市价成交，平仓按同一盘口的反方向估算，
+ * 往返成本 = 四次成交相对中间价的滑点 + 双边往返手续费，与持有期内预期资金费收入比较。
+ */
+
+export const DEFAULT_EXPECTED_HOLD_PERIODS = 21; // 预期持有 21 次结算 (7 天)
+export const DEFAULT_MAX_ENTRY_COST_PCT = 80;
+export const ORDER_BOOK_DEPTH = 100;
+const DOWNSIZE_STEP = 0.5;
+const MAX_DOWNSIZE_STEPS = 6;
+
+export interface EntryCostLimits {
+  holdPeriods: number;
+  maxCostToFunding: number; // 0 = 不检查
+}
+
+export const resolveEntryCostLimits = (params?: Partial<StrategyParameters>): EntryCostLimits => ({
+  holdPeriods: params?.expectedHoldPeriods && params.expectedHoldPeriods > 0 ? params.expectedHoldPeriods : DEFAULT_EXPECTED_HOLD_PERIODS,
+  maxCostToFunding: (params?.maxEntryCostPct ?? DEFAULT_MAX_ENTRY_COST_PCT) / 100
+});
+
+export interface LegSlippage {
+  avgPx: number;
+  slippage: number; // 相对中间价的不利偏离比例；盘口深度不足时为 Infinity
+}
+
+export interface EntryCostEstimate {
+  investAmt: number;
+  contracts: number;
+  notionalUsd: number;
+  spotEntry: LegSlippage;
+  swapEntry: LegSlippage;
+  spotExit: LegSlippage;
+  swapExit: LegSlippage;
+  feeRate: number; // 往返手续费率
+  costRate: number; // 往返总成本占名义价值的比例
+  expectedFundingRate: number; // 持有期内预期资金费收入占名义价值的比例
+  costToFunding: number; // costRate / expectedFundingRate
+}
+
+export interface EntryCostSettings {
+  fundingRate: number;
+  holdPeriods: number;
+  ctVal: number;
+  slices?: number; // 分片执行时每片只吃 1/N，盘口在分片间隔内恢复
+  spotFeeRate?: number;
+  swapFeeRate?: number;
+}
+
+const midPrice = (book: OrderBook): number =>
+  book.bids.length > 0 && book.asks.length > 0 ? (book.bids[0][0] + book.asks[0][0]) / 2 : NaN;
+
+/** 按盘口逐档成交 qty (与盘口数量同单位)，返回成交均价与相对中间价的滑点 */
+export const walkBook = (book: OrderBook, side: 'buy' | 'sell', qty: number): LegSlippage => {
+  const mid = midPrice(book);
+  const levels = side === 'buy' ? book.asks : book.bids;
+  if (isNaN(mid) || qty <= 0) return { avgPx: mid, slippage: isNaN(mid) ? Infinity : 0 };
+  let left = qty;
+  let cost = 0;
+  for (const [px, sz] of levels) {
+    const take = Math.min(left, sz);
+    cost += take * px;
+    left -= take;
+    if (left <= 0) break;
+  }
+  if (left > 1e-12) return { avgPx: NaN, slippage: Infinity };
+  const avgPx = cost / qty;
+  return { avgPx, slippage: side === 'buy' ? (avgPx - mid) / mid : (mid - avgPx) / mid };
+};
+
+/**
+ * 一次开仓的往返成本估算
+ * 合约张数与实际下单一致 (按 ENTRY_LEG_SPLIT 取整)；合约盘口数量单位为张，现货为币
+ */
+export const estimateEntryCost = (
+  spotBook: OrderBook,
+  swapBook: OrderBook,
+  investAmt: number,
+  settings: EntryCostSettings
+): EntryCostEstimate => {
+  const mid = midPrice(swapBook);
+  const contracts = Math.floor((investAmt * ENTRY_LEG_SPLIT) / (settings.ctVal * mid));
+  const slices = Math.max(1, settings.slices ?? 1);
+  const swapQty = contracts / slices;
+  const spotQty = (contracts * settings.ctVal) / slices;
+
+  const spotEntry = walkBook(spotBook, 'buy', spotQty);
+  const swapEntry = walkBook(swapBook, 'sell', swapQty);
+  const spotExit = walkBook(spotBook, 'sell', spotQty);
+  const swapExit = walkBook(swapBook, 'buy', swapQty);
+  const feeRate = 2 * ((settings.spotFeeRate ?? DEFAULT_SPOT_FEE_RATE) + (settings.swapFeeRate ?? DEFAULT_SWAP_FEE_RATE));
+  const costRate = contracts > 0
+    ? spotEntry.slippage + swapEntry.slippage + spotExit.slippage + swapExit.slippage + feeRate
+    : Infinity;
+  const expectedFundingRate = settings.fundingRate * settings.holdPeriods;
+
+  return {
+    investAmt,
+    contracts,
+    notionalUsd: contracts * settings.ctVal * mid,
+    spotEntry, swapEntry, spotExit, swapExit,
+    feeRate,
+    costRate,
+    expectedFundingRate,
+    costToFunding: expectedFundingRate > 0 ? costRate / expectedFundingRate : Infinity
+  };
+};
+
+/**
+ * 成本超出上限时按一半逐步缩小投入，直到满足上限或低于最小投入
+ * 手续费率与规模无关，只有滑点随规模下降，因此手续费本身超限时直接放弃
+ * @returns 满足条件的估算 (investAmt 为缩小后的金额)；无法满足时 approved 为 null，last 为最后一次估算
+ */
+export const fitEntrySize = (
+  investAmt: number,
+  minInvest: number,
+  maxCostToFunding: number,
+  estimate: (amount: number) => EntryCostEstimate
+): { approved: EntryCostEstimate | null; last: EntryCostEstimate } => {
+  let last = estimate(investAmt);
+  if (last.costToFunding <= maxCostToFunding) return { approved: last, last };
+  if (last.feeRate >= last.expectedFundingRate * maxCostToFunding) return { approved: null, last };
+
+  let amount = investAmt;
+  for (let i = 0; i < MAX_DOWNSIZE_STEPS; i++) {
+    amount *= DOWNSIZE_STEP;
+    if (amount < minInvest) break;
+    last = estimate(amount);
+    if (last.contracts === 0) break;
+    if (last.costToFunding <= maxCostToFunding) return { approved: last, last };
+  }
+  return { approved: null, last };
+};
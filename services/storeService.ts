@@ -0,0 +1,42 @@
+import { StrategyConfig, StrategyRevision, LogEntry, AnalysisRecord } from '../types';
+
+/**
+ * 服务端持久化存储客户端 (策略配置、编辑历史、日志、AI 分析)。
+ */
+const storeRequest = async (endpoint: string, method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET', body?: any) => {
+  const res = await fetch(`/api${endpoint}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const json = await res.json();
+  if (json.code !== '0') {
+    throw new Error(`Store API Error (${json.code}): ${json.msg}`);
+  }
+  return json.data;
+};
+
+export const fetchStrategies = async (): Promise<StrategyConfig[]> => {
+  return storeRequest('/strategies');
+};
+
+export const saveStrategy = async (strategy: StrategyConfig): Promise<StrategyConfig> => {
+  return storeRequest(`/strategies/${encodeURIComponent(strategy.id)}`, 'PUT', strategy);
+};
+
+/** 删除策略：服务端会先停止引擎中的策略并释放其持仓归属 */
+export const deleteStrategy = async (id: string): Promise<void> => {
+  await storeRequest(`/strategies/${encodeURIComponent(id)}`, 'DELETE');
+};
+
+export const fetchStrategyHistory = async (id: string): Promise<StrategyRevision[]> => {
+  return storeRequest(`/strategies/${encodeURIComponent(id)}/history`);
+};
+
+export const appendLog = async (entry: LogEntry): Promise<void> => {
+  await storeRequest('/logs', 'POST', entry);
+};
+
+export const fetchAnalyses = async (limit = 50): Promise<AnalysisRecord[]> => {
+  return storeRequest(`/analyses?limit=${limit}`);
+};
@@ -0,0 +1,19 @@
+import { StreamEvent } from '../types';
+
+const EVENT_TYPES: StreamEvent['type'][] = ['status', 'market', 'positions', 'account', 'orders'];
+
+/**
+ * 实时推送客户端：订阅 /api/stream (Server-Sent Events)。
+ * 服务端合并 OKX WebSocket 推送后转发；断线时 EventSource 自动重连，重连后先收到完整快照。
+ * @returns 关闭连接的函数
+ */
+export const openStream = (onEvent: (event: StreamEvent) => void, onError?: () => void): (() => void) => {
+  const source = new EventSource('/api/stream');
+  EVENT_TYPES.forEach(type => {
+    source.addEventListener(type, e => {
+      onEvent({ type, data: JSON.parse((e as MessageEvent).data) } as StreamEvent);
+    });
+  });
+  if (onError) source.onerror = onError;
+  return () => source.close();
+};
@@ -0,0 +1,71 @@
+import { LegFill, PairPnLReport, TradeJournalEntry, TradeJournalLeg, TradePhase } from '../types';
+
+/**
+ * 交易日志 (无 IO)
+ * 引擎为每组套利生成一个交易编号，开仓/调仓/平仓的每张订单以 clOrdId = 交易编号 + 阶段 + 序号 标记，
+ * 例如 qxmvfll0uzab12e1 (开仓第 1 单)。OKX 的 clOrdId 只允许字母数字，最长 32 位。
+ */
+
+const TRADE_ID_PREFIX = 'qx';
+const PHASE_CODES: Record<TradePhase, string> = { entry: 'e', rebalance: 'r', exit: 'x' };
+const CL_ORD_ID_PATTERN = /^(qx[a-z0-9]{12})([erx])(\d+)$/;
+
+/** 14 位交易编号：前缀 + 8 位时间戳 (base36) + 4 位随机数 */
+export const newTradeId = (now: number = Date.now()): string => {
+  const time = now.toString(36).padStart(8, '0').slice(-8);
+  const rand = Math.random().toString(36).slice(2, 6).padEnd(4, '0');
+  return `${TRADE_ID_PREFIX}${time}${rand}`;
+};
+
+export const tagClOrdId = (tradeId: string, phase: TradePhase, seq: number): string =>
+  `${tradeId}${PHASE_CODES[phase]}${seq}`;
+
+export const parseClOrdId = (clOrdId?: string): { tradeId: string; phase: TradePhase; seq: number } | null => {
+  const match = clOrdId ? CL_ORD_ID_PATTERN.exec(clOrdId) : null;
+  if (!match) return null;
+  const phase = (Object.keys(PHASE_CODES) as TradePhase[]).find(p => PHASE_CODES[p] === match[2])!;
+  return { tradeId: match[1], phase, seq: parseInt(match[3]) };
+};
+
+/** 未打标签的成交 (账本上线前的记录) 按方向推断阶段：加仓视为开仓，减仓视为平仓 */
+const phaseOf = (fill: LegFill, spotInstId: string): TradePhase => {
+  const tagged = parseClOrdId(fill.clOrdId);
+  if (tagged) return tagged.phase;
+  const reducing = (fill.instId === spotInstId) === (fill.side === 'sell');
+  return reducing ? 'exit' : 'entry';
+};
+
+const vwap = (fills: LegFill[]): number => {
+  const qty = fills.reduce((sum, f) => sum + f.sz, 0);
+  return qty > 0 ? fills.reduce((sum, f) => sum + f.px * f.sz, 0) / qty : 0;
+};
+
+/** 合约均价相对现货均价的基差；任一腿缺失返回 undefined */
+const basisOf = (legs: TradeJournalLeg[], spotInstId: string): number | undefined => {
+  const spotPx = vwap(legs.filter(l => l.instId === spotInstId));
+  const swapPx = vwap(legs.filter(l => l.instId !== spotInstId));
+  return spotPx > 0 && swapPx > 0 ? swapPx / spotPx - 1 : undefined;
+};
+
+export const buildTradeJournal = (reports: PairPnLReport[]): TradeJournalEntry[] =>
+  reports.map(report => {
+    const legs: TradeJournalLeg[] = report.fills.map(f => ({ ...f, phase: phaseOf(f, report.spotInstId) }));
+    const entryLegs = legs.filter(l => l.phase === 'entry');
+    const notionalUsd = entryLegs.filter(l => l.instId === report.spotInstId).reduce((sum, l) => sum + l.px * l.sz, 0);
+    return {
+      tradeId: report.id,
+      swapInstId: report.swapInstId,
+      strategyId: report.strategyId,
+      status: report.closedAt ? 'closed' : 'open',
+      openedAt: report.openedAt,
+      closedAt: report.closedAt,
+      entryBasis: basisOf(entryLegs, report.spotInstId) ?? 0,
+      exitBasis: report.closedAt ? basisOf(legs.filter(l => l.phase === 'exit'), report.spotInstId) : undefined,
+      notionalUsd,
+      feesUsd: report.feesUsd,
+      fundingUsd: report.fundingUsd,
+      netPnl: report.netPnl,
+      returnPct: notionalUsd > 0 ? (report.netPnl / notionalUsd) * 100 : 0,
+      legs
+    };
+  });
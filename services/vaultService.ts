@@ -0,0 +1,43 @@
+import { CredentialProfile, CredentialProfileInput, VaultStatus } from '../types';
+
+/**
+ * 服务端加密凭证库客户端。
+ * 密钥只在注册/更新凭证配置时上传一次，之后浏览器仅引用配置 ID。
+ */
+const vaultRequest = async (endpoint: string, method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET', body?: any) => {
+  const res = await fetch(`/api/vault${endpoint}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const json = await res.json();
+  if (json.code !== '0') {
+    throw new Error(`Vault API Error (${json.code}): ${json.msg}`);
+  }
+  return json.data;
+};
+
+export const fetchVaultStatus = async (): Promise<VaultStatus> => {
+  return vaultRequest('');
+};
+
+export const unlockVault = async (password: string): Promise<VaultStatus> => {
+  return vaultRequest('/unlock', 'POST', { password });
+};
+
+export const createProfile = async (input: CredentialProfileInput): Promise<CredentialProfile> => {
+  return vaultRequest('/profiles', 'POST', input);
+};
+
+export const updateProfile = async (id: string, input: CredentialProfileInput): Promise<CredentialProfile> => {
+  return vaultRequest(`/profiles/${encodeURIComponent(id)}`, 'PUT', input);
+};
+
+export const deleteProfile = async (id: string): Promise<void> => {
+  await vaultRequest(`/profiles/${encodeURIComponent(id)}`, 'DELETE');
+};
+
+/** 空字符串表示清除 DeepSeek Key */
+export const saveDeepseekKey = async (apiKey: string): Promise<VaultStatus> => {
+  return vaultRequest('/deepseek', 'PUT', { apiKey });
+};
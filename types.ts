@@ -17,23 +17,112 @@ export interface OKXConfig {
   isSimulated: boolean;
 }
 
+// --- Auth ---
+
+/** viewer: 只读；operator: 启停策略雷达、编辑配置；trader: 允许交易、调仓、管理凭证与用户 */
+export type UserRole = 'viewer' | 'operator' | 'trader';
+
+export interface AuthUser {
+  username: string;
+  role: UserRole;
+  createdAt: number;
+}
+
+export interface AuthStatus {
+  user: AuthUser | null;
+  needsSetup: boolean; // 尚无任何用户，需创建首个 trader 账户
+}
+
+/** 浏览器端只持有凭证配置的 ID，密钥保存在服务端加密凭证库中 */
+export interface OKXProfileRef {
+  profileId: string;
+}
+
+/** 凭证配置摘要 (不含密钥) */
+export interface CredentialProfile {
+  id: string;
+  name: string;
+  isSimulated: boolean;
+  apiKeyHint: string; // API Key 末 4 位
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** 注册或更新凭证配置；更新时留空的密钥字段保持不变 */
+export interface CredentialProfileInput {
+  name: string;
+  isSimulated: boolean;
+  apiKey?: string;
+  secretKey?: string;
+  passphrase?: string;
+}
+
+export interface VaultStatus {
+  unlocked: boolean;
+  hasDeepseekKey: boolean;
+  profiles: CredentialProfile[];
+}
+
+export type GridSpacing = 'arithmetic' | 'geometric';
+
+/** 双边执行方式：market 市价吃单；maker 在买一/卖一挂 post-only 限价单追价，超时后剩余数量改市价 */
+export type ExecutionMode = 'market' | 'maker';
+
+export interface StrategyParameters {
+  useAI: boolean;
+  scanInterval: number; // seconds
+  // --- ROTATIONAL_FUNDING ---
+  minFundingRate?: number; // e.g. 0.0003
+  minVolume24h?: number; // e.g. 10,000,000
+  rotationThreshold?: number; // e.g. 0.0002 (Diff required to rotate)
+  rotationHoldPeriods?: number; // 轮动手续费按多少次结算摊销 (默认 9 次 = 3 天)
+  exitThreshold?: number; // e.g. 0.0001
+  allocationPct?: number;
+  maxPositions?: number;
+  rateAverageHours?: number; // 候选筛选与排序使用近 N 小时已结算费率的平均值 (默认 0 = 使用即时费率)
+  executionMode?: ExecutionMode; // 默认 market
+  makerRepriceSec?: number; // maker 模式追价间隔 (默认 5 秒)
+  makerTimeoutSec?: number; // maker 模式超时，剩余数量改市价 (默认 60 秒)
+  sliceCount?: number; // 开平仓拆分片数 (默认 1 = 不拆分)
+  sliceWindowSec?: number; // 全部分片的执行时长 (默认 300 秒)
+  sliceDepthPct?: number; // 单片最多占用盘口深度的比例 (默认 25%)
+  expectedHoldPeriods?: number; // 开仓成本检查按多少次结算估算资金费收入 (默认 21 次 = 7 天)
+  maxEntryCostPct?: number; // 预计往返成本 (滑点 + 手续费) 占预期资金费收入的上限 (默认 80%，0 = 不检查)
+  autoRebalance?: boolean; // 后台对冲监控发现偏差超过阈值时自动调仓 (默认开启，交易开关关闭时只告警)
+  rebalanceThresholdUsd?: number; // 现货与合约偏差价值超过此值时调仓 (默认 10 USDT)
+  rebalanceCooldownSec?: number; // 同一标的两次自动调仓的最小间隔 (默认 300 秒)
+  maxRebalancesPerHour?: number; // 同一标的每小时最多自动调仓次数 (默认 4)
+  pauseLiqDistancePct?: number; // 空头强平距离低于此值时暂停新开仓 (默认 50%)
+  reduceLiqDistancePct?: number; // 低于此值时补充保证金或双边减仓 (默认 25%)
+  pauseMarginRatioPct?: number; // 账户保证金率低于此值时暂停新开仓 (默认 500%)
+  reduceMarginRatioPct?: number; // 低于此值时补充保证金或双边减仓 (默认 200%)
+  riskReducePct?: number; // 每次风控减仓的比例 (默认 25%)
+  autoMarginTopUp?: boolean; // 风控先从资金账户划转 USDT 补充保证金 (默认开启)
+  // --- GRID_TRADING ---
+  gridInstId?: string; // e.g. BTC-USDT (现货) 或 BTC-USDT-SWAP (合约，按张)
+  upperPrice?: number;
+  lowerPrice?: number;
+  gridCount?: number; // 网格区间数，价格档位 = gridCount + 1
+  gridSpacing?: GridSpacing;
+  orderSize?: number; // 每格下单量 (现货为币数量，合约为张数)
+  // --- AI_SENTIMENT ---
+  sentimentInstIds?: string[]; // 参与 AI 择时的永续合约
+  minConfidence?: number; // 0-1，低于此置信度不开仓
+  maxTradeUsd?: number; // 单笔名义价值上限
+  maxTotalExposureUsd?: number; // 策略总名义敞口上限
+  stopLossPct?: number; // 止损上限 (%)，AI 建议更宽时以此为准
+  takeProfitPct?: number; // AI 未给出时使用的默认止盈 (%)
+  leverage?: number;
+  [key: string]: any;
+}
+
 export interface StrategyConfig {
   id: string;
   name: string;
   type: StrategyType;
   isActive: boolean; // Radar Switch (Monitoring only)
   isTrading: boolean; // Execution Switch (Allows actual orders)
-  parameters: {
-    minFundingRate: number; // e.g. 0.0003
-    minVolume24h: number; // e.g. 10,000,000
-    rotationThreshold: number; // e.g. 0.0002 (Diff required to rotate)
-    exitThreshold: number; // e.g. 0.0001
-    allocationPct: number;
-    maxPositions: number;
-    useAI: boolean;
-    scanInterval: number; // seconds
-    [key: string]: any;
-  };
+  parameters: StrategyParameters;
   lastRun?: number;
 }
 
@@ -62,6 +151,7 @@ export interface LogEntry {
   level: 'info' | 'warning' | 'error' | 'success';
   source: 'SYSTEM' | 'STRATEGY' | 'AI' | 'OKX';
   message: string;
+  user?: string; // 触发该操作的用户 (后台自动运行产生的日志为空)
 }
 
 export interface Asset {
@@ -79,6 +169,7 @@ export interface Position {
   uplRatio: string; // PnL Ratio
   lever: string;
   liqPx: string; // Liquidation Price
+  markPx: string;
   mgnMode: 'cross' | 'isolated';
   cTime: number;
 }
@@ -88,7 +179,7 @@ export interface Order {
   clOrdId: string;
   instId: string;
   side: 'buy' | 'sell';
-  ordType: 'limit' | 'market';
+  ordType: 'limit' | 'market' | 'post_only';
   sz: string; // Size
   px: string; // Price
   state: 'live' | 'filled' | 'canceled' | 'partially_filled';
@@ -96,6 +187,9 @@ export interface Order {
   fillSz?: string;
   fillPx?: string;
   accFillSz?: string; // Accumulated Fill Size (Critical for split orders)
+  avgPx?: string;
+  fee?: string; // 负数为支出
+  feeCcy?: string;
 }
 
 export interface AIAnalysisResult {
@@ -103,4 +197,558 @@ export interface AIAnalysisResult {
   reasoning: string;
   riskScore: number;
   suggestedPairs: string[];
-}
\ No newline at end of file
+}
+export interface GridCell {
+  index: number;
+  lowerPx: number;
+  upperPx: number;
+  side: 'buy' | 'sell'; // 当前挂单方向：buy 挂在 lowerPx，sell 挂在 upperPx
+  ordId?: string;
+  entryPx?: number; // 该格持仓的开仓均价：卖单格为多头 (库存) 成本，买单格为合约网格的空头开仓价；无持仓时为空
+  filledSz?: number; // 当前方向撤单前已部分成交的数量 (币)，剩余数量重新挂单
+  filledPx?: number; // 部分成交的加权均价
+  realizedProfit: number;
+  roundTrips: number;
+}
+
+export interface GridStatus {
+  instId: string;
+  levels: number[];
+  cells: GridCell[];
+  realizedProfit: number;
+  initialized: boolean;
+}
+
+export type SentimentDirection = 'LONG' | 'SHORT' | 'NEUTRAL';
+
+export interface SentimentFeatures {
+  instId: string;
+  last: number;
+  priceChange24hPct: number;
+  fundingRate: number;
+  volUsdt24h: number;
+  openInterestUsd: number;
+}
+
+export interface SentimentSignal {
+  instId: string;
+  direction: SentimentDirection;
+  confidence: number; // 0-1
+  stopLossPct?: number;
+  takeProfitPct?: number;
+  summary: string;
+  factors: string[];
+  risks: string[];
+}
+
+export interface SentimentAnalysisResult {
+  marketSummary: string;
+  signals: SentimentSignal[];
+  error?: string;
+}
+
+export interface AITradeRecord {
+  id: string;
+  strategyId: string;
+  ts: number;
+  instId: string;
+  action: 'OPEN' | 'CLOSE';
+  direction: Exclude<SentimentDirection, 'NEUTRAL'>;
+  exitReason?: 'STOP_LOSS' | 'TAKE_PROFIT' | 'SIGNAL_FLIP';
+  price: number;
+  contracts: number;
+  notionalUsd: number;
+  pnlPct?: number;
+  stopLossPct: number;
+  takeProfitPct: number;
+  simulated: boolean; // 交易开关关闭时仅记录信号
+  signal: SentimentSignal; // 开仓时 AI 给出的结构化理由
+  features: SentimentFeatures;
+}
+
+export interface StrategyRevision {
+  id: string;
+  strategyId: string;
+  ts: number;
+  action: 'CREATE' | 'UPDATE' | 'DELETE';
+  author: string;
+  config: StrategyConfig; // 该版本的完整配置快照
+}
+
+export interface AnalysisRecord {
+  id: string;
+  ts: number;
+  strategyId: string;
+  result: AIAnalysisResult;
+}
+
+export interface EngineStrategyStatus {
+  id: string;
+  running: boolean; // 服务端雷达循环是否在运行
+  isTrading: boolean;
+  lastRun: number;
+  startedAt: number;
+  ownedInstIds: string[]; // 持仓归属：由该策略管理的标的
+  grid?: GridStatus;
+}
+
+export interface EngineStatus {
+  strategies: EngineStrategyStatus[];
+  logs: LogEntry[];
+  lastAnalysis: AIAnalysisResult | null;
+  aiTrades: AITradeRecord[];
+  profileId: string | null; // 引擎使用的凭证配置
+  hedgeChecks: HedgeCheck[];
+  risk: RiskSnapshot | null;
+  circuitBreaker: CircuitBreakerStatus;
+  exposure: ExposureStatus;
+}
+
+/**
+ * 组合敞口上限 (全局，所有资金费策略共用一个预算)
+ * 百分比均相对账户总权益；各项为 0 时不检查
+ */
+export interface ExposureLimits {
+  maxDeployedPct: number; // 全部套利组合的合约名义价值合计
+  maxPairPct: number; // 单个组合 (集中度)
+  maxAltcoinPct: number; // 非主流币组合合计
+  instrumentCaps: Record<string, number>; // 按永续合约单独设置的名义价值上限 (USDT)
+}
+
+export type ExposureLimitKind = 'deployed' | 'pair' | 'altcoin' | 'instrument';
+
+/** 最近一次开仓前检查时的敞口 */
+export interface ExposureUsage {
+  checkedAt: number;
+  equity: number;
+  deployedUsd: number;
+  altcoinUsd: number;
+  pairs: { instId: string; notionalUsd: number }[];
+}
+
+export interface ExposureStatus {
+  limits: ExposureLimits;
+  usage: ExposureUsage | null;
+}
+
+export type HaltTrigger = 'manual' | 'daily_loss' | 'execution_errors' | 'latency' | 'stale_data';
+
+/** 熔断阈值 (全局，不区分策略)；各项为 0 时不检查 */
+export interface BreakerSettings {
+  dailyLossLimitPct: number; // 当日 (UTC) 权益回撤占日初权益的比例
+  maxExecutionErrors: number; // 30 分钟内双边执行失败次数
+  maxLatencyMs: number; // 连续 3 次检查超过此延迟
+  staleDataSec: number; // 最新行情时间戳距今超过此秒数
+}
+
+/**
+ * 全局急停状态 (持久化，重启后保持)
+ * 触发后所有策略停止、撤销挂单 (可选平掉全部套利组合)，解除前不能启动策略
+ */
+export interface KillSwitchState {
+  halted: boolean;
+  trigger?: HaltTrigger;
+  reason?: string;
+  haltedAt?: number;
+  actor?: string;
+  unwound?: boolean; // 是否已执行全部平仓
+}
+
+/** 熔断器最近一次检查的读数 */
+export interface BreakerReadings {
+  checkedAt: number;
+  latencyMs: number | null; // 请求失败时为 null
+  dataAgeSec: number | null; // 没有行情数据时为 null
+  dayStartEquity: number | null;
+  equity: number | null;
+  dailyLossPct: number; // 正数为亏损
+  recentErrors: number;
+}
+
+export interface CircuitBreakerStatus {
+  killSwitch: KillSwitchState;
+  settings: BreakerSettings;
+  readings: BreakerReadings | null;
+}
+
+export type RiskLevel = 'ok' | 'warning' | 'critical';
+
+/** 单个空头合约腿的强平风险；action 为本次检查的处理 */
+export interface PositionRisk {
+  instId: string;
+  strategyId: string;
+  markPx: number;
+  liqPx: number;
+  liqDistance: number | null; // (强平价 - 标记价格) / 标记价格；没有强平价时为 null
+  notionalUsd: number;
+  level: RiskLevel;
+  action?: 'topped_up' | 'reduced' | 'reduce_failed' | 'cooldown' | 'trading_off';
+  lastActionAt?: number;
+  lastMessage?: string;
+}
+
+/**
+ * 风控最近一次检查 (每 30 秒)
+ * pausedStrategies: 因强平距离或账户保证金率低于暂停阈值而暂停新开仓的策略
+ */
+export interface RiskSnapshot {
+  checkedAt: number;
+  marginRatio: number | null; // OKX mgnRatio (倍数)；没有负债或持仓时为 null
+  marginLevel: RiskLevel;
+  positions: PositionRisk[];
+  pausedStrategies: string[];
+}
+
+/**
+ * 对冲监控对单个资金费套利组合的最近一次检查
+ * action: 本次检查的处理结果；偏差未超过阈值时为空
+ */
+export interface HedgeCheck {
+  instId: string; // 永续合约
+  strategyId: string;
+  spotBalance: number;
+  swapCoinQty: number;
+  deltaAmount: number; // 正数 = 现货多，负数 = 现货不足
+  deltaValue: number;
+  status: 'Perfect' | 'Dusty' | 'Risk';
+  checkedAt: number;
+  action?: 'rebalanced' | 'failed' | 'cooldown' | 'hourly_limit' | 'trading_off' | 'disabled';
+  lastRebalanceAt?: number;
+  lastMessage?: string;
+}
+
+export interface EngineCredentials {
+  okx: OKXConfig;
+  deepseekKey: string;
+}
+
+// --- Funding Ledger ---
+
+/** OKX 账单流水中的资金费记录 (type=8) */
+export interface FundingBill {
+  billId: string;
+  instId: string;
+  ccy: string;
+  amount: number; // 正数为收取，负数为支付
+  amountUsd: number;
+  ts: number;
+}
+
+export interface FundingPayment extends FundingBill {
+  strategyId?: string; // 结算时持有该标的的策略
+}
+
+export interface FundingIncomeByInst {
+  instId: string;
+  totalUsd: number;
+  last24hUsd: number;
+  count: number;
+  lastTs: number;
+}
+
+export interface FundingIncomeByDay {
+  day: string; // UTC 日期 YYYY-MM-DD
+  totalUsd: number;
+}
+
+export interface FundingLedgerSummary {
+  totalUsd: number; // 自开始记录以来
+  last24hUsd: number;
+  byInstId: FundingIncomeByInst[];
+  byDay: FundingIncomeByDay[];
+  byStrategy: Record<string, number>;
+  recent: FundingPayment[];
+  syncedAt: number;
+}
+
+/** 一次已结算的资金费率 (来自 OKX funding-rate-history) */
+export interface FundingRatePoint {
+  fundingTime: number;
+  rate: number;
+}
+
+/** 本地资金费率时间序列 (data/funding-rates.json，每个 USDT 永续一条) */
+export interface FundingRateSeries {
+  instId: string;
+  points: FundingRatePoint[]; // 按 fundingTime 升序
+  predictedRate: number | null; // 当期费率，将在 nextFundingTime 结算
+  nextRate: number | null; // OKX 给出的再下一期预测费率 (可能为空)
+  nextFundingTime: number | null;
+  updatedAt: number;
+}
+
+export interface FundingRateStats {
+  instId: string;
+  predictedRate: number | null;
+  nextRate: number | null;
+  nextFundingTime: number | null;
+  lastRate: number | null; // 最近一次结算费率
+  avg24h: number | null; // 窗口内没有结算记录时为 null
+  avg3d: number | null;
+  avg7d: number | null;
+  intervalHours: number; // 按结算时间间隔推算
+  annualizedPct: number | null; // 按近 7 天平均费率年化 (缺失时用预测费率)
+  samples: number;
+  updatedAt: number;
+}
+
+export interface FundingRateHistory extends FundingRateStats {
+  points: (FundingRatePoint & { avg24h: number; avg7d: number })[]; // 每次结算及截至当时的滚动平均
+}
+
+/** 服务端 OKX WebSocket 连接状态 (public: 行情与资金费率；private: 订单、持仓与账户) */
+export interface StreamStatus {
+  public: boolean;
+  private: boolean;
+}
+
+/** /api/stream (SSE) 向浏览器转发的推送事件 */
+export type StreamEvent =
+  | { type: 'market'; data: TickerData[] }
+  | { type: 'positions'; data: Position[] }
+  | { type: 'account'; data: Asset[] }
+  | { type: 'orders'; data: Order[] }
+  | { type: 'status'; data: StreamStatus };
+
+/** 单个 OKX 接口的请求统计 (服务端限频器与重试)，endpoint 形如 "GET /api/v5/public/funding-rate" */
+export interface OKXEndpointMetrics {
+  endpoint: string;
+  requests: number; // 发出的请求次数 (含重试)
+  throttled: number; // 因本地令牌桶排队的请求数
+  waitMs: number; // 排队等待的总时长
+  rateLimited: number; // 交易所返回 429 / 50011 的次数
+  retries: number;
+  failures: number; // 重试用尽后仍失败的请求数
+  lastError?: string;
+  lastErrorAt?: number;
+}
+
+export interface OKXRequestMetrics {
+  since: number;
+  endpoints: OKXEndpointMetrics[];
+}
+
+/** 账户交易手续费率 (正数为支出，负数为返佣)，来自 /api/v5/account/trade-fee */
+export interface TradeFeeRates {
+  instType: 'SPOT' | 'SWAP';
+  level: string; // 费率等级，如 Lv1；接口失败时为 default
+  maker: number;
+  taker: number;
+  fetchedAt: number;
+}
+
+// --- Position Book ---
+
+/** 套利腿的一笔成交 (来自订单的 accFillSz / avgPx / fee) */
+export interface LegFill {
+  instId: string;
+  ordId: string;
+  side: 'buy' | 'sell';
+  sz: number; // 现货为实际入账的币数量 (已扣除以币计的手续费)，合约为张数
+  px: number; // 成交均价
+  feeUsd: number; // 正数为支出，负数为返佣
+  ts: number;
+  clOrdId?: string; // 交易编号标签，见 services/tradeJournalLogic.ts
+}
+
+/** 单张订单的成交：fill 为记账口径 (现货买入已扣除币本位手续费)，filledSz 为下单口径的累计成交量 */
+export interface LegOrderFill {
+  fill: LegFill | null;
+  filledSz: number;
+}
+
+/** 双边下单结果，fills 包含所有实际成交的腿 (失败回滚时也可能有成交) */
+export interface DualSideResult {
+  success: boolean;
+  message: string;
+  fills: LegFill[];
+}
+
+/** 双边执行中的单腿订单 (maker 模式下拆成多张挂单 + 市价兜底) */
+export interface LegOrderSpec {
+  instId: string;
+  side: 'buy' | 'sell';
+  sz: string;
+  tgtCcy?: 'base_ccy';
+  reduceOnly?: boolean;
+}
+
+/**
+ * 双边执行状态机：
+ * first_leg → second_leg → completed
+ * second_leg 重试耗尽 → unwinding → unwound (回滚首腿) / failed (需人工处理)
+ */
+/** 盘口深度，价格与数量 (现货为币数量，合约为张数) 按最优价排序 */
+export interface OrderBook {
+  instId: string;
+  bids: [number, number][];
+  asks: [number, number][];
+  ts: number;
+}
+
+/** 单次双边执行的下单方式，随执行记录持久化，恢复时沿用 */
+export interface LegExecution {
+  mode: ExecutionMode;
+  repriceMs: number;
+  timeoutMs: number;
+}
+
+export type DualLegState = 'first_leg' | 'second_leg' | 'unwinding' | 'completed' | 'unwound' | 'failed';
+
+/** 持久化的双边执行记录，进程重启后据此恢复未完成的腿 */
+export interface DualLegOperation {
+  id: string; // 交易编号-开仓/平仓(-分片序号)-创建时间
+  tradeId?: string; // 所属交易编号 (早期记录省略，id 即交易编号)
+  slice?: number; // 分片序号 (从 1 开始)，用于区分各分片订单的 clOrdId
+  kind: 'entry' | 'exit';
+  strategyId?: string;
+  swapInstId: string;
+  swapInstrument: Instrument;
+  spotInstrument?: Instrument;
+  state: DualLegState;
+  first: LegOrderSpec;
+  second?: LegOrderSpec; // 开仓时在首腿成交后按实际成交量确定
+  unwind?: LegOrderSpec;
+  execution?: LegExecution; // 缺省为市价
+  attempts: number; // 当前阶段已失败次数
+  legFilledSz?: number; // 当前腿已成交数量 (下单口径，跨重试累计)，剩余数量 = sz - legFilledSz
+  makerOrders?: number; // 本次尝试已发出的 maker 挂单数，用于生成不重复的 clOrdId
+  pendingClOrdId?: string; // 已发出但尚未确认的订单，恢复时先按 clOrdId 查单，避免重复下单
+  fills: LegFill[];
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SliceState = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+/** 分片执行中的一片：一组等量的现货 + 合约订单 */
+export interface SliceProgress {
+  index: number; // 从 1 开始
+  contracts: number;
+  state: SliceState;
+  spotSz?: number;
+  spotPx?: number;
+  swapSz?: number;
+  swapPx?: number;
+  message?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * 分片执行 (TWAP)：把一次开仓或平仓拆成多片，按时间窗口间隔执行，每片按盘口深度定量并先后成交现货与合约
+ * running → completed / partial (部分分片未完成) / failed / interrupted (进程重启，剩余分片不再执行)
+ */
+export interface SlicedExecution {
+  id: string;
+  tradeId: string;
+  kind: 'entry' | 'exit';
+  strategyId?: string;
+  swapInstId: string;
+  totalContracts: number;
+  filledContracts: number;
+  intervalMs: number;
+  status: 'running' | 'completed' | 'partial' | 'failed' | 'interrupted';
+  slices: SliceProgress[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** 一组现货多头 + 永续空头的持仓账本，现货按加权平均成本计价 */
+export interface PairBookEntry {
+  id: string; // 交易编号 (trade id)，该组合所有订单的 clOrdId 以此为前缀
+  swapInstId: string;
+  spotInstId: string;
+  strategyId?: string;
+  ctVal: number;
+  spotQty: number;
+  spotAvgCost: number;
+  spotRealizedPnl: number;
+  swapContracts: number; // 空头张数 (正数)
+  swapAvgPx: number;
+  swapRealizedPnl: number;
+  feesUsd: number;
+  fills: LegFill[];
+  openedAt: number;
+  closedAt?: number; // 合约腿全部平仓的时间
+}
+
+/** 按最新价格估值后的持仓账本，现货盈亏、合约盈亏、手续费与资金费分开列示 */
+export interface PairPnLReport extends PairBookEntry {
+  spotPx: number;
+  swapPx: number;
+  spotPnl: number; // 已实现 + 未实现
+  swapPnl: number;
+  fundingUsd: number; // 持仓期间的已实现资金费
+  netPnl: number; // 现货 + 合约 - 手续费 + 资金费
+}
+
+// --- Trade Journal ---
+
+export type TradePhase = 'entry' | 'rebalance' | 'exit';
+
+export interface TradeJournalLeg extends LegFill {
+  phase: TradePhase;
+}
+
+/** 一笔套利交易：开仓、调仓、平仓的全部订单归于同一个交易编号 */
+export interface TradeJournalEntry {
+  tradeId: string;
+  swapInstId: string;
+  strategyId?: string;
+  status: 'open' | 'closed';
+  openedAt: number;
+  closedAt?: number;
+  entryBasis: number; // 开仓基差 (合约均价 / 现货均价 - 1)
+  exitBasis?: number;
+  notionalUsd: number; // 开仓现货成本
+  feesUsd: number;
+  fundingUsd: number;
+  netPnl: number;
+  returnPct: number; // netPnl / notionalUsd
+  legs: TradeJournalLeg[];
+}
+
+// --- Backtesting ---
+
+export interface FundingHistoryRow {
+  ts: number; // ms
+  instId: string; // e.g. SOL-USDT-SWAP
+  price: number; // Swap last price
+  fundingRate: number;
+  volUsdt24h: number;
+  spotPrice?: number; // 缺省时视为与永续同价
+  ctVal?: number; // 缺省时按连续数量建仓
+}
+
+export interface BacktestSettings {
+  initialCapital: number;
+  spotFeeRate: number; // Spot taker fee
+  swapFeeRate: number; // Swap taker fee
+  fundingIntervalHours: number; // OKX 默认 8 小时结算
+}
+
+export interface BacktestTrade {
+  ts: number;
+  instId: string;
+  action: 'ENTRY' | 'EXIT';
+  price: number;
+  notional: number; // 双腿成交额合计
+  fee: number;
+  fundingEarned?: number; // 仅 EXIT：持仓期间累计资金费
+}
+
+export interface BacktestResult {
+  equityCurve: { ts: number; equity: number }[];
+  finalEquity: number;
+  totalReturnPct: number;
+  fundingIncome: number;
+  feesPaid: number;
+  turnover: number;
+  maxDrawdownPct: number;
+  settlements: number;
+  rotations: number;
+  openPositions: string[];
+  trades: BacktestTrade[];
+}